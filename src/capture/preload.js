@@ -4,6 +4,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Configuration
   loadConfig: () => ipcRenderer.invoke('load-config'),
   saveConfig: (config) => ipcRenderer.invoke('save-config', config),
+  getLanguages: () => ipcRenderer.invoke('get-languages'),
   getAudioDevices: () => ipcRenderer.invoke('get-audio-devices'),
   
   // Authentication (legacy Cognito)
@@ -27,6 +28,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Holyrics integration
   clearHolyrics: () => ipcRenderer.invoke('clear-holyrics'),
   testHolyricsConnection: () => ipcRenderer.invoke('test-holyrics-connection'),
+  testDisplayOutput: (output) => ipcRenderer.invoke('test-display-output', output),
+  clearDisplayOutputs: (id) => ipcRenderer.invoke('clear-display-outputs', id),
   
   // TTS and WebSocket
   connectWebSocket: () => ipcRenderer.invoke('connect-websocket'),
@@ -37,8 +40,28 @@ contextBridge.exposeInMainWorld('electronAPI', {
   setCurrentSession: (config) => ipcRenderer.invoke('set-current-session', config),
   updateSessionConfig: (config) => ipcRenderer.invoke('update-session-config', config),
   updateTTSConfig: (config) => ipcRenderer.invoke('update-tts-config', config),
+  
+  // Terminology / glossary
+  listTerminology: (sourceLanguage) => ipcRenderer.invoke('list-terminology', sourceLanguage),
+  addTerminology: (sourceLanguage, entries) => ipcRenderer.invoke('add-terminology', sourceLanguage, entries),
+  updateTerminology: (entryId, updates) => ipcRenderer.invoke('update-terminology', entryId, updates),
+  deleteTerminology: (entryId, targetLanguage) => ipcRenderer.invoke('delete-terminology', entryId, targetLanguage),
+
+  // Pronunciation lexicon
+  listPronunciations: (language) => ipcRenderer.invoke('list-pronunciations', language),
+  addPronunciations: (entries) => ipcRenderer.invoke('add-pronunciations', entries),
+  updatePronunciation: (entryId, updates) => ipcRenderer.invoke('update-pronunciation', entryId, updates),
+  deletePronunciation: (entryId) => ipcRenderer.invoke('delete-pronunciation', entryId),
+
+  // Voice selection
+  listVoices: (language) => ipcRenderer.invoke('list-voices', language),
+  previewVoice: (language, voiceId, voiceType) => ipcRenderer.invoke('preview-voice', language, voiceId, voiceType),
   getCurrentCosts: () => ipcRenderer.invoke('get-current-costs'),
   resetCostTracking: () => ipcRenderer.invoke('reset-cost-tracking'),
+  selectReplayFile: () => ipcRenderer.invoke('select-replay-file'),
+  selectAudioFile: () => ipcRenderer.invoke('select-audio-file'),
+  validateVocabulary: (vocabulary) => ipcRenderer.invoke('validate-vocabulary', vocabulary),
+  exportVocabulary: (language, vocabulary) => ipcRenderer.invoke('export-vocabulary', language, vocabulary),
   startWebSocketServer: () => ipcRenderer.invoke('start-websocket-server'),
   stopWebSocketServer: () => ipcRenderer.invoke('stop-websocket-server'),
   
@@ -47,6 +70,23 @@ contextBridge.exposeInMainWorld('electronAPI', {
   onTranslation: (callback) => ipcRenderer.on('translation', (_, data) => callback(data)),
   onStreamingError: (callback) => ipcRenderer.on('streaming-error', (_, data) => callback(data)),
   onAudioLevel: (callback) => ipcRenderer.on('audio-level', (_, data) => callback(data)),
+  onTranscriptionEnded: (callback) => ipcRenderer.on('transcription-ended', (_, data) => callback(data)),
+  onTranscriptionRestarted: (callback) => ipcRenderer.on('transcription-restarted', (_, data) => callback(data)),
+  getMonitoring: () => ipcRenderer.invoke('get-monitoring'),
+  onMonitoringUpdated: (callback) => ipcRenderer.on('monitoring-updated', (_, data) => callback(data)),
+  onMonitoringAlert: (callback) => ipcRenderer.on('monitoring-alert', (_, data) => callback(data)),
+  onSourceLanguageChanged: (callback) => ipcRenderer.on('source-language-changed', (_, data) => callback(data)),
+  
+  // Review mode
+  approveSegment: (id, edits) => ipcRenderer.invoke('approve-segment', id, edits),
+  holdSegment: (id) => ipcRenderer.invoke('hold-segment', id),
+  discardSegment: (id) => ipcRenderer.invoke('discard-segment', id),
+  approveAllSegments: () => ipcRenderer.invoke('approve-all-segments'),
+  correctTranslation: (segmentId, corrections) => ipcRenderer.invoke('correct-translation', segmentId, corrections),
+  listBibleTranslations: (directory) => ipcRenderer.invoke('list-bible-translations', directory),
+  onModerationQueued: (callback) => ipcRenderer.on('moderation-queued', (_, data) => callback(data)),
+  onModerationResolved: (callback) => ipcRenderer.on('moderation-resolved', (_, data) => callback(data)),
+  onModerationStats: (callback) => ipcRenderer.on('moderation-stats', (_, data) => callback(data)),
   
   // TTS and WebSocket events
   onPollyUsage: (callback) => ipcRenderer.on('polly-usage', (_, data) => callback(data)),
@@ -57,4 +97,16 @@ contextBridge.exposeInMainWorld('electronAPI', {
   onClientConnected: (callback) => ipcRenderer.on('client-connected', (_, data) => callback(data)),
   onClientDisconnected: (callback) => ipcRenderer.on('client-disconnected', (_, data) => callback(data)),
   onServerStopping: (callback) => ipcRenderer.on('server-stopping', (_, data) => callback(data)),
+  onTerminologyUpdated: (callback) => ipcRenderer.on('terminology-updated', (_, data) => callback(data)),
+  onPronunciationsUpdated: (callback) => ipcRenderer.on('pronunciations-updated', (_, data) => callback(data)),
+  onClientLagUpdate: (callback) => ipcRenderer.on('client-lag-update', (_, data) => callback(data)),
+  onSessionJoinInfo: (callback) => ipcRenderer.on('session-join-info', (_, data) => callback(data)),
+  
+  // Scripted content
+  uploadScript: (title, sourceLanguage, document) => ipcRenderer.invoke('upload-script', title, sourceLanguage, document),
+  getScript: () => ipcRenderer.invoke('get-script'),
+  scriptControl: (action, index) => ipcRenderer.invoke('script-control', action, index),
+  setSessionMode: (mode) => ipcRenderer.invoke('set-session-mode', mode),
+  onScriptProgress: (callback) => ipcRenderer.on('script-progress', (_, data) => callback(data)),
+  onSessionModeChanged: (callback) => ipcRenderer.on('session-mode-changed', (_, data) => callback(data)),
 });
@@ -1,7 +1,7 @@
 // Local analytics types for capture module
 // This avoids cross-directory imports that break TypeScript compilation
 
-export type TargetLanguage = 'en' | 'es' | 'pt' | 'fr' | 'de' | 'it' | 'ja' | 'ko' | 'zh';
+export type TargetLanguage = string;  // Code from the language registry (language-registry.ts)
 
 export interface TTSAnalytics {
   totalRequests: number;
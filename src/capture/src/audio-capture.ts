@@ -9,14 +9,27 @@ interface AudioConfig {
   encoding: string;
   channels: number;
   device?: string;
+  inputFile?: string;   // WAV/FLAC/raw PCM recording to use instead of a live device
+  loop?: boolean;       // Restart the recording when it ends
 }
 
+// Raw files carry no header, so they are read as 16-bit PCM at the configured rate/channels
+const RAW_EXTENSIONS = ['.raw', '.pcm'];
+const PACE_INTERVAL_MS = 100;
+const MAX_DECODED_AHEAD_SECONDS = 5;
+
 export class AudioCapture extends EventEmitter {
   private config: AudioConfig;
   private process: any = null;
   private buffer: Buffer[] = [];
   private totalBytesSent = 0;
   private chunksSent = 0;
+  private fileQueue: Buffer[] = [];
+  private fileQueueBytes = 0;
+  private fileDecodeDone = false;
+  private fileDecodeOk = false;  // The last decode exited cleanly and produced audio, so looping can repeat it
+  private paceTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
 
   constructor(config: AudioConfig) {
     super();
@@ -24,6 +37,13 @@ export class AudioCapture extends EventEmitter {
   }
 
   async start(): Promise<void> {
+    this.stopped = false;
+
+    if (this.config.inputFile) {
+      this.startFile();
+      return;
+    }
+
     const { spawn } = require('child_process');
     const { platform } = require('os');
     
@@ -77,28 +97,148 @@ export class AudioCapture extends EventEmitter {
 
     this.process.stdout.on('data', (chunk: Buffer) => {
       console.log(`[AudioCapture] Captured ${chunk.length} bytes from microphone`);
-      this.buffer.push(chunk);
-      
-      // Calculate audio level (RMS)
-      const level = this.calculateAudioLevel(chunk);
-      this.emit('level', level);
-      
-      // Emit chunks of ~8KB to match Transcribe requirements
-      const totalSize = this.buffer.reduce((sum, b) => sum + b.length, 0);
-      if (totalSize >= 8192) {
-        const data = Buffer.concat(this.buffer);
-        this.buffer = [];
-        this.totalBytesSent += data.length;
-        this.chunksSent++;
-        this.emit('data', data);
-        this.emit('stats', {
-          totalBytes: this.totalBytesSent,
-          chunks: this.chunksSent,
-          lastChunkSize: data.length,
-        });
+      this.handlePcm(chunk);
+    });
+
+    this.attachProcessLogging();
+  }
+
+  /**
+   * Decode a recording with SoX and feed it through the same pipeline as the
+   * microphone, paced to real time so Transcribe sees a live-like stream.
+   */
+  private startFile(): void {
+    const { spawn } = require('child_process');
+    const path = require('path');
+    const inputFile = this.config.inputFile!;
+
+    const inputArgs = RAW_EXTENSIONS.includes(path.extname(inputFile).toLowerCase())
+      ? ['-t', 'raw', '-r', this.config.sampleRate.toString(), '-e', 'signed-integer', '-b', '16', '-c', this.config.channels.toString()]
+      : [];
+
+    const soxArgs = [
+      '--no-show-progress',
+      ...inputArgs,
+      inputFile,
+      '-t', 'raw',
+      '-r', this.config.sampleRate.toString(),
+      '-e', 'signed-integer',
+      '-b', '16',
+      '-c', this.config.channels.toString(),
+      '-'
+    ];
+
+    console.log('[AudioCapture] Decoding audio file with SoX args:', soxArgs);
+    this.fileDecodeDone = false;
+    this.fileDecodeOk = false;
+    this.process = spawn('sox', soxArgs);
+    const decoder = this.process;
+    let decodedBytes = 0;
+
+    decoder.stdout.on('data', (chunk: Buffer) => {
+      decodedBytes += chunk.length;
+      this.fileQueue.push(chunk);
+      this.fileQueueBytes += chunk.length;
+
+      // Don't decode the whole file into memory - stay a few seconds ahead of playback
+      if (this.fileQueueBytes > this.bytesPerSecond() * MAX_DECODED_AHEAD_SECONDS) {
+        decoder.stdout.pause();
       }
     });
 
+    decoder.on('close', (code: number) => {
+      if (this.process === decoder) {
+        this.process = null;
+      }
+      if (code !== 0 && !this.stopped) {
+        this.emit('error', new Error(`SoX could not decode ${inputFile} (exit code ${code})`));
+      } else if (decodedBytes === 0 && !this.stopped) {
+        this.emit('error', new Error(`${inputFile} contains no audio`));
+      }
+      this.fileDecodeOk = code === 0 && decodedBytes > 0;
+      this.fileDecodeDone = true;
+    });
+
+    this.attachProcessLogging();
+
+    if (!this.paceTimer) {
+      this.paceTimer = setInterval(() => this.paceFile(), PACE_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Release one interval's worth of decoded audio
+   */
+  private paceFile(): void {
+    let remaining = Math.round(this.bytesPerSecond() * PACE_INTERVAL_MS / 1000);
+    remaining -= remaining % 2; // Keep 16-bit samples whole
+
+    while (remaining > 0 && this.fileQueue.length > 0) {
+      const head = this.fileQueue[0];
+      const take = Math.min(remaining, head.length);
+      this.handlePcm(head.subarray(0, take));
+
+      if (take === head.length) {
+        this.fileQueue.shift();
+      } else {
+        this.fileQueue[0] = head.subarray(take);
+      }
+      this.fileQueueBytes -= take;
+      remaining -= take;
+    }
+
+    if (this.process && this.fileQueueBytes < this.bytesPerSecond()) {
+      this.process.stdout.resume();
+    }
+
+    if (this.fileDecodeDone && this.fileQueue.length === 0) {
+      // A failed decode would fail again on every tick, so it ends playback even when looping
+      if (this.config.loop && !this.stopped && this.fileDecodeOk) {
+        console.log('[AudioCapture] Audio file ended - looping');
+        this.startFile();
+      } else {
+        console.log('[AudioCapture] Audio file ended');
+        this.flushBuffer();
+        this.clearPaceTimer();
+        this.emit('ended');
+      }
+    }
+  }
+
+  private bytesPerSecond(): number {
+    return this.config.sampleRate * this.config.channels * 2;
+  }
+
+  private handlePcm(chunk: Buffer): void {
+    this.buffer.push(chunk);
+    
+    // Calculate audio level (RMS)
+    const level = AudioCapture.calculateAudioLevel(chunk);
+    this.emit('level', level);
+    
+    // Emit chunks of ~8KB to match Transcribe requirements
+    const totalSize = this.buffer.reduce((sum, b) => sum + b.length, 0);
+    if (totalSize >= 8192) {
+      this.flushBuffer();
+    }
+  }
+
+  private flushBuffer(): void {
+    if (this.buffer.length === 0) return;
+
+    const data = Buffer.concat(this.buffer);
+    this.buffer = [];
+    this.totalBytesSent += data.length;
+    this.chunksSent++;
+    this.emit('data', data);
+    this.emit('stats', {
+      totalBytes: this.totalBytesSent,
+      chunks: this.chunksSent,
+      lastChunkSize: data.length,
+    });
+  }
+
+  private attachProcessLogging(): void {
     // Log stderr output from SoX (warnings, errors only - skip progress updates)
     this.process.stderr.on('data', (data: Buffer) => {
       const message = data.toString().trim();
@@ -122,10 +262,13 @@ export class AudioCapture extends EventEmitter {
     });
   }
 
-  private calculateAudioLevel(buffer: Buffer): number {
+  /**
+   * Audio level (0-100) of a 16-bit PCM chunk, as shown on the level meter
+   */
+  static calculateAudioLevel(buffer: Buffer): number {
     // Calculate RMS (Root Mean Square) for audio level
     let sum = 0;
-    for (let i = 0; i < buffer.length; i += 2) {
+    for (let i = 0; i + 1 < buffer.length; i += 2) {
       const sample = buffer.readInt16LE(i);
       sum += sample * sample;
     }
@@ -134,11 +277,22 @@ export class AudioCapture extends EventEmitter {
     return Math.min(100, (rms / 32768) * 100 * 20);
   }
 
+  private clearPaceTimer(): void {
+    if (this.paceTimer) {
+      clearInterval(this.paceTimer);
+      this.paceTimer = null;
+    }
+  }
+
   stop(): void {
+    this.stopped = true;
+    this.clearPaceTimer();
     if (this.process) {
       this.process.kill();
       this.process = null;
     }
+    this.fileQueue = [];
+    this.fileQueueBytes = 0;
     this.buffer = [];
     this.totalBytesSent = 0;
     this.chunksSent = 0;
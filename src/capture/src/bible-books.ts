@@ -0,0 +1,105 @@
+/**
+ * Canonical book list (USFM codes) with the spoken names used in each supported source language.
+ * Numbered books (1 Corinthians, 2 Kings, ...) list the name without the number; a name that
+ * carries its own number ('1 Mose') belongs to that book only.
+ */
+export interface BibleBook {
+  id: string;        // USFM book code, e.g. 'JHN', '1CO'
+  number?: 1 | 2 | 3;
+  chapters: number;  // Highest chapter number in any common versification
+  names: Record<string, string[]>;  // Base language code -> names, display name first
+}
+
+type Names = [string[], string[], string[], string[], string[], string[]];  // en, pt, es, fr, de, it
+
+const LANGUAGES = ['en', 'pt', 'es', 'fr', 'de', 'it'];
+
+function book(id: string, chapters: number, names: Names, number?: 1 | 2 | 3): BibleBook {
+  const byLanguage: Record<string, string[]> = {};
+  LANGUAGES.forEach((language, index) => { byLanguage[language] = names[index]; });
+  return { id, number, chapters, names: byLanguage };
+}
+
+export const BIBLE_BOOKS: BibleBook[] = [
+  // Old Testament
+  book('GEN', 50, [['Genesis'], ['Gênesis'], ['Génesis'], ['Genèse'], ['Genesis', '1 Mose'], ['Genesi']]),
+  book('EXO', 40, [['Exodus'], ['Êxodo'], ['Éxodo'], ['Exode'], ['Exodus', '2 Mose'], ['Esodo']]),
+  book('LEV', 27, [['Leviticus'], ['Levítico'], ['Levítico'], ['Lévitique'], ['Levitikus', '3 Mose'], ['Levitico']]),
+  book('NUM', 36, [['Numbers'], ['Números'], ['Números'], ['Nombres'], ['Numeri', '4 Mose'], ['Numeri']]),
+  book('DEU', 34, [['Deuteronomy'], ['Deuteronômio'], ['Deuteronomio'], ['Deutéronome'], ['Deuteronomium', '5 Mose'], ['Deuteronomio']]),
+  book('JOS', 24, [['Joshua'], ['Josué'], ['Josué'], ['Josué'], ['Josua'], ['Giosuè']]),
+  book('JDG', 21, [['Judges'], ['Juízes'], ['Jueces'], ['Juges'], ['Richter'], ['Giudici']]),
+  book('RUT', 4, [['Ruth'], ['Rute'], ['Rut'], ['Ruth'], ['Rut'], ['Rut']]),
+  book('1SA', 31, [['Samuel'], ['Samuel'], ['Samuel'], ['Samuel'], ['Samuel'], ['Samuele']], 1),
+  book('2SA', 24, [['Samuel'], ['Samuel'], ['Samuel'], ['Samuel'], ['Samuel'], ['Samuele']], 2),
+  book('1KI', 22, [['Kings'], ['Reis'], ['Reyes'], ['Rois'], ['Könige'], ['Re']], 1),
+  book('2KI', 25, [['Kings'], ['Reis'], ['Reyes'], ['Rois'], ['Könige'], ['Re']], 2),
+  book('1CH', 29, [['Chronicles'], ['Crônicas'], ['Crónicas'], ['Chroniques'], ['Chronik'], ['Cronache']], 1),
+  book('2CH', 36, [['Chronicles'], ['Crônicas'], ['Crónicas'], ['Chroniques'], ['Chronik'], ['Cronache']], 2),
+  book('EZR', 10, [['Ezra'], ['Esdras'], ['Esdras'], ['Esdras'], ['Esra'], ['Esdra']]),
+  book('NEH', 13, [['Nehemiah'], ['Neemias'], ['Nehemías'], ['Néhémie'], ['Nehemia'], ['Neemia']]),
+  book('EST', 10, [['Esther'], ['Ester'], ['Ester'], ['Esther'], ['Ester'], ['Ester']]),
+  book('JOB', 42, [['Job'], ['Jó'], ['Job'], ['Job'], ['Hiob', 'Ijob'], ['Giobbe']]),
+  book('PSA', 150, [['Psalm', 'Psalms'], ['Salmo', 'Salmos'], ['Salmo', 'Salmos'], ['Psaume', 'Psaumes'], ['Psalm', 'Psalmen'], ['Salmo', 'Salmi']]),
+  book('PRO', 31, [['Proverbs'], ['Provérbios'], ['Proverbios'], ['Proverbes'], ['Sprüche', 'Sprichwörter'], ['Proverbi']]),
+  book('ECC', 12, [['Ecclesiastes'], ['Eclesiastes'], ['Eclesiastés'], ['Ecclésiaste'], ['Prediger', 'Kohelet'], ['Ecclesiaste', 'Qoèlet']]),
+  book('SNG', 8, [['Song of Songs', 'Song of Solomon'], ['Cânticos', 'Cantares', 'Cântico dos Cânticos'], ['Cantares', 'Cantar de los Cantares'], ['Cantique des Cantiques'], ['Hoheslied'], ['Cantico dei Cantici']]),
+  book('ISA', 66, [['Isaiah'], ['Isaías'], ['Isaías'], ['Ésaïe', 'Isaïe'], ['Jesaja'], ['Isaia']]),
+  book('JER', 52, [['Jeremiah'], ['Jeremias'], ['Jeremías'], ['Jérémie'], ['Jeremia'], ['Geremia']]),
+  book('LAM', 5, [['Lamentations'], ['Lamentações'], ['Lamentaciones'], ['Lamentations'], ['Klagelieder'], ['Lamentazioni']]),
+  book('EZK', 48, [['Ezekiel'], ['Ezequiel'], ['Ezequiel'], ['Ézéchiel'], ['Hesekiel', 'Ezechiel'], ['Ezechiele']]),
+  book('DAN', 12, [['Daniel'], ['Daniel'], ['Daniel'], ['Daniel'], ['Daniel'], ['Daniele']]),
+  book('HOS', 14, [['Hosea'], ['Oseias'], ['Oseas'], ['Osée'], ['Hosea'], ['Osea']]),
+  book('JOL', 4, [['Joel'], ['Joel'], ['Joel'], ['Joël'], ['Joel'], ['Gioele']]),
+  book('AMO', 9, [['Amos'], ['Amós'], ['Amós'], ['Amos'], ['Amos'], ['Amos']]),
+  book('OBA', 1, [['Obadiah'], ['Obadias'], ['Abdías'], ['Abdias'], ['Obadja'], ['Abdia']]),
+  book('JON', 4, [['Jonah'], ['Jonas'], ['Jonás'], ['Jonas'], ['Jona'], ['Giona']]),
+  book('MIC', 7, [['Micah'], ['Miqueias'], ['Miqueas'], ['Michée'], ['Micha'], ['Michea']]),
+  book('NAM', 3, [['Nahum'], ['Naum'], ['Nahúm'], ['Nahum'], ['Nahum'], ['Naum']]),
+  book('HAB', 3, [['Habakkuk'], ['Habacuque'], ['Habacuc'], ['Habacuc'], ['Habakuk'], ['Abacuc']]),
+  book('ZEP', 3, [['Zephaniah'], ['Sofonias'], ['Sofonías'], ['Sophonie'], ['Zefanja'], ['Sofonia']]),
+  book('HAG', 2, [['Haggai'], ['Ageu'], ['Hageo'], ['Aggée'], ['Haggai'], ['Aggeo']]),
+  book('ZEC', 14, [['Zechariah'], ['Zacarias'], ['Zacarías'], ['Zacharie'], ['Sacharja'], ['Zaccaria']]),
+  book('MAL', 4, [['Malachi'], ['Malaquias'], ['Malaquías'], ['Malachie'], ['Maleachi'], ['Malachia']]),
+
+  // New Testament
+  book('MAT', 28, [['Matthew'], ['Mateus'], ['Mateo'], ['Matthieu'], ['Matthäus'], ['Matteo']]),
+  book('MRK', 16, [['Mark'], ['Marcos'], ['Marcos'], ['Marc'], ['Markus'], ['Marco']]),
+  book('LUK', 24, [['Luke'], ['Lucas'], ['Lucas'], ['Luc'], ['Lukas'], ['Luca']]),
+  book('JHN', 21, [['John'], ['João'], ['Juan'], ['Jean'], ['Johannes'], ['Giovanni']]),
+  book('ACT', 28, [['Acts'], ['Atos'], ['Hechos'], ['Actes'], ['Apostelgeschichte'], ['Atti']]),
+  book('ROM', 16, [['Romans'], ['Romanos'], ['Romanos'], ['Romains'], ['Römer'], ['Romani']]),
+  book('1CO', 16, [['Corinthians'], ['Coríntios'], ['Corintios'], ['Corinthiens'], ['Korinther'], ['Corinzi']], 1),
+  book('2CO', 13, [['Corinthians'], ['Coríntios'], ['Corintios'], ['Corinthiens'], ['Korinther'], ['Corinzi']], 2),
+  book('GAL', 6, [['Galatians'], ['Gálatas'], ['Gálatas'], ['Galates'], ['Galater'], ['Galati']]),
+  book('EPH', 6, [['Ephesians'], ['Efésios'], ['Efesios'], ['Éphésiens'], ['Epheser'], ['Efesini']]),
+  book('PHP', 4, [['Philippians'], ['Filipenses'], ['Filipenses'], ['Philippiens'], ['Philipper'], ['Filippesi']]),
+  book('COL', 4, [['Colossians'], ['Colossenses'], ['Colosenses'], ['Colossiens'], ['Kolosser'], ['Colossesi']]),
+  book('1TH', 5, [['Thessalonians'], ['Tessalonicenses'], ['Tesalonicenses'], ['Thessaloniciens'], ['Thessalonicher'], ['Tessalonicesi']], 1),
+  book('2TH', 3, [['Thessalonians'], ['Tessalonicenses'], ['Tesalonicenses'], ['Thessaloniciens'], ['Thessalonicher'], ['Tessalonicesi']], 2),
+  book('1TI', 6, [['Timothy'], ['Timóteo'], ['Timoteo'], ['Timothée'], ['Timotheus'], ['Timoteo']], 1),
+  book('2TI', 4, [['Timothy'], ['Timóteo'], ['Timoteo'], ['Timothée'], ['Timotheus'], ['Timoteo']], 2),
+  book('TIT', 3, [['Titus'], ['Tito'], ['Tito'], ['Tite'], ['Titus'], ['Tito']]),
+  book('PHM', 1, [['Philemon'], ['Filemom'], ['Filemón'], ['Philémon'], ['Philemon'], ['Filemone']]),
+  book('HEB', 13, [['Hebrews'], ['Hebreus'], ['Hebreos'], ['Hébreux'], ['Hebräer'], ['Ebrei']]),
+  book('JAS', 5, [['James'], ['Tiago'], ['Santiago'], ['Jacques'], ['Jakobus'], ['Giacomo']]),
+  book('1PE', 5, [['Peter'], ['Pedro'], ['Pedro'], ['Pierre'], ['Petrus'], ['Pietro']], 1),
+  book('2PE', 3, [['Peter'], ['Pedro'], ['Pedro'], ['Pierre'], ['Petrus'], ['Pietro']], 2),
+  book('1JN', 5, [['John'], ['João'], ['Juan'], ['Jean'], ['Johannes'], ['Giovanni']], 1),
+  book('2JN', 1, [['John'], ['João'], ['Juan'], ['Jean'], ['Johannes'], ['Giovanni']], 2),
+  book('3JN', 1, [['John'], ['João'], ['Juan'], ['Jean'], ['Johannes'], ['Giovanni']], 3),
+  book('JUD', 1, [['Jude'], ['Judas'], ['Judas'], ['Jude'], ['Judas'], ['Giuda']]),
+  book('REV', 22, [['Revelation'], ['Apocalipse'], ['Apocalipsis'], ['Apocalypse'], ['Offenbarung'], ['Apocalisse']]),
+];
+
+export function getBibleBook(id: string): BibleBook | undefined {
+  return BIBLE_BOOKS.find(entry => entry.id === id);
+}
+
+/**
+ * Name of a book as written in a language, with its number ('1 Coríntios', 'Juan')
+ */
+export function getBookDisplayName(entry: BibleBook, language: string): string {
+  const names = entry.names[language.split('-')[0]] || entry.names.en;
+  return entry.number ? `${entry.number} ${names[0]}` : names[0];
+}
@@ -1,6 +1,11 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { app } from 'electron';
+import { SegmentationConfig } from './sentence-segmenter';
+import { TranscriptionProviderConfig } from './transcription-provider';
+import { VadConfig } from './voice-activity-detector';
+import { TranscriptionVocabularies, normalizeLanguageVocabulary, validateLanguageVocabulary } from './transcription-vocabulary';
+import { DisplayOutputConfig } from './display-output-manager';
 
 const configPath = path.join(app.getPath('userData'), 'config.json');
 
@@ -20,6 +25,35 @@ export interface AppConfig {
   encoding?: string;
   channels?: number;
   inputGain?: number;
+  audioInputFile?: string;   // Stream a WAV/FLAC/raw recording instead of the microphone
+  audioInputLoop?: boolean;
+  // Voice activity detection (stop streaming silence to Transcribe)
+  vad?: VadConfig;
+  // Custom vocabularies and vocabulary filters per source language
+  transcriptionVocabularies?: TranscriptionVocabularies;
+  // Detect the spoken language among candidates instead of assuming sourceLanguage
+  languageIdentification?: {
+    enabled: boolean;
+    candidateLanguages: string[];  // Transcribe language codes, e.g. 'pt-BR', 'en-US'
+  };
+  // Review mode: translations wait for operator approval before being broadcast
+  moderation?: {
+    enabled: boolean;
+    autoApproveMs?: number;  // 0 waits for the operator indefinitely
+  };
+  // Detect Bible references and attach verse text from locally installed Bibles
+  scripture?: {
+    enabled: boolean;
+    biblesDirectory?: string;  // Defaults to <userData>/bibles
+    maxVerses?: number;
+    sendToHolyrics?: boolean;
+    preferredTranslations?: Record<string, string>;  // Base language -> Bible abbreviation
+  };
+  // Speaker diarization with display names per speaker label ('0' -> 'Pastor')
+  diarization?: {
+    enabled: boolean;
+    speakerNames?: Record<string, string>;
+  };
   // Holyrics integration
   holyrics?: {
     enabled: boolean;
@@ -28,12 +62,23 @@ export interface AppConfig {
     token: string;
     language: string;
     maxLines: number;
+    showSpeakerNames?: boolean;
   };
+  // Additional display outputs (OBS text source, HTTP webhook, vMix/CasparCG file), each with its own language
+  displayOutputs?: DisplayOutputConfig[];
+  // Sentence segmentation between Transcribe and Translate
+  segmentation?: SegmentationConfig;
+  // Transcription source (AWS Transcribe by default, or transcript file replay)
+  transcription?: TranscriptionProviderConfig;
   // TTS settings
   tts: {
     mode: 'neural' | 'standard' | 'local' | 'disabled';
     host: string;
     port: number;
+    rate?: number;    // Speaking rate, percent of normal (50-200)
+    pitch?: number;   // Pitch change in percent (-50 to +50), standard voices only
+    languages?: Record<string, { rate?: number; pitch?: number }>;  // Per-language overrides
+    voices?: Record<string, string>;  // Polly voice ID per language; others use the server default
   };
 }
 
@@ -50,6 +95,132 @@ export function validateConfig(config: AppConfig): string[] {
   if (config.tts?.port && (config.tts.port < 1 || config.tts.port > 65535)) {
     errors.push('TTS port must be between 1 and 65535');
   }
+
+  if (config.tts?.rate !== undefined && (config.tts.rate < 50 || config.tts.rate > 200)) {
+    errors.push('TTS speaking rate must be between 50 and 200 percent');
+  }
+
+  if (config.tts?.pitch !== undefined && (config.tts.pitch < -50 || config.tts.pitch > 50)) {
+    errors.push('TTS pitch must be between -50 and +50 percent');
+  }
+  
+  if (config.segmentation) {
+    const { preset, maxWaitMs, pauseMs } = config.segmentation;
+    if (!['off', 'low-latency', 'balanced', 'high-quality'].includes(preset)) {
+      errors.push('segmentation preset must be off, low-latency, balanced or high-quality');
+    }
+    if (maxWaitMs !== undefined && (maxWaitMs < 500 || maxWaitMs > 30000)) {
+      errors.push('segmentation maxWaitMs must be between 500 and 30000');
+    }
+    if (pauseMs !== undefined && (pauseMs < 200 || pauseMs > 10000)) {
+      errors.push('segmentation pauseMs must be between 200 and 10000');
+    }
+  }
+  
+  if (config.vad) {
+    const { threshold, attackMs, hangoverMs, keepAliveIntervalMs } = config.vad;
+    if (threshold !== undefined && (threshold < 0 || threshold > 100)) {
+      errors.push('vad threshold must be between 0 and 100');
+    }
+    if (attackMs !== undefined && (attackMs < 0 || attackMs > 2000)) {
+      errors.push('vad attackMs must be between 0 and 2000');
+    }
+    if (hangoverMs !== undefined && (hangoverMs < 200 || hangoverMs > 10000)) {
+      errors.push('vad hangoverMs must be between 200 and 10000');
+    }
+    // AWS Transcribe closes a stream after 15 seconds without audio
+    if (keepAliveIntervalMs !== undefined && (keepAliveIntervalMs < 1000 || keepAliveIntervalMs > 14000)) {
+      errors.push('vad keepAliveIntervalMs must be between 1000 and 14000');
+    }
+  }
+  
+  if (config.transcriptionVocabularies) {
+    for (const [language, vocabulary] of Object.entries(config.transcriptionVocabularies)) {
+      validateLanguageVocabulary(normalizeLanguageVocabulary(vocabulary))
+        .filter(issue => issue.severity === 'error')
+        .forEach(issue => errors.push(`vocabulary (${language}): ${issue.message}`));
+    }
+  }
+  
+  if (config.languageIdentification?.enabled) {
+    const candidates = config.languageIdentification.candidateLanguages || [];
+    // AWS Transcribe streaming accepts 2 to 5 language options
+    if (candidates.length < 2 || candidates.length > 5) {
+      errors.push('language identification needs between 2 and 5 candidate languages');
+    }
+    if (candidates.some(code => !/^[a-z]{2}-[A-Z]{2}$/.test(code))) {
+      errors.push('candidate languages must be Transcribe language codes like pt-BR or en-US');
+    }
+    if (new Set(candidates.map(code => code.split('-')[0])).size !== candidates.length) {
+      errors.push('candidate languages must not repeat a language');
+    }
+  }
+  
+  if (config.moderation?.autoApproveMs !== undefined) {
+    const { autoApproveMs } = config.moderation;
+    if (autoApproveMs !== 0 && (autoApproveMs < 3000 || autoApproveMs > 300000)) {
+      errors.push('moderation autoApproveMs must be 0 (never) or between 3000 and 300000');
+    }
+  }
+  
+  if (config.diarization?.speakerNames) {
+    for (const [label, name] of Object.entries(config.diarization.speakerNames)) {
+      if (typeof name !== 'string' || name.length > 40) {
+        errors.push(`speaker name for speaker ${label} must be at most 40 characters`);
+      }
+    }
+  }
+  
+  if (config.scripture?.maxVerses !== undefined && (config.scripture.maxVerses < 1 || config.scripture.maxVerses > 30)) {
+    errors.push('scripture maxVerses must be between 1 and 30');
+  }
+  
+  if (config.displayOutputs) {
+    const ids = new Set<string>();
+    config.displayOutputs.forEach((output, index) => {
+      const label = `display output ${output.name || index + 1}`;
+      if (!output.id || ids.has(output.id)) {
+        errors.push(`${label}: id is missing or repeated`);
+      }
+      ids.add(output.id);
+      if (!output.language) {
+        errors.push(`${label}: language is required`);
+      }
+      if (!(output.maxLines >= 1 && output.maxLines <= 10)) {
+        errors.push(`${label}: maxLines must be between 1 and 10`);
+      }
+      switch (output.type) {
+        case 'holyrics':
+        case 'obs':
+          if (!output.host) errors.push(`${label}: host is required`);
+          if (!(output.port >= 1 && output.port <= 65535)) errors.push(`${label}: port must be between 1 and 65535`);
+          if (output.type === 'obs' && !output.inputName) errors.push(`${label}: OBS text source name is required`);
+          break;
+        case 'webhook':
+          if (!/^https?:\/\/\S+$/.test(output.url || '')) errors.push(`${label}: url must start with http:// or https://`);
+          break;
+        case 'file':
+          if (!output.filePath) errors.push(`${label}: filePath is required`);
+          if (!['text', 'json', 'xml'].includes(output.format)) errors.push(`${label}: format must be text, json or xml`);
+          break;
+        default:
+          errors.push(`${label}: type must be holyrics, obs, webhook or file`);
+      }
+    });
+  }
+  
+  if (config.transcription) {
+    const { provider, replayFile, replaySpeed } = config.transcription;
+    if (!['aws', 'file-replay'].includes(provider)) {
+      errors.push('transcription provider must be aws or file-replay');
+    }
+    if (provider === 'file-replay' && !replayFile) {
+      errors.push('transcription replayFile is required for the file-replay provider');
+    }
+    if (replaySpeed !== undefined && (replaySpeed < 0.25 || replaySpeed > 10)) {
+      errors.push('transcription replaySpeed must be between 0.25 and 10');
+    }
+  }
   
   return errors;
 }
@@ -76,6 +247,13 @@ export function loadConfig(): AppConfig | null {
 
 export function saveConfig(config: AppConfig): void {
   try {
+    // Store vocabulary phrases in the form AWS expects
+    if (config.transcriptionVocabularies) {
+      for (const language of Object.keys(config.transcriptionVocabularies)) {
+        config.transcriptionVocabularies[language] = normalizeLanguageVocabulary(config.transcriptionVocabularies[language]);
+      }
+    }
+    
     // Validate before saving
     const errors = validateConfig(config);
     if (errors.length > 0) {
@@ -10,7 +10,7 @@ export interface ServiceUsage {
 }
 
 export interface ServiceCosts {
-  transcribe: ServiceUsage;
+  transcribe: ServiceUsage & { savedMinutes?: number; savedCost?: number };
   translate: ServiceUsage;
   polly: ServiceUsage & { voiceType?: 'neural' | 'standard' };
   total: number;
@@ -67,7 +67,7 @@ export class CostTracker extends EventEmitter {
    */
   resetSession(): void {
     this.costs = {
-      transcribe: { minutes: 0, cost: 0 },
+      transcribe: { minutes: 0, cost: 0, savedMinutes: 0, savedCost: 0 },
       translate: { characters: 0, cost: 0 },
       polly: { characters: 0, cost: 0, voiceType: 'standard' },
       total: 0,
@@ -96,6 +96,26 @@ export class CostTracker extends EventEmitter {
     });
   }
 
+  /**
+   * Track Transcribe minutes not streamed because voice activity detection gated silence
+   */
+  trackTranscribeSavings(minutes: number): void {
+    if (minutes <= 0) return;
+
+    const saved = minutes * PRICING.transcribe.perMinute;
+    
+    this.costs.transcribe.savedMinutes = (this.costs.transcribe.savedMinutes || 0) + minutes;
+    this.costs.transcribe.savedCost = (this.costs.transcribe.savedCost || 0) + saved;
+    this.costs.lastUpdated = new Date();
+    
+    this.emit('transcribe-savings', {
+      savedMinutes: this.costs.transcribe.savedMinutes,
+      savedCost: this.costs.transcribe.savedCost,
+      incrementalSavings: saved
+    });
+    this.emit('costs-updated', this.costs);
+  }
+
   /**
    * Track AWS Translate usage
    */
@@ -180,12 +200,14 @@ export class CostTracker extends EventEmitter {
    */
   getUsageStats(): {
     transcribeMinutes: number;
+    transcribeSavedMinutes: number;
     translateCharacters: number;
     pollyCharacters: number;
     pollyVoiceType: string;
   } {
     return {
       transcribeMinutes: this.costs.transcribe.minutes || 0,
+      transcribeSavedMinutes: this.costs.transcribe.savedMinutes || 0,
       translateCharacters: this.costs.translate.characters || 0,
       pollyCharacters: this.costs.polly.characters || 0,
       pollyVoiceType: this.costs.polly.voiceType || 'standard'
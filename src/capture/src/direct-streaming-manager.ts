@@ -1,11 +1,22 @@
 import { EventEmitter } from 'events';
-import { DirectTranscribeClient } from './direct-transcribe-client';
+import { DirectTranscribeClient, StreamRestartInfo } from './direct-transcribe-client';
+import { MonitoringDashboard } from './monitoring-dashboard';
+import { FileReplayTranscriptionProvider } from './file-replay-transcription-provider';
+import { TranscriptionProvider, TranscriptionProviderConfig } from './transcription-provider';
 import { TranslationService } from './translation-service';
 import { AudioCapture } from './audio-capture';
-import { HolyricsIntegration, HolyricsConfig } from './holyrics-integration';
+import { HolyricsConfig } from './holyrics-integration';
+import { DisplayOutputManager, DisplayOutputConfig } from './display-output-manager';
 import { TTSManager, TTSMode, TargetLanguage } from './tts-manager';
+import { toLocale } from './language-registry';
 import { WebSocketManager, SessionConfig } from './websocket-manager';
 import { CostTracker } from './cost-tracker';
+import { SentenceSegmenter, SegmentationConfig, SentenceSegment } from './sentence-segmenter';
+import { VoiceActivityDetector, VadConfig } from './voice-activity-detector';
+import { LanguageVocabularyConfig } from './transcription-vocabulary';
+import { ModerationQueue, ModerationConfig, ModerationDecision, ModerationEdits } from './moderation-queue';
+import { detectScriptureReferences } from './scripture-detector';
+import { ScriptureLibrary, ScripturePassage } from './scripture-library';
 
 interface TTSConfig {
   mode: TTSMode;
@@ -13,6 +24,39 @@ interface TTSConfig {
   port?: number;
 }
 
+interface LanguageIdentificationConfig {
+  enabled: boolean;
+  candidateLanguages: string[];  // Transcribe language codes, e.g. ['pt-BR', 'en-US']
+}
+
+interface ScriptureConfig {
+  enabled: boolean;
+  biblesDirectory: string;
+  preferredTranslations?: Record<string, string>;  // Base language -> Bible abbreviation
+  maxVerses?: number;
+  sendToHolyrics?: boolean;  // Show the verse on the Holyrics screen after the translated line
+}
+
+interface DiarizationConfig {
+  enabled: boolean;
+  speakerNames?: Record<string, string>;  // Display name per speaker label ('0' -> 'Pastor')
+}
+
+export interface SpeakerInfo {
+  id: string;    // Diarization label
+  name: string;  // Display name assigned by the admin, or "Speaker N"
+}
+
+// Broadcast segments the operator can still correct
+const MAX_CORRECTABLE_SEGMENTS = 200;
+
+// What a translated segment needs besides its text to be published
+interface SegmentContext {
+  sourceLanguage: string;
+  speaker?: SpeakerInfo;
+  scripture?: Record<string, ScripturePassage[]>;  // Base language -> quoted passages
+}
+
 interface StreamingConfig {
   region: string;
   identityPoolId: string;
@@ -22,45 +66,52 @@ interface StreamingConfig {
   targetLanguages: string[];
   sampleRate: number;
   audioDevice?: string;
+  audioInputFile?: string;  // Recording to stream instead of the microphone
+  audioInputLoop?: boolean;
   holyrics?: HolyricsConfig;
+  displayOutputs?: DisplayOutputConfig[];  // OBS, webhook and file outputs alongside Holyrics
   tts?: TTSConfig;
+  segmentation?: Partial<SegmentationConfig>;
+  transcription?: TranscriptionProviderConfig;
+  vad?: Partial<VadConfig>;
+  vocabulary?: LanguageVocabularyConfig;  // Custom vocabulary/filter for the source language
+  languageIdentification?: LanguageIdentificationConfig;
+  diarization?: DiarizationConfig;
+  moderation?: Partial<ModerationConfig>;  // Review mode: hold segments for operator approval
+  scripture?: ScriptureConfig;
 }
 
 export class DirectStreamingManager extends EventEmitter {
-  private transcribeClient: DirectTranscribeClient;
+  private transcribeClient: TranscriptionProvider;
   private translationService: TranslationService;
   private audioCapture: AudioCapture;
-  private holyricsIntegration?: HolyricsIntegration;
+  private displayOutputs: DisplayOutputManager;
   private ttsManager?: TTSManager;
   private webSocketManager?: WebSocketManager;
   private costTracker: CostTracker;
+  private monitoringDashboard?: MonitoringDashboard;
+  private segmenter: SentenceSegmenter;
+  private segmentQueue: Promise<void> = Promise.resolve();
+  private moderationQueue: ModerationQueue<SegmentContext>;
+  private scriptureLibrary?: ScriptureLibrary;
+  private publishQueue: Promise<void> = Promise.resolve();
+  private vad: VoiceActivityDetector;
   private config: StreamingConfig;
+  private currentSourceLanguage: string;
   private isActive = false;
   private audioCache: Map<string, string> = new Map(); // Cache for generated audio URLs
+  private publishedSegments: Map<string, { displayLineId: string; speaker?: SpeakerInfo }> = new Map();
 
   private mapToTargetLanguages(languages: string[]): TargetLanguage[] {
-    const languageMap: Record<string, TargetLanguage> = {
-      'en': 'en-US',
-      'es': 'es-ES',
-      'fr': 'fr-FR',
-      'de': 'de-DE',
-      'it': 'it-IT'
-    };
-    return languages.map(lang => languageMap[lang] || `${lang}-${lang.toUpperCase()}` as TargetLanguage);
+    return languages.map(toLocale);
   }
 
   constructor(config: StreamingConfig, webSocketManager?: WebSocketManager | null) {
     super();
     this.config = config;
+    this.currentSourceLanguage = config.sourceLanguage;
 
-    this.transcribeClient = new DirectTranscribeClient({
-      region: config.region,
-      identityPoolId: config.identityPoolId,
-      userPoolId: config.userPoolId,
-      jwtToken: config.jwtToken,
-      sampleRate: config.sampleRate,
-      languageCode: config.sourceLanguage,
-    });
+    this.transcribeClient = this.createTranscriptionProvider(config);
 
     this.translationService = new TranslationService({
       region: config.region,
@@ -76,12 +127,22 @@ export class DirectStreamingManager extends EventEmitter {
       channels: 1,
       encoding: 'signed-integer',
       device: (global as any).config?.inputDevice,
+      inputFile: config.audioInputFile,
+      loop: config.audioInputLoop,
     });
 
-    // Initialize Holyrics integration if configured
+    // Holyrics keeps its own settings; other outputs are listed in displayOutputs
+    const displayOutputs: DisplayOutputConfig[] = (config.displayOutputs || []).filter(output => output.id !== 'holyrics');
     if (config.holyrics?.enabled) {
-      this.holyricsIntegration = new HolyricsIntegration(config.holyrics);
+      displayOutputs.unshift({
+        ...config.holyrics,
+        id: 'holyrics',
+        type: 'holyrics',
+        name: 'Holyrics',
+        showScripture: !!config.scripture?.sendToHolyrics
+      });
     }
+    this.displayOutputs = new DisplayOutputManager(displayOutputs);
 
     // Initialize TTS Manager if configured
     if (config.tts && config.tts.mode !== 'disabled') {
@@ -116,9 +177,87 @@ export class DirectStreamingManager extends EventEmitter {
     // Initialize Cost Tracker
     this.costTracker = new CostTracker();
 
+    // Collect final results into sentences before translating
+    this.segmenter = new SentenceSegmenter(config.segmentation);
+
+    // Skip sending silence to Transcribe
+    this.vad = new VoiceActivityDetector(config.vad, config.sampleRate, 1);
+
+    // Optionally hold translations for operator review before they are broadcast
+    this.moderationQueue = new ModerationQueue<SegmentContext>(config.moderation);
+
+    // Canonical verse text for quoted scripture, from locally installed Bibles
+    if (config.scripture?.enabled) {
+      this.scriptureLibrary = new ScriptureLibrary({
+        directory: config.scripture.biblesDirectory,
+        preferredTranslations: config.scripture.preferredTranslations,
+        maxVerses: config.scripture.maxVerses,
+      });
+    }
+
     this.setupEventHandlers();
   }
 
+  /**
+   * AWS Transcribe unless the config selects another provider
+   */
+  private createTranscriptionProvider(config: StreamingConfig): TranscriptionProvider {
+    if (config.transcription?.provider === 'file-replay') {
+      if (!config.transcription.replayFile) {
+        throw new Error('File replay transcription requires a transcript file');
+      }
+      console.log('Using file replay transcription provider:', config.transcription.replayFile);
+      return new FileReplayTranscriptionProvider({
+        filePath: config.transcription.replayFile,
+        speed: config.transcription.replaySpeed,
+        loop: config.transcription.replayLoop,
+      });
+    }
+
+    return new DirectTranscribeClient({
+      region: config.region,
+      identityPoolId: config.identityPoolId,
+      userPoolId: config.userPoolId,
+      jwtToken: config.jwtToken,
+      sampleRate: config.sampleRate,
+      languageCode: config.sourceLanguage,
+      vocabularyName: config.vocabulary?.vocabularyName,
+      vocabularyFilterName: config.vocabulary?.vocabularyFilterName,
+      vocabularyFilterMethod: config.vocabulary?.vocabularyFilterMethod,
+      identifyLanguage: config.languageIdentification?.enabled,
+      languageOptions: config.languageIdentification?.candidateLanguages,
+      showSpeakerLabels: config.diarization?.enabled,
+    });
+  }
+
+  /**
+   * Map a diarization label to the display name the admin assigned
+   */
+  private resolveSpeaker(label?: string): SpeakerInfo | undefined {
+    if (!label || !this.config.diarization?.enabled) return undefined;
+
+    // Streaming results use '0', '1', ...; batch transcripts use 'spk_0'
+    const id = label.replace(/^spk_/, '');
+    const name = this.config.diarization.speakerNames?.[id]?.trim();
+    return { id, name: name || `Speaker ${isNaN(Number(id)) ? id : Number(id) + 1}` };
+  }
+
+  private isIdentifyingLanguage(): boolean {
+    return !!this.config.languageIdentification?.enabled
+      && this.config.languageIdentification.candidateLanguages.length >= 2;
+  }
+
+  /**
+   * Base codes of every language the glossary may be needed for
+   */
+  private getTerminologyLanguages(): string[] {
+    const languages = [this.config.sourceLanguage];
+    if (this.isIdentifyingLanguage()) {
+      languages.push(...this.config.languageIdentification!.candidateLanguages);
+    }
+    return Array.from(new Set(languages.map(lang => lang.split('-')[0])));
+  }
+
   private setupEventHandlers(): void {
     // Handle transcription results
     this.transcribeClient.on('transcription', async (result) => {
@@ -132,95 +271,115 @@ export class DirectStreamingManager extends EventEmitter {
       this.emit('transcription', {
         text: result.text,
         isPartial: result.isPartial,
+        languageCode: result.languageCode,
+        speaker: this.resolveSpeaker(result.speaker),
         timestamp: new Date().toISOString(),
       });
 
-      // Only translate final results to avoid too many API calls
-      if (!result.isPartial && result.text.trim()) {
-        try {
-          const translations = await this.translationService.translateText(result.text);
-          
-          // Track translation usage for cost calculation
-          const totalCharacters = result.text.length * translations.length;
-          this.costTracker.trackTranslateUsage(totalCharacters);
-          
-          // Send to Holyrics if configured
-          if (this.holyricsIntegration && this.config.holyrics) {
-            const holyricsLanguage = this.config.holyrics.language;
-            console.log('[Holyrics] Configured language:', holyricsLanguage);
-            console.log('[Holyrics] Available translations:', translations.map(t => t.targetLanguage));
-            
-            // Match language with or without country code (fr matches fr-FR)
-            const translation = translations.find(t => 
-              t.targetLanguage === holyricsLanguage || 
-              t.targetLanguage.startsWith(holyricsLanguage + '-')
-            );
-            const holyricsText = translation?.text || result.text;
-            
-            console.log('[Holyrics] Selected translation:', translation ? `${translation.targetLanguage}: ${translation.text.substring(0, 50)}` : 'FALLBACK TO PT');
-            
-            try {
-              await this.holyricsIntegration.addTranslation(holyricsText);
-            } catch (error) {
-              console.error('Holyrics integration error:', error);
-            }
-          }
-          
-          // Send to TTS Server if connected
-          if (this.webSocketManager && this.webSocketManager.isConnectedToServer()) {
-            // Convert translations to simple object
-            const translationsObj: Record<string, string> = {};
-            translations.forEach(t => {
-              // Extract language code (en from en-US)
-              const langCode = t.targetLanguage.split('-')[0];
-              translationsObj[langCode] = t.text;
-            });
-            
-            await this.webSocketManager.sendTranslations({
-              original: result.text,
-              translations: translationsObj,
-              generateTTS: this.config.tts?.mode !== 'disabled' && this.config.tts?.mode !== 'local',
-              voiceType: this.config.tts?.mode === 'neural' ? 'neural' : 'standard'
-            });
-          }
-          
-          this.emit('translation', {
-            originalText: result.text,
-            translations: translations,
-            timestamp: new Date().toISOString(),
-          });
-        } catch (error) {
-          console.error('Translation error:', error);
-          this.emit('error', { type: 'translation', error: (error as Error).message });
-        }
+      // Only final results are translated, once the segmenter has a complete sentence
+      if (result.isPartial) {
+        this.segmenter.notePartial();
+      } else if (result.text.trim()) {
+        this.segmenter.addFinal(result.text, result.languageCode, result.speaker);
       }
     });
 
+    // Translate segments one at a time so they reach clients in order
+    this.segmenter.on('segment', (segment: SentenceSegment) => {
+      this.segmentQueue = this.segmentQueue.then(() => this.translateSegment(segment));
+    });
+
+    // Review mode: only approved segments are published
+    this.moderationQueue.on('queued', (item) => {
+      this.emit('moderation-queued', item);
+    });
+
+    this.moderationQueue.on('approved', (decision: ModerationDecision<SegmentContext>) => {
+      const { item } = decision;
+      this.emit('moderation-resolved', { id: item.id, outcome: decision.outcome, waitMs: decision.waitMs });
+      this.publishQueue = this.publishQueue.then(() =>
+        this.publishSegment(item.original, item.translations, item.context)
+      );
+    });
+
+    this.moderationQueue.on('discarded', (decision: ModerationDecision<SegmentContext>) => {
+      console.log(`Segment ${decision.item.id} discarded${decision.reason ? ` (${decision.reason})` : ''}`);
+      this.emit('moderation-resolved', { id: decision.item.id, outcome: decision.outcome, waitMs: decision.waitMs });
+    });
+
+    this.moderationQueue.on('queue-changed', (stats) => {
+      this.monitoringDashboard?.recordModerationQueue(stats);
+      this.emit('moderation-stats', stats);
+    });
+
     // Handle transcription errors
     this.transcribeClient.on('error', (error) => {
       console.error('Transcription error:', error);
       this.emit('error', { type: 'transcription', error: error.message });
     });
 
-    // Handle transcription timeouts
+    // Stream rotated or reconnected without interrupting the session
+    this.transcribeClient.on('stream-restarted', (info: StreamRestartInfo) => {
+      console.log(`Transcription stream restarted (${info.reason}): gap ${info.gapMs}ms, replayed ${info.replayedMs}ms, lost ${info.lostMs}ms`);
+      this.monitoringDashboard?.recordTranscriptionRestart(info);
+      this.emit('transcription-restarted', {
+        ...info,
+        message: info.reason === 'rotation' ? 'Transcription stream rotated' : 'Transcription reconnected'
+      });
+    });
+
+    // The provider could not recover on its own - fall back to a full restart
     this.transcribeClient.on('timeout', () => {
       console.log('Transcription stream timed out - restarting...');
       this.restartTranscription();
     });
 
+    // Finite providers (file replay) stop streaming when they run out of text
+    this.transcribeClient.on('ended', () => {
+      console.log('Transcription source ended - stopping streaming');
+      this.emit('transcription-ended', { provider: this.transcribeClient.name });
+      this.stopStreaming();
+    });
+
     // Handle audio data
     this.audioCapture.on('data', (audioData) => {
       if (this.isActive) {
-        console.log(`[StreamingManager] Sending ${audioData.length} bytes to AWS Transcribe`);
-        this.transcribeClient.sendAudio(audioData);
+        for (const chunk of this.vad.process(audioData)) {
+          console.log(`[StreamingManager] Sending ${chunk.length} bytes to ${this.transcribeClient.name} transcription`);
+          this.transcribeClient.sendAudio(chunk);
+        }
       }
     });
 
+    // Report gated silence as Transcribe savings
+    this.vad.on('speech-start', () => {
+      this.reportVadSavings();
+      this.emit('voice-activity', { speaking: true });
+    });
+
+    this.vad.on('speech-end', () => {
+      this.emit('voice-activity', { speaking: false });
+    });
+
+    this.vad.on('keep-alive', () => {
+      this.reportVadSavings();
+    });
+
     // Handle audio level updates
     this.audioCapture.on('level', (level) => {
       this.emit('audio-level', level);
     });
 
+    // Recording finished: give Transcribe a moment to return the last results, then stop
+    this.audioCapture.on('ended', () => {
+      console.log('Audio file ended - stopping streaming');
+      setTimeout(() => {
+        if (!this.isActive) return;
+        this.emit('transcription-ended', { provider: this.transcribeClient.name, reason: 'audio-file-ended' });
+        this.stopStreaming();
+      }, 2000);
+    });
+
     // Handle audio capture errors
     this.audioCapture.on('error', (error) => {
       console.error('Audio capture error:', error);
@@ -264,6 +423,13 @@ export class DirectStreamingManager extends EventEmitter {
       this.webSocketManager.on('client-disconnected', (clientInfo) => {
         this.emit('client-disconnected', clientInfo);
       });
+
+      // Keep the glossary in sync when any operator edits it
+      this.webSocketManager.on('terminology-updated', (notification) => {
+        if (this.getTerminologyLanguages().includes(notification.sourceLanguage)) {
+          this.loadTerminology();
+        }
+      });
     }
 
     // Handle cost tracking events
@@ -276,17 +442,154 @@ export class DirectStreamingManager extends EventEmitter {
     });
   }
 
+  /**
+   * Translate a complete sentence and fan it out to the display outputs, the TTS server and the UI
+   */
+  private async translateSegment(segment: SentenceSegment): Promise<void> {
+    try {
+      const sourceLanguage = segment.language || this.currentSourceLanguage;
+      this.updateSourceLanguage(sourceLanguage);
+      const speaker = this.resolveSpeaker(segment.speaker);
+
+      const translations = await this.translationService.translateText(segment.text, sourceLanguage);
+      
+      // Track translation usage for cost calculation (the original language is not billed)
+      const totalCharacters = segment.text.length * translations.filter(t => !t.isOriginal).length;
+      this.costTracker.trackTranslateUsage(totalCharacters);
+
+      const context: SegmentContext = { sourceLanguage, speaker, scripture: this.findScripture(segment.text, sourceLanguage) };
+      if (this.moderationQueue.isEnabled()) {
+        this.moderationQueue.enqueue(segment.text, translations, context);
+        return;
+      }
+
+      await this.publishSegment(segment.text, translations, context);
+    } catch (error) {
+      console.error('Translation error:', error);
+      this.emit('error', { type: 'translation', error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Look up the verses quoted in a segment in every language being served
+   */
+  private findScripture(text: string, sourceLanguage: string): Record<string, ScripturePassage[]> | undefined {
+    if (!this.scriptureLibrary) return undefined;
+
+    const references = detectScriptureReferences(text, sourceLanguage);
+    if (references.length === 0) return undefined;
+
+    const languages = new Set([sourceLanguage, ...this.config.targetLanguages].map(language => language.split('-')[0]));
+    const scripture: Record<string, ScripturePassage[]> = {};
+    for (const language of languages) {
+      const passages = references
+        .map(reference => this.scriptureLibrary!.lookup(reference, language))
+        .filter((passage): passage is ScripturePassage => passage !== null);
+      if (passages.length > 0) {
+        scripture[language] = passages;
+      }
+    }
+
+    console.log(`Scripture detected: ${references.map(reference => reference.text).join(', ')} (${Object.keys(scripture).join(', ') || 'no installed Bible'})`);
+    return Object.keys(scripture).length > 0 ? scripture : undefined;
+  }
+
+  /**
+   * Fan a translated segment out to the display outputs, the TTS server and the UI
+   */
+  private async publishSegment(original: string, translations: any[], context: SegmentContext): Promise<void> {
+    const { sourceLanguage, speaker, scripture } = context;
+
+    try {
+      // Start the server broadcast first; its answer carries the segment ID used for corrections
+      let broadcast: Promise<string | undefined> = Promise.resolve(undefined);
+      if (this.webSocketManager && this.webSocketManager.isConnectedToServer()) {
+        // Convert translations to simple object
+        const translationsObj: Record<string, string> = {};
+        translations.forEach(t => {
+          // Extract language code (en from en-US)
+          const langCode = t.targetLanguage.split('-')[0];
+          translationsObj[langCode] = t.text;
+        });
+        
+        broadcast = this.webSocketManager.sendTranslations({
+          original,
+          translations: translationsObj,
+          sourceLanguage: sourceLanguage.split('-')[0],
+          speaker,
+          scripture,
+          generateTTS: this.config.tts?.mode !== 'disabled' && this.config.tts?.mode !== 'local',
+          voiceType: this.config.tts?.mode === 'neural' ? 'neural' : 'standard'
+        });
+      }
+
+      // Show on Holyrics, OBS and the other display outputs, each in its own language
+      const displayLineId = await this.displayOutputs.publish(original, translations, speaker?.name, scripture);
+
+      const segmentId = await broadcast;
+      if (segmentId) {
+        this.publishedSegments.set(segmentId, { displayLineId, speaker });
+        // Corrections only make sense for recent segments
+        while (this.publishedSegments.size > MAX_CORRECTABLE_SEGMENTS) {
+          this.publishedSegments.delete(this.publishedSegments.keys().next().value as string);
+        }
+      }
+      
+      this.emit('translation', {
+        segmentId,
+        originalText: original,
+        sourceLanguage,
+        speaker,
+        scripture,
+        translations: translations,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error('Failed to publish translation:', error);
+      this.emit('error', { type: 'translation', error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Track the language being spoken and announce when it switches
+   */
+  private updateSourceLanguage(language: string): void {
+    const previous = this.currentSourceLanguage;
+    if (language.split('-')[0] === previous.split('-')[0]) {
+      this.currentSourceLanguage = language;
+      return;
+    }
+
+    this.currentSourceLanguage = language;
+    console.log(`Source language changed: ${previous} -> ${language}`);
+    this.emit('source-language-changed', {
+      previous,
+      current: language,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  getCurrentSourceLanguage(): string {
+    return this.currentSourceLanguage;
+  }
+
   async startStreaming(): Promise<void> {
     if (this.isActive) return;
 
     try {
       console.log('Starting local streaming...');
       
+      // Load the shared glossary before the first translation
+      await this.loadTerminology();
+      await this.scriptureLibrary?.load();
+      
       // Start transcription stream
       await this.transcribeClient.startStreaming();
       
-      // Start audio capture
-      await this.audioCapture.start();
+      // Start audio capture (not needed when replaying a transcript)
+      if (this.transcribeClient.requiresAudio) {
+        await this.audioCapture.start();
+      }
       
       this.isActive = true;
       this.emit('streaming-started');
@@ -305,21 +608,31 @@ export class DirectStreamingManager extends EventEmitter {
     try {
       console.log('Stopping local streaming...');
       
-      // Clear Holyrics display
-      if (this.holyricsIntegration) {
-        try {
-          await this.holyricsIntegration.clear();
-        } catch (error) {
-          console.error('Failed to clear Holyrics:', error);
-        }
-      }
-      
       // Stop audio capture first
       await this.audioCapture.stop();
       
       // Stop transcription stream
       await this.transcribeClient.stopStreaming();
       
+      // Count the trailing silence and open the gate for the next stream
+      this.reportVadSavings();
+      this.vad.reset();
+      
+      // Translate (or discard) the unfinished sentence, then wait for queued translations
+      this.segmenter.stop();
+      await this.segmentQueue;
+      
+      // Segments still awaiting review are not published after the service ends
+      const dropped = this.moderationQueue.clear('streaming stopped');
+      if (dropped > 0) {
+        console.log(`Discarded ${dropped} segment(s) awaiting review`);
+      }
+      await this.publishQueue;
+      
+      // Clear the display outputs and close their connections
+      await this.displayOutputs.clear();
+      await this.displayOutputs.close();
+      
       this.isActive = false;
       this.emit('streaming-stopped');
       
@@ -334,6 +647,10 @@ export class DirectStreamingManager extends EventEmitter {
     return this.isActive;
   }
 
+  getTranscriptionProvider(): string {
+    return this.transcribeClient.name;
+  }
+
   async cleanup(): Promise<void> {
     await this.stopStreaming();
     
@@ -345,6 +662,10 @@ export class DirectStreamingManager extends EventEmitter {
       this.translationService.removeAllListeners();
     }
     
+    this.segmenter.clear();
+    this.segmenter.removeAllListeners();
+    this.vad.removeAllListeners();
+    
     if (this.ttsManager) {
       this.ttsManager.removeAllListeners();
     }
@@ -385,26 +706,161 @@ export class DirectStreamingManager extends EventEmitter {
     }
   }
 
-  // Holyrics control methods
-  async clearHolyrics(): Promise<void> {
-    if (this.holyricsIntegration) {
-      await this.holyricsIntegration.clear();
+  /**
+   * Fetch the glossary for the source language (and every candidate language
+   * when identifying the language) from the server.
+   * Translation keeps working with the previous glossary if this fails.
+   */
+  async loadTerminology(): Promise<void> {
+    if (!this.webSocketManager || !this.webSocketManager.isConnectedToServer()) {
+      console.log('Glossary not loaded - WebSocket not connected');
+      return;
+    }
+
+    try {
+      const lists = await Promise.all(
+        this.getTerminologyLanguages().map(language => this.webSocketManager!.listTerminology(language))
+      );
+      this.translationService.setTerminology(lists.flat());
+    } catch (error) {
+      console.error('Failed to load glossary:', error);
     }
   }
 
-  async testHolyricsConnection(): Promise<boolean> {
-    if (this.holyricsIntegration) {
-      return await this.holyricsIntegration.testConnection();
+  /**
+   * Change segmentation settings while streaming
+   */
+  updateSegmentationConfig(config: Partial<SegmentationConfig>): void {
+    this.config.segmentation = { ...this.config.segmentation, ...config };
+    this.segmenter.updateConfig(config);
+  }
+
+  /**
+   * Release a reviewed segment, with the operator's corrections applied
+   */
+  approveSegment(id: string, edits?: ModerationEdits): boolean {
+    return this.moderationQueue.approve(id, edits);
+  }
+
+  holdSegment(id: string): boolean {
+    return this.moderationQueue.hold(id);
+  }
+
+  discardSegment(id: string): boolean {
+    return this.moderationQueue.discard(id, 'operator');
+  }
+
+  approveAllSegments(): number {
+    return this.moderationQueue.approveAll();
+  }
+
+  getModerationQueue() {
+    return { pending: this.moderationQueue.getPending(), stats: this.moderationQueue.getStats() };
+  }
+
+  /**
+   * Correct a segment after it was broadcast. Corrections are keyed by target
+   * language (en-US or en); display output lines are replaced if they are still shown.
+   */
+  async correctTranslation(segmentId: string, corrections: Record<string, string>, original?: string): Promise<any> {
+    if (!this.webSocketManager || !this.webSocketManager.isConnectedToServer()) {
+      throw new Error('Not connected to WebSocket server');
     }
-    return false;
+
+    const byLanguage: Record<string, string> = {};
+    for (const [language, text] of Object.entries(corrections)) {
+      if (text?.trim()) {
+        byLanguage[language.split('-')[0]] = text.trim();
+      }
+    }
+
+    const result = await this.webSocketManager.correctTranslation(segmentId, byLanguage, original);
+
+    const published = this.publishedSegments.get(segmentId);
+    if (published) {
+      await this.displayOutputs.correct(published.displayLineId, corrections, published.speaker?.name);
+    }
+
+    return result;
   }
 
-  updateHolyricsConfig(config: Partial<HolyricsConfig>): void {
-    if (this.holyricsIntegration) {
-      this.holyricsIntegration.updateConfig(config);
+  /**
+   * Turn review mode on or off, or change the auto-approve timeout, while streaming
+   */
+  updateModerationConfig(config: Partial<ModerationConfig>): void {
+    this.config.moderation = { ...this.config.moderation, ...config };
+    this.moderationQueue.updateConfig(config);
+  }
+
+  /**
+   * Rename speakers while streaming; applies to the next translated sentence
+   */
+  updateSpeakerNames(speakerNames: Record<string, string>): void {
+    if (!this.config.diarization) return;
+    this.config.diarization = { ...this.config.diarization, speakerNames };
+  }
+
+  /**
+   * Report stream restarts, gaps and the review queue to the monitoring dashboard
+   */
+  setMonitoringDashboard(dashboard: MonitoringDashboard): void {
+    this.monitoringDashboard = dashboard;
+    if (this.moderationQueue.isEnabled()) {
+      dashboard.recordModerationQueue(this.moderationQueue.getStats());
     }
   }
 
+  /**
+   * Server TTS manager, absent when TTS is disabled
+   */
+  getTTSManager(): TTSManager | undefined {
+    return this.ttsManager;
+  }
+
+  /**
+   * Change voice activity detection settings while streaming
+   */
+  updateVadConfig(config: Partial<VadConfig>): void {
+    this.reportVadSavings();
+    this.config.vad = { ...this.config.vad, ...config };
+    this.vad.updateConfig(config);
+  }
+
+  private reportVadSavings(): void {
+    const savedMinutes = this.vad.takeSavedMinutes();
+    if (savedMinutes > 0) {
+      this.costTracker.trackTranscribeSavings(savedMinutes);
+    }
+  }
+
+  // Display output control methods
+  async clearHolyrics(): Promise<void> {
+    await this.displayOutputs.clear('holyrics');
+  }
+
+  async testHolyricsConnection(): Promise<boolean> {
+    return this.displayOutputs.test('holyrics');
+  }
+
+  updateHolyricsConfig(config: Partial<HolyricsConfig>): void {
+    this.displayOutputs.updateOutput('holyrics', config);
+  }
+
+  /**
+   * Clear one display output, or all of them
+   */
+  async clearDisplayOutputs(id?: string): Promise<void> {
+    await this.displayOutputs.clear(id);
+  }
+
+  async testDisplayOutput(id: string): Promise<boolean> {
+    return this.displayOutputs.test(id);
+  }
+
+  getDisplayOutputs() {
+    return this.displayOutputs.getOutputs();
+  }
+
   // TTS Management Methods
 
   /**
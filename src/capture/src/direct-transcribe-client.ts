@@ -1,6 +1,8 @@
 import { EventEmitter } from 'events';
 import { TranscribeStreamingClient, StartStreamTranscriptionCommand } from '@aws-sdk/client-transcribe-streaming';
 import { fromCognitoIdentityPool } from '@aws-sdk/credential-providers';
+import { TranscriptionProvider } from './transcription-provider';
+import { VocabularyFilterMethod } from './transcription-vocabulary';
 
 interface TranscribeConfig {
   region: string;
@@ -9,18 +11,102 @@ interface TranscribeConfig {
   sampleRate: number;
   languageCode: string;
   jwtToken: string;
+  maxStreamDurationMs?: number;  // Rotate to a new stream before AWS's 4 hour limit
+  ringBufferMs?: number;         // Audio kept for replay after a dropped stream
+  overlapMs?: number;            // Audio replayed before the cut so boundary words are not clipped
+  maxReconnectAttempts?: number;
+  vocabularyName?: string;
+  vocabularyFilterName?: string;
+  vocabularyFilterMethod?: VocabularyFilterMethod;
+  identifyLanguage?: boolean;    // Detect the spoken language instead of using languageCode
+  languageOptions?: string[];    // Candidate languages for identification (2-5)
+  showSpeakerLabels?: boolean;   // Speaker diarization
 }
 
-export class DirectTranscribeClient extends EventEmitter {
+export type StreamRestartReason = 'rotation' | 'timeout' | 'error';
+
+export interface StreamRestartInfo {
+  reason: StreamRestartReason;
+  restartCount: number;
+  gapMs: number;       // Time without a live stream
+  replayedMs: number;  // Audio re-sent from the ring buffer
+  lostMs: number;      // Audio that had already left the ring buffer
+  timestamp: string;
+}
+
+export interface StreamStats {
+  restartCount: number;
+  rotationCount: number;
+  reconnectionCount: number;
+  lastGapMs: number;
+  totalGapMs: number;
+  lostAudioMs: number;
+  streamStartedAt: string | null;
+}
+
+interface AudioStream {
+  [Symbol.asyncIterator](): AsyncGenerator<any>;
+  addAudio(audioChunk: Buffer): void;
+  endStream(): void;
+}
+
+interface TranscribeStream {
+  id: number;
+  audioStream: AudioStream;
+  startOffset: number;  // Position in the audio timeline (bytes) of the first byte sent on this stream
+  startedAt: number;
+  ending: boolean;      // Ended on purpose (rotation or stop), so closing is not a failure
+}
+
+interface PendingResult {
+  stream: TranscribeStream;
+  result: any;
+}
+
+const DEFAULT_MAX_STREAM_DURATION_MS = 3 * 60 * 60 * 1000 + 50 * 60 * 1000; // 3h50m, AWS limit is 4h
+const DEFAULT_RING_BUFFER_MS = 30000;
+const DEFAULT_OVERLAP_MS = 1000;
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 5;
+const DRAIN_TIMEOUT_MS = 10000;
+const DEDUPE_TOLERANCE_SECONDS = 0.05;
+
+/**
+ * Default transcription provider: streams microphone audio to AWS Transcribe.
+ *
+ * Streams are rotated before AWS's maximum duration and reopened after a
+ * timeout or error. Recent audio is kept in a ring buffer and replayed into
+ * the new stream, and results are de-duplicated by their audio timestamps so
+ * the overlap between two streams is only emitted once.
+ */
+export class DirectTranscribeClient extends EventEmitter implements TranscriptionProvider {
+  readonly name = 'aws' as const;
+  readonly requiresAudio = true;
+
   private client: TranscribeStreamingClient;
   private config: TranscribeConfig;
-  private audioStream: any = null;
   private isStreaming = false;
+  private bytesPerSecond: number;
+
+  private activeStream: TranscribeStream | null = null;
+  private drainingStream: TranscribeStream | null = null;
+  private pendingResults: PendingResult[] = [];
+  private drainTimer: NodeJS.Timeout | null = null;
+  private rotationTimer: NodeJS.Timeout | null = null;
+  private nextStreamId = 1;
+
+  // Audio timeline: every byte received since startStreaming, with recent chunks kept for replay
+  private ringBuffer: Array<{ offset: number; chunk: Buffer }> = [];
+  private totalBytes = 0;
+  private lastFinalEndSeconds = 0;
+
+  private stats: StreamStats = this.createStats();
+  private vocabularyRejected = false;
 
   constructor(config: TranscribeConfig) {
     super();
     this.config = config;
-    
+    this.bytesPerSecond = config.sampleRate * 2; // 16-bit mono PCM
+
     this.client = new TranscribeStreamingClient({
       region: config.region,
       credentials: fromCognitoIdentityPool({
@@ -37,29 +123,133 @@ export class DirectTranscribeClient extends EventEmitter {
     if (this.isStreaming) return;
 
     this.isStreaming = true;
-    this.audioStream = this.createAudioStream();
+    this.ringBuffer = [];
+    this.totalBytes = 0;
+    this.lastFinalEndSeconds = 0;
+    this.pendingResults = [];
+    this.stats = this.createStats();
+    this.vocabularyRejected = false;
+
+    try {
+      await this.openStreamWithVocabularyFallback(0);
+      this.stats.streamStartedAt = new Date().toISOString();
+      this.emit('streaming-started');
+    } catch (error) {
+      console.error('Transcribe streaming error:', error);
+      this.emit('error', error);
+      this.isStreaming = false;
+      this.activeStream = null;
+    }
+  }
+
+  /**
+   * Open a stream, retrying without the custom vocabulary/filter if AWS rejects them
+   * (missing, not READY, or for another language) so the service can go on.
+   */
+  private async openStreamWithVocabularyFallback(replayFrom: number): Promise<TranscribeStream> {
+    try {
+      return await this.openStream(replayFrom);
+    } catch (error: any) {
+      const usesVocabulary = !this.vocabularyRejected && (this.config.vocabularyName || this.config.vocabularyFilterName);
+      if (!usesVocabulary || error?.name !== 'BadRequestException' || !/vocabular/i.test(error?.message || '')) {
+        throw error;
+      }
+
+      console.warn('Transcribe rejected the custom vocabulary settings - continuing without them:', error.message);
+      this.vocabularyRejected = true;
+      this.emit('error', new Error(`Custom vocabulary not used: ${error.message}`));
+      return this.openStream(replayFrom);
+    }
+  }
+
+  /**
+   * Start a new Transcribe stream, seeded with buffered audio from replayFrom onward
+   */
+  private async openStream(replayFrom: number): Promise<TranscribeStream> {
+    const stream: TranscribeStream = {
+      id: this.nextStreamId++,
+      audioStream: this.createAudioStream(),
+      startOffset: replayFrom,
+      startedAt: Date.now(),
+      ending: false,
+    };
+
+    // Replay before going live so audio stays in order
+    for (const { offset, chunk } of this.ringBuffer) {
+      const end = offset + chunk.length;
+      if (end <= replayFrom) continue;
+      stream.audioStream.addAudio(offset < replayFrom ? chunk.subarray(replayFrom - offset) : chunk);
+    }
+    this.activeStream = stream;
 
     const command = new StartStreamTranscriptionCommand({
-      LanguageCode: this.config.languageCode as any,
+      ...this.getLanguageParameters(),
       MediaSampleRateHertz: this.config.sampleRate,
       MediaEncoding: 'pcm',
-      AudioStream: this.audioStream,
+      AudioStream: stream.audioStream,
       EnablePartialResultsStabilization: true,
       PartialResultsStability: 'medium',
+      ...this.getVocabularyParameters(),
+      ...(this.config.showSpeakerLabels ? { ShowSpeakerLabel: true } : {}),
     });
 
     try {
       const response = await this.client.send(command);
-      this.processTranscriptionResults(response);
-      this.emit('streaming-started');
+      this.processTranscriptionResults(stream, response);
+      this.scheduleRotation();
+      console.log(`[Transcribe] Stream ${stream.id} open (replayed ${this.bytesToMs(this.totalBytes - replayFrom)}ms)`);
+      return stream;
     } catch (error) {
-      console.error('Transcribe streaming error:', error);
-      this.emit('error', error);
-      this.isStreaming = false;
+      stream.audioStream.endStream();
+      if (this.activeStream === stream) {
+        this.activeStream = null;
+      }
+      throw error;
     }
   }
 
-  private createAudioStream() {
+  private isIdentifyingLanguage(): boolean {
+    return !!this.config.identifyLanguage && (this.config.languageOptions?.length || 0) >= 2;
+  }
+
+  /**
+   * A fixed language code, or language identification across the candidates
+   * with the configured source language as the preferred one
+   */
+  private getLanguageParameters(): Record<string, any> {
+    if (!this.isIdentifyingLanguage()) {
+      return { LanguageCode: this.config.languageCode };
+    }
+
+    const options = this.config.languageOptions!;
+    const params: Record<string, any> = {
+      IdentifyLanguage: true,
+      LanguageOptions: options.join(','),
+    };
+    const preferred = options.find(option => option.split('-')[0] === this.config.languageCode.split('-')[0]);
+    if (preferred) {
+      params.PreferredLanguage = preferred;
+    }
+    return params;
+  }
+
+  private getVocabularyParameters(): Record<string, any> {
+    if (this.vocabularyRejected) return {};
+
+    // With language identification AWS takes vocabulary lists instead of single names
+    const identifying = this.isIdentifyingLanguage();
+    const params: Record<string, any> = {};
+    if (this.config.vocabularyName) {
+      params[identifying ? 'VocabularyNames' : 'VocabularyName'] = this.config.vocabularyName;
+    }
+    if (this.config.vocabularyFilterName) {
+      params[identifying ? 'VocabularyFilterNames' : 'VocabularyFilterName'] = this.config.vocabularyFilterName;
+      params.VocabularyFilterMethod = this.config.vocabularyFilterMethod || 'mask';
+    }
+    return params;
+  }
+
+  private createAudioStream(): AudioStream {
     const audioQueue: Buffer[] = [];
     let streamEnded = false;
 
@@ -89,49 +279,330 @@ export class DirectTranscribeClient extends EventEmitter {
   }
 
   sendAudio(audioChunk: Buffer): void {
-    if (this.isStreaming && this.audioStream) {
-      this.audioStream.addAudio(audioChunk);
+    if (!this.isStreaming) return;
+
+    this.ringBuffer.push({ offset: this.totalBytes, chunk: audioChunk });
+    this.totalBytes += audioChunk.length;
+    this.trimRingBuffer();
+
+    // While reconnecting there is no active stream; the ring buffer holds the audio for replay
+    if (this.activeStream) {
+      this.activeStream.audioStream.addAudio(audioChunk);
     }
   }
 
-  private async processTranscriptionResults(response: any): Promise<void> {
+  private async processTranscriptionResults(stream: TranscribeStream, response: any): Promise<void> {
     if (!response.TranscriptResultStream) return;
 
+    let failure: any = null;
     try {
       for await (const event of response.TranscriptResultStream) {
         if (event.TranscriptEvent?.Transcript?.Results) {
           for (const result of event.TranscriptEvent.Transcript.Results) {
-            const transcript = result.Alternatives?.[0]?.Transcript || '';
-            const confidence = result.Alternatives?.[0]?.Confidence || 0;
-            
-            this.emit('transcription', {
-              text: transcript,
-              isPartial: result.IsPartial,
-              confidence,
-              timestamp: new Date().toISOString(),
-            });
+            this.handleResult(stream, result);
           }
         }
       }
     } catch (error: any) {
-      if (error.name === 'BadRequestException' && error.message?.includes('timed out')) {
-        console.log('Transcription stream timed out - this is normal when no audio is detected');
-        this.emit('timeout');
+      failure = error;
+    }
+
+    this.onStreamClosed(stream, failure);
+  }
+
+  /**
+   * Emit a result, or hold it while the previous stream is still delivering its last results
+   */
+  private handleResult(stream: TranscribeStream, result: any): void {
+    if (this.drainingStream && stream !== this.drainingStream) {
+      this.pendingResults.push({ stream, result });
+      return;
+    }
+    this.emitResult(stream, result);
+  }
+
+  private emitResult(stream: TranscribeStream, result: any): void {
+    const alternative = result.Alternatives?.[0];
+    const kept = this.removeOverlap(stream, alternative);
+    if (kept === null) return;
+
+    if (!result.IsPartial && typeof result.EndTime === 'number') {
+      this.lastFinalEndSeconds = Math.max(this.lastFinalEndSeconds, this.toTimelineSeconds(stream, result.EndTime));
+    }
+
+    const base = {
+      isPartial: result.IsPartial,
+      confidence: alternative?.Confidence || 0,
+      timestamp: new Date().toISOString(),
+      languageCode: result.LanguageCode || (this.isIdentifyingLanguage() ? undefined : this.config.languageCode),
+    };
+
+    if (!this.config.showSpeakerLabels) {
+      this.emit('transcription', { ...base, text: kept.transcript });
+      return;
+    }
+
+    // A final result can span a change of speaker; emit one result per speaker turn
+    const turns = this.splitBySpeaker(kept.items);
+    if (result.IsPartial || turns.length <= 1) {
+      this.emit('transcription', { ...base, text: kept.transcript, speaker: turns[turns.length - 1]?.speaker });
+      return;
+    }
+
+    for (const turn of turns) {
+      this.emit('transcription', { ...base, text: this.joinItems(turn.items), speaker: turn.speaker });
+    }
+  }
+
+  /**
+   * Group consecutive items by speaker label. Punctuation stays with the words before it.
+   */
+  private splitBySpeaker(items: any[]): Array<{ speaker?: string; items: any[] }> {
+    const turns: Array<{ speaker?: string; items: any[] }> = [];
+
+    for (const item of items) {
+      const current = turns[turns.length - 1];
+      const speaker: string | undefined = item.Type === 'punctuation' ? current?.speaker : item.Speaker;
+
+      if (current && (current.speaker === speaker || speaker === undefined || current.speaker === undefined)) {
+        current.speaker = current.speaker ?? speaker;
+        current.items.push(item);
       } else {
-        console.error('Transcription processing error:', error);
-        this.emit('error', error);
+        turns.push({ speaker, items: [item] });
+      }
+    }
+
+    return turns;
+  }
+
+  private joinItems(items: any[]): string {
+    return items.reduce((text: string, item: any) =>
+      item.Type === 'punctuation' || !text ? `${text}${item.Content}` : `${text} ${item.Content}`,
+    '');
+  }
+
+  /**
+   * Drop words already emitted as final by an earlier stream.
+   * Returns null when nothing new is left.
+   */
+  private removeOverlap(stream: TranscribeStream, alternative: any): { transcript: string; items: any[] } | null {
+    const transcript: string = alternative?.Transcript || '';
+    const items: any[] = alternative?.Items || [];
+
+    if (items.length === 0 || this.lastFinalEndSeconds === 0) {
+      return { transcript, items };
+    }
+
+    const kept = items.filter(item =>
+      typeof item.EndTime !== 'number' ||
+      this.toTimelineSeconds(stream, item.EndTime) > this.lastFinalEndSeconds + DEDUPE_TOLERANCE_SECONDS
+    );
+
+    if (kept.length === items.length) {
+      return { transcript, items };
+    }
+
+    // Leading punctuation belongs to the dropped words
+    while (kept.length > 0 && kept[0].Type === 'punctuation') {
+      kept.shift();
+    }
+    if (kept.length === 0) {
+      return null;
+    }
+
+    console.log(`[Transcribe] Removed ${items.length - kept.length} overlapping item(s) from stream ${stream.id}`);
+    return { transcript: this.joinItems(kept), items: kept };
+  }
+
+  private onStreamClosed(stream: TranscribeStream, error: any): void {
+    if (stream === this.drainingStream) {
+      this.finishDraining();
+      return;
+    }
+
+    if (stream !== this.activeStream || stream.ending || !this.isStreaming) {
+      return;
+    }
+
+    if (error && !(error.name === 'BadRequestException' && error.message?.includes('timed out'))) {
+      console.error('Transcription processing error:', error);
+      this.reconnect('error');
+    } else {
+      console.log('Transcription stream closed by AWS - reconnecting');
+      this.reconnect('timeout');
+    }
+  }
+
+  /**
+   * Replace the active stream before it reaches the AWS duration limit.
+   * The old stream finishes its pending results while the new one takes live audio.
+   */
+  async rotateStream(): Promise<void> {
+    const previous = this.activeStream;
+    if (!this.isStreaming || !previous || this.drainingStream) return;
+
+    console.log(`[Transcribe] Rotating stream ${previous.id}`);
+    const rotationStartedAt = Date.now();
+    const replayFrom = Math.max(this.ringStartOffset(), this.totalBytes - this.msToBytes(this.getOverlapMs()));
+
+    previous.ending = true;
+    previous.audioStream.endStream();
+    this.drainingStream = previous;
+    this.drainTimer = setTimeout(() => this.finishDraining(), DRAIN_TIMEOUT_MS);
+
+    try {
+      await this.openStreamWithVocabularyFallback(replayFrom);
+      this.recordRestart('rotation', Date.now() - rotationStartedAt, replayFrom, replayFrom);
+    } catch (error) {
+      console.error('Stream rotation failed:', error);
+      this.finishDraining();
+      this.reconnect('error');
+    }
+  }
+
+  /**
+   * Open a new stream after the active one failed, replaying audio that was not finalized
+   */
+  private async reconnect(reason: StreamRestartReason): Promise<void> {
+    const failedAt = Date.now();
+    const maxAttempts = this.config.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
+    const lastFinalOffset = Math.round(this.lastFinalEndSeconds * this.bytesPerSecond);
+    const wantedFrom = Math.max(0, lastFinalOffset - this.msToBytes(this.getOverlapMs()));
+
+    this.activeStream = null;
+    this.clearRotationTimer();
+
+    for (let attempt = 1; attempt <= maxAttempts && this.isStreaming; attempt++) {
+      const replayFrom = Math.max(wantedFrom, this.ringStartOffset());
+      try {
+        await this.openStreamWithVocabularyFallback(replayFrom);
+        this.recordRestart(reason, Date.now() - failedAt, replayFrom, wantedFrom);
+        return;
+      } catch (error) {
+        console.error(`Transcribe reconnect attempt ${attempt}/${maxAttempts} failed:`, error);
+        await new Promise(resolve => setTimeout(resolve, 500 * attempt));
       }
     }
+
+    if (this.isStreaming) {
+      // Let the streaming manager fall back to a full restart
+      this.isStreaming = false;
+      this.emit('timeout');
+    }
+  }
+
+  private recordRestart(reason: StreamRestartReason, gapMs: number, replayFrom: number, wantedFrom: number): void {
+    const lostMs = this.bytesToMs(Math.max(0, replayFrom - wantedFrom));
+
+    this.stats.restartCount++;
+    if (reason === 'rotation') {
+      this.stats.rotationCount++;
+    } else {
+      this.stats.reconnectionCount++;
+    }
+    this.stats.lastGapMs = gapMs;
+    this.stats.totalGapMs += gapMs;
+    this.stats.lostAudioMs += lostMs;
+    this.stats.streamStartedAt = new Date().toISOString();
+
+    const info: StreamRestartInfo = {
+      reason,
+      restartCount: this.stats.restartCount,
+      gapMs,
+      replayedMs: this.bytesToMs(this.totalBytes - replayFrom),
+      lostMs,
+      timestamp: new Date().toISOString(),
+    };
+
+    if (lostMs > 0) {
+      console.warn(`[Transcribe] ${lostMs}ms of audio was older than the ring buffer and could not be replayed`);
+    }
+    this.emit('stream-restarted', info);
+  }
+
+  private finishDraining(): void {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+    this.drainingStream = null;
+
+    const pending = this.pendingResults;
+    this.pendingResults = [];
+    for (const { stream, result } of pending) {
+      this.emitResult(stream, result);
+    }
+  }
+
+  private scheduleRotation(): void {
+    this.clearRotationTimer();
+    const maxDuration = this.config.maxStreamDurationMs ?? DEFAULT_MAX_STREAM_DURATION_MS;
+    this.rotationTimer = setTimeout(() => this.rotateStream(), maxDuration);
+  }
+
+  private clearRotationTimer(): void {
+    if (this.rotationTimer) {
+      clearTimeout(this.rotationTimer);
+      this.rotationTimer = null;
+    }
+  }
+
+  private trimRingBuffer(): void {
+    const maxBytes = this.msToBytes(this.config.ringBufferMs ?? DEFAULT_RING_BUFFER_MS);
+    while (this.ringBuffer.length > 1 && this.totalBytes - this.ringBuffer[0].offset - this.ringBuffer[0].chunk.length >= maxBytes) {
+      this.ringBuffer.shift();
+    }
+  }
+
+  private ringStartOffset(): number {
+    return this.ringBuffer.length > 0 ? this.ringBuffer[0].offset : this.totalBytes;
+  }
+
+  private getOverlapMs(): number {
+    return this.config.overlapMs ?? DEFAULT_OVERLAP_MS;
+  }
+
+  private toTimelineSeconds(stream: TranscribeStream, streamSeconds: number): number {
+    return stream.startOffset / this.bytesPerSecond + streamSeconds;
+  }
+
+  private msToBytes(ms: number): number {
+    const bytes = Math.round((ms / 1000) * this.bytesPerSecond);
+    return bytes - (bytes % 2);
+  }
+
+  private bytesToMs(bytes: number): number {
+    return Math.round((bytes / this.bytesPerSecond) * 1000);
+  }
+
+  private createStats(): StreamStats {
+    return {
+      restartCount: 0,
+      rotationCount: 0,
+      reconnectionCount: 0,
+      lastGapMs: 0,
+      totalGapMs: 0,
+      lostAudioMs: 0,
+      streamStartedAt: null,
+    };
+  }
+
+  getStreamStats(): StreamStats {
+    return { ...this.stats };
   }
 
   stopStreaming(): void {
     if (!this.isStreaming) return;
 
     this.isStreaming = false;
-    if (this.audioStream) {
-      this.audioStream.endStream();
-      this.audioStream = null;
+    this.clearRotationTimer();
+    if (this.activeStream) {
+      this.activeStream.ending = true;
+      this.activeStream.audioStream.endStream();
+      this.activeStream = null;
     }
+    this.finishDraining();
+    this.ringBuffer = [];
     this.emit('streaming-stopped');
   }
 }
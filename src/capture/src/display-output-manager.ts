@@ -0,0 +1,163 @@
+import { DisplayOutput } from './display-output';
+import { HolyricsIntegration, HolyricsConfig } from './holyrics-integration';
+import { ObsTextOutput, ObsTextConfig } from './obs-text-output';
+import { WebhookDisplayOutput, WebhookDisplayConfig } from './webhook-display-output';
+import { FileDisplayOutput, FileDisplayConfig } from './file-display-output';
+
+export type DisplayOutputType = 'holyrics' | 'obs' | 'webhook' | 'file';
+
+interface DisplayOutputIdentity {
+  id: string;     // Stable key used by the UI and for corrections
+  name?: string;  // Operator label ('Stage screen', 'Livestream EN')
+}
+
+export type DisplayOutputConfig = DisplayOutputIdentity & (
+  | ({ type: 'holyrics' } & HolyricsConfig)
+  | ({ type: 'obs' } & ObsTextConfig)
+  | ({ type: 'webhook' } & WebhookDisplayConfig)
+  | ({ type: 'file' } & FileDisplayConfig)
+);
+
+export interface DisplayOutputInfo {
+  id: string;
+  name: string;
+  type: DisplayOutputType;
+  language: string;
+  enabled: boolean;
+}
+
+interface DisplayTranslation {
+  targetLanguage: string;
+  text: string;
+}
+
+interface DisplayScripture {
+  reference: string;
+  verses: Array<{ text: string }>;
+  truncated?: boolean;
+}
+
+/**
+ * Fans translated lines out to every configured display output, each in its own language.
+ * A failing output is logged and never blocks the others.
+ */
+export class DisplayOutputManager {
+  private outputs: Map<string, { config: DisplayOutputConfig; output: DisplayOutput<any> }> = new Map();
+  private lineCounter = 0;
+
+  constructor(configs: DisplayOutputConfig[] = []) {
+    configs.forEach(config => this.addOutput(config));
+  }
+
+  static createOutput(config: DisplayOutputConfig): DisplayOutput<any> {
+    switch (config.type) {
+      case 'holyrics':
+        return new HolyricsIntegration(config);
+      case 'obs':
+        return new ObsTextOutput(config);
+      case 'webhook':
+        return new WebhookDisplayOutput(config);
+      case 'file':
+        return new FileDisplayOutput(config);
+      default:
+        throw new Error(`Unknown display output type: ${(config as any).type}`);
+    }
+  }
+
+  addOutput(config: DisplayOutputConfig): void {
+    if (this.outputs.has(config.id)) {
+      throw new Error(`Duplicate display output id: ${config.id}`);
+    }
+    this.outputs.set(config.id, { config, output: DisplayOutputManager.createOutput(config) });
+  }
+
+  hasOutputs(): boolean {
+    return Array.from(this.outputs.values()).some(entry => entry.output.isEnabled());
+  }
+
+  getOutputs(): DisplayOutputInfo[] {
+    return Array.from(this.outputs.values()).map(({ config, output }) => ({
+      id: config.id,
+      name: config.name || output.label,
+      type: config.type,
+      language: config.language,
+      enabled: config.enabled
+    }));
+  }
+
+  getOutput(id: string): DisplayOutput<any> | undefined {
+    return this.outputs.get(id)?.output;
+  }
+
+  /**
+   * Show a segment on every output. Returns the line ID to pass to correct().
+   */
+  async publish(
+    original: string,
+    translations: DisplayTranslation[],
+    speakerName?: string,
+    scripture?: Record<string, DisplayScripture[]>
+  ): Promise<string> {
+    const lineId = `line-${++this.lineCounter}`;
+
+    await this.forEachOutput(async output => {
+      // Fall back to the original text when the output's language was not translated
+      const translation = translations.find(t => output.matchesLanguage(t.targetLanguage));
+      await output.addLine(translation?.text || original, speakerName, lineId);
+
+      const passages = scripture?.[output.language.split('-')[0]];
+      if (passages && output.showScripture) {
+        for (const passage of passages) {
+          await output.addScripture(passage);
+        }
+      }
+    });
+
+    return lineId;
+  }
+
+  /**
+   * Replace a line on the outputs whose language was corrected and that still show it
+   */
+  async correct(lineId: string, corrections: Record<string, string>, speakerName?: string): Promise<void> {
+    await this.forEachOutput(async output => {
+      const entry = Object.entries(corrections).find(([language]) => output.matchesLanguage(language));
+      if (entry) {
+        await output.correctLine(lineId, entry[1], speakerName);
+      }
+    });
+  }
+
+  async clear(id?: string): Promise<void> {
+    await this.forEachOutput(output => output.clear(), id);
+  }
+
+  async test(id: string): Promise<boolean> {
+    const output = this.getOutput(id);
+    return output ? output.testConnection() : false;
+  }
+
+  updateOutput(id: string, config: Partial<DisplayOutputConfig>): void {
+    const entry = this.outputs.get(id);
+    if (!entry) return;
+    entry.config = { ...entry.config, ...config } as DisplayOutputConfig;
+    entry.output.updateConfig(config);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(Array.from(this.outputs.values()).map(entry => entry.output.close()));
+  }
+
+  private async forEachOutput(action: (output: DisplayOutput<any>) => Promise<void>, id?: string): Promise<void> {
+    const entries = Array.from(this.outputs.values())
+      .filter(entry => entry.output.isEnabled() && (!id || entry.config.id === id));
+
+    await Promise.all(entries.map(async ({ config, output }) => {
+      try {
+        await action(output);
+      } catch (error) {
+        console.error(`Display output "${config.name || output.label}" error:`, error);
+      }
+    }));
+  }
+}
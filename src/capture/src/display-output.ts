@@ -0,0 +1,138 @@
+/**
+ * Settings shared by every display output (Holyrics, OBS, webhook, file)
+ */
+export interface DisplayOutputSettings {
+  enabled: boolean;
+  language: string;            // Which language this output shows
+  maxLines: number;            // Maximum lines to show
+  showSpeakerNames?: boolean;  // Prefix each line with the speaker's display name
+  showScripture?: boolean;     // Add quoted Bible verses as their own line
+}
+
+export interface DisplayLine {
+  id?: string;
+  text: string;
+}
+
+/**
+ * A screen, overlay or file that shows the last few translated lines in one language.
+ * Subclasses only decide how the current lines reach their target.
+ */
+export abstract class DisplayOutput<C extends DisplayOutputSettings = DisplayOutputSettings> {
+  protected config: C;
+  protected lines: DisplayLine[] = [];
+
+  constructor(config: C) {
+    this.config = config;
+  }
+
+  /**
+   * Short label used in logs and the UI ('Holyrics', 'OBS', ...)
+   */
+  abstract get label(): string;
+
+  /**
+   * Push the current lines to the target; an empty list with show=false clears it
+   */
+  protected abstract send(lines: string[], show: boolean): Promise<void>;
+
+  get language(): string {
+    return this.config.language;
+  }
+
+  get showScripture(): boolean {
+    return !!this.config.showScripture;
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Match a translation language with or without country code (fr matches fr-FR)
+   */
+  matchesLanguage(language: string): boolean {
+    const own = this.config.language;
+    if (!own) return false;
+    return language === own || language.startsWith(own + '-') || language === own.split('-')[0];
+  }
+
+  async addLine(text: string, speakerName?: string, lineId?: string): Promise<void> {
+    if (!this.config.enabled || !text.trim()) return;
+
+    this.lines.push({ id: lineId, text: this.formatLine(text, speakerName) });
+
+    // Keep only last N lines
+    if (this.lines.length > this.config.maxLines) {
+      this.lines = this.lines.slice(-this.config.maxLines);
+    }
+
+    await this.render();
+  }
+
+  /**
+   * Show a quoted passage as its own line ('João 3:16 Porque Deus amou o mundo...')
+   */
+  async addScripture(passage: { reference: string; verses: Array<{ text: string }>; truncated?: boolean }): Promise<void> {
+    const text = passage.verses.map(verse => verse.text).join(' ') + (passage.truncated ? ' …' : '');
+    await this.addLine(`${passage.reference} ${text}`);
+  }
+
+  /**
+   * Replace a line that is still shown. Returns false once it has scrolled off.
+   */
+  async correctLine(lineId: string, text: string, speakerName?: string): Promise<boolean> {
+    if (!this.config.enabled || !text.trim()) return false;
+
+    const line = this.lines.find(l => l.id === lineId);
+    if (!line) return false;
+
+    line.text = this.formatLine(text, speakerName);
+    await this.render();
+    return true;
+  }
+
+  async clear(): Promise<void> {
+    if (!this.config.enabled) return;
+
+    this.lines = [];
+    await this.send([], false);
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.send(['Test connection'], true);
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      await this.send([], false);
+      return true;
+    } catch (error) {
+      console.error(`${this.label} connection test failed:`, error);
+      return false;
+    }
+  }
+
+  updateConfig(newConfig: Partial<C>): void {
+    this.config = { ...this.config, ...newConfig };
+    if (this.lines.length > this.config.maxLines) {
+      this.lines = this.lines.slice(-this.config.maxLines);
+    }
+  }
+
+  /**
+   * Release connections held by the output
+   */
+  async close(): Promise<void> {
+    // Stateless outputs have nothing to release
+  }
+
+  protected formatLine(text: string, speakerName?: string): string {
+    const prefix = this.config.showSpeakerNames && speakerName ? `${speakerName}: ` : '';
+    return prefix + text.trim();
+  }
+
+  protected async render(): Promise<void> {
+    const lines = this.lines.map(l => l.text);
+    console.log(`[${this.label}] Displaying (${this.config.language}):`, lines.join(' ').substring(0, 50));
+    await this.send(lines, true);
+  }
+}
@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DisplayOutput, DisplayOutputSettings } from './display-output';
+
+/**
+ * - text: one line per subtitle line (vMix/OBS text-from-file)
+ * - json: { language, text, lines, updatedAt } (vMix JSON data source)
+ * - xml:  CasparCG templateData, f0 = all lines, f1..fN = one line each (also usable as a vMix XML data source)
+ */
+export type DisplayFileFormat = 'text' | 'json' | 'xml';
+
+export interface FileDisplayConfig extends DisplayOutputSettings {
+  filePath: string;
+  format: DisplayFileFormat;
+}
+
+/**
+ * Writes the current lines to a file that vMix or CasparCG title templates read from
+ */
+export class FileDisplayOutput extends DisplayOutput<FileDisplayConfig> {
+  get label(): string {
+    return 'File';
+  }
+
+  protected async send(lines: string[], _show: boolean): Promise<void> {
+    if (!this.config.enabled) return;
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.config.filePath), { recursive: true });
+
+      // Write then rename so a template polling the file never reads it half-written
+      const temporary = `${this.config.filePath}.tmp`;
+      await fs.promises.writeFile(temporary, this.serialize(lines), 'utf8');
+      await fs.promises.rename(temporary, this.config.filePath);
+    } catch (error: any) {
+      console.error(`[File] ❌ Cannot write ${this.config.filePath}:`, error.message);
+      throw error;
+    }
+  }
+
+  private serialize(lines: string[]): string {
+    switch (this.config.format) {
+      case 'json':
+        return JSON.stringify({
+          language: this.config.language,
+          text: lines.join('\n'),
+          lines,
+          updatedAt: new Date().toISOString()
+        }, null, 2);
+      case 'xml': {
+        const fields = [lines.join('\n'), ...lines].map((value, index) =>
+          `  <componentData id="f${index}"><data id="text" value="${escapeXml(value)}"/></componentData>`);
+        return `<?xml version="1.0" encoding="UTF-8"?>\n<templateData>\n${fields.join('\n')}\n</templateData>\n`;
+      }
+      default:
+        return lines.join('\n') + (lines.length > 0 ? '\n' : '');
+    }
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+}
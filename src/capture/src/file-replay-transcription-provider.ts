@@ -0,0 +1,211 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TranscriptionProvider } from './transcription-provider';
+
+interface FileReplayConfig {
+  filePath: string;
+  speed?: number;   // 1 = real time
+  loop?: boolean;
+}
+
+export interface ReplayCue {
+  start: number;  // seconds from the beginning of the file
+  end: number;
+  text: string;
+  speaker?: string;
+  languageCode?: string;  // Spoken language of the cue, when the file records it
+}
+
+const TICK_MS = 100;
+const PARTIAL_INTERVAL_MS = 400;
+
+/**
+ * Replays a timestamped transcript (JSON or SRT) at real-time speed.
+ * Each cue is revealed word by word as partial results and then emitted as a
+ * final result at its end time, so the rest of the pipeline behaves as it
+ * would with live AWS Transcribe output. No audio or AWS credentials are used.
+ */
+export class FileReplayTranscriptionProvider extends EventEmitter implements TranscriptionProvider {
+  readonly name = 'file-replay' as const;
+  readonly requiresAudio = false;
+
+  private config: FileReplayConfig;
+  private cues: ReplayCue[] = [];
+  private cueIndex = 0;
+  private lastPartialWords = 0;
+  private lastPartialAt = 0;
+  private startedAt = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private isStreaming = false;
+
+  constructor(config: FileReplayConfig) {
+    super();
+    this.config = config;
+  }
+
+  /**
+   * Read and parse a transcript file. Format is chosen by extension:
+   * .srt for SubRip, anything else is parsed as JSON.
+   */
+  static loadCues(filePath: string): ReplayCue[] {
+    const content = fs.readFileSync(filePath, 'utf8');
+    const cues = path.extname(filePath).toLowerCase() === '.srt'
+      ? FileReplayTranscriptionProvider.parseSrt(content)
+      : FileReplayTranscriptionProvider.parseJson(content);
+
+    return cues
+      .filter(cue => cue.text.trim() && isFinite(cue.start) && isFinite(cue.end))
+      .map(cue => ({ ...cue, end: Math.max(cue.end, cue.start) }))
+      .sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Accepts an array of { start, end, text, speaker?, languageCode? } (seconds), the same wrapped in
+   * { segments: [...] }, or AWS Transcribe batch output with audio_segments.
+   */
+  static parseJson(content: string): ReplayCue[] {
+    const data = JSON.parse(content);
+
+    if (Array.isArray(data?.results?.audio_segments)) {
+      return data.results.audio_segments.map((segment: any) => ({
+        start: parseFloat(segment.start_time),
+        end: parseFloat(segment.end_time),
+        text: String(segment.transcript || ''),
+        speaker: segment.speaker_label,
+        languageCode: segment.language_code,
+      }));
+    }
+
+    const segments = Array.isArray(data) ? data : data?.segments;
+    if (!Array.isArray(segments)) {
+      throw new Error('Transcript JSON must be an array of { start, end, text } or { segments: [...] }');
+    }
+
+    return segments.map((segment: any) => ({
+      start: Number(segment.start),
+      end: Number(segment.end ?? segment.start),
+      text: String(segment.text || ''),
+      speaker: segment.speaker !== undefined ? String(segment.speaker) : undefined,
+      languageCode: typeof segment.languageCode === 'string' ? segment.languageCode : undefined,
+    }));
+  }
+
+  static parseSrt(content: string): ReplayCue[] {
+    const cues: ReplayCue[] = [];
+    const blocks = content.replace(/\r/g, '').split(/\n\s*\n/);
+
+    for (const block of blocks) {
+      const lines = block.split('\n').filter(line => line.trim());
+      const timingIndex = lines.findIndex(line => line.includes('-->'));
+      if (timingIndex === -1) continue;
+
+      const [start, end] = lines[timingIndex].split('-->').map(part => FileReplayTranscriptionProvider.parseSrtTime(part));
+      const text = lines.slice(timingIndex + 1).join(' ').replace(/<[^>]+>/g, '').trim();
+      cues.push({ start, end, text });
+    }
+
+    return cues;
+  }
+
+  private static parseSrtTime(value: string): number {
+    const match = value.trim().match(/(\d+):(\d{2}):(\d{2})[,.](\d{1,3})/);
+    if (!match) return NaN;
+    const [, hours, minutes, seconds, millis] = match;
+    return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10) + parseInt(millis.padEnd(3, '0'), 10) / 1000;
+  }
+
+  /**
+   * A file that cannot be read or holds no cues rejects; the caller reports it
+   */
+  async startStreaming(): Promise<void> {
+    if (this.isStreaming) return;
+
+    this.cues = FileReplayTranscriptionProvider.loadCues(this.config.filePath);
+    if (this.cues.length === 0) {
+      throw new Error(`No timestamped text found in ${this.config.filePath}`);
+    }
+
+    console.log(`Replaying ${this.cues.length} cues from ${this.config.filePath} at ${this.getSpeed()}x`);
+
+    this.isStreaming = true;
+    this.restart();
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+    this.emit('streaming-started');
+  }
+
+  sendAudio(_audioChunk: Buffer): void {
+    // Replay ignores audio
+  }
+
+  stopStreaming(): void {
+    if (!this.isStreaming) return;
+
+    this.isStreaming = false;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.emit('streaming-stopped');
+  }
+
+  private restart(): void {
+    this.cueIndex = 0;
+    this.lastPartialWords = 0;
+    this.lastPartialAt = 0;
+    this.startedAt = Date.now();
+  }
+
+  private getSpeed(): number {
+    const speed = this.config.speed || 1;
+    return speed > 0 ? speed : 1;
+  }
+
+  private tick(): void {
+    const elapsed = ((Date.now() - this.startedAt) / 1000) * this.getSpeed();
+
+    // Emit every cue whose end time has passed
+    while (this.cueIndex < this.cues.length && elapsed >= this.cues[this.cueIndex].end) {
+      this.emitResult(this.cues[this.cueIndex], this.cues[this.cueIndex].text, false);
+      this.cueIndex++;
+      this.lastPartialWords = 0;
+    }
+
+    if (this.cueIndex >= this.cues.length) {
+      if (this.config.loop) {
+        console.log('Replay reached end of file - looping');
+        this.restart();
+      } else {
+        console.log('Replay reached end of file');
+        this.stopStreaming();
+        this.emit('ended');
+      }
+      return;
+    }
+
+    // Reveal the current cue progressively, like Transcribe partial results
+    const cue = this.cues[this.cueIndex];
+    if (elapsed < cue.start || Date.now() - this.lastPartialAt < PARTIAL_INTERVAL_MS) return;
+
+    const words = cue.text.trim().split(/\s+/);
+    const progress = cue.end > cue.start ? (elapsed - cue.start) / (cue.end - cue.start) : 1;
+    const wordCount = Math.max(1, Math.floor(words.length * progress));
+
+    if (wordCount > this.lastPartialWords && wordCount < words.length) {
+      this.lastPartialWords = wordCount;
+      this.lastPartialAt = Date.now();
+      this.emitResult(cue, words.slice(0, wordCount).join(' '), true);
+    }
+  }
+
+  private emitResult(cue: ReplayCue, text: string, isPartial: boolean): void {
+    this.emit('transcription', {
+      text,
+      isPartial,
+      confidence: 1,
+      timestamp: new Date().toISOString(),
+      languageCode: cue.languageCode,
+      speaker: cue.speaker,
+    });
+  }
+}
@@ -1,21 +1,27 @@
 import axios from 'axios';
+import { DisplayOutput, DisplayOutputSettings } from './display-output';
 
-export interface HolyricsConfig {
+export interface HolyricsConfig extends DisplayOutputSettings {
   host: string;
   port: number;
   token: string;
-  enabled: boolean;
-  language: string; // Which language to display on big screen
-  maxLines: number; // Maximum lines to show
 }
 
-export class HolyricsIntegration {
-  private config: HolyricsConfig;
-  private displayedText: string = '';
-  private sentences: string[] = [];
+/**
+ * Shows translations on the Holyrics big screen through its /api/SetTextCP endpoint
+ */
+export class HolyricsIntegration extends DisplayOutput<HolyricsConfig> {
+  get label(): string {
+    return 'Holyrics';
+  }
 
-  constructor(config: HolyricsConfig) {
-    this.config = config;
+  protected async send(lines: string[], show: boolean): Promise<void> {
+    // Holyrics shows a single text block; sentences are joined into one paragraph
+    let text = lines.join('. ');
+    if (text && !text.endsWith('.')) {
+      text += '.';
+    }
+    await this.sendText(text, show);
   }
 
   async sendText(text: string, show: boolean = true): Promise<void> {
@@ -23,9 +29,9 @@ export class HolyricsIntegration {
 
     try {
       const url = `http://${this.config.host}:${this.config.port}/api/SetTextCP?token=${this.config.token}`;
-      
+
       console.log(`[Holyrics] Sending to ${this.config.host}:${this.config.port}...`);
-      
+
       const response = await axios.post(url, {
         text: text,
         show: show,
@@ -50,59 +56,14 @@ export class HolyricsIntegration {
     }
   }
 
-  async addTranslation(newText: string): Promise<void> {
-    if (!this.config.enabled || !newText.trim()) return;
-
-    // Add new sentence
-    this.sentences.push(newText.trim());
-
-    // Keep only last N sentences
-    if (this.sentences.length > this.config.maxLines) {
-      this.sentences = this.sentences.slice(-this.config.maxLines);
-    }
-
-    // Join sentences for display
-    this.displayedText = this.sentences.join('. ');
-    if (this.displayedText && !this.displayedText.endsWith('.')) {
-      this.displayedText += '.';
-    }
-
-    console.log(`[Holyrics] Displaying (${this.config.language}):`, this.displayedText.substring(0, 50));
-    await this.sendText(this.displayedText);
-  }
-
-  async clear(): Promise<void> {
-    if (!this.config.enabled) return;
-
-    this.displayedText = '';
-    this.sentences = [];
-    await this.sendText('', false);
-  }
-
-  async testConnection(): Promise<boolean> {
-    try {
-      await this.sendText('Test connection', true);
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      await this.clear();
-      return true;
-    } catch (error) {
-      console.error('Holyrics connection test failed:', error);
-      return false;
-    }
-  }
-
-  updateConfig(newConfig: Partial<HolyricsConfig>): void {
-    this.config = { ...this.config, ...newConfig };
-  }
-
   // Static method for testing without instance
   static async testConnectionStatic(config: HolyricsConfig): Promise<boolean> {
     try {
       const url = `http://${config.host}:${config.port}/api/SetTextCP?token=${config.token}`;
-      
+
       console.log('[Holyrics Test] Sending test message to:', url);
       console.log('[Holyrics Test] Payload:', { text: 'Teste de conexão com Holyrics', show: true, display_ahead: true });
-      
+
       await axios.post(url, {
         text: 'Teste de conexão com Holyrics',
         show: true,
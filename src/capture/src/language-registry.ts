@@ -0,0 +1,69 @@
+import registry from '../../shared/languages.json';
+
+/**
+ * Capture-side view of the shared language registry (src/shared/languages.json),
+ * which the websocket server and the PWA read as well.
+ */
+export interface LanguageDefinition {
+  code: string;             // Short code used in sessions and messages, e.g. 'pt'
+  name: string;
+  nativeName: string;
+  flag: string;
+  direction: 'ltr' | 'rtl';
+  locale: string;           // Regional code used for TTS, e.g. 'pt-BR'
+  translateCode: string;    // Amazon Translate language code
+  espeakVoice?: string;     // espeak-ng voice for the server's local TTS engine
+  transcribeCode?: string;  // Amazon Transcribe streaming code, absent when it cannot be a source
+  polly?: {
+    languageCode: string;
+    neural?: string;
+    standard?: string;
+  };
+  joinInstruction: string;
+  voicePreview: string;     // Sample phrase for voice previews
+}
+
+const LANGUAGES: LanguageDefinition[] = registry.languages as LanguageDefinition[];
+
+export function getLanguages(): LanguageDefinition[] {
+  return [...LANGUAGES];
+}
+
+/**
+ * Look up a language by short code ('pt') or by any regional code the registry
+ * knows for it ('pt-BR', 'es-US'). Unknown regional codes fall back to their prefix.
+ */
+export function getLanguage(code: string): LanguageDefinition | undefined {
+  if (!code) {
+    return undefined;
+  }
+
+  const normalized = code.toLowerCase();
+  return LANGUAGES.find(language => language.code === normalized)
+    || LANGUAGES.find(language =>
+      language.locale.toLowerCase() === normalized ||
+      language.transcribeCode?.toLowerCase() === normalized ||
+      language.polly?.languageCode.toLowerCase() === normalized)
+    || LANGUAGES.find(language => language.code === normalized.split('-')[0]);
+}
+
+/**
+ * Regional code the capture app keys TTS and translations by ('es' → 'es-ES')
+ */
+export function toLocale(code: string): string {
+  return getLanguage(code)?.locale || code;
+}
+
+// Regional variants Amazon Translate accepts; any other regional code is translated as its language
+const TRANSLATE_REGIONAL_CODES = ['fa-AF', 'fr-CA', 'es-MX', 'pt-PT', 'zh-TW'];
+
+/**
+ * Amazon Translate code for a short or regional code ('pt-BR' → 'pt'). Transcribe locales
+ * outside the registry, such as a detected 'hi-IN', fall back to their language ('hi').
+ */
+export function toTranslateCode(code: string): string {
+  if (TRANSLATE_REGIONAL_CODES.includes(code)) {
+    return code;
+  }
+  return getLanguage(code)?.translateCode || code.split('-')[0];
+}
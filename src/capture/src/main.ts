@@ -1,15 +1,30 @@
-import { app, BrowserWindow, ipcMain, safeStorage, systemPreferences } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain, safeStorage, systemPreferences } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
 import { CognitoAuth } from './auth';
 import { DirectStreamingManager } from './direct-streaming-manager';
 import { WebSocketManager } from './websocket-manager';
 import { loadConfig, saveConfig } from './config';
+import { getLanguage, getLanguages } from './language-registry';
+import {
+  LanguageVocabularyConfig,
+  getLanguageVocabulary,
+  normalizeLanguageVocabulary,
+  validateLanguageVocabulary,
+  toVocabularyTable,
+  toFilterWordList
+} from './transcription-vocabulary';
+import { ScriptureLibrary } from './scripture-library';
+import { DisplayOutputManager, DisplayOutputConfig } from './display-output-manager';
+import { MonitoringDashboard } from './monitoring-dashboard';
+import { ErrorLogger } from './error-logger';
 
 let mainWindow: BrowserWindow | null = null;
 let cognitoAuth: CognitoAuth | null = null;
 let streamingManager: DirectStreamingManager | null = null;
 let webSocketManager: WebSocketManager | null = null;
+let errorLogger: ErrorLogger | null = null;
+let monitoringDashboard: MonitoringDashboard | null = null;  // Kept after streaming stops so the last run can be inspected
 
 interface ServerConfig {
   host: string;
@@ -36,6 +51,10 @@ function getServerConfig(config: any): ServerConfig {
   return { host, port };
 }
 
+function getBiblesDirectory(config: any): string {
+  return config?.scripture?.biblesDirectory || path.join(app.getPath('userData'), 'bibles');
+}
+
 interface StoredCredentials {
   username: string;
   token: string;
@@ -94,13 +113,13 @@ function createWindow() {
     webPreferences: {
       nodeIntegration: false,
       contextIsolation: true,
-      preload: path.join(__dirname, '../preload.js'),
+      preload: path.join(__dirname, '../../../preload.js'),
       webSecurity: true,
       allowRunningInsecureContent: false,
     },
   });
 
-  mainWindow.loadFile(path.join(__dirname, '../index.html'));
+  mainWindow.loadFile(path.join(__dirname, '../../../index.html'));
   
   // Open DevTools in development mode
   if (process.env.NODE_ENV === 'development') {
@@ -121,6 +140,8 @@ app.on('window-all-closed', () => {
 });
 
 app.on('before-quit', async () => {
+  monitoringDashboard?.stop();
+
   // Cleanup streaming manager
   if (streamingManager) {
     try {
@@ -154,8 +175,26 @@ ipcMain.handle('load-config', () => {
   return loadConfig();
 });
 
+ipcMain.handle('get-languages', () => {
+  return getLanguages();
+});
+
 ipcMain.handle('save-config', (_, config) => {
   saveConfig(config);
+  
+  // Segmentation, voice activity detection and speaker names can be tuned while streaming
+  if (streamingManager && config.segmentation) {
+    streamingManager.updateSegmentationConfig(config.segmentation);
+  }
+  if (streamingManager && config.vad) {
+    streamingManager.updateVadConfig(config.vad);
+  }
+  if (streamingManager && config.moderation) {
+    streamingManager.updateModerationConfig(config.moderation);
+  }
+  if (streamingManager && config.diarization?.speakerNames) {
+    streamingManager.updateSpeakerNames(config.diarization.speakerNames);
+  }
   return { success: true };
 });
 
@@ -497,6 +536,34 @@ ipcMain.handle('connect-websocket', async () => {
         console.log('Admin auth failed:', error);
         mainWindow?.webContents.send('admin-auth-failed', error);
       });
+      
+      // Glossary changes made by any operator
+      webSocketManager.on('terminology-updated', (notification) => {
+        mainWindow?.webContents.send('terminology-updated', notification);
+      });
+
+      // Pronunciation lexicon changes made by any operator
+      webSocketManager.on('pronunciations-updated', (notification) => {
+        mainWindow?.webContents.send('pronunciations-updated', notification);
+      });
+
+      // Scripted content preparation and live/scripted switches
+      webSocketManager.on('script-progress', (notification) => {
+        mainWindow?.webContents.send('script-progress', notification);
+      });
+
+      webSocketManager.on('session-mode-changed', (notification) => {
+        mainWindow?.webContents.send('session-mode-changed', notification);
+      });
+
+      webSocketManager.on('session-join-info', (joinInfo) => {
+        mainWindow?.webContents.send('session-join-info', joinInfo);
+      });
+
+      // How far behind each listener is, from their delivery acknowledgements
+      webSocketManager.on('client-lag-update', (update) => {
+        mainWindow?.webContents.send('client-lag-update', update);
+      });
     } else {
       console.log('WebSocketManager already exists, reusing');
     }
@@ -599,7 +666,13 @@ ipcMain.handle('create-session', async (_, sessionId, providedConfig) => {
         sessionId,
         enabledLanguages: (config?.targetLanguages || ['en', 'es', 'fr', 'de', 'it']) as any,
         ttsMode: config?.tts?.mode || 'neural',
-        audioQuality: (config?.tts?.mode === 'neural' ? 'high' : 'medium') as 'high' | 'medium'
+        audioQuality: (config?.tts?.mode === 'neural' ? 'high' : 'medium') as 'high' | 'medium',
+        speech: {
+          rate: config?.tts?.rate,
+          pitch: config?.tts?.pitch,
+          languages: config?.tts?.languages
+        },
+        voices: config?.tts?.voices
       };
 
       await webSocketManager.createSession(sessionId, sessionConfig);
@@ -671,6 +744,178 @@ ipcMain.handle('update-session-config', async (_, sessionConfig) => {
   return { success: false, error: 'WebSocket manager not initialized' };
 });
 
+// Terminology / glossary handlers
+ipcMain.handle('list-terminology', async (_, sourceLanguage?: string) => {
+  if (webSocketManager) {
+    try {
+      const entries = await webSocketManager.listTerminology(sourceLanguage);
+      return { success: true, entries };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+  return { success: false, error: 'WebSocket manager not initialized' };
+});
+
+ipcMain.handle('add-terminology', async (_, sourceLanguage: string, entries: any[]) => {
+  if (webSocketManager) {
+    try {
+      const result = await webSocketManager.addTerminology(sourceLanguage, entries);
+      return { success: true, ...result };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+  return { success: false, error: 'WebSocket manager not initialized' };
+});
+
+ipcMain.handle('update-terminology', async (_, entryId: string, updates: any) => {
+  if (webSocketManager) {
+    try {
+      const result = await webSocketManager.updateTerminology(entryId, updates);
+      return { success: true, entry: result.entry };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+  return { success: false, error: 'WebSocket manager not initialized' };
+});
+
+ipcMain.handle('delete-terminology', async (_, entryId: string, targetLanguage?: string) => {
+  if (webSocketManager) {
+    try {
+      const result = await webSocketManager.deleteTerminology(entryId, targetLanguage);
+      return { success: true, entryDeleted: result.entryDeleted };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+  return { success: false, error: 'WebSocket manager not initialized' };
+});
+
+// Pronunciation lexicon handlers
+ipcMain.handle('list-pronunciations', async (_, language?: string) => {
+  if (webSocketManager) {
+    try {
+      const entries = await webSocketManager.listPronunciations(language);
+      return { success: true, entries };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+  return { success: false, error: 'WebSocket manager not initialized' };
+});
+
+ipcMain.handle('add-pronunciations', async (_, entries: any[]) => {
+  if (webSocketManager) {
+    try {
+      const result = await webSocketManager.addPronunciations(entries);
+      return { success: true, ...result };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+  return { success: false, error: 'WebSocket manager not initialized' };
+});
+
+ipcMain.handle('update-pronunciation', async (_, entryId: string, updates: any) => {
+  if (webSocketManager) {
+    try {
+      const result = await webSocketManager.updatePronunciation(entryId, updates);
+      return { success: true, entry: result.entry };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+  return { success: false, error: 'WebSocket manager not initialized' };
+});
+
+ipcMain.handle('delete-pronunciation', async (_, entryId: string) => {
+  if (webSocketManager) {
+    try {
+      const result = await webSocketManager.deletePronunciation(entryId);
+      return { success: true, entryId: result.entryId };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+  return { success: false, error: 'WebSocket manager not initialized' };
+});
+
+// Voice selection handlers
+ipcMain.handle('list-voices', async (_, language?: string) => {
+  if (webSocketManager) {
+    try {
+      const voices = await webSocketManager.listVoices(language);
+      return { success: true, voices };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+  return { success: false, error: 'WebSocket manager not initialized' };
+});
+
+ipcMain.handle('preview-voice', async (_, language: string, voiceId: string, voiceType?: 'neural' | 'standard') => {
+  if (webSocketManager) {
+    try {
+      const preview = await webSocketManager.previewVoice(language, voiceId, voiceType);
+      return { success: true, ...preview };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+  return { success: false, error: 'WebSocket manager not initialized' };
+});
+
+// Scripted content handlers
+ipcMain.handle('upload-script', async (_, title: string, sourceLanguage: string, document: string) => {
+  if (webSocketManager) {
+    try {
+      const result = await webSocketManager.uploadScript(title, sourceLanguage, document);
+      return { success: true, script: result.script, segments: result.segments };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+  return { success: false, error: 'WebSocket manager not initialized' };
+});
+
+ipcMain.handle('get-script', async () => {
+  if (webSocketManager) {
+    try {
+      const result = await webSocketManager.getScript();
+      return { success: true, script: result.script, segments: result.segments };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+  return { success: false, error: 'WebSocket manager not initialized' };
+});
+
+ipcMain.handle('script-control', async (_, action: 'next' | 'previous' | 'goto' | 'repeat' | 'clear', index?: number) => {
+  if (webSocketManager) {
+    try {
+      const result = await webSocketManager.scriptControl(action, index);
+      return { success: true, position: result.position, segmentId: result.segmentId };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+  return { success: false, error: 'WebSocket manager not initialized' };
+});
+
+ipcMain.handle('set-session-mode', async (_, mode: 'live' | 'scripted') => {
+  if (webSocketManager) {
+    try {
+      const result = await webSocketManager.setSessionMode(mode);
+      return { success: true, mode: result.mode };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+  return { success: false, error: 'WebSocket manager not initialized' };
+});
+
 ipcMain.handle('update-tts-config', async (_, config) => {
   if (streamingManager) {
     try {
@@ -699,9 +944,90 @@ ipcMain.handle('reset-cost-tracking', async () => {
 });
 
 // Local streaming (enhanced with TTS and WebSocket)
+ipcMain.handle('select-replay-file', async () => {
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    title: 'Select transcript to replay',
+    properties: ['openFile'],
+    filters: [
+      { name: 'Transcripts', extensions: ['json', 'srt'] },
+      { name: 'All Files', extensions: ['*'] }
+    ]
+  });
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return { success: false, canceled: true };
+  }
+  return { success: true, filePath: result.filePaths[0] };
+});
+
+ipcMain.handle('validate-vocabulary', async (_, vocabulary: LanguageVocabularyConfig) => {
+  const normalized = normalizeLanguageVocabulary(vocabulary);
+  const issues = validateLanguageVocabulary(normalized);
+  return {
+    success: true,
+    valid: !issues.some(issue => issue.severity === 'error'),
+    vocabulary: normalized,
+    issues
+  };
+});
+
+ipcMain.handle('export-vocabulary', async (_, language: string, vocabulary: LanguageVocabularyConfig) => {
+  try {
+    const normalized = normalizeLanguageVocabulary(vocabulary);
+    const issues = validateLanguageVocabulary(normalized).filter(issue => issue.severity === 'error');
+    if (issues.length > 0) {
+      return { success: false, error: `Fix ${issues.length} vocabulary error(s) before exporting` };
+    }
+
+    const result = await dialog.showOpenDialog(mainWindow!, {
+      title: 'Select folder for AWS Transcribe vocabulary files',
+      properties: ['openDirectory', 'createDirectory']
+    });
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, canceled: true };
+    }
+
+    const files: string[] = [];
+    if (normalized.entries.length > 0) {
+      const file = path.join(result.filePaths[0], `${normalized.vocabularyName || `vocabulary-${language}`}.txt`);
+      fs.writeFileSync(file, toVocabularyTable(normalized.entries));
+      files.push(file);
+    }
+    if (normalized.filterWords.length > 0) {
+      const file = path.join(result.filePaths[0], `${normalized.vocabularyFilterName || `filter-${language}`}.txt`);
+      fs.writeFileSync(file, toFilterWordList(normalized.filterWords));
+      files.push(file);
+    }
+
+    return { success: true, files };
+  } catch (error) {
+    console.error('Failed to export vocabulary:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('select-audio-file', async () => {
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    title: 'Select recording to stream',
+    properties: ['openFile'],
+    filters: [
+      { name: 'Audio', extensions: ['wav', 'flac', 'raw', 'pcm'] },
+      { name: 'All Files', extensions: ['*'] }
+    ]
+  });
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return { success: false, canceled: true };
+  }
+  return { success: true, filePath: result.filePaths[0] };
+});
+
 ipcMain.handle('start-local-streaming', async (_, options = {}) => {
-  // Request microphone permission before starting
-  if (process.platform === 'darwin') {
+  const replaying = (global as any).config?.transcription?.provider === 'file-replay';
+  const usingAudioFile = !!(global as any).config?.audioInputFile;
+  
+  // Request microphone permission before starting (replay and audio files do not use the microphone)
+  if (process.platform === 'darwin' && !replaying && !usingAudioFile) {
     const status = systemPreferences.getMediaAccessStatus('microphone');
     console.log('Microphone permission status:', status);
     
@@ -721,16 +1047,33 @@ ipcMain.handle('start-local-streaming', async (_, options = {}) => {
     throw new Error('Configuration or authentication not found. Please login first.');
   }
   
+  // Older configs saved short codes ('en'); Transcribe needs the regional code from the registry
+  const sourceLanguage = getLanguage(config.sourceLanguage || 'pt')?.transcribeCode || config.sourceLanguage || 'pt-BR';
+
   streamingManager = new DirectStreamingManager({
     region: config.region,
     identityPoolId: config.identityPoolId,
     userPoolId: config.userPoolId,
     jwtToken: token,
-    sourceLanguage: config.sourceLanguage || 'pt-BR',
+    sourceLanguage,
     targetLanguages: config.targetLanguages || ['en', 'es', 'fr', 'de', 'it'],
     sampleRate: config.sampleRate || 16000,
     audioDevice: options.audioDevice || 'default',
+    audioInputFile: config.audioInputFile,
+    audioInputLoop: config.audioInputLoop,
     holyrics: config.holyrics,
+    displayOutputs: config.displayOutputs,
+    segmentation: config.segmentation,
+    transcription: config.transcription,
+    vad: config.vad,
+    vocabulary: getLanguageVocabulary(config.transcriptionVocabularies, sourceLanguage),
+    languageIdentification: config.languageIdentification,
+    diarization: config.diarization,
+    moderation: config.moderation,
+    scripture: config.scripture?.enabled ? {
+      ...config.scripture,
+      biblesDirectory: getBiblesDirectory(config),
+    } : undefined,
     tts: config.tts || {
       mode: 'neural',
       host: 'localhost',
@@ -795,10 +1138,72 @@ ipcMain.handle('start-local-streaming', async (_, options = {}) => {
     mainWindow?.webContents.send('transcription-restarted', info);
   });
 
+  streamingManager.on('transcription-ended', (info) => {
+    console.log('Transcription source ended:', info);
+    mainWindow?.webContents.send('transcription-ended', info);
+  });
+
+  streamingManager.on('source-language-changed', (change) => {
+    mainWindow?.webContents.send('source-language-changed', change);
+  });
+
+  // Review mode
+  streamingManager.on('moderation-queued', (item) => {
+    mainWindow?.webContents.send('moderation-queued', item);
+  });
+
+  streamingManager.on('moderation-resolved', (result) => {
+    mainWindow?.webContents.send('moderation-resolved', result);
+  });
+
+  streamingManager.on('moderation-stats', (stats) => {
+    mainWindow?.webContents.send('moderation-stats', stats);
+  });
+
+  startMonitoring(streamingManager);
+
   await streamingManager.startStreaming();
   return { success: true };
 });
 
+/**
+ * A fresh monitoring dashboard for each streaming run, fed by the streaming manager
+ * (stream restarts, review queue) and reported to the window
+ */
+function startMonitoring(manager: DirectStreamingManager): void {
+  monitoringDashboard?.stop();
+  monitoringDashboard?.removeAllListeners();
+
+  errorLogger = errorLogger || new ErrorLogger();
+  const dashboard = new MonitoringDashboard(errorLogger, manager.getTTSManager(), webSocketManager || undefined);
+  monitoringDashboard = dashboard;
+  manager.setMonitoringDashboard(dashboard);
+
+  const sendSnapshot = () => {
+    mainWindow?.webContents.send('monitoring-updated', getMonitoringSnapshot(dashboard));
+  };
+  dashboard.on('metrics-updated', sendSnapshot);
+  dashboard.on('transcription-restart', sendSnapshot);
+  dashboard.on('moderation-updated', sendSnapshot);
+  dashboard.on('alert-triggered', (alert) => {
+    mainWindow?.webContents.send('monitoring-alert', alert);
+    sendSnapshot();
+  });
+  sendSnapshot();
+}
+
+function getMonitoringSnapshot(dashboard: MonitoringDashboard) {
+  return {
+    metrics: dashboard.getCurrentMetrics(),
+    health: dashboard.getHealthSummary(),
+    alerts: dashboard.getActiveAlerts()
+  };
+}
+
+ipcMain.handle('get-monitoring', () => {
+  return monitoringDashboard ? getMonitoringSnapshot(monitoringDashboard) : null;
+});
+
 ipcMain.handle('stop-local-streaming', async () => {
   if (streamingManager) {
     await streamingManager.stopStreaming();
@@ -807,6 +1212,56 @@ ipcMain.handle('stop-local-streaming', async () => {
   return { success: true };
 });
 
+// Review mode actions
+ipcMain.handle('approve-segment', (_, id: string, edits?: { original?: string; translations?: Record<string, string> }) => {
+  if (!streamingManager) {
+    return { success: false, error: 'Streaming is not active' };
+  }
+  const approved = streamingManager.approveSegment(id, edits);
+  return approved ? { success: true } : { success: false, error: 'Segment is no longer waiting for review' };
+});
+
+ipcMain.handle('hold-segment', (_, id: string) => {
+  return { success: !!streamingManager?.holdSegment(id) };
+});
+
+ipcMain.handle('discard-segment', (_, id: string) => {
+  if (!streamingManager) {
+    return { success: false, error: 'Streaming is not active' };
+  }
+  const discarded = streamingManager.discardSegment(id);
+  return discarded ? { success: true } : { success: false, error: 'Segment is no longer waiting for review' };
+});
+
+ipcMain.handle('approve-all-segments', () => {
+  if (!streamingManager) {
+    return { success: false, error: 'Streaming is not active' };
+  }
+  return { success: true, count: streamingManager.approveAllSegments() };
+});
+
+ipcMain.handle('list-bible-translations', async (_, directory?: string) => {
+  const biblesDirectory = directory || getBiblesDirectory(loadConfig());
+  try {
+    const library = new ScriptureLibrary({ directory: biblesDirectory });
+    return { success: true, directory: biblesDirectory, translations: await library.load() };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('correct-translation', async (_, segmentId: string, corrections: Record<string, string>) => {
+  if (!streamingManager) {
+    return { success: false, error: 'Streaming is not active' };
+  }
+  try {
+    const result = await streamingManager.correctTranslation(segmentId, corrections);
+    return { success: true, ...result };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
 ipcMain.handle('start-websocket-server', async () => {
   try {
     const { exec } = require('child_process');
@@ -815,7 +1270,7 @@ ipcMain.handle('start-websocket-server', async () => {
     const { port } = getServerConfig(config);
     
     // Get the websocket server path
-    const serverPath = path.join(__dirname, '../../websocket-server');
+    const serverPath = path.join(__dirname, '../../../../websocket-server');
     
     return new Promise((resolve, reject) => {
       // Start the WebSocket server
@@ -1035,6 +1490,33 @@ ipcMain.handle('test-holyrics-connection', async () => {
   }
 });
 
+// Display output handlers (OBS, webhook, file)
+ipcMain.handle('test-display-output', async (_, outputConfig: DisplayOutputConfig) => {
+  // Test the settings being edited, whether or not streaming is running
+  let output;
+  try {
+    output = DisplayOutputManager.createOutput({ ...outputConfig, enabled: true });
+    const success = await output.testConnection();
+    return { success };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  } finally {
+    await output?.close();
+  }
+});
+
+ipcMain.handle('clear-display-outputs', async (_, id?: string) => {
+  if (!streamingManager) {
+    return { success: false, error: 'Streaming is not active' };
+  }
+  try {
+    await streamingManager.clearDisplayOutputs(id);
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
 function loadAuthToken() {
   try {
     const tokenPath = path.join(app.getPath('userData'), 'auth-token');
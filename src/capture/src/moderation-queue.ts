@@ -0,0 +1,237 @@
+import { EventEmitter } from 'events';
+
+export interface ModerationConfig {
+  enabled: boolean;
+  autoApproveMs?: number;  // Approve untouched segments after this long; 0 waits for the operator
+}
+
+export interface ModerationTranslation {
+  targetLanguage: string;
+  text: string;
+  [key: string]: any;
+}
+
+export interface ModerationItem<T = any> {
+  id: string;
+  original: string;
+  translations: ModerationTranslation[];
+  context: T;              // Whatever the owner needs to publish the segment (language, speaker, ...)
+  queuedAt: string;
+  autoApproveAt?: string;  // When the auto-approve timer fires, if one is running
+  held?: boolean;          // The operator is editing; never auto-approved
+}
+
+export interface ModerationEdits {
+  original?: string;
+  translations?: Record<string, string>;  // targetLanguage -> corrected text
+}
+
+export type ModerationOutcome = 'approved' | 'edited' | 'auto-approved' | 'discarded';
+
+export interface ModerationDecision<T = any> {
+  item: ModerationItem<T>;
+  outcome: ModerationOutcome;
+  waitMs: number;  // Time the segment spent in the queue
+  reason?: string;
+}
+
+export interface ModerationStats {
+  depth: number;
+  oldestWaitMs: number;
+  averageLatencyMs: number;
+  approved: number;
+  edited: number;
+  autoApproved: number;
+  discarded: number;
+}
+
+const DEFAULTS: Required<ModerationConfig> = {
+  enabled: false,
+  autoApproveMs: 15000,
+};
+
+/**
+ * Holds translated segments until the operator approves, edits or discards them.
+ *
+ * Events:
+ * - 'queued' (ModerationItem)
+ * - 'approved' (ModerationDecision) with outcome approved, edited or auto-approved
+ * - 'discarded' (ModerationDecision)
+ * - 'queue-changed' (ModerationStats)
+ */
+export class ModerationQueue<T = any> extends EventEmitter {
+  private config: Required<ModerationConfig>;
+  private items: Map<string, ModerationItem<T>> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private nextId = 1;
+  private totalLatencyMs = 0;
+  private counts = { approved: 0, edited: 0, autoApproved: 0, discarded: 0 };
+
+  constructor(config?: Partial<ModerationConfig>) {
+    super();
+    this.config = { ...DEFAULTS, ...config };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  enqueue(original: string, translations: ModerationTranslation[], context: T): ModerationItem<T> {
+    const now = Date.now();
+    const item: ModerationItem<T> = {
+      id: `seg-${now}-${this.nextId++}`,
+      original,
+      translations: translations.map(translation => ({ ...translation })),
+      context,
+      queuedAt: new Date(now).toISOString(),
+    };
+
+    this.items.set(item.id, item);
+    this.startAutoApproveTimer(item);
+
+    this.emit('queued', item);
+    this.emit('queue-changed', this.getStats());
+    return item;
+  }
+
+  /**
+   * Release a segment, applying the operator's corrections first
+   */
+  approve(id: string, edits?: ModerationEdits): boolean {
+    const item = this.items.get(id);
+    if (!item) return false;
+
+    let edited = false;
+    if (edits?.original !== undefined && edits.original.trim() && edits.original.trim() !== item.original) {
+      item.original = edits.original.trim();
+      edited = true;
+    }
+    for (const translation of item.translations) {
+      const text = edits?.translations?.[translation.targetLanguage]?.trim();
+      if (text && text !== translation.text) {
+        translation.text = text;
+        edited = true;
+      }
+    }
+
+    this.resolve(item, edited ? 'edited' : 'approved');
+    return true;
+  }
+
+  /**
+   * Stop the auto-approve timer while the operator works on a segment
+   */
+  hold(id: string): boolean {
+    const item = this.items.get(id);
+    if (!item) return false;
+
+    this.clearTimer(id);
+    item.autoApproveAt = undefined;
+    item.held = true;
+    return true;
+  }
+
+  discard(id: string, reason?: string): boolean {
+    const item = this.items.get(id);
+    if (!item) return false;
+
+    this.resolve(item, 'discarded', reason);
+    return true;
+  }
+
+  /**
+   * Approve every pending segment, oldest first
+   */
+  approveAll(): number {
+    const ids = Array.from(this.items.keys());
+    ids.forEach(id => this.approve(id));
+    return ids.length;
+  }
+
+  /**
+   * Drop every pending segment (streaming stopped)
+   */
+  clear(reason: string): number {
+    const ids = Array.from(this.items.keys());
+    ids.forEach(id => this.discard(id, reason));
+    return ids.length;
+  }
+
+  getPending(): ModerationItem<T>[] {
+    return Array.from(this.items.values());
+  }
+
+  getStats(): ModerationStats {
+    const now = Date.now();
+    const oldest = this.items.values().next().value as ModerationItem<T> | undefined;
+    const resolved = this.counts.approved + this.counts.edited + this.counts.autoApproved + this.counts.discarded;
+
+    return {
+      depth: this.items.size,
+      oldestWaitMs: oldest ? now - new Date(oldest.queuedAt).getTime() : 0,
+      averageLatencyMs: resolved > 0 ? Math.round(this.totalLatencyMs / resolved) : 0,
+      ...this.counts,
+    };
+  }
+
+  /**
+   * Change settings while streaming. Turning review off releases everything pending.
+   */
+  updateConfig(config: Partial<ModerationConfig>): void {
+    this.config = { ...this.config, ...config };
+
+    if (!this.config.enabled) {
+      this.approveAll();
+      return;
+    }
+
+    // Restart timers so pending segments follow the new timeout
+    for (const item of this.items.values()) {
+      if (!item.held) {
+        this.startAutoApproveTimer(item);
+      }
+    }
+    this.emit('queue-changed', this.getStats());
+  }
+
+  private startAutoApproveTimer(item: ModerationItem<T>): void {
+    this.clearTimer(item.id);
+    item.autoApproveAt = undefined;
+
+    if (this.config.autoApproveMs <= 0) return;
+
+    const elapsed = Date.now() - new Date(item.queuedAt).getTime();
+    const delay = Math.max(0, this.config.autoApproveMs - elapsed);
+    item.autoApproveAt = new Date(Date.now() + delay).toISOString();
+    this.timers.set(item.id, setTimeout(() => {
+      if (this.items.has(item.id)) {
+        this.resolve(item, 'auto-approved');
+      }
+    }, delay));
+  }
+
+  private clearTimer(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+
+  private resolve(item: ModerationItem<T>, outcome: ModerationOutcome, reason?: string): void {
+    this.clearTimer(item.id);
+    this.items.delete(item.id);
+
+    const waitMs = Date.now() - new Date(item.queuedAt).getTime();
+    this.totalLatencyMs += waitMs;
+    if (outcome === 'auto-approved') {
+      this.counts.autoApproved++;
+    } else {
+      this.counts[outcome]++;
+    }
+
+    const decision: ModerationDecision<T> = { item, outcome, waitMs, reason };
+    this.emit(outcome === 'discarded' ? 'discarded' : 'approved', decision);
+    this.emit('queue-changed', this.getStats());
+  }
+}
@@ -27,6 +27,24 @@ export interface DashboardMetrics {
     messageLatency: number;
     clientCount: number;
   };
+  transcription: {
+    restartCount: number;
+    rotationCount: number;
+    reconnectionCount: number;
+    lastGapMs: number;
+    totalGapMs: number;
+    lostAudioMs: number;
+    lastRestart?: Date;
+  };
+  moderation: {
+    queueDepth: number;
+    oldestWaitMs: number;
+    averageLatencyMs: number;
+    approvedCount: number;
+    editedCount: number;
+    autoApprovedCount: number;
+    discardedCount: number;
+  };
   audio: {
     cacheSize: number;
     cacheHitRate: number;
@@ -64,8 +82,8 @@ export interface Alert {
 
 export class MonitoringDashboard extends EventEmitter {
   private errorLogger: ErrorLogger;
-  private ttsManager: TTSManager;
-  private websocketManager: WebSocketManager;
+  private ttsManager?: TTSManager;
+  private websocketManager?: WebSocketManager;
   private analyticsManager: LocalAnalyticsManager;
   private metrics: DashboardMetrics;
   private alertRules: Map<string, AlertRule> = new Map();
@@ -74,10 +92,13 @@ export class MonitoringDashboard extends EventEmitter {
   private updateInterval: NodeJS.Timeout | null = null;
   private baselineCpuUsage: NodeJS.CpuUsage;
 
+  /**
+   * TTS and WebSocket metrics stay at their defaults when server TTS is off or no server is connected
+   */
   constructor(
     errorLogger: ErrorLogger,
-    ttsManager: TTSManager,
-    websocketManager: WebSocketManager
+    ttsManager?: TTSManager,
+    websocketManager?: WebSocketManager
   ) {
     super();
     
@@ -277,6 +298,54 @@ export class MonitoringDashboard extends EventEmitter {
     this.analyticsManager.recordTTSRequest(data);
   }
 
+  /**
+   * Record a Transcribe stream rotation or reconnection
+   */
+  recordTranscriptionRestart(data: {
+    reason: 'rotation' | 'timeout' | 'error';
+    gapMs: number;
+    lostMs: number;
+  }) {
+    const transcription = this.metrics.transcription;
+    transcription.restartCount++;
+    if (data.reason === 'rotation') {
+      transcription.rotationCount++;
+    } else {
+      transcription.reconnectionCount++;
+    }
+    transcription.lastGapMs = data.gapMs;
+    transcription.totalGapMs += data.gapMs;
+    transcription.lostAudioMs += data.lostMs;
+    transcription.lastRestart = new Date();
+
+    this.emit('transcription-restart', { ...data, metrics: { ...transcription } });
+  }
+
+  /**
+   * Record the state of the operator review queue
+   */
+  recordModerationQueue(stats: {
+    depth: number;
+    oldestWaitMs: number;
+    averageLatencyMs: number;
+    approved: number;
+    edited: number;
+    autoApproved: number;
+    discarded: number;
+  }) {
+    this.metrics.moderation = {
+      queueDepth: stats.depth,
+      oldestWaitMs: stats.oldestWaitMs,
+      averageLatencyMs: stats.averageLatencyMs,
+      approvedCount: stats.approved,
+      editedCount: stats.edited,
+      autoApprovedCount: stats.autoApproved,
+      discardedCount: stats.discarded
+    };
+
+    this.emit('moderation-updated', { ...this.metrics.moderation });
+  }
+
   /**
    * Record client connection for analytics
    */
@@ -364,6 +433,23 @@ export class MonitoringDashboard extends EventEmitter {
         messageLatency: 0,
         clientCount: 0
       },
+      transcription: {
+        restartCount: 0,
+        rotationCount: 0,
+        reconnectionCount: 0,
+        lastGapMs: 0,
+        totalGapMs: 0,
+        lostAudioMs: 0
+      },
+      moderation: {
+        queueDepth: 0,
+        oldestWaitMs: 0,
+        averageLatencyMs: 0,
+        approvedCount: 0,
+        editedCount: 0,
+        autoApprovedCount: 0,
+        discardedCount: 0
+      },
       audio: {
         cacheSize: 0,
         cacheHitRate: 0,
@@ -425,6 +511,33 @@ export class MonitoringDashboard extends EventEmitter {
         enabled: true,
         cooldownMs: 600000 // 10 minutes
       },
+      {
+        id: 'frequent-transcription-reconnections',
+        name: 'Frequent Transcription Reconnections',
+        condition: (metrics) => metrics.transcription.reconnectionCount > 5,
+        severity: 'medium',
+        message: 'Transcribe stream has reconnected more than 5 times',
+        enabled: true,
+        cooldownMs: 600000 // 10 minutes
+      },
+      {
+        id: 'transcription-audio-lost',
+        name: 'Transcription Audio Lost',
+        condition: (metrics) => metrics.transcription.lostAudioMs > 0,
+        severity: 'high',
+        message: 'Audio was lost while reconnecting the Transcribe stream',
+        enabled: true,
+        cooldownMs: 600000 // 10 minutes
+      },
+      {
+        id: 'moderation-backlog',
+        name: 'Review Queue Backlog',
+        condition: (metrics) => metrics.moderation.queueDepth > 5 || metrics.moderation.oldestWaitMs > 60000,
+        severity: 'medium',
+        message: 'Segments are waiting for operator review for too long',
+        enabled: true,
+        cooldownMs: 120000 // 2 minutes
+      },
       {
         id: 'critical-errors',
         name: 'Critical Errors',
@@ -463,7 +576,7 @@ export class MonitoringDashboard extends EventEmitter {
     });
 
     // Listen to TTS manager events
-    this.ttsManager.on('fallback-notification', (notification) => {
+    this.ttsManager?.on('fallback-notification', (notification) => {
       this.metrics.tts.fallbackTriggerCount++;
       
       if (notification.type === 'all-fallbacks-failed') {
@@ -474,15 +587,15 @@ export class MonitoringDashboard extends EventEmitter {
     });
 
     // Listen to WebSocket manager events
-    this.websocketManager.on('connected', () => {
+    this.websocketManager?.on('connected', () => {
       this.metrics.websocket.connectionStatus = 'connected';
     });
 
-    this.websocketManager.on('disconnected', () => {
+    this.websocketManager?.on('disconnected', () => {
       this.metrics.websocket.connectionStatus = 'disconnected';
     });
 
-    this.websocketManager.on('reconnected', () => {
+    this.websocketManager?.on('reconnected', () => {
       this.metrics.websocket.reconnectionCount++;
     });
   }
@@ -497,35 +610,41 @@ export class MonitoringDashboard extends EventEmitter {
     };
 
     // Update TTS metrics
-    const ttsMetrics = this.ttsManager.getFallbackMetrics();
-    this.metrics.tts = {
-      totalRequests: ttsMetrics.totalRequests,
-      successRate: (ttsMetrics.pollySuccessRate + ttsMetrics.localTTSSuccessRate) / 2,
-      averageLatency: (ttsMetrics.pollyAverageLatency + ttsMetrics.localTTSAverageLatency) / 2,
-      pollyStatus: ttsMetrics.pollySuccessRate > 80 ? 'healthy' : 
-                   ttsMetrics.pollySuccessRate > 50 ? 'degraded' : 'unavailable',
-      localTTSStatus: 'available', // Assume local TTS is always available
-      fallbackTriggerCount: ttsMetrics.fallbackTriggerCount
-    };
+    if (this.ttsManager) {
+      const ttsMetrics = this.ttsManager.getFallbackMetrics();
+      this.metrics.tts = {
+        totalRequests: ttsMetrics.totalRequests,
+        successRate: (ttsMetrics.pollySuccessRate + ttsMetrics.localTTSSuccessRate) / 2,
+        averageLatency: (ttsMetrics.pollyAverageLatency + ttsMetrics.localTTSAverageLatency) / 2,
+        pollyStatus: ttsMetrics.pollySuccessRate > 80 ? 'healthy' : 
+                     ttsMetrics.pollySuccessRate > 50 ? 'degraded' : 'unavailable',
+        localTTSStatus: 'available', // Assume local TTS is always available
+        fallbackTriggerCount: ttsMetrics.fallbackTriggerCount
+      };
+    }
 
     // Update WebSocket metrics
-    const wsHealth = this.websocketManager.getConnectionHealth();
-    this.metrics.websocket = {
-      connectionStatus: wsHealth.connected ? 'connected' : 'disconnected',
-      uptime: wsHealth.connected ? Date.now() - wsHealth.lastPing : 0,
-      reconnectionCount: wsHealth.reconnectAttempts,
-      messageLatency: wsHealth.latency,
-      clientCount: this.websocketManager.getConnectedClientsCount()
-    };
+    if (this.websocketManager) {
+      const wsHealth = this.websocketManager.getConnectionHealth();
+      this.metrics.websocket = {
+        connectionStatus: wsHealth.connected ? 'connected' : 'disconnected',
+        uptime: wsHealth.connected ? Date.now() - wsHealth.lastPing : 0,
+        reconnectionCount: wsHealth.reconnectAttempts,
+        messageLatency: wsHealth.latency,
+        clientCount: this.websocketManager.getConnectedClientsCount()
+      };
+    }
 
     // Update audio metrics
-    const cacheStats = this.ttsManager.getCacheStats();
-    this.metrics.audio = {
-      cacheSize: cacheStats.size,
-      cacheHitRate: 0, // Would need to track this separately
-      playbackSuccessRate: 95, // Placeholder - would need actual tracking
-      queueLength: 0 // Would need to get from audio player
-    };
+    if (this.ttsManager) {
+      const cacheStats = this.ttsManager.getCacheStats();
+      this.metrics.audio = {
+        cacheSize: cacheStats.size,
+        cacheHitRate: 0, // Would need to track this separately
+        playbackSuccessRate: 95, // Placeholder - would need actual tracking
+        queueLength: 0 // Would need to get from audio player
+      };
+    }
 
     // Store metrics history
     this.metricsHistory.push(JSON.parse(JSON.stringify(this.metrics)));
@@ -0,0 +1,182 @@
+import * as crypto from 'crypto';
+import WebSocket from 'ws';
+import { DisplayOutput, DisplayOutputSettings } from './display-output';
+
+export interface ObsTextConfig extends DisplayOutputSettings {
+  host: string;
+  port: number;        // obs-websocket port, 4455 by default
+  password?: string;   // Empty when authentication is disabled in OBS
+  inputName: string;   // Text (GDI+/FreeType 2) source that shows the subtitles
+}
+
+// obs-websocket 5.x opcodes
+const OP_HELLO = 0;
+const OP_IDENTIFY = 1;
+const OP_IDENTIFIED = 2;
+const OP_REQUEST = 6;
+const OP_REQUEST_RESPONSE = 7;
+const RPC_VERSION = 1;
+const REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Writes subtitles into an OBS text source over obs-websocket 5 (built into OBS 28+),
+ * for churches that caption their livestream in OBS
+ */
+export class ObsTextOutput extends DisplayOutput<ObsTextConfig> {
+  private socket?: WebSocket;
+  private connecting?: Promise<WebSocket>;
+  private pending: Map<string, { resolve: (data: any) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }> = new Map();
+  private requestCounter = 0;
+
+  get label(): string {
+    return 'OBS';
+  }
+
+  protected async send(lines: string[], _show: boolean): Promise<void> {
+    if (!this.config.enabled) return;
+
+    try {
+      await this.request('SetInputSettings', {
+        inputName: this.config.inputName,
+        inputSettings: { text: lines.join('\n') },
+        overlay: true
+      });
+      console.log(`[OBS] ✅ Updated "${this.config.inputName}":`, lines.join(' ').substring(0, 50));
+    } catch (error: any) {
+      console.error(`[OBS] ❌ ${error.message}`);
+      throw error;
+    }
+  }
+
+  updateConfig(newConfig: Partial<ObsTextConfig>): void {
+    const reconnect = ['host', 'port', 'password'].some(key => key in newConfig &&
+      (newConfig as any)[key] !== (this.config as any)[key]);
+    super.updateConfig(newConfig);
+    if (reconnect) {
+      this.disconnect();
+    }
+  }
+
+  async close(): Promise<void> {
+    this.disconnect();
+  }
+
+  private async request(requestType: string, requestData: Record<string, any>): Promise<any> {
+    const socket = await this.connect();
+    const requestId = `st-${++this.requestCounter}`;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new Error(`${requestType} timed out`));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(requestId, { resolve, reject, timer });
+
+      socket.send(JSON.stringify({ op: OP_REQUEST, d: { requestType, requestId, requestData } }));
+    });
+  }
+
+  /**
+   * Open and identify the connection once; later sends reuse it until OBS closes it
+   */
+  private connect(): Promise<WebSocket> {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      return Promise.resolve(this.socket);
+    }
+    if (this.connecting) {
+      return this.connecting;
+    }
+
+    const url = `ws://${this.config.host}:${this.config.port}`;
+    console.log(`[OBS] Connecting to ${url}...`);
+
+    this.connecting = new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(url, { handshakeTimeout: REQUEST_TIMEOUT_MS });
+      let identified = false;
+
+      const fail = (error: Error) => {
+        this.connecting = undefined;
+        if (!identified) {
+          socket.terminate();
+          reject(error);
+        }
+      };
+
+      socket.on('message', (raw) => {
+        let message: any;
+        try {
+          message = JSON.parse(raw.toString());
+        } catch {
+          return;
+        }
+
+        switch (message.op) {
+          case OP_HELLO: {
+            const identify: Record<string, any> = { rpcVersion: RPC_VERSION, eventSubscriptions: 0 };
+            if (message.d?.authentication) {
+              if (!this.config.password) {
+                fail(new Error('OBS requires a password'));
+                return;
+              }
+              identify.authentication = this.authenticate(message.d.authentication.salt, message.d.authentication.challenge);
+            }
+            socket.send(JSON.stringify({ op: OP_IDENTIFY, d: identify }));
+            break;
+          }
+          case OP_IDENTIFIED:
+            identified = true;
+            this.socket = socket;
+            this.connecting = undefined;
+            console.log(`[OBS] ✅ Connected to ${url}`);
+            resolve(socket);
+            break;
+          case OP_REQUEST_RESPONSE: {
+            const request = this.pending.get(message.d?.requestId);
+            if (!request) return;
+            this.pending.delete(message.d.requestId);
+            clearTimeout(request.timer);
+            const status = message.d.requestStatus;
+            if (status?.result) {
+              request.resolve(message.d.responseData);
+            } else {
+              request.reject(new Error(`${message.d.requestType} failed: ${status?.comment || `code ${status?.code}`}`));
+            }
+            break;
+          }
+        }
+      });
+
+      socket.on('error', (error) => fail(error));
+
+      socket.on('close', (code, reason) => {
+        // 4009 is obs-websocket's authentication failure
+        fail(new Error(code === 4009 ? 'OBS rejected the password' : `OBS closed the connection (${code} ${reason.toString()})`));
+        if (this.socket === socket) {
+          this.socket = undefined;
+        }
+        this.rejectPending(new Error('OBS connection closed'));
+      });
+    });
+
+    return this.connecting;
+  }
+
+  private authenticate(salt: string, challenge: string): string {
+    const secret = crypto.createHash('sha256').update(this.config.password + salt).digest('base64');
+    return crypto.createHash('sha256').update(secret + challenge).digest('base64');
+  }
+
+  private disconnect(): void {
+    this.socket?.close();
+    this.socket = undefined;
+    this.connecting = undefined;
+  }
+
+  private rejectPending(error: Error): void {
+    this.pending.forEach(request => {
+      clearTimeout(request.timer);
+      request.reject(error);
+    });
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,186 @@
+import { BIBLE_BOOKS, BibleBook, getBibleBook, getBookDisplayName } from './bible-books';
+
+/**
+ * A Bible reference found in transcribed text
+ */
+export interface ScriptureReference {
+  book: string;         // USFM book code
+  chapter: number;
+  verseStart?: number;  // Absent for a whole chapter ('1 Coríntios 13')
+  verseEnd?: number;
+  text: string;         // The reference as it appeared in the transcript
+}
+
+// Words a speaker uses around references, per base language (accent-free, lowercase)
+const SPOKEN_WORDS: Record<string, { ordinals: Record<string, number>; chapter: string[]; verse: string[]; range: string[] }> = {
+  en: {
+    ordinals: { first: 1, second: 2, third: 3 },
+    chapter: ['chapter'],
+    verse: ['verses', 'verse'],
+    range: ['through', 'to'],
+  },
+  pt: {
+    ordinals: { primeiro: 1, primeira: 1, segundo: 2, segunda: 2, terceiro: 3, terceira: 3 },
+    chapter: ['capitulo'],
+    verse: ['versiculos', 'versiculo', 'versos', 'verso'],
+    range: ['ate', 'ao', 'a'],
+  },
+  es: {
+    ordinals: { primero: 1, primera: 1, primer: 1, segundo: 2, segunda: 2, tercero: 3, tercera: 3, tercer: 3 },
+    chapter: ['capitulo'],
+    verse: ['versiculos', 'versiculo', 'versos', 'verso'],
+    range: ['hasta', 'al', 'a'],
+  },
+  fr: {
+    ordinals: { premier: 1, premiere: 1, deuxieme: 2, second: 2, seconde: 2, troisieme: 3 },
+    chapter: ['chapitre'],
+    verse: ['versets', 'verset'],
+    range: ['jusqu\'au', 'au', 'a'],
+  },
+  de: {
+    ordinals: { erste: 1, ersten: 1, erster: 1, zweite: 2, zweiten: 2, zweiter: 2, dritte: 3, dritten: 3, dritter: 3 },
+    chapter: ['kapitel'],
+    verse: ['verse', 'vers'],
+    range: ['bis'],
+  },
+  it: {
+    ordinals: { primo: 1, prima: 1, secondo: 2, seconda: 2, terzo: 3, terza: 3 },
+    chapter: ['capitolo'],
+    verse: ['versetti', 'versetto', 'versi', 'verso'],
+    range: ['fino al', 'al', 'a'],
+  },
+};
+
+const ROMAN_NUMERALS: Record<string, number> = { i: 1, ii: 2, iii: 3 };
+
+interface LanguageMatcher {
+  pattern: RegExp;
+  books: Map<string, BibleBook>;  // '<number>:<folded name>' -> book
+}
+
+const matchers: Map<string, LanguageMatcher> = new Map();
+
+/**
+ * Lowercase and strip accents one character at a time, so indices still line up with the input
+ */
+function fold(text: string): string {
+  return Array.from(text).map(char => {
+    const folded = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    if (folded.length === char.length) return folded;
+    const lower = char.toLowerCase();
+    return lower.length === char.length ? lower : char;
+  }).join('');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function alternation(words: string[]): string {
+  return [...words].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+}
+
+function getMatcher(language: string): LanguageMatcher | undefined {
+  const base = language.split('-')[0];
+  const cached = matchers.get(base);
+  if (cached) return cached;
+
+  const words = SPOKEN_WORDS[base];
+  if (!words) return undefined;
+
+  const books = new Map<string, BibleBook>();
+  for (const entry of BIBLE_BOOKS) {
+    for (const name of entry.names[base] || []) {
+      // Names such as '1 Mose' carry their own number
+      const numbered = name.match(/^([123]) (.+)$/);
+      const number = numbered ? Number(numbered[1]) : entry.number || 0;
+      books.set(`${number}:${fold(numbered ? numbered[2] : name)}`, entry);
+    }
+  }
+
+  const names = Array.from(new Set(Array.from(books.keys()).map(key => key.slice(key.indexOf(':') + 1))));
+  const ordinals = [...Object.keys(words.ordinals), ...Object.keys(ROMAN_NUMERALS)];
+  const prefix = `[123](?:st|nd|rd|ª|º|a|o|er|re|ere|e|\\.)?|${alternation(ordinals)}`;
+  const verseSeparator = `\\s*[:.]\\s*|,(?=\\d)|\\s*,?\\s+(?:${alternation(words.verse)})\\s+|\\s+`;
+  const rangeSeparator = `\\s*[-–]\\s*|\\s+(?:${alternation(words.range)})\\s+`;
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:(${prefix})\\s+)?(${alternation(names)})\\s+(?:(?:${alternation(words.chapter)})\\s+)?(\\d{1,3})` +
+    `(?:(?:${verseSeparator})(\\d{1,3})(?:(?:${rangeSeparator})(\\d{1,3}))?)?(?![\\p{N}]|[.:,]\\d)`,
+    'gu'
+  );
+
+  const matcher = { pattern, books };
+  matchers.set(base, matcher);
+  return matcher;
+}
+
+function prefixNumber(prefix: string | undefined, language: string): number {
+  if (!prefix) return 0;
+  const digit = prefix.match(/^[123]/);
+  if (digit) return Number(digit[0]);
+  return SPOKEN_WORDS[language.split('-')[0]]?.ordinals[prefix] || ROMAN_NUMERALS[prefix] || 0;
+}
+
+/**
+ * Find Bible references such as "João 3:16", "John 3.16" or "1 Coríntios 13" in transcribed text.
+ * Book names must be capitalized, which keeps words like "mark" or "acts" from matching.
+ */
+export function detectScriptureReferences(text: string, language: string): ScriptureReference[] {
+  const matcher = getMatcher(language);
+  if (!matcher || !text) return [];
+
+  const folded = fold(text);
+  const references: ScriptureReference[] = [];
+  matcher.pattern.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = matcher.pattern.exec(folded)) !== null) {
+    const [matched, prefix, name, chapterText, verseStartText, verseEndText] = match;
+
+    const nameIndex = match.index + matched.indexOf(name, prefix ? prefix.length : 0);
+    const firstLetter = text.charAt(nameIndex);
+    if (firstLetter === firstLetter.toLowerCase()) continue;
+
+    // A number that does not fit the book ('i Romani' in Italian) is not part of the reference
+    const number = prefixNumber(prefix, language);
+    const entry = matcher.books.get(`${number}:${name}`) || (number ? matcher.books.get(`0:${name}`) : undefined);
+    if (!entry) continue;
+
+    const chapter = Number(chapterText);
+    if (chapter < 1 || chapter > entry.chapters) continue;
+
+    const reference: ScriptureReference = {
+      book: entry.id,
+      chapter,
+      text: text.slice(match.index, match.index + matched.length),
+    };
+    if (verseStartText) {
+      reference.verseStart = Number(verseStartText);
+      const verseEnd = Number(verseEndText);
+      if (verseEnd > reference.verseStart) {
+        reference.verseEnd = verseEnd;
+      }
+    }
+    if (reference.verseStart === 0) continue;
+
+    references.push(reference);
+  }
+
+  return references;
+}
+
+/**
+ * Reference in the conventional form of a language ('João 3:16-18', 'Johannes 3,16')
+ */
+export function formatScriptureReference(reference: Omit<ScriptureReference, 'text'>, language: string): string {
+  const entry = getBibleBook(reference.book);
+  const name = entry ? getBookDisplayName(entry, language) : reference.book;
+  if (!reference.verseStart) {
+    return `${name} ${reference.chapter}`;
+  }
+
+  const separator = language.startsWith('de') ? ',' : ':';
+  const range = reference.verseEnd ? `-${reference.verseEnd}` : '';
+  return `${name} ${reference.chapter}${separator}${reference.verseStart}${range}`;
+}
@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getBibleBook } from './bible-books';
+import { ScriptureReference, formatScriptureReference } from './scripture-detector';
+
+export interface ScriptureLibraryConfig {
+  directory: string;                               // Folder with installed Bible JSON files
+  preferredTranslations?: Record<string, string>;  // Base language -> abbreviation when several are installed
+  maxVerses?: number;                              // Longest passage attached to a broadcast
+}
+
+/**
+ * Installed Bible file: one translation, verses indexed as books[USFM][chapter - 1][verse - 1]
+ */
+export interface BibleTranslationFile {
+  language: string;      // Base language code ('pt', 'en', ...)
+  name: string;          // 'Almeida Revista e Atualizada'
+  abbreviation: string;  // 'ARA'
+  books: Record<string, string[][]>;
+}
+
+export interface BibleTranslationInfo {
+  language: string;
+  name: string;
+  abbreviation: string;
+  file: string;
+  books: number;
+}
+
+export interface ScripturePassage {
+  reference: string;  // Formatted for the passage's language ('Juan 3:16')
+  book: string;
+  chapter: number;
+  verseStart?: number;
+  verseEnd?: number;
+  translation: string;  // Abbreviation of the Bible translation
+  verses: Array<{ number: number; text: string }>;
+  truncated?: boolean;  // More verses were referenced than maxVerses
+}
+
+const DEFAULT_MAX_VERSES = 8;
+
+/**
+ * Looks up canonical verse text from Bible translations installed on this machine
+ */
+export class ScriptureLibrary {
+  private config: ScriptureLibraryConfig;
+  private translations: Map<string, { info: BibleTranslationInfo; books: Record<string, string[][]> }[]> = new Map();
+
+  constructor(config: ScriptureLibraryConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Read every *.json Bible in the configured directory. Invalid files are skipped with a warning.
+   */
+  async load(): Promise<BibleTranslationInfo[]> {
+    this.translations.clear();
+
+    let files: string[];
+    try {
+      files = (await fs.promises.readdir(this.config.directory)).filter(file => file.toLowerCase().endsWith('.json'));
+    } catch (error) {
+      console.warn(`Bible directory not available (${this.config.directory}):`, (error as Error).message);
+      return [];
+    }
+
+    for (const file of files) {
+      const filePath = path.join(this.config.directory, file);
+      try {
+        const bible = JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as BibleTranslationFile;
+        if (!bible.language || !bible.abbreviation || !bible.books || typeof bible.books !== 'object') {
+          console.warn(`Skipping ${file}: language, abbreviation and books are required`);
+          continue;
+        }
+
+        const language = bible.language.split('-')[0];
+        const info: BibleTranslationInfo = {
+          language,
+          name: bible.name || bible.abbreviation,
+          abbreviation: bible.abbreviation,
+          file: filePath,
+          books: Object.keys(bible.books).length,
+        };
+        const installed = this.translations.get(language) || [];
+        installed.push({ info, books: bible.books });
+        this.translations.set(language, installed);
+      } catch (error) {
+        console.warn(`Skipping ${file}:`, (error as Error).message);
+      }
+    }
+
+    const loaded = this.getTranslations();
+    console.log(`Loaded ${loaded.length} Bible translation(s): ${loaded.map(t => `${t.abbreviation} (${t.language})`).join(', ') || 'none'}`);
+    return loaded;
+  }
+
+  getTranslations(): BibleTranslationInfo[] {
+    return Array.from(this.translations.values()).flat().map(entry => entry.info);
+  }
+
+  hasLanguage(language: string): boolean {
+    return this.translations.has(language.split('-')[0]);
+  }
+
+  updateConfig(config: Partial<ScriptureLibraryConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Verse text for a reference in one language, or null if that language has no Bible
+   * installed or the passage is missing from it
+   */
+  lookup(reference: Omit<ScriptureReference, 'text'>, language: string): ScripturePassage | null {
+    const base = language.split('-')[0];
+    const installed = this.translations.get(base);
+    if (!installed || !getBibleBook(reference.book)) return null;
+
+    const preferred = this.config.preferredTranslations?.[base];
+    const translation = installed.find(entry => entry.info.abbreviation === preferred) || installed[0];
+
+    const chapter = translation.books[reference.book]?.[reference.chapter - 1];
+    if (!Array.isArray(chapter) || chapter.length === 0) return null;
+
+    const maxVerses = this.config.maxVerses || DEFAULT_MAX_VERSES;
+    const first = reference.verseStart || 1;
+    const last = Math.min(reference.verseEnd || (reference.verseStart ? first : chapter.length), chapter.length);
+    if (first > chapter.length) return null;
+
+    const verses: ScripturePassage['verses'] = [];
+    for (let number = first; number <= last && verses.length < maxVerses; number++) {
+      const text = chapter[number - 1];
+      if (typeof text === 'string' && text.trim()) {
+        verses.push({ number, text: text.trim() });
+      }
+    }
+    if (verses.length === 0) return null;
+
+    return {
+      reference: formatScriptureReference(reference, base),
+      book: reference.book,
+      chapter: reference.chapter,
+      verseStart: reference.verseStart,
+      verseEnd: reference.verseEnd,
+      translation: translation.info.abbreviation,
+      verses,
+      truncated: last - first + 1 > maxVerses || undefined,
+    };
+  }
+}
@@ -0,0 +1,300 @@
+import { EventEmitter } from 'events';
+
+export type SegmentationPreset = 'off' | 'low-latency' | 'balanced' | 'high-quality';
+
+export type SegmentFlushReason = 'punctuation' | 'pause' | 'max-wait' | 'max-length' | 'stop' | 'passthrough' | 'language-change' | 'speaker-change';
+
+export interface SegmentationConfig {
+  preset: SegmentationPreset;
+  maxWaitMs?: number;         // Longest time text may sit in the buffer
+  pauseMs?: number;           // Silence (no partial or final results) that ends a sentence
+  minSentenceChars?: number;  // Shorter punctuated sentences are merged with the next one
+  maxChars?: number;          // Hard cap on buffered text
+  flushOnStop?: boolean;      // Translate buffered text when streaming stops (default: true)
+}
+
+export interface SentenceSegment {
+  text: string;
+  language?: string;  // Detected source language, when language identification is on
+  speaker?: string;   // Speaker label, when diarization is on
+  reason: SegmentFlushReason;
+  startedAt: string;
+  flushedAt: string;
+}
+
+interface ResolvedSegmentationConfig {
+  preset: SegmentationPreset;
+  maxWaitMs: number;
+  pauseMs: number;
+  minSentenceChars: number;
+  maxChars: number;
+  flushOnStop: boolean;
+}
+
+const PRESETS: Record<Exclude<SegmentationPreset, 'off'>, Omit<ResolvedSegmentationConfig, 'preset' | 'flushOnStop'>> = {
+  'low-latency': { maxWaitMs: 2500, pauseMs: 600, minSentenceChars: 0, maxChars: 200 },
+  'balanced': { maxWaitMs: 5000, pauseMs: 1000, minSentenceChars: 20, maxChars: 300 },
+  'high-quality': { maxWaitMs: 8000, pauseMs: 1500, minSentenceChars: 40, maxChars: 400 },
+};
+
+// Sentence end: terminal punctuation, optionally followed by closing quotes/brackets
+const SENTENCE_END = /[.!?…]+["'”’)\]]*(?=\s|$)/g;
+
+/**
+ * Collects final Transcribe results into complete sentences before translation.
+ * A sentence is emitted on terminal punctuation, after a pause in speech,
+ * when the buffer has waited too long or grown too large, or on stop.
+ */
+export class SentenceSegmenter extends EventEmitter {
+  private config: ResolvedSegmentationConfig;
+  private settings: Partial<SegmentationConfig>;  // As given, so a new preset can fill in what was not set explicitly
+  private buffer = '';
+  private bufferLanguage: string | undefined;
+  private bufferSpeaker: string | undefined;
+  private bufferStartedAt: Date | null = null;
+  private maxWaitTimer: NodeJS.Timeout | null = null;
+  private pauseTimer: NodeJS.Timeout | null = null;
+
+  constructor(config?: Partial<SegmentationConfig>) {
+    super();
+    this.settings = { ...config };
+    this.config = SentenceSegmenter.resolveConfig(this.settings);
+  }
+
+  static resolveConfig(config?: Partial<SegmentationConfig>): ResolvedSegmentationConfig {
+    const preset = config?.preset || 'balanced';
+    const defaults = preset === 'off'
+      ? { maxWaitMs: 0, pauseMs: 0, minSentenceChars: 0, maxChars: 0 }
+      : PRESETS[preset] || PRESETS.balanced;
+
+    return {
+      preset,
+      maxWaitMs: config?.maxWaitMs ?? defaults.maxWaitMs,
+      pauseMs: config?.pauseMs ?? defaults.pauseMs,
+      minSentenceChars: config?.minSentenceChars ?? defaults.minSentenceChars,
+      maxChars: config?.maxChars ?? defaults.maxChars,
+      flushOnStop: config?.flushOnStop ?? true,
+    };
+  }
+
+  /**
+   * Add a final transcription result.
+   * A change of language or speaker closes the current sentence so segments
+   * never mix languages or speakers.
+   */
+  addFinal(text: string, language?: string, speaker?: string): void {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    if (this.config.preset === 'off') {
+      const now = new Date().toISOString();
+      this.emitSegment({ text: trimmed, language, speaker, reason: 'passthrough', startedAt: now, flushedAt: now });
+      return;
+    }
+
+    if (this.buffer && language && this.bufferLanguage && language !== this.bufferLanguage) {
+      this.flush('language-change');
+    } else if (this.buffer && speaker && this.bufferSpeaker && speaker !== this.bufferSpeaker) {
+      this.flush('speaker-change');
+    }
+    if (language) {
+      this.bufferLanguage = language;
+    }
+    if (speaker) {
+      this.bufferSpeaker = speaker;
+    }
+
+    if (!this.buffer) {
+      this.bufferStartedAt = new Date();
+      this.startMaxWaitTimer();
+    }
+
+    this.buffer = this.buffer ? `${this.buffer} ${trimmed}` : trimmed;
+
+    this.emitCompleteSentences();
+
+    if (this.buffer && this.config.maxChars > 0 && this.buffer.length >= this.config.maxChars) {
+      this.flushAtLastBreak();
+    }
+
+    this.resetPauseTimer();
+  }
+
+  /**
+   * Record that speech is still ongoing (a partial result arrived)
+   */
+  notePartial(): void {
+    if (this.buffer) {
+      this.resetPauseTimer();
+    }
+  }
+
+  /**
+   * Emit whatever is buffered, regardless of sentence boundaries
+   */
+  flush(reason: SegmentFlushReason = 'stop'): SentenceSegment | null {
+    this.clearTimers();
+
+    const text = this.buffer.trim();
+    if (!text) {
+      this.buffer = '';
+      this.bufferStartedAt = null;
+      return null;
+    }
+
+    const segment: SentenceSegment = {
+      text,
+      language: this.bufferLanguage,
+      speaker: this.bufferSpeaker,
+      reason,
+      startedAt: (this.bufferStartedAt || new Date()).toISOString(),
+      flushedAt: new Date().toISOString(),
+    };
+
+    this.buffer = '';
+    this.bufferStartedAt = null;
+    this.emitSegment(segment);
+    return segment;
+  }
+
+  /**
+   * Stop hook: flush or discard the buffer depending on flushOnStop
+   */
+  stop(): SentenceSegment | null {
+    if (this.config.flushOnStop) {
+      return this.flush('stop');
+    }
+    this.clear();
+    return null;
+  }
+
+  /**
+   * Discard buffered text without emitting it
+   */
+  clear(): void {
+    this.clearTimers();
+    if (this.buffer) {
+      console.log(`[Segmenter] Discarding ${this.buffer.length} buffered characters`);
+    }
+    this.buffer = '';
+    this.bufferStartedAt = null;
+  }
+
+  /**
+   * Change settings; timings not set explicitly come from the (new) preset.
+   * Buffered text is handled with the new settings from the next result on.
+   */
+  updateConfig(config: Partial<SegmentationConfig>): void {
+    this.settings = { ...this.settings, ...config };
+    this.config = SentenceSegmenter.resolveConfig(this.settings);
+    if (this.config.preset === 'off') {
+      this.flush('passthrough');
+    }
+  }
+
+  getConfig(): ResolvedSegmentationConfig {
+    return { ...this.config };
+  }
+
+  getBufferedText(): string {
+    return this.buffer;
+  }
+
+  /**
+   * Emit every complete sentence at the front of the buffer,
+   * keeping short sentences to be merged with what follows.
+   */
+  private emitCompleteSentences(): void {
+    let cut = 0;
+    SENTENCE_END.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = SENTENCE_END.exec(this.buffer)) !== null) {
+      const end = match.index + match[0].length;
+      const candidate = this.buffer.substring(cut, end).trim();
+
+      if (candidate.length >= this.config.minSentenceChars) {
+        this.emitText(candidate, 'punctuation');
+        cut = end;
+      }
+    }
+
+    if (cut > 0) {
+      this.buffer = this.buffer.substring(cut).trim();
+      this.bufferStartedAt = this.buffer ? new Date() : null;
+      this.clearTimers();
+      if (this.buffer) {
+        this.startMaxWaitTimer();
+      }
+    }
+  }
+
+  /**
+   * Over the length cap: split at the last comma/semicolon if there is one
+   */
+  private flushAtLastBreak(): void {
+    const breakIndex = Math.max(this.buffer.lastIndexOf(', '), this.buffer.lastIndexOf('; '));
+
+    if (breakIndex > this.config.minSentenceChars) {
+      const head = this.buffer.substring(0, breakIndex + 1).trim();
+      this.buffer = this.buffer.substring(breakIndex + 1).trim();
+      this.emitText(head, 'max-length');
+      this.bufferStartedAt = new Date();
+      this.clearTimers();
+      this.startMaxWaitTimer();
+    } else {
+      this.flush('max-length');
+    }
+  }
+
+  private emitText(text: string, reason: SegmentFlushReason): void {
+    this.emitSegment({
+      text,
+      language: this.bufferLanguage,
+      speaker: this.bufferSpeaker,
+      reason,
+      startedAt: (this.bufferStartedAt || new Date()).toISOString(),
+      flushedAt: new Date().toISOString(),
+    });
+  }
+
+  private emitSegment(segment: SentenceSegment): void {
+    console.log(`[Segmenter] Segment (${segment.reason}): ${segment.text.substring(0, 60)}`);
+    this.emit('segment', segment);
+  }
+
+  private startMaxWaitTimer(): void {
+    if (this.config.maxWaitMs <= 0) return;
+
+    if (this.maxWaitTimer) {
+      clearTimeout(this.maxWaitTimer);
+    }
+    this.maxWaitTimer = setTimeout(() => {
+      this.maxWaitTimer = null;
+      this.flush('max-wait');
+    }, this.config.maxWaitMs);
+  }
+
+  private resetPauseTimer(): void {
+    if (this.config.pauseMs <= 0) return;
+
+    if (this.pauseTimer) {
+      clearTimeout(this.pauseTimer);
+    }
+    this.pauseTimer = setTimeout(() => {
+      this.pauseTimer = null;
+      this.flush('pause');
+    }, this.config.pauseMs);
+  }
+
+  private clearTimers(): void {
+    if (this.maxWaitTimer) {
+      clearTimeout(this.maxWaitTimer);
+      this.maxWaitTimer = null;
+    }
+    if (this.pauseTimer) {
+      clearTimeout(this.pauseTimer);
+      this.pauseTimer = null;
+    }
+  }
+}
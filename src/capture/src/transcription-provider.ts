@@ -0,0 +1,41 @@
+import { EventEmitter } from 'events';
+
+export type TranscriptionProviderType = 'aws' | 'file-replay';
+
+export interface TranscriptionResult {
+  text: string;
+  isPartial: boolean;
+  confidence: number;
+  timestamp: string;
+  languageCode?: string;  // Language the text was transcribed in, when the provider knows it
+  speaker?: string;       // Speaker label from diarization ('0', '1', ...)
+}
+
+export interface TranscriptionProviderConfig {
+  provider: TranscriptionProviderType;
+  replayFile?: string;     // JSON or SRT transcript for the file-replay provider
+  replaySpeed?: number;    // 1 = real time (default), 2 = twice as fast
+  replayLoop?: boolean;    // Start over when the file ends
+}
+
+/**
+ * Source of transcription results for DirectStreamingManager.
+ *
+ * Events:
+ * - 'transcription' (TranscriptionResult)
+ * - 'streaming-started' / 'streaming-stopped'
+ * - 'stream-restarted' when the provider replaced its stream without losing the session
+ * - 'timeout' when the stream closed on its own and should be restarted
+ * - 'ended' when a finite source has nothing more to transcribe
+ * - 'error' (Error)
+ */
+export interface TranscriptionProvider extends EventEmitter {
+  readonly name: TranscriptionProviderType;
+
+  /** False when the provider produces text without microphone audio */
+  readonly requiresAudio: boolean;
+
+  startStreaming(): Promise<void>;
+  sendAudio(audioChunk: Buffer): void;
+  stopStreaming(): void;
+}
@@ -0,0 +1,160 @@
+export type VocabularyFilterMethod = 'mask' | 'remove' | 'tag';
+
+/**
+ * One row of an AWS Transcribe custom vocabulary table
+ */
+export interface VocabularyEntry {
+  phrase: string;
+  soundsLike?: string;
+  ipa?: string;
+  displayAs?: string;
+}
+
+/**
+ * Custom vocabulary and vocabulary filter for one source language.
+ * The names refer to resources created in AWS Transcribe from the exported entries.
+ */
+export interface LanguageVocabularyConfig {
+  vocabularyName?: string;
+  entries: VocabularyEntry[];
+  vocabularyFilterName?: string;
+  vocabularyFilterMethod?: VocabularyFilterMethod;
+  filterWords: string[];
+}
+
+// Keyed by base source language code ('pt', 'en', ...)
+export type TranscriptionVocabularies = Record<string, LanguageVocabularyConfig>;
+
+export interface VocabularyIssue {
+  severity: 'error' | 'warning';
+  field: 'vocabularyName' | 'vocabularyFilterName' | 'entries' | 'filterWords';
+  index?: number;
+  message: string;
+}
+
+// AWS Transcribe limits
+const MAX_PHRASE_LENGTH = 256;
+const MAX_FILE_BYTES = 50 * 1024;
+const RESOURCE_NAME_PATTERN = /^[0-9a-zA-Z._-]{1,200}$/;
+const FILTER_METHODS: VocabularyFilterMethod[] = ['mask', 'remove', 'tag'];
+
+/**
+ * Resolve the vocabulary settings for a source language ('pt-BR' uses the 'pt' entry)
+ */
+export function getLanguageVocabulary(
+  vocabularies: TranscriptionVocabularies | undefined,
+  sourceLanguage: string
+): LanguageVocabularyConfig | undefined {
+  return vocabularies?.[sourceLanguage.split('-')[0]];
+}
+
+/**
+ * Tidy user input into the form AWS expects: words in a phrase are joined
+ * with hyphens, and empty optional columns are dropped.
+ */
+export function normalizeVocabularyEntry(entry: VocabularyEntry): VocabularyEntry {
+  const normalized: VocabularyEntry = {
+    phrase: (entry.phrase || '').trim().replace(/\s+/g, '-'),
+  };
+  if (entry.soundsLike?.trim()) normalized.soundsLike = entry.soundsLike.trim().replace(/\s+/g, '-');
+  if (entry.ipa?.trim()) normalized.ipa = entry.ipa.trim();
+  if (entry.displayAs?.trim()) normalized.displayAs = entry.displayAs.trim();
+  return normalized;
+}
+
+export function normalizeLanguageVocabulary(config: LanguageVocabularyConfig): LanguageVocabularyConfig {
+  return {
+    vocabularyName: config.vocabularyName?.trim() || undefined,
+    entries: (config.entries || []).map(normalizeVocabularyEntry).filter(entry => entry.phrase),
+    vocabularyFilterName: config.vocabularyFilterName?.trim() || undefined,
+    vocabularyFilterMethod: config.vocabularyFilterMethod,
+    filterWords: (config.filterWords || []).map(word => word.trim()).filter(Boolean),
+  };
+}
+
+/**
+ * Check a language's vocabulary against the AWS Transcribe rules.
+ * Errors would make AWS reject the vocabulary or the stream; warnings are worth a look.
+ */
+export function validateLanguageVocabulary(config: LanguageVocabularyConfig): VocabularyIssue[] {
+  const issues: VocabularyIssue[] = [];
+
+  if (config.vocabularyName && !RESOURCE_NAME_PATTERN.test(config.vocabularyName)) {
+    issues.push({ severity: 'error', field: 'vocabularyName', message: 'Vocabulary name may only contain letters, digits, ".", "_" and "-" (max 200)' });
+  }
+  if (config.vocabularyFilterName && !RESOURCE_NAME_PATTERN.test(config.vocabularyFilterName)) {
+    issues.push({ severity: 'error', field: 'vocabularyFilterName', message: 'Filter name may only contain letters, digits, ".", "_" and "-" (max 200)' });
+  }
+  if (config.vocabularyFilterMethod && !FILTER_METHODS.includes(config.vocabularyFilterMethod)) {
+    issues.push({ severity: 'error', field: 'vocabularyFilterName', message: 'Filter method must be mask, remove or tag' });
+  }
+  if (config.vocabularyFilterName && !config.vocabularyFilterMethod) {
+    issues.push({ severity: 'warning', field: 'vocabularyFilterName', message: 'No filter method selected - AWS defaults to mask' });
+  }
+
+  const seen = new Set<string>();
+  (config.entries || []).forEach((entry, index) => {
+    const phrase = entry.phrase || '';
+    const error = (message: string) => issues.push({ severity: 'error', field: 'entries', index, message: `"${phrase}": ${message}` });
+
+    if (!phrase) {
+      error('phrase is required');
+      return;
+    }
+    if (phrase.length > MAX_PHRASE_LENGTH) error(`phrase exceeds ${MAX_PHRASE_LENGTH} characters`);
+    if (/\s/.test(phrase)) error('use hyphens instead of spaces between words');
+    if (/\d/.test(phrase)) error('numbers must be spelled out');
+    if (/[^\p{L}\p{M}'.-]/u.test(phrase)) error('only letters, apostrophes, periods (acronyms) and hyphens are allowed');
+    if (entry.soundsLike && entry.ipa) error('use either SoundsLike or IPA, not both');
+    if (entry.soundsLike && /[^\p{L}\p{M}-]/u.test(entry.soundsLike)) error('SoundsLike may only contain letters and hyphens');
+    if (entry.displayAs && entry.displayAs.length > MAX_PHRASE_LENGTH) error(`DisplayAs exceeds ${MAX_PHRASE_LENGTH} characters`);
+
+    const key = phrase.toLocaleLowerCase();
+    if (seen.has(key)) {
+      issues.push({ severity: 'warning', field: 'entries', index, message: `"${phrase}": duplicate phrase` });
+    }
+    seen.add(key);
+  });
+
+  (config.filterWords || []).forEach((word, index) => {
+    if (word.length > MAX_PHRASE_LENGTH) {
+      issues.push({ severity: 'error', field: 'filterWords', index, message: `"${word}": exceeds ${MAX_PHRASE_LENGTH} characters` });
+    }
+    if (/\s/.test(word)) {
+      issues.push({ severity: 'error', field: 'filterWords', index, message: `"${word}": filter entries must be single words` });
+    }
+  });
+
+  if (Buffer.byteLength(toVocabularyTable(config.entries || []), 'utf8') > MAX_FILE_BYTES) {
+    issues.push({ severity: 'error', field: 'entries', message: 'Vocabulary exceeds the 50 KB AWS limit' });
+  }
+  if (Buffer.byteLength(toFilterWordList(config.filterWords || []), 'utf8') > MAX_FILE_BYTES) {
+    issues.push({ severity: 'error', field: 'filterWords', message: 'Filter word list exceeds the 50 KB AWS limit' });
+  }
+
+  if ((config.entries || []).length > 0 && !config.vocabularyName) {
+    issues.push({ severity: 'warning', field: 'vocabularyName', message: 'Entries are not used until a vocabulary name is set' });
+  }
+  if ((config.filterWords || []).length > 0 && !config.vocabularyFilterName) {
+    issues.push({ severity: 'warning', field: 'vocabularyFilterName', message: 'Filter words are not used until a filter name is set' });
+  }
+
+  return issues;
+}
+
+/**
+ * AWS Transcribe table format (tab separated, with header row)
+ */
+export function toVocabularyTable(entries: VocabularyEntry[]): string {
+  const rows = entries.map(entry =>
+    [entry.phrase, entry.soundsLike || '', entry.ipa || '', entry.displayAs || ''].join('\t')
+  );
+  return ['Phrase\tSoundsLike\tIPA\tDisplayAs', ...rows].join('\n') + '\n';
+}
+
+/**
+ * AWS Transcribe vocabulary filter format (one word per line)
+ */
+export function toFilterWordList(words: string[]): string {
+  return words.join('\n') + '\n';
+}
@@ -1,6 +1,13 @@
 import { EventEmitter } from 'events';
 import { TranslateClient, TranslateTextCommand } from '@aws-sdk/client-translate';
 import { fromCognitoIdentityPool } from '@aws-sdk/credential-providers';
+import { toTranslateCode } from './language-registry';
+import {
+  CompiledGlossaryTerm,
+  compileGlossary,
+  maskTerminology,
+  restoreTerminology
+} from '../../shared/terminology-masking';
 
 interface TranslationConfig {
   region: string;
@@ -11,14 +18,28 @@ interface TranslationConfig {
   targetLanguages: string[];
 }
 
+/**
+ * Glossary entry as served by the WebSocket server (one entry per source term)
+ */
+export interface TerminologyEntry {
+  entryId: string;
+  sourceLanguage: string;
+  sourceText: string;
+  translations: Record<string, string>;
+  category?: string;
+  priority?: number;
+  context?: string;
+}
+
 export class TranslationService extends EventEmitter {
   private client: TranslateClient;
   private config: TranslationConfig;
+  private termsByLanguage: Map<string, CompiledGlossaryTerm[]> = new Map();
 
   constructor(config: TranslationConfig) {
     super();
     this.config = config;
-    
+
     this.client = new TranslateClient({
       region: config.region,
       credentials: fromCognitoIdentityPool({
@@ -31,22 +52,79 @@ export class TranslationService extends EventEmitter {
     });
   }
 
-  async translateText(text: string): Promise<any[]> {
+  /**
+   * Replace the glossary applied to every translation.
+   * Entries are grouped by source language so a detected language change uses its own terms.
+   */
+  setTerminology(entries: TerminologyEntry[]): void {
+    const entriesByLanguage = new Map<string, TerminologyEntry[]>();
+    entries.forEach(entry => {
+      entriesByLanguage.set(entry.sourceLanguage, [...(entriesByLanguage.get(entry.sourceLanguage) || []), entry]);
+    });
+
+    this.termsByLanguage = new Map();
+    entriesByLanguage.forEach((languageEntries, sourceLanguage) => {
+      const terms = compileGlossary(languageEntries);
+      if (terms.length > 0) {
+        this.termsByLanguage.set(sourceLanguage, terms);
+      }
+    });
+
+    const languages = Array.from(this.termsByLanguage.keys()).join(', ') || 'none';
+    console.log(`Glossary loaded: ${this.getTerminologyCount()} terms (source languages: ${languages})`);
+    this.emit('terminology-updated', { termCount: this.getTerminologyCount() });
+  }
+
+  getTerminologyCount(): number {
+    let count = 0;
+    this.termsByLanguage.forEach(terms => count += terms.length);
+    return count;
+  }
+
+  /**
+   * Translate into every target language except the source language itself,
+   * which gets the original text back untranslated.
+   */
+  async translateText(text: string, sourceLanguage: string = this.config.sourceLanguage): Promise<any[]> {
     if (!text.trim()) return [];
 
+    const sourceKey = sourceLanguage.split('-')[0];
+
     try {
       const translations = await Promise.all(
         this.config.targetLanguages.map(async (targetLang) => {
+          if (targetLang.split('-')[0] === sourceKey) {
+            return {
+              targetLanguage: targetLang,
+              text,
+              confidence: 1,
+              glossaryTermsApplied: 0,
+              isOriginal: true,
+            };
+          }
+
+          const { maskedText, replacements } = maskTerminology(text, this.termsByLanguage.get(sourceKey) || [], targetLang);
+
           const result = await this.client.send(new TranslateTextCommand({
-            Text: text,
-            SourceLanguageCode: this.config.sourceLanguage,
-            TargetLanguageCode: targetLang,
+            Text: maskedText,
+            SourceLanguageCode: toTranslateCode(sourceLanguage),
+            TargetLanguageCode: toTranslateCode(targetLang),
           }));
 
+          let translatedText = text;
+          if (result.TranslatedText) {
+            const restored = restoreTerminology(result.TranslatedText, replacements);
+            if (restored.lostTerms > 0) {
+              console.warn(`Glossary: ${restored.lostTerms} term(s) lost during ${targetLang} translation`);
+            }
+            translatedText = restored.text;
+          }
+
           return {
             targetLanguage: targetLang,
-            text: result.TranslatedText || text,
+            text: translatedText,
             confidence: 0.95,
+            glossaryTermsApplied: replacements.length,
           };
         })
       );
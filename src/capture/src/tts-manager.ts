@@ -5,9 +5,10 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { app } from 'electron';
 import { TTSFallbackManager, TTSResult as FallbackResult } from './tts-fallback-manager';
+import { getLanguage } from './language-registry';
 
 export type TTSMode = 'neural' | 'standard' | 'local' | 'disabled';
-export type TargetLanguage = 'en-US' | 'es-ES' | 'fr-FR' | 'de-DE' | 'it-IT';
+export type TargetLanguage = string;  // Regional code from the language registry, e.g. 'es-ES'
 
 interface TTSConfig {
   region: string;
@@ -19,8 +20,8 @@ interface TTSConfig {
 }
 
 interface VoiceMapping {
-  standard: VoiceId;
-  neural: VoiceId;
+  standard?: VoiceId;  // Absent when Polly has no voice for the engine
+  neural?: VoiceId;
 }
 
 interface AudioResult {
@@ -37,30 +38,6 @@ export class TTSManager extends EventEmitter {
   private audioDir: string;
   private fallbackManager: TTSFallbackManager;
 
-  // Language-specific voice mappings
-  private readonly voiceMappings: Record<TargetLanguage, VoiceMapping> = {
-    'en-US': {
-      standard: VoiceId.Joanna,
-      neural: VoiceId.Joanna
-    },
-    'es-ES': {
-      standard: VoiceId.Conchita,
-      neural: VoiceId.Lucia
-    },
-    'fr-FR': {
-      standard: VoiceId.Celine,
-      neural: VoiceId.Lea
-    },
-    'de-DE': {
-      standard: VoiceId.Marlene,
-      neural: VoiceId.Vicki
-    },
-    'it-IT': {
-      standard: VoiceId.Carla,
-      neural: VoiceId.Bianca
-    }
-  };
-
   constructor(config: TTSConfig) {
     super();
     this.config = config;
@@ -168,9 +145,15 @@ export class TTSManager extends EventEmitter {
     }
 
     try {
-      const voiceMapping = this.voiceMappings[language];
-      const voiceId = this.config.mode === 'neural' ? voiceMapping.neural : voiceMapping.standard;
-      const engine = this.config.mode === 'neural' ? Engine.NEURAL : Engine.STANDARD;
+      const voiceMapping = this.getAvailableVoices(language);
+      if (!voiceMapping) {
+        return null;
+      }
+
+      // Some languages only have a voice for one engine
+      const voiceType = voiceMapping[this.config.mode] ? this.config.mode : (this.config.mode === 'neural' ? 'standard' : 'neural');
+      const voiceId = voiceMapping[voiceType]!;
+      const engine = voiceType === 'neural' ? Engine.NEURAL : Engine.STANDARD;
 
       const command = new SynthesizeSpeechCommand({
         Text: text,
@@ -200,7 +183,7 @@ export class TTSManager extends EventEmitter {
         audioUrl: `file://${filepath}`,
         duration: this.estimateAudioDuration(text),
         size: audioBuffer.length,
-        voiceType: this.config.mode as 'neural' | 'standard'
+        voiceType
       };
 
       // Cache result
@@ -209,7 +192,7 @@ export class TTSManager extends EventEmitter {
       // Emit usage tracking event
       this.emit('polly-usage', {
         characters: text.length,
-        voiceType: this.config.mode,
+        voiceType,
         language: language
       });
 
@@ -230,15 +213,19 @@ export class TTSManager extends EventEmitter {
   /**
    * Get available voices for a language
    */
-  getAvailableVoices(language: TargetLanguage): { standard: VoiceId; neural: VoiceId } {
-    return this.voiceMappings[language];
+  getAvailableVoices(language: TargetLanguage): VoiceMapping | null {
+    const voices = getLanguage(language)?.polly;
+    if (!voices) {
+      return null;
+    }
+    return { standard: voices.standard as VoiceId | undefined, neural: voices.neural as VoiceId | undefined };
   }
 
   /**
    * Check if TTS is available for a language
    */
   isLanguageSupported(language: TargetLanguage): boolean {
-    return language in this.voiceMappings && this.config.enabledLanguages.includes(language);
+    return !!getLanguage(language)?.polly && this.config.enabledLanguages.includes(language);
   }
 
   /**
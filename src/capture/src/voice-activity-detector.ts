@@ -0,0 +1,192 @@
+import { EventEmitter } from 'events';
+import { AudioCapture } from './audio-capture';
+
+export interface VadConfig {
+  enabled: boolean;
+  threshold?: number;           // Audio level (0-100, same scale as the level meter) that counts as speech
+  attackMs?: number;            // Audio must stay above the threshold this long to open the gate
+  hangoverMs?: number;          // Audio must stay below the threshold this long to close the gate
+  preRollMs?: number;           // Audio sent ahead of the detected speech so first words are not clipped
+  keepAliveIntervalMs?: number; // How often to send silence while gated (Transcribe times out after 15s)
+}
+
+interface ResolvedVadConfig {
+  enabled: boolean;
+  threshold: number;
+  attackMs: number;
+  hangoverMs: number;
+  preRollMs: number;
+  keepAliveIntervalMs: number;
+}
+
+const DEFAULTS: ResolvedVadConfig = {
+  enabled: false,
+  threshold: 8,
+  attackMs: 100,
+  hangoverMs: 1500,
+  preRollMs: 500,
+  keepAliveIntervalMs: 5000,
+};
+
+const KEEP_ALIVE_CHUNK_MS = 100;
+
+/**
+ * Gates audio sent to Transcribe during silence (music, prayer, breaks).
+ * Timing is measured in audio duration rather than wall-clock time, so it
+ * behaves the same for live capture and for recordings.
+ *
+ * Events:
+ * - 'speech-start' / 'speech-end'
+ * - 'keep-alive' when silence is sent to hold the stream open
+ */
+export class VoiceActivityDetector extends EventEmitter {
+  private config: ResolvedVadConfig;
+  private bytesPerMs: number;
+  private speaking = true;
+  private aboveMs = 0;
+  private belowMs = 0;
+  private sinceLastSentMs = 0;
+  private preRoll: Buffer[] = [];
+  private preRollMs = 0;
+  private gatedMs = 0;
+  private keepAliveMs = 0;
+  private unreportedSavedMs = 0;
+
+  constructor(config: Partial<VadConfig> | undefined, sampleRate: number, channels: number) {
+    super();
+    this.config = VoiceActivityDetector.resolveConfig(config);
+    this.bytesPerMs = (sampleRate * channels * 2) / 1000;
+  }
+
+  static resolveConfig(config?: Partial<VadConfig>): ResolvedVadConfig {
+    return {
+      enabled: config?.enabled ?? DEFAULTS.enabled,
+      threshold: config?.threshold ?? DEFAULTS.threshold,
+      attackMs: config?.attackMs ?? DEFAULTS.attackMs,
+      hangoverMs: config?.hangoverMs ?? DEFAULTS.hangoverMs,
+      preRollMs: config?.preRollMs ?? DEFAULTS.preRollMs,
+      keepAliveIntervalMs: config?.keepAliveIntervalMs ?? DEFAULTS.keepAliveIntervalMs,
+    };
+  }
+
+  /**
+   * Classify a chunk and return the audio to forward to Transcribe now.
+   * While gated this is empty, or a short silent keep-alive chunk.
+   */
+  process(chunk: Buffer): Buffer[] {
+    if (!this.config.enabled) {
+      return [chunk];
+    }
+
+    const durationMs = chunk.length / this.bytesPerMs;
+    const isLoud = AudioCapture.calculateAudioLevel(chunk) >= this.config.threshold;
+
+    if (this.speaking) {
+      this.belowMs = isLoud ? 0 : this.belowMs + durationMs;
+
+      if (this.belowMs >= this.config.hangoverMs) {
+        this.speaking = false;
+        this.aboveMs = 0;
+        this.sinceLastSentMs = 0;
+        console.log('[VAD] Silence detected - pausing audio to Transcribe');
+        this.emit('speech-end');
+      }
+
+      this.sinceLastSentMs = 0;
+      return [chunk];
+    }
+
+    // Gated: hold recent audio so it can be sent if this turns out to be speech
+    this.preRoll.push(chunk);
+    this.preRollMs += durationMs;
+    this.aboveMs = isLoud ? this.aboveMs + durationMs : 0;
+
+    if (this.aboveMs >= this.config.attackMs) {
+      const forward = this.preRoll;
+      this.preRoll = [];
+      this.preRollMs = 0;
+      this.speaking = true;
+      this.belowMs = 0;
+      console.log('[VAD] Speech detected - resuming audio to Transcribe');
+      this.emit('speech-start');
+      return forward;
+    }
+
+    this.trimPreRoll();
+    this.sinceLastSentMs += durationMs;
+
+    if (this.sinceLastSentMs >= this.config.keepAliveIntervalMs) {
+      this.sinceLastSentMs = 0;
+      this.keepAliveMs += KEEP_ALIVE_CHUNK_MS;
+      this.unreportedSavedMs -= KEEP_ALIVE_CHUNK_MS;
+      this.emit('keep-alive');
+      return [this.createSilence(KEEP_ALIVE_CHUNK_MS)];
+    }
+
+    return [];
+  }
+
+  /**
+   * Audio time not sent to Transcribe since the last call, in minutes
+   */
+  takeSavedMinutes(): number {
+    const minutes = Math.max(0, this.unreportedSavedMs) / 60000;
+    this.unreportedSavedMs = Math.min(0, this.unreportedSavedMs);
+    return minutes;
+  }
+
+  getStats(): { speaking: boolean; gatedMinutes: number; keepAliveMinutes: number } {
+    return {
+      speaking: this.speaking,
+      gatedMinutes: this.gatedMs / 60000,
+      keepAliveMinutes: this.keepAliveMs / 60000,
+    };
+  }
+
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  updateConfig(config: Partial<VadConfig>): void {
+    this.config = VoiceActivityDetector.resolveConfig({ ...this.config, ...config });
+    if (!this.config.enabled) {
+      this.reset();
+    }
+  }
+
+  getConfig(): ResolvedVadConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Open the gate and drop held audio (new stream or VAD disabled)
+   */
+  reset(): void {
+    this.speaking = true;
+    this.aboveMs = 0;
+    this.belowMs = 0;
+    this.sinceLastSentMs = 0;
+    this.preRoll = [];
+    this.preRollMs = 0;
+  }
+
+  /**
+   * Drop held audio older than the pre-roll window; dropped audio is never billed
+   */
+  private trimPreRoll(): void {
+    const keepMs = Math.max(this.config.preRollMs, this.config.attackMs);
+
+    while (this.preRoll.length > 1 && this.preRollMs - this.preRoll[0].length / this.bytesPerMs >= keepMs) {
+      const dropped = this.preRoll.shift()!;
+      const droppedMs = dropped.length / this.bytesPerMs;
+      this.preRollMs -= droppedMs;
+      this.gatedMs += droppedMs;
+      this.unreportedSavedMs += droppedMs;
+    }
+  }
+
+  private createSilence(durationMs: number): Buffer {
+    const bytes = Math.round(durationMs * this.bytesPerMs);
+    return Buffer.alloc(bytes - (bytes % 2));
+  }
+}
@@ -0,0 +1,47 @@
+import axios from 'axios';
+import { DisplayOutput, DisplayOutputSettings } from './display-output';
+
+export interface WebhookDisplayConfig extends DisplayOutputSettings {
+  url: string;
+  method?: 'POST' | 'PUT';
+  headers?: Record<string, string>;  // e.g. an Authorization header for the receiving service
+}
+
+/**
+ * Sends the current lines as JSON to any HTTP endpoint (custom overlays, Companion, automation tools)
+ */
+export class WebhookDisplayOutput extends DisplayOutput<WebhookDisplayConfig> {
+  get label(): string {
+    return 'Webhook';
+  }
+
+  protected async send(lines: string[], show: boolean): Promise<void> {
+    if (!this.config.enabled) return;
+
+    try {
+      const response = await axios.request({
+        url: this.config.url,
+        method: this.config.method || 'POST',
+        data: {
+          event: show ? 'update' : 'clear',
+          language: this.config.language,
+          text: lines.join('\n'),
+          lines,
+          show,
+          timestamp: new Date().toISOString()
+        },
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        timeout: 5000
+      });
+
+      console.log(`[Webhook] ✅ ${this.config.url} (${response.status})`);
+    } catch (error: any) {
+      if (error.response) {
+        console.error(`[Webhook] ❌ HTTP ${error.response.status} from ${this.config.url}`);
+      } else {
+        console.error(`[Webhook] ❌ ${this.config.url}:`, error.message);
+      }
+      throw error;
+    }
+  }
+}
@@ -1,8 +1,10 @@
 import { EventEmitter } from 'events';
 import { io, Socket } from 'socket.io-client';
 import { SecureTokenStorage } from './secure-token-storage';
+import { TerminologyEntry } from './translation-service';
+import { ScripturePassage } from './scripture-library';
 
-export type TargetLanguage = 'en-US' | 'es-ES' | 'fr-FR' | 'de-DE' | 'it-IT';
+export type TargetLanguage = string;  // Code from the language registry (language-registry.ts)
 export type TTSMode = 'neural' | 'standard' | 'local' | 'disabled';
 
 export interface SessionConfig {
@@ -10,6 +12,43 @@ export interface SessionConfig {
   enabledLanguages: TargetLanguage[];
   ttsMode: TTSMode;
   audioQuality: 'high' | 'medium' | 'low';
+  speech?: SpeechSettings;
+  voices?: Partial<Record<TargetLanguage, string>>;  // Polly voice ID per language
+}
+
+export interface SpeechStyle {
+  rate?: number;   // Percent of normal speed, 50-200
+  pitch?: number;  // Relative change in percent, -50 to +50
+}
+
+// Speaking style for server-generated audio, with optional per-language overrides
+export interface SpeechSettings extends SpeechStyle {
+  languages?: Partial<Record<TargetLanguage, SpeechStyle>>;
+}
+
+export interface VoiceOption {
+  voiceId: string;
+  language: TargetLanguage;
+  languageCode: string;
+  gender: 'Female' | 'Male';
+  engines: Array<'neural' | 'standard'>;
+  isDefault: boolean;
+}
+
+export interface VoicePreview {
+  voiceId: string;
+  voiceType: 'neural' | 'standard';
+  text: string;
+  audioData: string;  // Base64
+  format: string;
+}
+
+export interface PronunciationEntry {
+  entryId?: string;
+  language: TargetLanguage;
+  term: string;
+  alias?: string;    // Spoken in place of the term
+  phoneme?: string;  // IPA pronunciation
 }
 
 export interface ConnectionHealthStatus {
@@ -71,6 +110,8 @@ interface AdminAuthState {
 
 export class WebSocketManager extends EventEmitter {
   private socket: Socket | null = null;
+  private broadcastCounter = 0;
+  private requestCounter = 0;
   private config: WebSocketConfig;
   private currentSession: SessionConfig | null = null;
   private isConnected = false;
@@ -473,21 +514,139 @@ export class WebSocketManager extends EventEmitter {
   async sendTranslations(data: {
     original: string;
     translations: Record<string, string>;
+    sourceLanguage?: string;  // Detected language of the original text
+    speaker?: { id: string; name: string };
+    scripture?: Record<string, ScripturePassage[]>;  // Quoted passages per base language
     generateTTS?: boolean;
     voiceType?: 'neural' | 'standard';
-  }): Promise<void> {
+  }): Promise<string | undefined> {
     if (!this.isConnected || !this.socket || !this.currentSession) {
       console.warn('Cannot send translations: not connected or no active session');
-      return;
+      return undefined;
     }
 
-    this.socket.emit('broadcast-translation', {
+    const socket = this.socket;
+    const requestId = `bt-${Date.now()}-${++this.broadcastCounter}`;
+
+    // The server answers with the segment ID it assigned; corrections reference it later.
+    // A missing answer only disables corrections for this segment.
+    const segmentId = new Promise<string | undefined>((resolve) => {
+      const cleanup = () => {
+        clearTimeout(timeout);
+        socket.off('broadcast-translation-response', onResponse);
+      };
+
+      const timeout = setTimeout(() => {
+        cleanup();
+        console.warn('No segment ID received for broadcast; corrections unavailable for this segment');
+        resolve(undefined);
+      }, 3000);
+
+      const onResponse = (response: any) => {
+        if (response?.requestId !== requestId) {
+          return;
+        }
+        cleanup();
+        resolve(response.segmentId);
+      };
+
+      socket.on('broadcast-translation-response', onResponse);
+    });
+
+    socket.emit('broadcast-translation', {
       sessionId: this.currentSession.sessionId,
+      requestId,
       original: data.original,
       translations: data.translations,
+      sourceLanguage: data.sourceLanguage,
+      speaker: data.speaker,
+      scripture: data.scripture,
       generateTTS: data.generateTTS ?? true,
       voiceType: data.voiceType ?? 'neural'
     });
+
+    return segmentId;
+  }
+
+  /**
+   * Correct a segment that was already broadcast.
+   * Clients replace the line in place; the server regenerates or invalidates its audio.
+   */
+  async correctTranslation(segmentId: string, corrections: Record<string, string>, original?: string): Promise<any> {
+    if (!this.currentSession) {
+      throw new Error('No active session');
+    }
+
+    return this.sendAdminRequest('correct-translation', 'correct-translation-response', {
+      type: 'correct-translation',
+      sessionId: this.currentSession.sessionId,
+      segmentId,
+      corrections,
+      original
+    }, 15000);
+  }
+
+  /**
+   * Upload prepared content (announcements, readings, lyrics) for the current session.
+   * Segments are separated by blank lines; the server translates them in the background.
+   */
+  async uploadScript(title: string, sourceLanguage: string, document: string): Promise<any> {
+    if (!this.currentSession) {
+      throw new Error('No active session');
+    }
+
+    return this.sendAdminRequest('upload-script', 'upload-script-response', {
+      type: 'upload-script',
+      sessionId: this.currentSession.sessionId,
+      title,
+      sourceLanguage,
+      document
+    }, 15000);
+  }
+
+  /**
+   * Current script of the session with its translations, or null when none was uploaded
+   */
+  async getScript(): Promise<any> {
+    if (!this.currentSession) {
+      throw new Error('No active session');
+    }
+
+    return this.sendAdminRequest('get-script', 'get-script-response', {
+      type: 'get-script',
+      sessionId: this.currentSession.sessionId
+    });
+  }
+
+  /**
+   * Step through the script; the chosen segment is broadcast to clients
+   */
+  async scriptControl(action: 'next' | 'previous' | 'goto' | 'repeat' | 'clear', index?: number): Promise<any> {
+    if (!this.currentSession) {
+      throw new Error('No active session');
+    }
+
+    return this.sendAdminRequest('script-control', 'script-control-response', {
+      type: 'script-control',
+      sessionId: this.currentSession.sessionId,
+      action,
+      index
+    }, 15000);
+  }
+
+  /**
+   * Switch between live speech and scripted content. Live broadcasts are ignored in scripted mode.
+   */
+  async setSessionMode(mode: 'live' | 'scripted'): Promise<any> {
+    if (!this.currentSession) {
+      throw new Error('No active session');
+    }
+
+    return this.sendAdminRequest('set-session-mode', 'set-session-mode-response', {
+      type: 'set-session-mode',
+      sessionId: this.currentSession.sessionId,
+      mode
+    });
   }
 
   /**
@@ -557,6 +716,119 @@ export class WebSocketManager extends EventEmitter {
     });
   }
 
+  /**
+   * List glossary entries stored on the server
+   */
+  async listTerminology(sourceLanguage?: string, targetLanguage?: string): Promise<TerminologyEntry[]> {
+    const response = await this.sendAdminRequest('list-terminology', 'list-terminology-response', {
+      type: 'list-terminology',
+      sourceLanguage,
+      targetLanguage
+    });
+    return response.entries || [];
+  }
+
+  /**
+   * Add glossary entries for a source language.
+   * Resolves with the server result, including any rejected entries.
+   */
+  async addTerminology(sourceLanguage: string, entries: Array<Omit<TerminologyEntry, 'entryId' | 'sourceLanguage'>>): Promise<any> {
+    return this.sendAdminRequest('add-terminology', 'add-terminology-response', {
+      type: 'add-terminology',
+      sourceLanguage,
+      entries
+    });
+  }
+
+  /**
+   * Edit a glossary entry (translations are merged per target language)
+   */
+  async updateTerminology(entryId: string, updates: Partial<Pick<TerminologyEntry, 'translations' | 'category' | 'priority' | 'context'>>): Promise<any> {
+    return this.sendAdminRequest('update-terminology', 'update-terminology-response', {
+      type: 'update-terminology',
+      entryId,
+      ...updates
+    });
+  }
+
+  /**
+   * Delete a glossary entry, or a single source→target pair
+   */
+  async deleteTerminology(entryId: string, targetLanguage?: string): Promise<any> {
+    return this.sendAdminRequest('delete-terminology', 'delete-terminology-response', {
+      type: 'delete-terminology',
+      entryId,
+      targetLanguage
+    });
+  }
+
+  /**
+   * List pronunciation lexicon entries, optionally for one language
+   */
+  async listPronunciations(language?: TargetLanguage): Promise<PronunciationEntry[]> {
+    const response = await this.sendAdminRequest('list-pronunciations', 'list-pronunciations-response', {
+      type: 'list-pronunciations',
+      language
+    });
+    return response.entries || [];
+  }
+
+  /**
+   * Add pronunciation entries.
+   * Resolves with the server result, including any rejected entries.
+   */
+  async addPronunciations(entries: Array<Omit<PronunciationEntry, 'entryId'>>): Promise<any> {
+    return this.sendAdminRequest('add-pronunciations', 'add-pronunciations-response', {
+      type: 'add-pronunciations',
+      entries
+    });
+  }
+
+  /**
+   * Replace an entry's alias or phoneme
+   */
+  async updatePronunciation(entryId: string, updates: Pick<PronunciationEntry, 'alias' | 'phoneme'>): Promise<any> {
+    return this.sendAdminRequest('update-pronunciation', 'update-pronunciation-response', {
+      type: 'update-pronunciation',
+      entryId,
+      ...updates
+    });
+  }
+
+  /**
+   * Delete a pronunciation entry
+   */
+  async deletePronunciation(entryId: string): Promise<any> {
+    return this.sendAdminRequest('delete-pronunciation', 'delete-pronunciation-response', {
+      type: 'delete-pronunciation',
+      entryId
+    });
+  }
+
+  /**
+   * List the voices the server can speak each language with
+   */
+  async listVoices(language?: TargetLanguage): Promise<VoiceOption[]> {
+    const response = await this.sendAdminRequest('list-voices', 'list-voices-response', {
+      type: 'list-voices',
+      language
+    });
+    return response.voices || [];
+  }
+
+  /**
+   * Have the server speak a sample phrase with a voice, using the current session's speech settings
+   */
+  async previewVoice(language: TargetLanguage, voiceId: string, voiceType?: 'neural' | 'standard'): Promise<VoicePreview> {
+    return this.sendAdminRequest('preview-voice', 'preview-voice-response', {
+      type: 'preview-voice',
+      language,
+      voiceId,
+      voiceType,
+      sessionId: this.currentSession?.sessionId
+    });
+  }
+
   /**
    * Get current session configuration
    */
@@ -749,6 +1021,13 @@ export class WebSocketManager extends EventEmitter {
       this.emit('session-confirmed', sessionInfo);
     });
 
+    // QR code and links congregants use to join the new session
+    this.socket.on('start-session-response', (response) => {
+      if (response.success && response.join) {
+        this.emit('session-join-info', { sessionId: response.sessionId, ...response.join });
+      }
+    });
+
     this.socket.on('session-error', (error) => {
       this.emit('session-error', error);
     });
@@ -786,6 +1065,77 @@ export class WebSocketManager extends EventEmitter {
     this.socket.on('list-sessions-response', (response) => {
       this.emit('sessions-list-updated', response);
     });
+
+    this.socket.on('terminology-updated', (notification) => {
+      console.log('Terminology updated:', notification);
+      this.emit('terminology-updated', notification);
+    });
+
+    this.socket.on('pronunciations-updated', (notification) => {
+      console.log('Pronunciations updated:', notification);
+      this.emit('pronunciations-updated', notification);
+    });
+
+    this.socket.on('script-progress', (notification) => {
+      this.emit('script-progress', notification);
+    });
+
+    this.socket.on('session-mode-changed', (notification) => {
+      console.log('Session mode changed:', notification);
+      this.emit('session-mode-changed', notification);
+    });
+
+    this.socket.on('client-lag-update', (update) => {
+      this.emit('client-lag-update', update);
+    });
+  }
+
+  /**
+   * Emit an admin request and wait for its response event.
+   * The server echoes the request ID, so concurrent requests of the same type each get their own answer.
+   * Rejects when the server answers with an admin-error for this request.
+   */
+  private sendAdminRequest(operation: string, responseEvent: string, payload: any, timeoutMs = 5000): Promise<any> {
+    if (!this.isConnected || !this.socket) {
+      return Promise.reject(new Error('Not connected to WebSocket server'));
+    }
+
+    const socket = this.socket;
+    const requestId = `${operation}-${Date.now()}-${++this.requestCounter}`;
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timeout);
+        socket.off(responseEvent, onResponse);
+        socket.off('admin-error', onError);
+      };
+
+      const timeout = setTimeout(() => {
+        cleanup();
+        reject(new Error(`${operation} timeout`));
+      }, timeoutMs);
+
+      const onResponse = (response: any) => {
+        if (response?.requestId !== requestId) {
+          return;
+        }
+        cleanup();
+        resolve(response);
+      };
+
+      const onError = (error: any) => {
+        if (error?.requestId !== requestId) {
+          return;
+        }
+        cleanup();
+        const details = error?.details?.validationErrors?.join('; ');
+        reject(new Error(details || error?.userMessage || error?.message || `${operation} failed`));
+      };
+
+      socket.on(responseEvent, onResponse);
+      socket.on('admin-error', onError);
+      socket.emit(operation, { ...payload, requestId });
+    });
   }
 
   private handleServerMessage(message: any): void {
@@ -0,0 +1,73 @@
+import { after, afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileReplayTranscriptionProvider } from '../src/file-replay-transcription-provider';
+import { TranscriptionResult } from '../src/transcription-provider';
+
+const dir = mkdtempSync(join(tmpdir(), 'replay-'));
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function writeTranscript(name: string, content: string): string {
+  const filePath = join(dir, name);
+  writeFileSync(filePath, content);
+  return filePath;
+}
+
+describe('FileReplayTranscriptionProvider', () => {
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it('rejects a file without cues and leaves reporting to the caller', async () => {
+    const provider = new FileReplayTranscriptionProvider({ filePath: writeTranscript('empty.json', '[]') });
+    const errors: unknown[] = [];
+    provider.on('error', error => errors.push(error));
+
+    await assert.rejects(provider.startStreaming(), /No timestamped text found/);
+    assert.deepEqual(errors, []);
+  });
+
+  it('rejects a file that is not a transcript without emitting an error', async () => {
+    const provider = new FileReplayTranscriptionProvider({ filePath: writeTranscript('bad.json', '{"text": "Bom dia"}') });
+    const errors: unknown[] = [];
+    provider.on('error', error => errors.push(error));
+
+    await assert.rejects(provider.startStreaming(), /Transcript JSON must be an array/);
+    assert.deepEqual(errors, []);
+  });
+
+  it('reads the language of JSON and Transcribe cues when present', () => {
+    assert.deepEqual(FileReplayTranscriptionProvider.parseJson(JSON.stringify([
+      { start: 0, end: 1, text: 'Bom dia', languageCode: 'pt-BR' },
+      { start: 1, end: 2, text: 'Good morning' }
+    ])).map(cue => cue.languageCode), ['pt-BR', undefined]);
+
+    assert.deepEqual(FileReplayTranscriptionProvider.parseJson(JSON.stringify({
+      results: { audio_segments: [{ start_time: '0.5', end_time: '1.5', transcript: 'Hola', language_code: 'es-US' }] }
+    })).map(cue => cue.languageCode), ['es-US']);
+  });
+
+  it('passes the cue language through with the final result', async () => {
+    mock.timers.enable({ apis: ['setInterval', 'Date'], now: 0 });
+    mock.method(console, 'log', () => {});
+    const provider = new FileReplayTranscriptionProvider({
+      filePath: writeTranscript('cues.json', JSON.stringify({ segments: [{ start: 0, end: 1, text: 'Bom dia', languageCode: 'pt-BR' }] }))
+    });
+    const results: TranscriptionResult[] = [];
+    provider.on('transcription', result => results.push(result));
+
+    await provider.startStreaming();
+    mock.timers.tick(1000);
+    provider.stopStreaming();
+
+    const final = results.find(result => !result.isPartial);
+    assert.equal(final?.text, 'Bom dia');
+    assert.equal(final?.languageCode, 'pt-BR');
+  });
+});
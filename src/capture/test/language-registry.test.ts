@@ -0,0 +1,23 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toTranslateCode } from '../src/language-registry';
+
+describe('toTranslateCode', () => {
+  it('maps Transcribe locales of registry languages to their Translate code', () => {
+    assert.equal(toTranslateCode('pt-BR'), 'pt');
+    assert.equal(toTranslateCode('en-US'), 'en');
+    assert.equal(toTranslateCode('es-US'), 'es');
+    assert.equal(toTranslateCode('zh-CN'), 'zh');
+    assert.equal(toTranslateCode('de'), 'de');
+  });
+
+  it('falls back to the language of locales outside the registry', () => {
+    assert.equal(toTranslateCode('hi-IN'), 'hi');
+    assert.equal(toTranslateCode('en-GB'), 'en');
+  });
+
+  it('keeps the regional variants Translate supports', () => {
+    assert.equal(toTranslateCode('fr-CA'), 'fr-CA');
+    assert.equal(toTranslateCode('pt-PT'), 'pt-PT');
+  });
+});
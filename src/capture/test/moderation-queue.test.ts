@@ -0,0 +1,144 @@
+import { describe, it, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ModerationQueue, ModerationDecision } from '../src/moderation-queue';
+
+const TRANSLATIONS = [
+  { targetLanguage: 'en', text: 'Let us pray' },
+  { targetLanguage: 'es', text: 'Oremos' }
+];
+
+function collect(queue: ModerationQueue): ModerationDecision[] {
+  const decisions: ModerationDecision[] = [];
+  queue.on('approved', decision => decisions.push(decision));
+  queue.on('discarded', decision => decisions.push(decision));
+  return decisions;
+}
+
+describe('ModerationQueue', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 }));
+  afterEach(() => mock.timers.reset());
+
+  it('releases an approved segment unchanged', () => {
+    const queue = new ModerationQueue({ enabled: true, autoApproveMs: 0 });
+    const decisions = collect(queue);
+    const item = queue.enqueue('Vamos orar', TRANSLATIONS, { speaker: 'pastor' });
+
+    mock.timers.tick(1200);
+    assert.equal(queue.approve(item.id), true);
+
+    assert.equal(decisions.length, 1);
+    assert.equal(decisions[0].outcome, 'approved');
+    assert.equal(decisions[0].waitMs, 1200);
+    assert.deepEqual(decisions[0].item.context, { speaker: 'pastor' });
+    assert.equal(queue.getStats().depth, 0);
+    assert.equal(queue.approve(item.id), false);
+  });
+
+  it('applies the operator corrections and reports the segment as edited', () => {
+    const queue = new ModerationQueue({ enabled: true, autoApproveMs: 0 });
+    const decisions = collect(queue);
+    const item = queue.enqueue('Vamos orar', TRANSLATIONS, {});
+
+    queue.approve(item.id, { original: ' Vamos orar juntos ', translations: { es: 'Oremos juntos', en: 'Let us pray' } });
+
+    assert.equal(decisions[0].outcome, 'edited');
+    assert.equal(decisions[0].item.original, 'Vamos orar juntos');
+    assert.deepEqual(decisions[0].item.translations.map(t => t.text), ['Let us pray', 'Oremos juntos']);
+    assert.equal(TRANSLATIONS[1].text, 'Oremos');
+  });
+
+  it('counts an approval with identical edits as approved', () => {
+    const queue = new ModerationQueue({ enabled: true, autoApproveMs: 0 });
+    const decisions = collect(queue);
+    const item = queue.enqueue('Vamos orar', TRANSLATIONS, {});
+
+    queue.approve(item.id, { original: 'Vamos orar', translations: { en: '  ' } });
+
+    assert.equal(decisions[0].outcome, 'approved');
+  });
+
+  it('discards a segment with the reason given', () => {
+    const queue = new ModerationQueue({ enabled: true, autoApproveMs: 0 });
+    const decisions = collect(queue);
+    const item = queue.enqueue('Vamos orar', TRANSLATIONS, {});
+
+    assert.equal(queue.discard(item.id, 'misheard'), true);
+
+    assert.equal(decisions[0].outcome, 'discarded');
+    assert.equal(decisions[0].reason, 'misheard');
+    assert.equal(queue.getStats().discarded, 1);
+  });
+
+  it('auto-approves untouched segments once the timeout passes', () => {
+    const queue = new ModerationQueue({ enabled: true, autoApproveMs: 5000 });
+    const decisions = collect(queue);
+    const item = queue.enqueue('Vamos orar', TRANSLATIONS, {});
+
+    assert.equal(item.autoApproveAt, new Date(5000).toISOString());
+    mock.timers.tick(4999);
+    assert.equal(decisions.length, 0);
+    mock.timers.tick(1);
+
+    assert.equal(decisions[0].outcome, 'auto-approved');
+    assert.equal(queue.getStats().autoApproved, 1);
+  });
+
+  it('never auto-approves a held segment', () => {
+    const queue = new ModerationQueue({ enabled: true, autoApproveMs: 5000 });
+    const decisions = collect(queue);
+    const item = queue.enqueue('Vamos orar', TRANSLATIONS, {});
+
+    assert.equal(queue.hold(item.id), true);
+    mock.timers.tick(60000);
+
+    assert.equal(decisions.length, 0);
+    assert.equal(item.held, true);
+    assert.equal(item.autoApproveAt, undefined);
+    assert.equal(queue.getStats().oldestWaitMs, 60000);
+  });
+
+  it('restarts the auto-approve timers from the queue time when the timeout changes', () => {
+    const queue = new ModerationQueue({ enabled: true, autoApproveMs: 10000 });
+    const decisions = collect(queue);
+    const first = queue.enqueue('Primeira', TRANSLATIONS, {});
+    mock.timers.tick(3000);
+    const held = queue.enqueue('Segunda', TRANSLATIONS, {});
+    queue.hold(held.id);
+
+    queue.updateConfig({ autoApproveMs: 4000 });
+    assert.equal(first.autoApproveAt, new Date(4000).toISOString());
+    mock.timers.tick(1000);
+
+    assert.deepEqual(decisions.map(d => [d.item.id, d.outcome]), [[first.id, 'auto-approved']]);
+    assert.equal(held.autoApproveAt, undefined);
+    assert.equal(queue.getStats().depth, 1);
+  });
+
+  it('stops auto-approving when the timeout is set to 0', () => {
+    const queue = new ModerationQueue({ enabled: true, autoApproveMs: 5000 });
+    const decisions = collect(queue);
+    const item = queue.enqueue('Vamos orar', TRANSLATIONS, {});
+
+    queue.updateConfig({ autoApproveMs: 0 });
+    mock.timers.tick(60000);
+
+    assert.equal(decisions.length, 0);
+    assert.equal(item.autoApproveAt, undefined);
+  });
+
+  it('approves everything pending, held segments included, when review is turned off', () => {
+    const queue = new ModerationQueue({ enabled: true, autoApproveMs: 5000 });
+    const decisions = collect(queue);
+    const first = queue.enqueue('Primeira', TRANSLATIONS, {});
+    const second = queue.enqueue('Segunda', TRANSLATIONS, {});
+    queue.hold(second.id);
+
+    queue.updateConfig({ enabled: false });
+
+    assert.equal(queue.isEnabled(), false);
+    assert.deepEqual(decisions.map(d => [d.item.id, d.outcome]), [[first.id, 'approved'], [second.id, 'approved']]);
+    assert.equal(queue.getStats().depth, 0);
+    mock.timers.tick(60000);
+    assert.equal(decisions.length, 2);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectScriptureReferences, formatScriptureReference } from '../src/scripture-detector';
+
+describe('detectScriptureReferences', () => {
+  it('finds a chapter and verse', () => {
+    assert.deepEqual(detectScriptureReferences('Vamos ler João 3:16 juntos.', 'pt-BR'), [
+      { book: 'JHN', chapter: 3, verseStart: 16, text: 'João 3:16' }
+    ]);
+  });
+
+  it('finds a whole chapter of a numbered book', () => {
+    assert.deepEqual(detectScriptureReferences('Abram em 1 Coríntios 13, por favor.', 'pt-BR'), [
+      { book: '1CO', chapter: 13, text: '1 Coríntios 13' }
+    ]);
+  });
+
+  it('finds a spoken reference with an ordinal, chapter and verse words and a range', () => {
+    assert.deepEqual(
+      detectScriptureReferences('Leiam Primeira Coríntios capítulo 13 versículo 4 a 7.', 'pt-BR'),
+      [{ book: '1CO', chapter: 13, verseStart: 4, verseEnd: 7, text: 'Primeira Coríntios capítulo 13 versículo 4 a 7' }]
+    );
+  });
+
+  it('finds a German reference with a comma before the verse', () => {
+    assert.deepEqual(detectScriptureReferences('Wir lesen Johannes 3,16.', 'de-DE'), [
+      { book: 'JHN', chapter: 3, verseStart: 16, text: 'Johannes 3,16' }
+    ]);
+  });
+
+  it('ignores book names that are not capitalized', () => {
+    assert.deepEqual(detectScriptureReferences('Please mark 3 places on the map.', 'en-US'), []);
+  });
+
+  it('ignores chapters the book does not have', () => {
+    assert.deepEqual(detectScriptureReferences('João 30:1', 'pt-BR'), []);
+  });
+
+  it('returns nothing for a language without book names', () => {
+    assert.deepEqual(detectScriptureReferences('João 3:16', 'xx'), []);
+  });
+});
+
+describe('formatScriptureReference', () => {
+  it('uses the conventional separator of the language', () => {
+    assert.equal(formatScriptureReference({ book: 'JHN', chapter: 3, verseStart: 16, verseEnd: 18 }, 'pt'), 'João 3:16-18');
+    assert.equal(formatScriptureReference({ book: 'JHN', chapter: 3, verseStart: 16 }, 'de'), 'Johannes 3,16');
+    assert.equal(formatScriptureReference({ book: '1CO', chapter: 13 }, 'en'), '1 Corinthians 13');
+  });
+});
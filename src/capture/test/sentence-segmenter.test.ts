@@ -0,0 +1,152 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SentenceSegmenter, SentenceSegment } from '../src/sentence-segmenter';
+
+function collect(segmenter: SentenceSegmenter): SentenceSegment[] {
+  const segments: SentenceSegment[] = [];
+  segmenter.on('segment', segment => segments.push(segment));
+  return segments;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('SentenceSegmenter', () => {
+  it('emits complete sentences and keeps the unfinished rest', () => {
+    const segmenter = new SentenceSegmenter({ preset: 'low-latency' });
+    const segments = collect(segmenter);
+
+    segmenter.addFinal('Welcome to our service. Please');
+    segmenter.addFinal('stand for the opening hymn!');
+
+    assert.deepEqual(segments.map(s => s.text), [
+      'Welcome to our service.',
+      'Please stand for the opening hymn!'
+    ]);
+    assert.ok(segments.every(s => s.reason === 'punctuation'));
+    assert.equal(segmenter.getBufferedText(), '');
+    segmenter.clear();
+  });
+
+  it('merges sentences shorter than minSentenceChars with the next one', () => {
+    const segmenter = new SentenceSegmenter({ preset: 'balanced' });
+    const segments = collect(segmenter);
+
+    segmenter.addFinal('Amen. Let us pray for the sick and the suffering.');
+
+    assert.deepEqual(segments.map(s => s.text), ['Amen. Let us pray for the sick and the suffering.']);
+    segmenter.clear();
+  });
+
+  it('splits at the last comma when the length cap is reached', () => {
+    const segmenter = new SentenceSegmenter({ preset: 'low-latency', maxChars: 60 });
+    const segments = collect(segmenter);
+
+    segmenter.addFinal('We thank you for the gift of this day, for family and friends and');
+
+    assert.equal(segments.length, 1);
+    assert.equal(segments[0].text, 'We thank you for the gift of this day,');
+    assert.equal(segments[0].reason, 'max-length');
+    assert.equal(segmenter.getBufferedText(), 'for family and friends and');
+    segmenter.clear();
+  });
+
+  it('closes the sentence when the language or speaker changes', () => {
+    const segmenter = new SentenceSegmenter({ preset: 'balanced' });
+    const segments = collect(segmenter);
+
+    segmenter.addFinal('Good morning everyone', 'en-US', 'spk_0');
+    segmenter.addFinal('Bom dia a todos', 'pt-BR', 'spk_0');
+    segmenter.addFinal('Obrigado', 'pt-BR', 'spk_1');
+
+    assert.deepEqual(segments.map(s => [s.text, s.reason, s.language]), [
+      ['Good morning everyone', 'language-change', 'en-US'],
+      ['Bom dia a todos', 'speaker-change', 'pt-BR']
+    ]);
+    segmenter.clear();
+  });
+
+  it('passes results straight through when off', () => {
+    const segmenter = new SentenceSegmenter({ preset: 'off' });
+    const segments = collect(segmenter);
+
+    segmenter.addFinal('no punctuation here');
+
+    assert.deepEqual(segments.map(s => [s.text, s.reason]), [['no punctuation here', 'passthrough']]);
+  });
+
+  it('flushes after a pause in speech', async () => {
+    const segmenter = new SentenceSegmenter({ preset: 'balanced', pauseMs: 20 });
+    const segments = collect(segmenter);
+
+    segmenter.addFinal('and so we continue');
+    await wait(50);
+
+    assert.deepEqual(segments.map(s => [s.text, s.reason]), [['and so we continue', 'pause']]);
+  });
+
+  it('discards or flushes buffered text on stop depending on flushOnStop', () => {
+    const flushing = new SentenceSegmenter({ preset: 'balanced' });
+    flushing.addFinal('unfinished thought');
+    assert.equal(flushing.stop()?.reason, 'stop');
+
+    const discarding = new SentenceSegmenter({ preset: 'balanced', flushOnStop: false });
+    const segments = collect(discarding);
+    discarding.addFinal('unfinished thought');
+    assert.equal(discarding.stop(), null);
+    assert.equal(segments.length, 0);
+  });
+
+  describe('switching presets', () => {
+    it('takes the timings of the new preset', () => {
+      const segmenter = new SentenceSegmenter({ preset: 'low-latency' });
+
+      segmenter.updateConfig({ preset: 'high-quality' });
+
+      assert.deepEqual(segmenter.getConfig(), {
+        preset: 'high-quality',
+        maxWaitMs: 8000,
+        pauseMs: 1500,
+        minSentenceChars: 40,
+        maxChars: 400,
+        flushOnStop: true
+      });
+    });
+
+    it('turns the pause and max-wait flushes on when leaving off', async () => {
+      const segmenter = new SentenceSegmenter({ preset: 'off' });
+      const segments = collect(segmenter);
+
+      segmenter.updateConfig({ preset: 'balanced' });
+      assert.equal(segmenter.getConfig().pauseMs, 1000);
+      assert.equal(segmenter.getConfig().maxWaitMs, 5000);
+
+      segmenter.updateConfig({ pauseMs: 20 });
+      segmenter.addFinal('text without an ending');
+      assert.equal(segments.length, 0);
+      await wait(50);
+
+      assert.deepEqual(segments.map(s => s.reason), ['pause']);
+    });
+
+    it('keeps explicitly set values across preset changes', () => {
+      const segmenter = new SentenceSegmenter({ preset: 'balanced', maxChars: 150, flushOnStop: false });
+
+      segmenter.updateConfig({ preset: 'low-latency' });
+
+      const config = segmenter.getConfig();
+      assert.equal(config.maxChars, 150);
+      assert.equal(config.flushOnStop, false);
+      assert.equal(config.maxWaitMs, 2500);
+    });
+
+    it('flushes buffered text when switched off', () => {
+      const segmenter = new SentenceSegmenter({ preset: 'balanced' });
+      const segments = collect(segmenter);
+
+      segmenter.addFinal('half a sentence');
+      segmenter.updateConfig({ preset: 'off' });
+
+      assert.deepEqual(segments.map(s => [s.text, s.reason]), [['half a sentence', 'passthrough']]);
+    });
+  });
+});
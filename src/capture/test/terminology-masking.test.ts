@@ -0,0 +1,101 @@
+import { describe, it, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileGlossary, maskTerminology, restoreTerminology } from '../../shared/terminology-masking';
+import { TranslationService } from '../src/translation-service';
+
+describe('glossary masking', () => {
+  it('masks higher priority terms first, then longer terms', () => {
+    const terms = compileGlossary([
+      { sourceText: 'Ceia', translations: { en: 'Supper' } },
+      { sourceText: 'Santa Ceia', translations: { en: "Lord's Supper" } },
+      { sourceText: 'Pastor', translations: { en: 'Minister' } },
+      { sourceText: 'Pastor João', translations: { en: 'Pastor John' }, priority: -1 }
+    ]);
+
+    const masked = maskTerminology('Pastor João serve a Santa Ceia', terms, 'en-US');
+
+    assert.equal(masked.maskedText, '[[T1]] João serve a [[T0]]');
+    assert.deepEqual(masked.replacements, ["Lord's Supper", 'Minister']);
+  });
+
+  it('matches whole words only, in any script and ignoring case', () => {
+    const terms = compileGlossary([
+      { sourceText: 'fé', translations: { en: 'faith' } },
+      { sourceText: 'Святой Дух', translations: { en: 'Holy Spirit' } }
+    ]);
+
+    assert.equal(maskTerminology('Fé e café', terms, 'en').maskedText, '[[T0]] e café');
+    assert.equal(maskTerminology('fées', terms, 'en').maskedText, 'fées');
+    assert.equal(maskTerminology('святой  дух сошёл', terms, 'en').maskedText, '[[T0]] сошёл');
+  });
+
+  it('skips terms with no translation for the target language', () => {
+    const terms = compileGlossary([{ sourceText: 'Aleluia', translations: { es: 'Aleluya' } }]);
+
+    const masked = maskTerminology('Aleluia!', terms, 'fr');
+
+    assert.equal(masked.maskedText, 'Aleluia!');
+    assert.deepEqual(masked.replacements, []);
+  });
+
+  it('restores placeholders that Translate spaced out or lowercased', () => {
+    const restored = restoreTerminology('[[ T0 ]] and the [[t1]]', ['Pastor John', "Lord's Supper"]);
+
+    assert.deepEqual(restored, { text: "Pastor John and the Lord's Supper", lostTerms: 0 });
+  });
+
+  it('counts placeholders that Translate dropped', () => {
+    const restored = restoreTerminology('The [[T1]] is served', ['Pastor John', "Lord's Supper"]);
+
+    assert.deepEqual(restored, { text: "The Lord's Supper is served", lostTerms: 1 });
+  });
+});
+
+describe('TranslationService glossary', () => {
+  afterEach(() => mock.restoreAll());
+
+  function createService(translatedText: string): { service: TranslationService; sent: string[] } {
+    const service = new TranslationService({
+      region: 'us-east-1',
+      identityPoolId: 'us-east-1:test',
+      userPoolId: 'us-east-1_test',
+      jwtToken: 'token',
+      sourceLanguage: 'pt-BR',
+      targetLanguages: ['en-US']
+    });
+    const sent: string[] = [];
+    mock.method((service as any).client, 'send', async (command: any) => {
+      sent.push(command.input.Text);
+      return { TranslatedText: translatedText };
+    });
+    mock.method(console, 'log', () => {});
+    service.setTerminology([{
+      entryId: 'entry-1',
+      sourceLanguage: 'pt',
+      sourceText: 'Santa Ceia',
+      translations: { en: "Lord's Supper" }
+    }]);
+    return { service, sent };
+  }
+
+  it('sends masked text and puts the glossary translation back', async () => {
+    const { service, sent } = createService('We celebrate the [[ T0 ]] today');
+
+    const [result] = await service.translateText('Hoje celebramos a Santa Ceia');
+
+    assert.deepEqual(sent, ['Hoje celebramos a [[T0]]']);
+    assert.equal(result.text, "We celebrate the Lord's Supper today");
+    assert.equal(result.glossaryTermsApplied, 1);
+  });
+
+  it('warns when Translate drops a placeholder', async () => {
+    const { service } = createService('We celebrate today');
+    const warn = mock.method(console, 'warn', () => {});
+
+    const [result] = await service.translateText('Hoje celebramos a Santa Ceia');
+
+    assert.equal(result.text, 'We celebrate today');
+    assert.equal(warn.mock.callCount(), 1);
+    assert.match(warn.mock.calls[0].arguments[0], /1 term\(s\) lost during en-US translation/);
+  });
+});
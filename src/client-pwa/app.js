@@ -334,15 +334,13 @@ class LocalTTSService {
       // Clear existing voices
       this.availableVoices.clear();
       
-      // Group voices by language
+      // Group voices by language; any language the server sends can use them
       voices.forEach(voice => {
-        const lang = voice.lang.substring(0, 2).toLowerCase();
-        if (['en', 'es', 'fr', 'de', 'it'].includes(lang)) {
-          if (!this.availableVoices.has(lang)) {
-            this.availableVoices.set(lang, []);
-          }
-          this.availableVoices.get(lang).push(voice);
+        const lang = voice.lang.split(/[-_]/)[0].toLowerCase();
+        if (!this.availableVoices.has(lang)) {
+          this.availableVoices.set(lang, []);
         }
+        this.availableVoices.get(lang).push(voice);
       });
       
       // Sort voices by quality (prefer local, then network)
@@ -491,6 +489,7 @@ class ServiceTranslateClient {
   constructor() {
     this.socket = null;
     this.currentSession = null;
+    this.sessionTTS = null;  // TTS mode, audio quality and voices from the session metadata
     this.isConnected = false;
     this.offlineMode = false;
     this.reconnectionTimer = null;
@@ -509,6 +508,21 @@ class ServiceTranslateClient {
     this.isProcessingMessages = false;
     this.domUpdateQueue = [];
     this.isUpdatingDOM = false;
+
+    // Delivery tracking: the last translation sequence seen, so a reconnect only replays what was missed
+    this.lastSequence = null;
+    this.sequenceSessionId = null;
+    this.sequenceEpoch = null;
+    this.ackTimer = null;
+
+    // Lines whose audio follows as 'translation-audio' parts, keyed by segmentId:language.
+    // A line whose parts stop arriving is shown as text-only after pendingAudioTimeoutMs.
+    this.pendingAudio = new Map();
+    this.pendingAudioTimeoutMs = 60000;
+    this.audioPartPlayback = Promise.resolve();
+
+    // Language registry from the server (GET /languages), keyed by code
+    this.languages = new Map();
     
     // Initialize app when DOM is ready
     if (document.readyState === 'loading') {
@@ -535,6 +549,15 @@ class ServiceTranslateClient {
     
     // Start connection health monitoring
     this.startConnectionHealthMonitoring();
+
+    // Language names and text direction come from the server's registry
+    this.loadLanguages();
+
+    // Show scheduled services on the join screen
+    this.loadUpcomingSessions();
+
+    // Join straight away when opened from a QR code or short link
+    this.applyJoinLink();
     
     console.log('Service Translate Client initialized');
   }
@@ -572,6 +595,7 @@ class ServiceTranslateClient {
       joinForm: document.getElementById('join-form'),
       sessionIdInput: document.getElementById('session-id'),
       joinStatus: document.getElementById('join-status'),
+      upcomingSessions: document.getElementById('upcoming-sessions'),
       
       // Session info
       currentSessionId: document.getElementById('current-session-id'),
@@ -628,8 +652,8 @@ class ServiceTranslateClient {
         // Update TTS capability display for new language
         const existingInfo = document.querySelector('.tts-capability-info');
         if (existingInfo) {
-          // Get current TTS mode from the existing display or default
-          this.updateTTSCapabilityDisplay('local', 'medium');
+          // Keep the session's TTS mode when one is known
+          this.updateTTSCapabilityDisplay(this.sessionTTS?.ttsMode || 'local', this.sessionTTS?.audioQuality || 'medium');
         }
       } else {
         this.showLanguageSelectionPrompt();
@@ -835,13 +859,18 @@ class ServiceTranslateClient {
     
     // Reset UI state
     this.currentSession = null;
+    this.sessionTTS = null;
     this.isConnected = false;
+    this.resetSequenceTracking();
+    this.settlePendingAudio();
+    this.audioPartPlayback = Promise.resolve();
     this.elements.leaveBtn.style.display = 'none';
     this.elements.sessionIdInput.value = '';
     this.elements.languageSelect.innerHTML = '<option value="">Select Language...</option>';
     this.showStatus('', '');
     this.showScreen('join');
     this.updateConnectionStatus(false);
+    this.loadUpcomingSessions();
     
     // Clear translation display
     const welcomeMessage = '<div class="welcome-message"><p>Welcome! Select your language and wait for translations to begin.</p></div>';
@@ -854,6 +883,9 @@ class ServiceTranslateClient {
   changeLanguage(language) {
     if (!language) return;
     
+    // Audio parts are only sent for the chosen language
+    this.settlePendingAudio(pending => pending.language !== language);
+
     this.settings.preferredLanguage = language;
     this.saveSettings();
     
@@ -1329,6 +1361,144 @@ class ServiceTranslateClient {
     });
   }
 
+  /**
+   * Open the session of a scanned join link (?session=CHURCH-2025-001&lang=es)
+   */
+  applyJoinLink() {
+    const params = new URLSearchParams(window.location.search);
+    const sessionId = (params.get('session') || '').trim().toUpperCase();
+    if (!sessionId || !this.validateSessionId(sessionId)) return;
+
+    const language = params.get('lang');
+    if (language && /^[a-z]{2}$/.test(language)) {
+      this.settings.preferredLanguage = language;
+      this.saveSettings();
+    }
+
+    // Drop the parameters so reloading after leaving does not join again
+    window.history.replaceState(null, '', window.location.pathname);
+
+    this.elements.sessionIdInput.value = sessionId;
+    this.joinSession();
+  }
+
+  /**
+   * Load the language registry from the server. The last list received is kept so
+   * names still show offline; codes the client has never seen are shown as-is.
+   */
+  async loadLanguages() {
+    try {
+      const saved = localStorage.getItem('st-languages');
+      if (saved) {
+        this.setLanguages(JSON.parse(saved));
+      }
+    } catch (error) {
+      console.warn('Failed to load saved language list:', error);
+    }
+
+    const baseUrls = this.getServerUrls().filter(url => url.startsWith('http')).slice(0, 2);
+    for (const baseUrl of baseUrls) {
+      try {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), 3000);
+        const response = await fetch(`${baseUrl}/languages`, { signal: controller.signal });
+        clearTimeout(timeout);
+        if (response.ok) {
+          const { languages } = await response.json();
+          if (Array.isArray(languages)) {
+            this.setLanguages(languages);
+            localStorage.setItem('st-languages', JSON.stringify(languages));
+          }
+          return;
+        }
+      } catch (error) {
+        console.log(`Language list not available from ${baseUrl}`);
+      }
+    }
+  }
+
+  setLanguages(languages) {
+    this.languages = new Map(languages.map(language => [language.code, language]));
+
+    // Relabel a language list shown before the registry arrived
+    Array.from(this.elements.languageSelect?.options || []).forEach(option => {
+      if (option.value) {
+        option.textContent = this.getLanguageName(option.value);
+      }
+    });
+  }
+
+  /**
+   * List scheduled services on the join screen; tapping one fills in its session ID.
+   * Stays hidden when no server answers or nothing is scheduled.
+   */
+  async loadUpcomingSessions() {
+    const container = this.elements.upcomingSessions;
+    if (!container) return;
+
+    // Only the likeliest servers: probing every fallback address would delay the join screen
+    const baseUrls = this.getServerUrls().filter(url => url.startsWith('http')).slice(0, 2);
+    let sessions = null;
+
+    for (const baseUrl of baseUrls) {
+      try {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), 3000);
+        const response = await fetch(`${baseUrl}/sessions/upcoming?days=7`, { signal: controller.signal });
+        clearTimeout(timeout);
+        if (response.ok) {
+          sessions = (await response.json()).sessions;
+          break;
+        }
+      } catch (error) {
+        console.log(`Upcoming sessions not available from ${baseUrl}`);
+      }
+    }
+
+    container.innerHTML = '';
+    if (!Array.isArray(sessions) || sessions.length === 0) {
+      container.hidden = true;
+      return;
+    }
+
+    const heading = document.createElement('h3');
+    heading.textContent = 'Upcoming sessions';
+    container.appendChild(heading);
+
+    sessions.slice(0, 5).forEach(session => {
+      const item = document.createElement('button');
+      item.type = 'button';
+      item.className = 'upcoming-session' + (session.live ? ' live' : '');
+
+      const name = document.createElement('span');
+      name.className = 'upcoming-name';
+      name.textContent = session.name;
+
+      const when = document.createElement('span');
+      when.className = 'upcoming-time';
+      when.textContent = session.live
+        ? '🔴 Live now'
+        : new Date(session.startsAt).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+      const details = document.createElement('span');
+      details.className = 'upcoming-details';
+      details.textContent = `${session.sessionId} · ${session.languages.map(lang => lang.toUpperCase()).join(', ')}`;
+
+      item.append(name, when, details);
+      item.addEventListener('click', () => {
+        this.elements.sessionIdInput.value = session.sessionId;
+        if (session.live) {
+          this.joinSession();
+        } else {
+          this.showStatus(`${session.name} starts ${when.textContent}. You can join once it has started.`, 'info');
+        }
+      });
+      container.appendChild(item);
+    });
+
+    container.hidden = false;
+  }
+
   getServerUrls() {
     const urls = [];
     
@@ -1378,6 +1548,9 @@ class ServiceTranslateClient {
     this.socket.on('disconnect', (reason) => {
       console.log('WebSocket disconnected:', reason);
       this.updateConnectionStatus(false);
+
+      // Parts sent while disconnected are lost, and a replay only resends the text
+      this.settlePendingAudio();
       
       if (this.currentSession && this.settings.autoReconnect) {
         // Use enhanced reconnection with backoff
@@ -1402,9 +1575,15 @@ class ServiceTranslateClient {
 
     this.socket.on('translation', (data) => {
       console.log('Received translation:', data);
+      this.trackSequence(data.sessionId, data.epoch, data.sequence);
       this.displayTranslation(data);
     });
 
+    this.socket.on('translation-audio', (data) => {
+      console.log('Received translation audio part:', data);
+      this.handleTranslationAudioPart(data);
+    });
+
     this.socket.on('config-update', (data) => {
       console.log('Received config update:', data);
       this.handleConfigUpdate(data);
@@ -1448,6 +1627,28 @@ class ServiceTranslateClient {
       console.log('Language removed from session:', data);
       this.handleLanguageRemoved(data);
     });
+
+    this.socket.on('source-language-changed', (data) => {
+      console.log('Source language changed:', data);
+      this.handleSourceLanguageChanged(data);
+    });
+
+    this.socket.on('translation-correction', (data) => {
+      console.log('Received translation correction:', data);
+      this.handleTranslationCorrection(data);
+    });
+
+    this.socket.on('translation-history', (data) => {
+      console.log(`Received ${data.entries ? data.entries.length : 0} recent translations (${data.reason})`);
+      // The server's count is authoritative; it starts again from 0, in a new epoch, after a server restart
+      this.trackSequence(data.sessionId, data.epoch, data.currentSequence, true);
+      this.handleTranslationHistory(data);
+    });
+
+    this.socket.on('session-mode-changed', (data) => {
+      console.log('Session mode changed:', data);
+      this.handleSessionModeChanged(data);
+    });
   }
 
   /**
@@ -1629,6 +1830,12 @@ class ServiceTranslateClient {
       audioCapabilities: audioCapabilities
     };
 
+    // Rejoining the same session: ask only for the lines missed while disconnected
+    if (this.sequenceSessionId === sessionId && this.lastSequence !== null) {
+      message.lastSequence = this.lastSequence;
+      message.epoch = this.sequenceEpoch;
+    }
+
     return new Promise((resolve, reject) => {
       // Set up one-time listeners for response
       const timeout = setTimeout(() => {
@@ -1766,6 +1973,7 @@ class ServiceTranslateClient {
     // Update TTS availability info
     const ttsMode = metadata.config?.ttsMode || 'disabled';
     const audioQuality = metadata.audioQuality || metadata.config?.audioQuality || 'medium';
+    this.sessionTTS = { ttsMode, audioQuality, voices: metadata.voices || {} };
     
     // Show TTS capability info
     this.updateTTSCapabilityDisplay(ttsMode, audioQuality);
@@ -1808,9 +2016,16 @@ class ServiceTranslateClient {
       localStatus = '📱 Local Audio: Select language to check';
     }
     
+    // Server voice for the selected language, when the session uses Polly
+    const voiceName = selectedLanguage && (ttsMode === 'neural' || ttsMode === 'standard')
+      ? this.sessionTTS?.voices?.[selectedLanguage]
+      : null;
+    const voiceStatus = voiceName ? `<div class="tts-voice-status">🎙️ Voice: ${this.escapeHtml(voiceName)}</div>` : '';
+    
     info.innerHTML = `
       <div class="tts-info-content">
         <div class="tts-cloud-status">${cloudStatus}</div>
+        ${voiceStatus}
         <div class="tts-local-status">${localStatus}</div>
       </div>
     `;
@@ -1863,6 +2078,193 @@ class ServiceTranslateClient {
     }
   }
 
+  handleSourceLanguageChanged(data) {
+    const currentLanguage = this.elements.languageSelect.value;
+    const speakerLanguage = this.getLanguageName(data.sourceLanguage);
+
+    // Listeners of the spoken language now get the original text untranslated
+    let message = `The speaker switched to ${speakerLanguage}.`;
+    if (currentLanguage === data.sourceLanguage) {
+      message = `The speaker is now speaking ${speakerLanguage}. You will see the original text.`;
+    } else if (currentLanguage) {
+      message += ` Translations continue in ${this.getLanguageName(currentLanguage)}.`;
+    }
+
+    this.showSourceLanguageNotification(message);
+  }
+
+  handleSessionModeChanged(data) {
+    // Prepared content arrives over the same translation event; only the notice differs
+    const message = data.mode === 'scripted'
+      ? 'Prepared content (announcements, readings, lyrics) is being shown.'
+      : 'Live translation of the speaker has resumed.';
+    this.showSourceLanguageNotification(message, data.mode === 'scripted' ? '📜' : '🗣️');
+  }
+
+  /**
+   * Remember the newest delivered sequence and acknowledge it to the server (at most every 2 seconds)
+   */
+  trackSequence(sessionId, epoch, sequence, authoritative = false) {
+    if (!sessionId || typeof epoch !== 'string' || !Number.isInteger(sequence)) return;
+
+    // Sequences of another numbering (server restart, reused session ID) cannot be compared
+    if (this.sequenceSessionId !== sessionId || this.sequenceEpoch !== epoch) {
+      this.resetSequenceTracking();
+      this.sequenceSessionId = sessionId;
+      this.sequenceEpoch = epoch;
+    }
+
+    if (authoritative || this.lastSequence === null || sequence > this.lastSequence) {
+      this.lastSequence = sequence;
+    }
+
+    if (this.ackTimer) return;
+    this.ackTimer = setTimeout(() => {
+      this.ackTimer = null;
+      if (this.socket && this.socket.connected && this.lastSequence !== null) {
+        this.socket.emit('translation-ack', {
+          type: 'translation-ack',
+          sessionId: this.sequenceSessionId,
+          sequence: this.lastSequence
+        });
+      }
+    }, 2000);
+  }
+
+  resetSequenceTracking() {
+    if (this.ackTimer) {
+      clearTimeout(this.ackTimer);
+      this.ackTimer = null;
+    }
+    this.lastSequence = null;
+    this.sequenceSessionId = null;
+    this.sequenceEpoch = null;
+  }
+
+  /**
+   * Fill in what was said before joining (or while disconnected, or in the newly chosen language).
+   * Lines already on screen are kept; history lines are slotted in by time and not played aloud.
+   */
+  handleTranslationHistory(data) {
+    if (!data || !Array.isArray(data.entries)) return;
+    if (data.language !== this.elements.languageSelect.value) return;
+
+    if (data.reason === 'replay' && data.complete === false) {
+      this.showStatus('Some lines from while you were disconnected are no longer available.', 'warning');
+    }
+
+    const display = this.elements.translationDisplay;
+    const shown = new Set();
+    display.querySelectorAll('.translation-item').forEach(item => {
+      if (item.getAttribute('data-language') !== data.language) {
+        item.remove();
+      } else if (item.hasAttribute('data-segment-id')) {
+        shown.add(item.getAttribute('data-segment-id'));
+      }
+    });
+
+    const entries = data.entries.filter(entry => !shown.has(entry.segmentId));
+    if (entries.length === 0) return;
+
+    const welcomeMessage = display.querySelector('.welcome-message');
+    if (welcomeMessage) {
+      welcomeMessage.remove();
+    }
+
+    // The display is newest first: each entry goes before the first older line
+    entries.forEach(entry => {
+      const item = this.createTranslationElement(entry);
+      item.classList.add('history');
+      const older = Array.from(display.querySelectorAll('.translation-item'))
+        .find(existing => Number(existing.getAttribute('data-timestamp')) < entry.timestamp);
+      display.insertBefore(item, older || null);
+    });
+
+    const items = display.querySelectorAll('.translation-item');
+    for (let i = 20; i < items.length; i++) {
+      items[i].remove();
+    }
+  }
+
+  /**
+   * Replace a previously displayed line in place after the admin corrected it
+   */
+  handleTranslationCorrection(data) {
+    if (!data || !data.segmentId) return;
+
+    this.updateCachedTranslation(data);
+
+    if (data.language !== this.elements.languageSelect.value) {
+      return;
+    }
+
+    const item = this.elements.translationDisplay.querySelector(
+      `.translation-item[data-segment-id="${CSS.escape(data.segmentId)}"]`
+    );
+    if (!item) return;
+
+    item.classList.add('corrected');
+    item.querySelector('.translation-text').textContent = data.text;
+
+    const metaElement = item.querySelector('.translation-meta');
+    if (!metaElement.querySelector('.correction-indicator')) {
+      const indicator = document.createElement('span');
+      indicator.className = 'correction-indicator';
+      indicator.textContent = '✏️ Corrected';
+      metaElement.appendChild(indicator);
+    }
+
+    // The earlier clip no longer matches the text
+    const audioElement = metaElement.querySelector('.audio-status');
+    if (data.audioUrl) {
+      audioElement.innerHTML = '<span class="icon">🔊</span> Cloud Audio';
+    } else if (data.audioStale) {
+      audioElement.innerHTML = '<span class="icon">📝</span> Audio outdated';
+    }
+  }
+
+  updateCachedTranslation(correction) {
+    try {
+      const cached = this.getCachedTranslations();
+      let changed = false;
+      cached.forEach(translation => {
+        if (translation.segmentId === correction.segmentId && translation.language === correction.language) {
+          translation.text = correction.text;
+          translation.audioUrl = correction.audioUrl;
+          changed = true;
+        }
+      });
+      if (changed) {
+        localStorage.setItem('cachedTranslations', JSON.stringify(cached));
+      }
+    } catch (error) {
+      console.error('Failed to update cached translation:', error);
+    }
+  }
+
+  showSourceLanguageNotification(message, icon = '🗣️') {
+    const notification = document.createElement('div');
+    notification.className = 'language-notification info';
+    notification.innerHTML = `
+      <div class="notification-content">
+        <span class="icon">${icon}</span>
+        <span class="message"></span>
+        <button class="close-btn" onclick="this.parentElement.parentElement.remove()">×</button>
+      </div>
+    `;
+    notification.querySelector('.message').textContent = message;
+
+    const sessionInfo = document.querySelector('.session-info');
+    sessionInfo.insertAdjacentElement('afterend', notification);
+
+    // Auto-remove after 6 seconds
+    setTimeout(() => {
+      if (notification.parentElement) {
+        notification.remove();
+      }
+    }, 6000);
+  }
+
   showLanguageRemovedNotification(language) {
     const notification = document.createElement('div');
     notification.className = 'language-notification warning';
@@ -2000,14 +2402,12 @@ class ServiceTranslateClient {
   }
 
   getLanguageName(code) {
-    const names = {
-      'en': 'English',
-      'es': 'Español',
-      'fr': 'Français', 
-      'de': 'Deutsch',
-      'it': 'Italiano'
-    };
-    return names[code] || code.toUpperCase();
+    const language = this.languages.get(code);
+    return language ? language.nativeName : String(code || '').toUpperCase();
+  }
+
+  getLanguageDirection(code) {
+    return this.languages.get(code)?.direction || 'ltr';
   }
 
   async reconnectToSession() {
@@ -2268,7 +2668,7 @@ class ServiceTranslateClient {
         <span class="timestamp">${this.formatTime(timestamp)}</span>
         <span class="cached-indicator">📱 Cached</span>
       </div>
-      <div class="translation-text">${this.escapeHtml(translation.text)}</div>
+      <div class="translation-text" dir="${this.getLanguageDirection(translation.language || this.settings.preferredLanguage)}">${this.escapeHtml(translation.text)}</div>
       ${translation.useLocalTTS ? 
         '<button class="replay-tts-btn" onclick="app.replayLocalTTS(\'' + 
         translation.text.replace(/'/g, "\\'") + '\', \'' + 
@@ -2340,6 +2740,23 @@ class ServiceTranslateClient {
     
     // Add to display
     this.addTranslationToDisplay(translationItem);
+
+    // The server is still synthesizing; the audio follows in parts
+    if (translation.audioPending) {
+      const key = `${translation.segmentId}:${translation.language}`;
+      this.settlePendingAudio(pending => pending.key === key);
+      const pending = {
+        key,
+        language: translation.language,
+        element: translationItem,
+        audioTypes: new Set(),
+        timer: null
+      };
+      this.pendingAudio.set(key, pending);
+      this.expirePendingAudio(pending);
+      this.updateAudioStatus(translationItem, 'cloud', 'loading');
+      return;
+    }
     
     // Handle audio with fallback chain
     if (!this.settings.muted) {
@@ -2389,6 +2806,92 @@ class ServiceTranslateClient {
     }
   }
 
+  /**
+   * Play one audio part of a line shown earlier. Parts arrive in speaking order, so they are
+   * played in arrival order, one after another.
+   */
+  handleTranslationAudioPart(part) {
+    const key = `${part.segmentId}:${part.language}`;
+    const pending = this.pendingAudio.get(key);
+    if (!pending || part.language !== this.elements.languageSelect.value) {
+      return;
+    }
+
+    const isLastPart = part.partIndex === part.partCount - 1;
+    clearTimeout(pending.timer);
+    if (isLastPart) {
+      this.pendingAudio.delete(key);
+    } else {
+      this.expirePendingAudio(pending);
+    }
+
+    this.audioPartPlayback = this.audioPartPlayback
+      .then(() => this.playAudioPart(part, pending))
+      .then(() => {
+        if (isLastPart) {
+          this.updateAudioStatus(pending.element, this.getPendingAudioType(pending), 'completed');
+        }
+      })
+      .catch(error => console.error('Audio part playback failed:', error));
+  }
+
+  /**
+   * Give up on a line's remaining audio parts if the next one does not arrive in time
+   */
+  expirePendingAudio(pending) {
+    pending.timer = setTimeout(() => {
+      console.warn(`Audio parts for ${pending.key} stopped arriving; showing the line as text`);
+      this.settlePendingAudio(entry => entry === pending);
+    }, this.pendingAudioTimeoutMs);
+  }
+
+  /**
+   * Stop waiting for the audio parts of pending lines (all of them, or those matching the filter).
+   * Lines keep the audio already played; lines with none are marked text-only.
+   */
+  settlePendingAudio(filter = () => true) {
+    for (const [key, pending] of this.pendingAudio) {
+      if (!filter(pending)) continue;
+
+      clearTimeout(pending.timer);
+      this.pendingAudio.delete(key);
+      this.updateAudioStatus(pending.element, this.getPendingAudioType(pending), 'completed');
+    }
+  }
+
+  getPendingAudioType(pending) {
+    return pending.audioTypes.has('cloud') ? 'cloud'
+      : pending.audioTypes.has('local') ? 'local' : 'text';
+  }
+
+  /**
+   * Cloud audio when the server produced it, otherwise local TTS for the part's text
+   */
+  async playAudioPart(part, pending) {
+    if (this.settings.muted) {
+      pending.audioTypes.add(part.audioUrl ? 'cloud' : 'text');
+      return;
+    }
+
+    if (part.audioUrl) {
+      try {
+        await this.playAudio(part.audioUrl);
+        pending.audioTypes.add('cloud');
+        return;
+      } catch (cloudError) {
+        console.warn('Cloud audio part failed, trying fallback:', cloudError);
+      }
+    }
+
+    if (this.localTTS.isLanguageSupported(part.language)) {
+      await this.speakWithLocalTTS(part.text, part.language);
+      pending.audioTypes.add('local');
+      return;
+    }
+
+    pending.audioTypes.add('text');
+  }
+
   updateAudioStatus(translationElement, audioType, status) {
     const audioElement = translationElement.querySelector('.audio-status');
     if (!audioElement) return;
@@ -2442,13 +2945,38 @@ class ServiceTranslateClient {
     const item = document.createElement('div');
     item.className = 'translation-item';
     item.setAttribute('data-timestamp', translation.timestamp);
+    item.setAttribute('data-language', translation.language);
+    if (translation.segmentId) {
+      item.setAttribute('data-segment-id', translation.segmentId);
+    }
+    
+    // Speaker label (diarization), styled per speaker
+    if (translation.speaker && translation.speaker.name) {
+      const speakerIndex = parseInt(translation.speaker.id, 10);
+      item.classList.add(`speaker-${isNaN(speakerIndex) ? 0 : speakerIndex % 4}`);
+      item.setAttribute('data-speaker', translation.speaker.id);
+      
+      const speakerElement = document.createElement('div');
+      speakerElement.className = 'translation-speaker';
+      speakerElement.textContent = translation.speaker.name;
+      item.appendChild(speakerElement);
+    }
     
     // Translation text
     const textElement = document.createElement('div');
     textElement.className = 'translation-text';
     textElement.textContent = translation.text;
+    if (translation.language) {
+      textElement.lang = translation.language;
+      textElement.dir = this.getLanguageDirection(translation.language);
+    }
     item.appendChild(textElement);
     
+    // Quoted scripture, shown with the canonical verse text
+    if (Array.isArray(translation.scripture)) {
+      translation.scripture.forEach(passage => item.appendChild(this.createScriptureElement(passage)));
+    }
+    
     // Metadata
     const metaElement = document.createElement('div');
     metaElement.className = 'translation-meta';
@@ -2477,6 +3005,34 @@ class ServiceTranslateClient {
     return item;
   }
 
+  createScriptureElement(passage) {
+    const block = document.createElement('blockquote');
+    block.className = 'translation-scripture';
+    
+    const reference = document.createElement('div');
+    reference.className = 'scripture-reference';
+    reference.textContent = `📖 ${passage.reference} (${passage.translation})`;
+    block.appendChild(reference);
+    
+    passage.verses.forEach(verse => {
+      const verseElement = document.createElement('p');
+      verseElement.className = 'scripture-verse';
+      const number = document.createElement('sup');
+      number.textContent = verse.number;
+      verseElement.append(number, ' ', verse.text);
+      block.appendChild(verseElement);
+    });
+    
+    if (passage.truncated) {
+      const more = document.createElement('p');
+      more.className = 'scripture-verse';
+      more.textContent = '…';
+      block.appendChild(more);
+    }
+    
+    return block;
+  }
+
   addTranslationToDisplay(translationItem) {
     const display = this.elements.translationDisplay;
     
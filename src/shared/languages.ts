@@ -0,0 +1,81 @@
+// Language registry for Service Translate
+// The data lives in languages.json so the capture app and the PWA (through GET /languages)
+// read the same list; adding a language is a new entry there.
+
+import registry from './languages.json';
+
+export type LanguageCode = string;  // Short code used in sessions and messages, e.g. 'pt'
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface PollyVoices {
+  languageCode: string;  // Polly language code, e.g. 'pt-BR' or 'cmn-CN'
+  neural?: string;       // Default neural voice, absent when Polly has none for the language
+  standard?: string;     // Default standard voice
+}
+
+export interface LanguageDefinition {
+  code: LanguageCode;
+  name: string;              // English name, for operators
+  nativeName: string;        // Name in the language itself, for congregants
+  flag: string;
+  direction: TextDirection;
+  locale: string;            // Regional code the capture app uses for TTS, e.g. 'pt-BR'
+  translateCode: string;     // Amazon Translate language code
+  espeakVoice?: string;      // espeak-ng voice for the server's local TTS engine
+  transcribeCode?: string;   // Amazon Transcribe streaming code; absent when it cannot be spoken into the capture app
+  polly?: PollyVoices;       // Absent when Polly has no voice; clients fall back to their own TTS or text
+  joinInstruction: string;   // "Scan to follow in <language>", written in the language
+  voicePreview: string;      // Sample phrase admins hear when previewing a voice
+}
+
+export const LANGUAGES: readonly LanguageDefinition[] = registry.languages as LanguageDefinition[];
+
+/**
+ * Look up a language by short code ('pt') or by any regional code the registry
+ * knows for it ('pt-BR', 'es-US'). Unknown regional codes fall back to their prefix.
+ */
+export function getLanguage(code: string): LanguageDefinition | undefined {
+  if (typeof code !== 'string' || !code) {
+    return undefined;
+  }
+
+  const normalized = code.toLowerCase();
+  return LANGUAGES.find(language => language.code === normalized)
+    || LANGUAGES.find(language =>
+      language.locale.toLowerCase() === normalized ||
+      language.transcribeCode?.toLowerCase() === normalized ||
+      language.polly?.languageCode.toLowerCase() === normalized)
+    || LANGUAGES.find(language => language.code === normalized.split('-')[0]);
+}
+
+/**
+ * Languages the capture app can transcribe, and so can be a session's source language
+ */
+export function getSourceLanguages(): LanguageDefinition[] {
+  return LANGUAGES.filter(language => !!language.transcribeCode);
+}
+
+/**
+ * Languages congregants can follow a session in
+ */
+export function getTargetLanguages(): LanguageDefinition[] {
+  return [...LANGUAGES];
+}
+
+/**
+ * Check for the short code of a registered source language
+ */
+export function isSourceLanguage(code: any): code is LanguageCode {
+  return typeof code === 'string' && getSourceLanguages().some(language => language.code === code);
+}
+
+/**
+ * Check for the short code of a registered target language
+ */
+export function isTargetLanguage(code: any): code is LanguageCode {
+  return typeof code === 'string' && getTargetLanguages().some(language => language.code === code);
+}
+
+export function getLanguageName(code: string): string {
+  return getLanguage(code)?.name || code.toUpperCase();
+}
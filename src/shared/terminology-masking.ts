@@ -0,0 +1,91 @@
+// Glossary masking for machine translation
+// Glossary terms are swapped for [[Tn]] placeholders before the text goes to Amazon Translate,
+// then replaced by their fixed translations. The capture app (live speech) and the websocket
+// server (scripted content) both use it, so a term is translated the same way in either path.
+
+export interface GlossaryEntry {
+  sourceText: string;
+  translations: Partial<Record<string, string>>;  // Keyed by short target language code
+  priority?: number;
+}
+
+export interface CompiledGlossaryTerm {
+  pattern: RegExp;
+  translations: Partial<Record<string, string>>;
+}
+
+export interface MaskedText {
+  maskedText: string;
+  replacements: string[];  // Glossary translation of each placeholder, by index
+}
+
+export interface RestoredText {
+  text: string;
+  lostTerms: number;       // Placeholders Translate dropped; their terms are missing from the text
+}
+
+// Translate sometimes adds spaces inside the brackets or changes the case of the T
+const PLACEHOLDER_PATTERN = /\[\[\s*T\s*(\d+)\s*\]\]/gi;
+
+/**
+ * Compile glossary entries of one source language for masking. Higher priority comes
+ * first, then longer terms so "Santa Ceia" wins over "Ceia". Terms match as whole
+ * words in any script, ignoring case.
+ */
+export function compileGlossary(entries: GlossaryEntry[]): CompiledGlossaryTerm[] {
+  return entries
+    .filter(entry => entry.sourceText.trim())
+    .sort((a, b) => (b.priority || 0) - (a.priority || 0) || b.sourceText.length - a.sourceText.length)
+    .map(entry => ({
+      pattern: new RegExp(
+        `(?<![\\p{L}\\p{N}])${escapeRegExp(entry.sourceText.trim())}(?![\\p{L}\\p{N}])`,
+        'giu'
+      ),
+      translations: entry.translations
+    }));
+}
+
+/**
+ * Swap glossary terms for placeholders that Amazon Translate leaves untouched.
+ * Only terms with a translation for the target language are masked.
+ */
+export function maskTerminology(text: string, terms: CompiledGlossaryTerm[], targetLanguage: string): MaskedText {
+  const targetKey = targetLanguage.split('-')[0];
+  const replacements: string[] = [];
+  let maskedText = text;
+
+  for (const term of terms) {
+    const translation = term.translations[targetKey];
+    if (!translation) continue;
+
+    maskedText = maskedText.replace(term.pattern, () => {
+      replacements.push(translation);
+      return `[[T${replacements.length - 1}]]`;
+    });
+  }
+
+  return { maskedText, replacements };
+}
+
+/**
+ * Put the glossary translations back in place of the placeholders
+ */
+export function restoreTerminology(translatedText: string, replacements: string[]): RestoredText {
+  if (replacements.length === 0) {
+    return { text: translatedText, lostTerms: 0 };
+  }
+
+  let restored = 0;
+  const text = translatedText.replace(PLACEHOLDER_PATTERN, (_match, index) => {
+    const replacement = replacements[parseInt(index, 10)];
+    if (replacement === undefined) return '';
+    restored++;
+    return replacement;
+  });
+
+  return { text, lostTerms: Math.max(0, replacements.length - restored) };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+}
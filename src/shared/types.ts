@@ -1,18 +1,27 @@
 // Shared TypeScript types for Service Translate
 // Based on API_SPECIFICATION-2025-10-01-FINAL.md and Admin Session Persistence Spec
 
+import { LanguageCode } from './languages';
+
 export type ConnectionType = 'admin' | 'client';
-export type SourceLanguage = 'pt' | 'en' | 'es' | 'fr' | 'de' | 'it';
-export type TargetLanguage = 'en' | 'fr' | 'es' | 'de' | 'it' | 'pt';
+// Supported codes come from the language registry (languages.json)
+export type SourceLanguage = LanguageCode;
+export type TargetLanguage = LanguageCode;
 export type AudioEncoding = 'pcm' | 'opus' | 'flac';
 export type SessionStatus = 'started' | 'active' | 'paused' | 'ending' | 'ended' | 'error';
+export type SessionMode = 'live' | 'scripted';  // Live ASR or operator-stepped prepared content
 export type MessageType = 'connection' | 'session' | 'session_membership' | 'audio_ack' | 
   'translation' | 'language' | 'terminology' | 'status' | 'warning' | 'error' | 'admin-auth' |
   'admin-auth-response' | 'start-session-response' | 'end-session-response' | 'list-sessions' |
   'list-sessions-response' | 'update-session-config' | 'update-session-config-response' |
   'session-status-update' | 'admin-reconnection' | 'admin-session-access' | 'admin-session-access-response' |
   'admin-error' | 'admin-status-update' | 'token-refresh' | 'token-refresh-response' |
-  'token-expiry-warning' | 'session-expired';
+  'token-expiry-warning' | 'session-expired' | 'add-terminology' | 'update-terminology' |
+  'update-terminology-response' | 'delete-terminology' | 'delete-terminology-response' |
+  'list-terminology' | 'list-terminology-response' | 'terminology-updated' | 'source-language-changed' |
+  'broadcast-translation-response' | 'correct-translation' | 'correct-translation-response' | 'translation-correction' |
+  'upload-script' | 'upload-script-response' | 'script-progress' | 'get-script' | 'get-script-response' |
+  'script-control' | 'script-control-response' | 'set-session-mode' | 'set-session-mode-response' | 'session-mode-changed';
 
 // Admin Authentication Types
 export interface AdminIdentity {
@@ -53,6 +62,8 @@ export interface SessionData {
   createdAt: Date;
   lastActivity: Date;
   status: SessionStatus;
+  detectedSourceLanguage?: SourceLanguage; // Language currently spoken, when the capture app detects it
+  mode?: SessionMode;                      // Defaults to 'live'
 }
 
 export interface SessionConfig {
@@ -63,6 +74,19 @@ export interface SessionConfig {
   audioQuality: 'high' | 'medium' | 'low';
   audioConfig: AudioConfig;
   sessionName?: string;
+  speech?: SpeechSettings;
+  voices?: Partial<Record<TargetLanguage, string>>;  // Polly voice ID per language; others use the registry default
+}
+
+// How server-generated speech is delivered. Rate is a percentage of the voice's normal
+// speed (100 = normal); pitch is a relative change in percent (0 = normal).
+export interface SpeechStyle {
+  rate?: number;   // 50-200
+  pitch?: number;  // -50 to +50; Polly neural voices ignore it
+}
+
+export interface SpeechSettings extends SpeechStyle {
+  languages?: Partial<Record<TargetLanguage, SpeechStyle>>;  // Per-language overrides of the session style
 }
 
 export interface AudioCapabilities {
@@ -81,6 +105,9 @@ export interface ClientData {
   joinedAt: Date;
   lastSeen: Date;
   audioCapabilities?: AudioCapabilities;
+  isDisplay?: boolean;  // Read-only caption overlay, not a congregant
+  lastAckSequence?: number;  // Last translation sequence the client confirmed
+  lastAckAt?: Date;
 }
 
 export interface SessionSummary {
@@ -225,6 +252,25 @@ export interface SetLanguageResponse {
 }
 
 // Translation
+export interface SpeakerLabel {
+  id: string;    // Diarization label from Transcribe ('0', '1', ...)
+  name: string;  // Display name assigned by the admin ("Pastor", "Guest")
+}
+
+/**
+ * Canonical text of a Bible passage quoted in a segment, from a locally installed translation
+ */
+export interface ScripturePassage {
+  reference: string;    // Formatted in the listener's language ('Juan 3:16')
+  book: string;         // USFM book code ('JHN')
+  chapter: number;
+  verseStart?: number;  // Absent for a whole chapter
+  verseEnd?: number;
+  translation: string;  // Bible translation abbreviation ('RVR1960')
+  verses: Array<{ number: number; text: string }>;
+  truncated?: boolean;  // Longer than the capture app's verse limit
+}
+
 export interface TranslationMessage {
   type: 'translation';
   sessionId: string;
@@ -240,6 +286,9 @@ export interface TranslationMessage {
     processingTime: number;
     translationMethod: string;
   };
+  speaker?: SpeakerLabel;
+  segmentId?: string;  // Stable ID assigned by the server; referenced by corrections
+  scripture?: ScripturePassage[];
 }
 
 // Status
@@ -269,6 +318,7 @@ export interface AddTerminologyRequest {
 
 export interface AddTerminologyResponse {
   type: 'terminology';
+  requestId?: string;
   status: 'added' | 'partial';
   entriesAdded: number;
   entriesRejected: number;
@@ -279,6 +329,489 @@ export interface AddTerminologyResponse {
   timestamp: string;
 }
 
+// Glossary entry as stored by the local server (one entry per source term)
+export interface StoredTerminologyEntry extends TerminologyEntry {
+  entryId: string;
+  sourceLanguage: SourceLanguage;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Local Terminology Messages (Admin App → Server)
+export interface AddTerminologyMessage {
+  type: 'add-terminology';
+  sourceLanguage: SourceLanguage;
+  entries: TerminologyEntry[];
+}
+
+export interface AddTerminologyResult extends AddTerminologyResponse {
+  sourceLanguage: SourceLanguage;
+  entries: StoredTerminologyEntry[];
+}
+
+export interface UpdateTerminologyMessage {
+  type: 'update-terminology';
+  entryId: string;
+  // Translations are merged per target; an empty string removes that pair
+  translations?: Partial<Record<TargetLanguage, string>>;
+  category?: string;
+  priority?: number;
+  context?: string;
+}
+
+export interface UpdateTerminologyResponse {
+  type: 'update-terminology-response';
+  requestId?: string;
+  success: boolean;
+  entry: StoredTerminologyEntry;
+  timestamp: string;
+}
+
+export interface DeleteTerminologyMessage {
+  type: 'delete-terminology';
+  entryId: string;
+  // When set, only the source→target pair is removed
+  targetLanguage?: TargetLanguage;
+}
+
+export interface DeleteTerminologyResponse {
+  type: 'delete-terminology-response';
+  requestId?: string;
+  success: boolean;
+  entryId: string;
+  targetLanguage?: TargetLanguage;
+  entryDeleted: boolean;
+  timestamp: string;
+}
+
+export interface ListTerminologyMessage {
+  type: 'list-terminology';
+  sourceLanguage?: SourceLanguage;
+  targetLanguage?: TargetLanguage;
+}
+
+export interface ListTerminologyResponse {
+  type: 'list-terminology-response';
+  requestId?: string;
+  entries: StoredTerminologyEntry[];
+  timestamp: string;
+}
+
+export interface TerminologyUpdatedNotification {
+  type: 'terminology-updated';
+  sourceLanguage: SourceLanguage;
+  action: 'added' | 'updated' | 'deleted';
+  entryIds: string[];
+  updatedBy: string;
+  timestamp: string;
+}
+
+// Pronunciation lexicon: how the server's TTS should say a word in one language.
+// An alias is spoken in place of the term; a phoneme gives its IPA pronunciation.
+export interface PronunciationEntry {
+  language: TargetLanguage;
+  term: string;
+  alias?: string;
+  phoneme?: string;
+}
+
+export interface StoredPronunciationEntry extends PronunciationEntry {
+  entryId: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Pronunciation Messages (Admin App → Server)
+export interface AddPronunciationsMessage {
+  type: 'add-pronunciations';
+  entries: PronunciationEntry[];
+}
+
+export interface AddPronunciationsResponse {
+  type: 'add-pronunciations-response';
+  requestId?: string;
+  status: 'added' | 'partial';
+  entries: StoredPronunciationEntry[];
+  rejectedEntries: Array<{
+    term: string;
+    reason: string;
+  }>;
+  timestamp: string;
+}
+
+export interface UpdatePronunciationMessage {
+  type: 'update-pronunciation';
+  entryId: string;
+  // Exactly one of alias or phoneme is kept; setting one clears the other
+  alias?: string;
+  phoneme?: string;
+}
+
+export interface UpdatePronunciationResponse {
+  type: 'update-pronunciation-response';
+  requestId?: string;
+  success: boolean;
+  entry: StoredPronunciationEntry;
+  timestamp: string;
+}
+
+export interface DeletePronunciationMessage {
+  type: 'delete-pronunciation';
+  entryId: string;
+}
+
+export interface DeletePronunciationResponse {
+  type: 'delete-pronunciation-response';
+  requestId?: string;
+  success: boolean;
+  entryId: string;
+  timestamp: string;
+}
+
+export interface ListPronunciationsMessage {
+  type: 'list-pronunciations';
+  language?: TargetLanguage;
+}
+
+export interface ListPronunciationsResponse {
+  type: 'list-pronunciations-response';
+  requestId?: string;
+  entries: StoredPronunciationEntry[];
+  timestamp: string;
+}
+
+export interface PronunciationsUpdatedNotification {
+  type: 'pronunciations-updated';
+  language: TargetLanguage;
+  action: 'added' | 'updated' | 'deleted';
+  entryIds: string[];
+  updatedBy: string;
+  timestamp: string;
+}
+
+// Voices an admin can choose per language (see list-voices)
+export interface VoiceOption {
+  voiceId: string;                         // Polly voice ID, also its display name
+  language: TargetLanguage;
+  languageCode: string;                    // Polly language code, e.g. 'pt-BR' or 'pt-PT'
+  gender: 'Female' | 'Male';
+  engines: Array<'neural' | 'standard'>;
+  isDefault: boolean;                      // Used when the session chooses no voice for the language
+}
+
+// Voice Messages (Admin App → Server)
+export interface ListVoicesMessage {
+  type: 'list-voices';
+  language?: TargetLanguage;
+}
+
+export interface ListVoicesResponse {
+  type: 'list-voices-response';
+  requestId?: string;
+  voices: VoiceOption[];
+  timestamp: string;
+}
+
+export interface PreviewVoiceMessage {
+  type: 'preview-voice';
+  language: TargetLanguage;
+  voiceId: string;
+  voiceType?: 'neural' | 'standard';
+  text?: string;        // Defaults to the language's sample phrase
+  sessionId?: string;   // Apply this session's speaking rate, pitch and pronunciations
+}
+
+export interface PreviewVoiceResponse {
+  type: 'preview-voice-response';
+  requestId?: string;
+  language: TargetLanguage;
+  voiceId: string;
+  voiceType: 'neural' | 'standard';
+  text: string;
+  audioData: string;    // Base64 audio, so the preview plays wherever the admin app runs
+  format: string;
+  timestamp: string;
+}
+
+// Broadcast segments: every broadcast translation gets a stable server-side ID
+export interface BroadcastSegment {
+  segmentId: string;
+  sessionId: string;
+  original: string;
+  sourceLanguage?: SourceLanguage;
+  translations: Partial<Record<TargetLanguage, string>>;
+  speaker?: SpeakerLabel;
+  timestamp: string;
+  correctedAt?: string;
+  correctedBy?: string;
+}
+
+// Sent back to the admin that broadcast a translation
+export interface BroadcastTranslationResponse {
+  type: 'broadcast-translation-response';
+  sessionId: string;
+  segmentId: string;
+  requestId?: string;  // Echoed from the broadcast so the sender can match the response
+  timestamp: string;
+}
+
+// Admin App → Server: fix a segment that was already broadcast
+export interface CorrectTranslationMessage {
+  type: 'correct-translation';
+  sessionId: string;
+  segmentId: string;
+  corrections: Partial<Record<TargetLanguage, string>>;
+  original?: string;
+}
+
+export interface CorrectTranslationResponse {
+  type: 'correct-translation-response';
+  requestId?: string;
+  success: boolean;
+  sessionId: string;
+  segmentId: string;
+  correctedLanguages: TargetLanguage[];
+  ttsRegenerated: TargetLanguage[];
+  timestamp: string;
+}
+
+// Server → Client: replace a line already shown
+export interface TranslationCorrectionMessage {
+  type: 'translation-correction';
+  sessionId: string;
+  segmentId: string;
+  language: TargetLanguage;
+  text: string;
+  previousText?: string;
+  audioUrl: string | null;
+  audioMetadata: any;
+  ttsAvailable: boolean;
+  audioStale: boolean;  // The old clip no longer matches the text and no new one was made
+  timestamp: string;
+}
+
+// Server → Client: a line as delivered over the 'translation' event, kept for late joiners
+export interface TranslationHistoryEntry {
+  sequence: number;  // Per-session delivery order; all languages of a segment share it
+  segmentId: string;
+  original: string;
+  text: string;
+  language: TargetLanguage;
+  sourceLanguage?: SourceLanguage;
+  speaker?: SpeakerLabel;
+  scripture?: ScripturePassage[];
+  timestamp: number;
+  audioUrl: string | null;
+  audioMetadata: any;
+  ttsAvailable: boolean;
+  audioPending?: boolean;               // Server audio follows in translation-audio messages
+  audioParts?: TranslationAudioPart[];  // Set once all parts are done; audioUrl is then the first part's
+}
+
+export interface TranslationAudioPart {
+  text: string;             // The sentence chunk this part speaks
+  audioUrl: string | null;  // null when the server produced no audio for it
+  audioMetadata: any;
+}
+
+// Server → Client: audio for a line that was sent with audioPending. Long lines are spoken
+// in sentence chunks, one message per chunk. Parts of a language are sent in speaking
+// order, across lines too, so clients can play them as they arrive.
+export interface TranslationAudioMessage extends TranslationAudioPart {
+  type: 'translation-audio';
+  sessionId: string;
+  sequence: number;
+  segmentId: string;
+  language: TargetLanguage;
+  partIndex: number;        // 0-based
+  partCount: number;
+  timestamp: string;
+}
+
+// Server → Client: recent lines in the client's language, sent on join, reconnect and language change.
+// A client rejoining with its last-seen sequence gets exactly the lines it missed ('replay').
+export interface TranslationHistoryMessage {
+  type: 'translation-history';
+  sessionId: string;
+  language: TargetLanguage;
+  reason: 'join' | 'language-change' | 'replay';
+  entries: TranslationHistoryEntry[];  // Oldest first
+  currentSequence: number;
+  epoch: string;       // Numbering the sequences belong to; changes when the server restarts
+  complete?: boolean;  // Replay only: false when part of the missed range was no longer retained
+  timestamp: string;
+}
+
+// Client → Server: the highest translation sequence shown
+export interface TranslationAckMessage {
+  type: 'translation-ack';
+  sessionId: string;
+  sequence: number;
+}
+
+export interface ClientLagInfo {
+  socketId: string;
+  language: TargetLanguage;
+  lastAckSequence: number | null;  // null until the client acknowledges anything
+  behind: number | null;           // Lines in the client's language it has not confirmed
+  lastAckAt: string | null;
+}
+
+// Server → Admin: how far each listener is behind, sent at most every few seconds while the session is active
+export interface ClientLagUpdate {
+  type: 'client-lag-update';
+  sessionId: string;
+  currentSequence: number;
+  clients: ClientLagInfo[];
+  timestamp: string;
+}
+
+// Session transcripts: every broadcast segment archived on the local server after the service
+export type TranscriptFormat = 'srt' | 'vtt' | 'txt' | 'json';
+
+export interface TranscriptSegment {
+  segmentId: string;
+  offsetMs: number;    // Milliseconds since the session started
+  original: string;
+  sourceLanguage?: SourceLanguage;
+  translations: Partial<Record<TargetLanguage, string>>;
+  speaker?: SpeakerLabel;
+  correctedAt?: string;
+}
+
+export interface TranscriptSummary {
+  archiveId: string;   // The session ID, suffixed with the start time once the ID is reused
+  sessionId: string;
+  adminId?: string;    // Owning admin; missing in archives written before ownership was recorded
+  startedAt: string;
+  endedAt?: string;
+  segmentCount: number;
+  languages: TargetLanguage[];
+}
+
+export interface SessionTranscript extends TranscriptSummary {
+  segments: TranscriptSegment[];
+}
+
+// Scripted content (announcements, responsive readings, lyrics prepared before the service)
+export type ScriptSegmentKind = 'announcement' | 'reading' | 'lyrics' | 'sermon' | 'other';
+export type ScriptStatus = 'preparing' | 'ready' | 'failed';
+
+export interface ScriptSegment {
+  index: number;
+  kind: ScriptSegmentKind;
+  original: string;
+  translations: Partial<Record<TargetLanguage, string>>;
+  audioReady: TargetLanguage[];  // Languages with TTS already in the audio cache
+}
+
+export interface ScriptSummary {
+  scriptId: string;
+  sessionId: string;
+  title: string;
+  sourceLanguage: SourceLanguage;
+  languages: TargetLanguage[];
+  status: ScriptStatus;
+  position: number;  // Index of the last broadcast segment, -1 before the first
+  segmentCount: number;
+  translatedCount: number;
+  audioCount: number;
+  errors: string[];
+  createdBy: string;
+  createdAt: string;
+}
+
+// Admin → Server: upload a document; segments are separated by blank lines, or sent pre-split
+export interface UploadScriptMessage {
+  type: 'upload-script';
+  sessionId: string;
+  title: string;
+  sourceLanguage: SourceLanguage;
+  document?: string;
+  segments?: Array<{ text: string; kind?: ScriptSegmentKind }>;
+}
+
+export interface UploadScriptResponse {
+  type: 'upload-script-response';
+  requestId?: string;
+  success: boolean;
+  script: ScriptSummary;
+  segments: ScriptSegment[];
+  timestamp: string;
+}
+
+// Server → Admin: preparation progress while translating and generating audio
+export interface ScriptProgressNotification {
+  type: 'script-progress';
+  script: ScriptSummary;
+  timestamp: string;
+}
+
+export interface GetScriptMessage {
+  type: 'get-script';
+  sessionId: string;
+}
+
+export interface GetScriptResponse {
+  type: 'get-script-response';
+  requestId?: string;
+  sessionId: string;
+  script: ScriptSummary | null;
+  segments: ScriptSegment[];
+  timestamp: string;
+}
+
+export interface ScriptControlMessage {
+  type: 'script-control';
+  sessionId: string;
+  action: 'next' | 'previous' | 'goto' | 'repeat' | 'clear';
+  index?: number;  // Required for 'goto'
+}
+
+export interface ScriptControlResponse {
+  type: 'script-control-response';
+  requestId?: string;
+  success: boolean;
+  sessionId: string;
+  position: number;
+  segmentId?: string;  // Broadcast segment ID, usable with correct-translation
+  timestamp: string;
+}
+
+export interface SetSessionModeMessage {
+  type: 'set-session-mode';
+  sessionId: string;
+  mode: SessionMode;
+}
+
+export interface SetSessionModeResponse {
+  type: 'set-session-mode-response';
+  requestId?: string;
+  success: boolean;
+  sessionId: string;
+  mode: SessionMode;
+  timestamp: string;
+}
+
+// Server → Clients and admin
+export interface SessionModeChangedNotification {
+  type: 'session-mode-changed';
+  sessionId: string;
+  mode: SessionMode;
+  timestamp: string;
+}
+
+// Sent to clients and the session admin when the detected spoken language switches
+export interface SourceLanguageChangedNotification {
+  type: 'source-language-changed';
+  sessionId: string;
+  sourceLanguage: SourceLanguage;
+  previousSourceLanguage: SourceLanguage;
+  timestamp: string;
+}
+
 // Error
 export interface ErrorResponse {
   type: 'error';
@@ -334,10 +867,20 @@ export interface StartSessionResponseMessage {
   sessionId?: string;
   adminId?: string;
   config?: SessionConfig;
+  join?: SessionJoinInfo;  // Absent if the links could not be generated
   error?: string;
   timestamp: string;
 }
 
+// How congregants open a session from the local network
+export interface SessionJoinInfo {
+  joinUrl: string;      // PWA address with the session filled in
+  shortUrl: string;     // Short link on the websocket server that redirects to joinUrl
+  joinCardUrl: string;  // Printable card with a code per language
+  qrCodePng: string;    // data:image/png;base64 QR code of shortUrl
+  qrCodeSvg: string;    // SVG markup of the same code
+}
+
 export interface EndSessionMessage {
   type: 'end-session';
   sessionId: string;
@@ -388,6 +931,106 @@ export interface SessionStatusUpdate {
   isOwner: boolean;
 }
 
+// Scheduled Sessions
+export type ScheduleRecurrence = 'once' | 'weekly';
+
+export interface SessionScheduleInput {
+  sessionId: string;          // Reused by every occurrence so congregants can keep the same ID
+  name: string;
+  recurrence: ScheduleRecurrence;
+  daysOfWeek?: number[];      // weekly: 0 = Sunday … 6 = Saturday
+  date?: string;              // once: YYYY-MM-DD
+  startTime: string;          // HH:MM in the server's local time
+  durationMinutes: number;
+  config: SessionConfig;
+  enabled?: boolean;          // Defaults to true
+}
+
+export interface ScheduledOccurrence {
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface SessionSchedule extends SessionScheduleInput {
+  scheduleId: string;
+  enabled: boolean;
+  adminId: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  activeOccurrence?: ScheduledOccurrence;  // Set while the scheduler is running this schedule's session
+  lastOccurrenceStart?: string;            // Start of the last occurrence the scheduler started
+}
+
+export interface ScheduleSummary extends SessionSchedule {
+  isOwner: boolean;
+  nextOccurrence: ScheduledOccurrence | null;
+}
+
+// Public listing for congregants choosing a session
+export interface UpcomingSession {
+  scheduleId: string;
+  sessionId: string;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  sourceLanguage: SourceLanguage;
+  languages: TargetLanguage[];
+  live: boolean;
+}
+
+export interface CreateScheduleMessage {
+  type: 'create-schedule';
+  schedule: SessionScheduleInput;
+}
+
+export interface UpdateScheduleMessage {
+  type: 'update-schedule';
+  scheduleId: string;
+  changes: Partial<SessionScheduleInput>;
+}
+
+export interface DeleteScheduleMessage {
+  type: 'delete-schedule';
+  scheduleId: string;
+}
+
+export interface ListSchedulesMessage {
+  type: 'list-schedules';
+}
+
+export interface ScheduleResponse {
+  type: 'create-schedule-response' | 'update-schedule-response';
+  success: boolean;
+  schedule: ScheduleSummary;
+  timestamp: string;
+}
+
+export interface DeleteScheduleResponse {
+  type: 'delete-schedule-response';
+  success: boolean;
+  scheduleId: string;
+  timestamp: string;
+}
+
+export interface ListSchedulesResponse {
+  type: 'list-schedules-response';
+  schedules: ScheduleSummary[];
+  timestamp: string;
+}
+
+// Sent to the schedule owner's connections when the scheduler starts or ends a session
+export interface ScheduledSessionNotification {
+  type: 'scheduled-session';
+  event: 'started' | 'ended';
+  scheduleId: string;
+  sessionId: string;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  timestamp: string;
+}
+
 // Admin Management Messages
 export interface AdminReconnectionNotification {
   type: 'admin-reconnection';
@@ -469,6 +1112,7 @@ export interface AdminErrorMessage {
     adminId?: string;
     validationErrors?: string[];
   };
+  requestId?: string;         // Echoed from the request that failed
   timestamp: string;
 }
 
@@ -831,7 +1475,20 @@ export type AdminRequest =
   | ListSessionsMessage
   | UpdateSessionConfigMessage
   | AdminSessionAccessMessage
-  | TokenRefreshMessage;
+  | TokenRefreshMessage
+  | AddTerminologyMessage
+  | UpdateTerminologyMessage
+  | DeleteTerminologyMessage
+  | ListTerminologyMessage
+  | CorrectTranslationMessage
+  | UploadScriptMessage
+  | GetScriptMessage
+  | ScriptControlMessage
+  | SetSessionModeMessage
+  | CreateScheduleMessage
+  | UpdateScheduleMessage
+  | DeleteScheduleMessage
+  | ListSchedulesMessage;
 
 export type AdminResponse = 
   | AdminAuthResponse
@@ -846,6 +1503,25 @@ export type AdminResponse =
   | TokenRefreshResponse
   | TokenExpiryWarning
   | SessionExpiredNotification
+  | AddTerminologyResult
+  | UpdateTerminologyResponse
+  | DeleteTerminologyResponse
+  | ListTerminologyResponse
+  | TerminologyUpdatedNotification
+  | SourceLanguageChangedNotification
+  | BroadcastTranslationResponse
+  | CorrectTranslationResponse
+  | TranslationCorrectionMessage
+  | UploadScriptResponse
+  | ScriptProgressNotification
+  | GetScriptResponse
+  | ScriptControlResponse
+  | SetSessionModeResponse
+  | SessionModeChangedNotification
+  | ScheduleResponse
+  | DeleteScheduleResponse
+  | ListSchedulesResponse
+  | ScheduledSessionNotification
   | AdminErrorMessage;
 
 // Local WebSocket message unions
@@ -864,7 +1540,11 @@ export type LocalAdminMessage =
   | ListSessionsMessage
   | UpdateSessionConfigMessage
   | AdminSessionAccessMessage
-  | TokenRefreshMessage;
+  | TokenRefreshMessage
+  | AddTerminologyMessage
+  | UpdateTerminologyMessage
+  | DeleteTerminologyMessage
+  | ListTerminologyMessage;
 
 export type LocalServerMessage = 
   | LocalSessionMetadataMessage
@@ -67,16 +67,17 @@ export class AudioCacheManager {
   /**
    * Generate cache key for text and language combination
    */
-  generateCacheKey(text: string, language: TargetLanguage, voiceType: 'neural' | 'standard'): string {
+  generateCacheKey(text: string, language: TargetLanguage, voiceType: 'neural' | 'standard', variant: string = ''): string {
     const textHash = crypto.createHash('sha256').update(text).digest('hex').substring(0, 16);
-    return `${language}-${voiceType}-${textHash}`;
+    // The variant identifies speech settings (rate, pitch, pronunciations); plain speech has none
+    return variant ? `${language}-${voiceType}-${variant}-${textHash}` : `${language}-${voiceType}-${textHash}`;
   }
 
   /**
    * Check if audio is cached
    */
-  has(text: string, language: TargetLanguage, voiceType: 'neural' | 'standard'): boolean {
-    const key = this.generateCacheKey(text, language, voiceType);
+  has(text: string, language: TargetLanguage, voiceType: 'neural' | 'standard', variant: string = ''): boolean {
+    const key = this.generateCacheKey(text, language, voiceType, variant);
     const entry = this.cache.get(key);
     
     if (!entry) {
@@ -96,8 +97,8 @@ export class AudioCacheManager {
   /**
    * Get cached audio
    */
-  get(text: string, language: TargetLanguage, voiceType: 'neural' | 'standard'): CacheEntry | null {
-    const key = this.generateCacheKey(text, language, voiceType);
+  get(text: string, language: TargetLanguage, voiceType: 'neural' | 'standard', variant: string = ''): CacheEntry | null {
+    const key = this.generateCacheKey(text, language, voiceType, variant);
     const entry = this.cache.get(key);
     
     if (!entry) {
@@ -131,9 +132,10 @@ export class AudioCacheManager {
     audioBuffer: Buffer,
     format: string,
     voiceId: string,
-    duration: number
+    duration: number,
+    variant: string = ''
   ): void {
-    const key = this.generateCacheKey(text, language, voiceType);
+    const key = this.generateCacheKey(text, language, voiceType, variant);
     const textHash = crypto.createHash('sha256').update(text).digest('hex').substring(0, 8);
     
     const entry: CacheEntry = {
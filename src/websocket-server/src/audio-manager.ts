@@ -50,8 +50,9 @@ export class AudioManager {
   /**
    * Generate a unique ID for audio content
    */
-  private generateAudioId(text: string, language: TargetLanguage, voiceType: string): string {
-    const content = `${text}-${language}-${voiceType}`;
+  private generateAudioId(text: string, language: TargetLanguage, voiceType: string, variant: string = ''): string {
+    // The variant identifies speech settings (rate, pitch, pronunciations); plain speech has none
+    const content = variant ? `${text}-${language}-${voiceType}-${variant}` : `${text}-${language}-${voiceType}`;
     return createHash('md5').update(content).digest('hex');
   }
 
@@ -64,9 +65,10 @@ export class AudioManager {
     language: TargetLanguage,
     voiceType: 'neural' | 'standard' | 'local',
     format: string = 'mp3',
-    duration?: number
+    duration?: number,
+    variant: string = ''
   ): Promise<AudioFileInfo> {
-    const audioId = this.generateAudioId(text, language, voiceType);
+    const audioId = this.generateAudioId(text, language, voiceType, variant);
     const fileName = `${audioId}.${format}`;
     const filePath = join(this.audioDir, fileName);
     
@@ -107,8 +109,13 @@ export class AudioManager {
   /**
    * Get audio file info by content
    */
-  getAudioInfo(text: string, language: TargetLanguage, voiceType: 'neural' | 'standard' | 'local'): AudioFileInfo | null {
-    const audioId = this.generateAudioId(text, language, voiceType);
+  getAudioInfo(
+    text: string,
+    language: TargetLanguage,
+    voiceType: 'neural' | 'standard' | 'local',
+    variant: string = ''
+  ): AudioFileInfo | null {
+    const audioId = this.generateAudioId(text, language, voiceType, variant);
     const audioInfo = this.cacheIndex.get(audioId);
     
     if (audioInfo && existsSync(audioInfo.filePath)) {
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { TargetLanguage } from './types';
+import { getTargetLanguages } from '../../shared/languages';
 
 export interface AudioOptimizationConfig {
   enableCompression: boolean;
@@ -193,7 +194,7 @@ export class AudioOptimizer {
       reasoning: string;
     }> = [];
 
-    const languages: TargetLanguage[] = ['en', 'es', 'fr', 'de', 'it'];
+    const languages: TargetLanguage[] = getTargetLanguages().filter(language => language.polly).map(language => language.code);
 
     for (const language of languages) {
       const optimal = this.getOptimalVoice(language);
@@ -298,7 +299,7 @@ export class AudioOptimizer {
    * Initialize voice optimization profiles
    */
   private initializeVoiceProfiles(): void {
-    const languages: TargetLanguage[] = ['en', 'es', 'fr', 'de', 'it'];
+    const languages: TargetLanguage[] = getTargetLanguages().filter(language => language.polly).map(language => language.code);
     
     // AWS Polly pricing (per million characters)
     const standardCost = 4.00 / 1000000; // $4 per 1M chars
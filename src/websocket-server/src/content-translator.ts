@@ -0,0 +1,48 @@
+import { TranslateClient, TranslateTextCommand } from '@aws-sdk/client-translate';
+import { SourceLanguage, TargetLanguage } from '../../shared/types';
+import { getLanguage } from '../../shared/languages';
+import { compileGlossary, GlossaryEntry, maskTerminology, restoreTerminology } from '../../shared/terminology-masking';
+
+/**
+ * Server-side AWS Translate access for content that is known before the service
+ * (scripted segments). Live speech is still translated by the capture app; both
+ * apply the shared glossary the same way.
+ */
+export class ContentTranslator {
+  private translateClient: TranslateClient;
+
+  constructor(region: string = process.env.AWS_REGION || 'us-east-1') {
+    this.translateClient = new TranslateClient({ region });
+  }
+
+  /**
+   * Translate a text, keeping the glossary translations of its terms
+   */
+  async translate(
+    text: string,
+    sourceLanguage: SourceLanguage,
+    targetLanguage: TargetLanguage,
+    glossary: GlossaryEntry[] = []
+  ): Promise<string> {
+    if (sourceLanguage === targetLanguage) {
+      return text;
+    }
+
+    const { maskedText, replacements } = maskTerminology(text, compileGlossary(glossary), targetLanguage);
+    const response = await this.translateClient.send(new TranslateTextCommand({
+      Text: maskedText,
+      SourceLanguageCode: getLanguage(sourceLanguage)?.translateCode || sourceLanguage,
+      TargetLanguageCode: getLanguage(targetLanguage)?.translateCode || targetLanguage
+    }));
+
+    if (!response.TranslatedText) {
+      throw new Error(`Empty translation for ${sourceLanguage} -> ${targetLanguage}`);
+    }
+
+    const restored = restoreTerminology(response.TranslatedText, replacements);
+    if (restored.lostTerms > 0) {
+      console.warn(`Glossary: ${restored.lostTerms} term(s) lost during ${sourceLanguage} -> ${targetLanguage} translation`);
+    }
+    return restored.text;
+  }
+}
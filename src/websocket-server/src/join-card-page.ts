@@ -0,0 +1,159 @@
+import { TargetLanguage } from './types';
+import { getLanguage } from '../../shared/languages';
+
+export interface JoinCardLanguage {
+  language: TargetLanguage;
+  shortUrl: string;
+  qrCodeSvg: string;
+}
+
+export interface JoinCard {
+  sessionId: string;
+  title: string;
+  clientUrl: string;
+  shortUrl: string;
+  qrCodeSvg: string;
+  languages: JoinCardLanguage[];
+}
+
+/**
+ * Printable join card, served at /sessions/:sessionId/join-card. One code opens the
+ * session; one per language opens it with that language already selected.
+ */
+export function renderJoinCardPage(card: JoinCard): string {
+  // Each language's row is labelled in that language, for congregants who only read their own
+  const languageRows = card.languages.map(({ language, shortUrl, qrCodeSvg }) => {
+    const definition = getLanguage(language);
+    return `
+      <div class="language" lang="${language}" dir="${definition?.direction || 'ltr'}">
+        <div class="qr">${qrCodeSvg}</div>
+        <div>
+          <div class="language-name">${escapeHtml(definition?.nativeName || language.toUpperCase())}</div>
+          <div class="instruction">${escapeHtml(definition?.joinInstruction || '')}</div>
+          <div class="url">${escapeHtml(shortUrl)}</div>
+        </div>
+      </div>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Join ${escapeHtml(card.title)} - ${card.sessionId}</title>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      color: #222;
+      max-width: 760px;
+      margin: 24px auto;
+      padding: 0 16px;
+    }
+    h1 {
+      margin: 0 0 4px;
+      font-size: 28px;
+      text-align: center;
+    }
+    .subtitle {
+      text-align: center;
+      color: #555;
+      margin-bottom: 24px;
+    }
+    .main {
+      display: flex;
+      align-items: center;
+      gap: 24px;
+      padding: 16px;
+      border: 2px solid #222;
+      border-radius: 12px;
+      margin-bottom: 24px;
+    }
+    .main .qr {
+      width: 200px;
+      flex: 0 0 200px;
+    }
+    .session-id {
+      font-size: 26px;
+      font-weight: bold;
+      letter-spacing: 1px;
+      margin: 8px 0;
+    }
+    .languages {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 16px;
+    }
+    .language {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      padding: 12px;
+      border: 1px solid #bbb;
+      border-radius: 8px;
+      break-inside: avoid;
+    }
+    .language .qr {
+      width: 110px;
+      flex: 0 0 110px;
+    }
+    .language-name {
+      font-size: 20px;
+      font-weight: bold;
+    }
+    .instruction {
+      margin: 4px 0;
+    }
+    .url {
+      font-family: monospace;
+      font-size: 12px;
+      color: #555;
+      word-break: break-all;
+      direction: ltr;
+    }
+    .qr svg {
+      display: block;
+      width: 100%;
+      height: auto;
+    }
+    .print {
+      display: block;
+      margin: 24px auto 0;
+      padding: 10px 24px;
+      font-size: 16px;
+    }
+    @media print {
+      body { margin: 0; }
+      .print { display: none; }
+    }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(card.title)}</h1>
+  <div class="subtitle">Live translation on your phone</div>
+
+  <div class="main">
+    <div class="qr">${card.qrCodeSvg}</div>
+    <div>
+      <div>Scan the code, or open</div>
+      <div class="url">${escapeHtml(card.clientUrl)}</div>
+      <div>and enter the session ID</div>
+      <div class="session-id">${card.sessionId}</div>
+      <div class="url">${escapeHtml(card.shortUrl)}</div>
+    </div>
+  </div>
+
+  <div class="languages">${languageRows}
+  </div>
+
+  <button class="print" onclick="window.print()">Print</button>
+</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
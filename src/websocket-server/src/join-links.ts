@@ -0,0 +1,80 @@
+import QRCode from 'qrcode';
+import { SessionJoinInfo, TargetLanguage } from '../../shared/types';
+import { NetworkConfig } from './network-config';
+
+export interface JoinLinksConfig {
+  host: string;        // Host name or IP congregants reach this machine on
+  serverPort: number;  // Port of this server, which serves the short links and join cards
+  clientUrl: string;   // Where the PWA is served
+}
+
+/**
+ * JoinLinks builds the links congregants use to open a session: a short link on this
+ * server that redirects to the PWA with the session (and optionally language) filled in,
+ * QR codes of those links, and the printable join card.
+ */
+export class JoinLinks {
+  private config: JoinLinksConfig;
+
+  constructor(config: Partial<JoinLinksConfig> = {}) {
+    const host = config.host || NetworkConfig.getLocalIpAddress();
+    this.config = {
+      host,
+      serverPort: config.serverPort || 3001,
+      clientUrl: (config.clientUrl || `http://${host}:8080`).replace(/\/+$/, '')
+    };
+  }
+
+  /**
+   * Short link served by this server, e.g. http://192.168.1.10:3001/j/CHURCH-2025-001/es
+   */
+  getShortUrl(sessionId: string, language?: TargetLanguage): string {
+    return `${this.getServerUrl()}/j/${sessionId}${language ? `/${language}` : ''}`;
+  }
+
+  /**
+   * PWA address the short link redirects to
+   */
+  getClientJoinUrl(sessionId: string, language?: TargetLanguage): string {
+    const params = new URLSearchParams({ session: sessionId });
+    if (language) {
+      params.set('lang', language);
+    }
+    return `${this.config.clientUrl}/?${params.toString()}`;
+  }
+
+  getClientUrl(): string {
+    return this.config.clientUrl;
+  }
+
+  getJoinCardUrl(sessionId: string): string {
+    return `${this.getServerUrl()}/sessions/${sessionId}/join-card`;
+  }
+
+  /**
+   * Links and QR codes (PNG data URL and SVG markup) for a session
+   */
+  async buildJoinInfo(sessionId: string): Promise<SessionJoinInfo> {
+    const shortUrl = this.getShortUrl(sessionId);
+    const [qrCodePng, qrCodeSvg] = await Promise.all([
+      QRCode.toDataURL(shortUrl, { margin: 1, width: 320 }),
+      this.renderQrSvg(shortUrl)
+    ]);
+
+    return {
+      joinUrl: this.getClientJoinUrl(sessionId),
+      shortUrl,
+      joinCardUrl: this.getJoinCardUrl(sessionId),
+      qrCodePng,
+      qrCodeSvg
+    };
+  }
+
+  renderQrSvg(url: string): Promise<string> {
+    return QRCode.toString(url, { type: 'svg', margin: 1 });
+  }
+
+  private getServerUrl(): string {
+    return `http://${this.config.host}:${this.config.serverPort}`;
+  }
+}
@@ -0,0 +1,173 @@
+import { spawn } from 'child_process';
+import { existsSync, mkdirSync, readFileSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { TargetLanguage } from './types';
+import { TTSEngine, EngineAudio } from './tts-engine';
+import { SpeechOptions, applyAliases } from './speech-markup';
+import { getLanguage } from '../../shared/languages';
+
+export type LocalEngineKind = 'espeak-ng' | 'piper';
+
+export const LOCAL_ENGINE_KINDS: LocalEngineKind[] = ['espeak-ng', 'piper'];
+
+export interface LocalTTSConfig {
+  engine: LocalEngineKind;
+  command?: string;                 // Executable to run; defaults to the engine name on PATH
+  models?: Record<string, string>;  // Piper voice model (.onnx) per language code
+  timeoutMs?: number;
+  workDir?: string;                 // Where the engine writes its WAV before it is read back
+}
+
+/**
+ * Speech from a command-line synthesizer installed on the server (espeak-ng or Piper),
+ * so congregants still hear audio when Polly cannot be reached. The engine is run
+ * without a shell and the text goes in on stdin.
+ */
+export class LocalTTSEngine implements TTSEngine {
+  readonly name: string;
+
+  private config: LocalTTSConfig;
+  private command: string;
+  private timeoutMs: number;
+  private workDir: string;
+  private availability?: Promise<boolean>;
+
+  constructor(config: LocalTTSConfig) {
+    this.config = config;
+    this.name = config.engine;
+    this.command = config.command || config.engine;
+    this.timeoutMs = config.timeoutMs || 10000;
+    this.workDir = config.workDir || join(tmpdir(), 'service-translate-tts');
+
+    if (!existsSync(this.workDir)) {
+      mkdirSync(this.workDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Parse a "pt:/voices/pt_BR.onnx,es:/voices/es_ES.onnx" list of Piper models
+   */
+  static parseModels(value?: string): Record<string, string> {
+    const models: Record<string, string> = {};
+    for (const entry of (value || '').split(',')) {
+      const separator = entry.indexOf(':');
+      if (separator > 0) {
+        models[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+      }
+    }
+    return models;
+  }
+
+  /**
+   * Check once that the command runs at all
+   */
+  isAvailable(): Promise<boolean> {
+    if (!this.availability) {
+      this.availability = new Promise(resolve => {
+        const child = spawn(this.command, ['--help'], { stdio: 'ignore', timeout: this.timeoutMs });
+        child.on('error', () => resolve(false));
+        child.on('close', code => resolve(code === 0));
+      });
+    }
+    return this.availability;
+  }
+
+  supportsLanguage(language: TargetLanguage): boolean {
+    if (this.config.engine === 'piper') {
+      return !!this.config.models?.[language];
+    }
+    return !!getLanguage(language)?.espeakVoice;
+  }
+
+  async synthesize(
+    text: string,
+    language: TargetLanguage,
+    _voiceType: 'neural' | 'standard',
+    speech?: SpeechOptions
+  ): Promise<EngineAudio> {
+    const voiceId = this.config.engine === 'piper'
+      ? this.config.models?.[language]
+      : getLanguage(language)?.espeakVoice;
+    if (!voiceId) {
+      throw new Error(`No ${this.name} voice configured for language: ${language}`);
+    }
+
+    const outputFile = join(this.workDir, `${uuidv4()}.wav`);
+    const args = this.config.engine === 'piper'
+      ? ['--model', voiceId, '--output_file', outputFile, ...this.piperStyleArgs(speech)]
+      : ['-v', voiceId, '-w', outputFile, ...this.espeakStyleArgs(speech), '--stdin'];
+
+    // Neither engine reads SSML here, so only alias pronunciations can be applied
+    const input = speech ? applyAliases(text, speech.lexicon) : text;
+
+    console.log(`Synthesizing speech locally: ${text.substring(0, 50)}... (${language}, ${this.name}, ${voiceId})`);
+
+    try {
+      await this.run(args, input);
+      return {
+        audioBuffer: readFileSync(outputFile),
+        format: 'wav',
+        voiceId,
+        voiceType: 'local'
+      };
+    } finally {
+      if (existsSync(outputFile)) {
+        unlinkSync(outputFile);
+      }
+    }
+  }
+
+  /**
+   * espeak-ng speed is in words per minute (175 normal) and pitch runs 0-99 (50 normal)
+   */
+  private espeakStyleArgs(speech?: SpeechOptions): string[] {
+    if (!speech) {
+      return [];
+    }
+    return [
+      '-s', String(Math.round(175 * speech.rate / 100)),
+      '-p', String(Math.min(99, Math.max(0, 50 + speech.pitch)))
+    ];
+  }
+
+  /**
+   * Piper has no pitch control; a longer length scale speaks more slowly
+   */
+  private piperStyleArgs(speech?: SpeechOptions): string[] {
+    if (!speech || speech.rate === 100) {
+      return [];
+    }
+    return ['--length_scale', (100 / speech.rate).toFixed(2)];
+  }
+
+  private run(args: string[], input: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, args, {
+        stdio: ['pipe', 'ignore', 'pipe'],
+        timeout: this.timeoutMs
+      });
+
+      let stderr = '';
+      child.stderr!.on('data', chunk => {
+        stderr = (stderr + chunk.toString()).slice(-500);
+      });
+
+      child.on('error', reject);
+      child.on('close', (code, signal) => {
+        if (code === 0) {
+          resolve();
+        } else if (signal) {
+          reject(new Error(`${this.name} did not finish within ${this.timeoutMs}ms`));
+        } else {
+          reject(new Error(`${this.name} exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+
+      // The engine may exit before reading everything, e.g. with a bad voice
+      child.stdin!.on('error', () => {});
+      child.stdin!.end(input);
+    });
+  }
+}
@@ -3,29 +3,88 @@ import { SessionManager } from './session-manager';
 import { MessageValidator } from './message-validator';
 import { AudioManager } from './audio-manager';
 import { TTSService } from './tts-service';
+import { TTSEngine } from './tts-engine';
 import { TTSFallbackManager } from './tts-fallback-manager';
 import { AuthManager } from './auth-manager';
 import { AdminIdentityManager, CognitoTokens } from './admin-identity-manager';
 import { CognitoAuthService, CognitoAuthError, CognitoErrorCode } from './cognito-auth';
+import { TerminologyManager } from './terminology-manager';
+import { PronunciationLexicon } from './pronunciation-lexicon';
+import { TTSScheduler } from './tts-scheduler';
+import { SpeechOptions, resolveSpeechStyle, speechVariant } from './speech-markup';
 import { 
   AdminAuthMessage,
   AdminAuthResponse,
   SessionSummary,
   AdminErrorCode,
   ERROR_MESSAGES,
-  TargetLanguage as SharedTargetLanguage
+  TargetLanguage as SharedTargetLanguage,
+  AddTerminologyResult,
+  StoredTerminologyEntry,
+  TerminologyUpdatedNotification,
+  SourceLanguageChangedNotification,
+  BroadcastTranslationResponse,
+  CorrectTranslationResponse,
+  TranslationCorrectionMessage,
+  SessionMode,
+  ScriptSummary,
+  UploadScriptResponse,
+  ScriptProgressNotification,
+  GetScriptResponse,
+  ScriptControlResponse,
+  SetSessionModeResponse,
+  SessionModeChangedNotification,
+  SourceLanguage,
+  TranslationHistoryEntry,
+  TranslationHistoryMessage,
+  ClientLagUpdate,
+  SessionSchedule,
+  ScheduledOccurrence,
+  ScheduleSummary,
+  ScheduleResponse,
+  ScheduledSessionNotification,
+  StartSessionResponseMessage,
+  SessionJoinInfo,
+  AddPronunciationsResponse,
+  StoredPronunciationEntry,
+  PronunciationsUpdatedNotification,
+  SessionConfig,
+  TranslationAudioMessage,
+  TranslationAudioPart,
+  ListVoicesResponse,
+  PreviewVoiceResponse
 } from '../../shared/types';
 import { 
   ErrorMessage,
   SessionMetadataMessage,
   TargetLanguage,
   TranslationBroadcast,
-  AudioMetadata
+  AudioMetadata,
+  SpeakerLabel,
+  ScripturePassage
 } from './types';
+import { getTargetLanguages, getLanguage } from '../../shared/languages';
+import { SegmentStore } from './segment-store';
+import { ScriptedContentManager, ScriptSegmentInput, ScriptMoveAction } from './scripted-content-manager';
+import { ContentTranslator } from './content-translator';
+import { TranscriptArchive } from './transcript-archive';
+import { TranslationHistory } from './translation-history';
+import { SessionScheduler } from './session-scheduler';
+import { JoinLinks } from './join-links';
+
+const MAX_CORRECTION_LENGTH = 5000;
+const LAG_REPORT_INTERVAL_MS = 5000;
+const MAX_SCRIPT_TITLE_LENGTH = 200;
+const MAX_VOICE_PREVIEW_LENGTH = 300;
+const SCRIPT_ACTIONS = ['next', 'previous', 'goto', 'repeat', 'clear'];
+const SESSION_MODES: SessionMode[] = ['live', 'scripted'];
 
 export class MessageRouter {
   private ttsService: TTSService;
   private ttsFallbackManager: TTSFallbackManager;
+  private lagReportTimers: Map<string, NodeJS.Timeout> = new Map();
+  // Per session and language: settles once the audio of the last delivered line has been sent
+  private audioDeliveryChains: Map<string, Promise<void>> = new Map();
 
   constructor(
     private io: SocketIOServer,
@@ -35,15 +94,43 @@ export class MessageRouter {
     private cognitoAuth: CognitoAuthService,
     private audioManager?: AudioManager,
     private errorLogger?: any,
-    private pollyService?: any  // Optional pollyService for cost tracking
+    private pollyService?: any,  // Optional pollyService for cost tracking
+    private terminologyManager?: TerminologyManager,
+    private segmentStore: SegmentStore = new SegmentStore(),
+    private scriptedContent: ScriptedContentManager = new ScriptedContentManager(new ContentTranslator()),
+    private transcriptArchive: TranscriptArchive = new TranscriptArchive(),
+    private translationHistory: TranslationHistory = new TranslationHistory(),
+    private sessionScheduler: SessionScheduler = new SessionScheduler(),
+    private joinLinks: JoinLinks = new JoinLinks(),
+    private pronunciationLexicon: PronunciationLexicon = new PronunciationLexicon(),
+    private ttsScheduler: TTSScheduler = new TTSScheduler(),
+    localTTSEngine?: TTSEngine
   ) {
-    this.ttsService = new TTSService();
+    this.ttsService = new TTSService(undefined, localTTSEngine);
     this.ttsFallbackManager = new TTSFallbackManager(this.ttsService);
 
     // Forward fallback notifications to clients
     this.ttsFallbackManager.on('fallback-notification', (notification) => {
       this.broadcastFallbackNotification(notification);
     });
+
+    // Keep the session admin informed while a script is being prepared
+    this.scriptedContent.on('progress', (script: ScriptSummary) => {
+      const notification: ScriptProgressNotification = {
+        type: 'script-progress',
+        script,
+        timestamp: new Date().toISOString()
+      };
+      this.io.to(this.getSessionAdminSockets(script.sessionId)).emit('script-progress', notification);
+    });
+
+    // Recurring services start and end on their own
+    this.sessionScheduler.on('session-start', (schedule: SessionSchedule, occurrence: ScheduledOccurrence) => {
+      this.startScheduledSession(schedule, occurrence);
+    });
+    this.sessionScheduler.on('session-end', (schedule: SessionSchedule, occurrence: ScheduledOccurrence) => {
+      this.endScheduledSession(schedule, occurrence);
+    });
   }
 
   /**
@@ -81,6 +168,9 @@ export class MessageRouter {
         case 'change-language':
           this.handleLanguageChange(socket, data);
           break;
+        case 'translation-ack':
+          this.handleTranslationAck(socket, data);
+          break;
         case 'config-update':
           this.handleConfigUpdate(socket, data);
           break;
@@ -99,6 +189,63 @@ export class MessageRouter {
         case 'generate-tts':
           this.handleGenerateTTS(socket, data);
           break;
+        case 'add-terminology':
+          this.handleAddTerminology(socket, data);
+          break;
+        case 'update-terminology':
+          this.handleUpdateTerminology(socket, data);
+          break;
+        case 'delete-terminology':
+          this.handleDeleteTerminology(socket, data);
+          break;
+        case 'list-terminology':
+          this.handleListTerminology(socket, data);
+          break;
+        case 'add-pronunciations':
+          this.handleAddPronunciations(socket, data);
+          break;
+        case 'update-pronunciation':
+          this.handleUpdatePronunciation(socket, data);
+          break;
+        case 'delete-pronunciation':
+          this.handleDeletePronunciation(socket, data);
+          break;
+        case 'list-pronunciations':
+          this.handleListPronunciations(socket, data);
+          break;
+        case 'list-voices':
+          this.handleListVoices(socket, data);
+          break;
+        case 'preview-voice':
+          this.handlePreviewVoice(socket, data);
+          break;
+        case 'correct-translation':
+          this.handleCorrectTranslation(socket, data);
+          break;
+        case 'upload-script':
+          this.handleUploadScript(socket, data);
+          break;
+        case 'get-script':
+          this.handleGetScript(socket, data);
+          break;
+        case 'script-control':
+          this.handleScriptControl(socket, data);
+          break;
+        case 'set-session-mode':
+          this.handleSetSessionMode(socket, data);
+          break;
+        case 'create-schedule':
+          this.handleCreateSchedule(socket, data);
+          break;
+        case 'update-schedule':
+          this.handleUpdateSchedule(socket, data);
+          break;
+        case 'delete-schedule':
+          this.handleDeleteSchedule(socket, data);
+          break;
+        case 'list-schedules':
+          this.handleListSchedules(socket, data);
+          break;
         default:
           this.sendError(socket, 400, `Unknown message type: ${messageType}`);
       }
@@ -345,19 +492,7 @@ export class MessageRouter {
 
       // End all owned sessions
       for (const sessionId of ownedSessions) {
-        const success = this.sessionManager.endSession(sessionId);
-        if (success) {
-          // Notify all clients in the session
-          this.io.to(sessionId).emit('session-ended', {
-            type: 'session-ended',
-            sessionId,
-            reason: 'admin-account-deleted',
-            timestamp: new Date().toISOString()
-          });
-
-          // Disconnect all clients from room
-          this.io.in(sessionId).socketsLeave(sessionId);
-          
+        if (this.terminateSession(sessionId, 'admin-account-deleted')) {
           console.log(`Ended session ${sessionId} due to admin account deletion`);
         }
       }
@@ -411,6 +546,14 @@ export class MessageRouter {
     }
   }
 
+  /**
+   * Request ID an admin request carries, if any. Replies echo it so the admin app
+   * can tell concurrent requests of the same type apart.
+   */
+  private getRequestId(data: any): string | undefined {
+    return typeof data?.requestId === 'string' && data.requestId.length <= 100 ? data.requestId : undefined;
+  }
+
   /**
    * Send admin error message
    */
@@ -422,7 +565,8 @@ export class MessageRouter {
       operation?: string;
       adminId?: string;
       validationErrors?: string[];
-    }
+    },
+    requestId?: string
   ): void {
     const errorInfo = ERROR_MESSAGES[errorCode];
     
@@ -434,6 +578,7 @@ export class MessageRouter {
       retryable: errorInfo.retryable,
       retryAfter: errorInfo.retryAfter,
       details,
+      requestId,
       timestamp: new Date().toISOString()
     });
     
@@ -581,7 +726,8 @@ export class MessageRouter {
         preferredLanguage: client.preferredLanguage,
         joinedAt: client.joinedAt.toISOString(),
         lastSeen: client.lastSeen.toISOString(),
-        audioCapabilities: client.audioCapabilities
+        audioCapabilities: client.audioCapabilities,
+        lastAckSequence: client.lastAckSequence ?? null
       })),
       createdAt: session.createdAt.toISOString(),
       lastActivity: session.lastActivity.toISOString(),
@@ -606,7 +752,7 @@ export class MessageRouter {
   /**
    * Handle session creation (admin only)
    */
-  private handleStartSession(socket: Socket, data: any): void {
+  private async handleStartSession(socket: Socket, data: any): Promise<void> {
     // Get admin identity
     const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
     if (!adminIdentity) {
@@ -641,17 +787,29 @@ export class MessageRouter {
         
         // Add session to admin's owned sessions
         this.adminIdentityManager.addOwnedSession(adminIdentity.adminId, sessionId);
+        this.transcriptArchive.startSession(sessionId, sessionData.createdAt, sessionData.adminId);
       }
       
       socket.join(sessionId);
-      socket.emit('start-session-response', {
+
+      // The session is usable without the links, so a QR failure does not fail the start
+      let join: SessionJoinInfo | undefined;
+      try {
+        join = await this.joinLinks.buildJoinInfo(sessionId);
+      } catch (error) {
+        console.error(`Failed to generate join links for ${sessionId}:`, error);
+      }
+
+      const response: StartSessionResponseMessage = {
         type: 'start-session-response',
         success: true,
         sessionId,
         adminId: adminIdentity.adminId,
         config: sessionData.config,
+        join,
         timestamp: new Date().toISOString()
-      });
+      };
+      socket.emit('start-session-response', response);
       
       console.log(`Session started: ${sessionId} by admin ${adminIdentity.cognitoUsername} (${adminIdentity.adminId})`);
     } catch (error) {
@@ -699,22 +857,9 @@ export class MessageRouter {
       return;
     }
 
-    const success = this.sessionManager.endSession(sessionId);
+    const success = this.terminateSession(sessionId);
     
     if (success) {
-      // Remove session from admin's owned sessions
-      this.adminIdentityManager.removeOwnedSession(adminIdentity.adminId, sessionId);
-      
-      // Notify all clients
-      this.io.to(sessionId).emit('session-ended', {
-        type: 'session-ended',
-        sessionId,
-        timestamp: new Date().toISOString()
-      });
-      
-      // Disconnect all clients from room
-      this.io.in(sessionId).socketsLeave(sessionId);
-      
       socket.emit('end-session-response', {
         type: 'end-session-response',
         success: true,
@@ -728,6 +873,38 @@ export class MessageRouter {
     }
   }
 
+  /**
+   * End a session and release everything held for it: notify and disconnect its
+   * clients, close its transcript and drop its history. Returns false if it did not exist.
+   */
+  private terminateSession(sessionId: string, reason?: string): boolean {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session || !this.sessionManager.endSession(sessionId)) {
+      return false;
+    }
+
+    this.segmentStore.clearSession(sessionId);
+    this.scriptedContent.clearScript(sessionId);
+    this.transcriptArchive.endSession(sessionId);
+    this.translationHistory.clearSession(sessionId);
+    this.cancelLagReport(sessionId);
+
+    // Remove session from admin's owned sessions
+    this.adminIdentityManager.removeOwnedSession(session.adminId, sessionId);
+
+    // Notify all clients
+    this.io.to(sessionId).emit('session-ended', {
+      type: 'session-ended',
+      sessionId,
+      ...(reason ? { reason } : {}),
+      timestamp: new Date().toISOString()
+    });
+
+    // Disconnect all clients from room
+    this.io.in(sessionId).socketsLeave(sessionId);
+    return true;
+  }
+
   private handleUpdateSessionConfig(socket: Socket, data: any): void {
     const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
     if (!adminIdentity) {
@@ -750,6 +927,16 @@ export class MessageRouter {
       return;
     }
 
+    const speechError = (config.speech !== undefined ? MessageValidator.validateSpeechSettings(config.speech) : null)
+      || (config.voices !== undefined ? MessageValidator.validateVoiceSelection(config.voices) : null);
+    if (speechError) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'update-session-config',
+        validationErrors: [speechError]
+      });
+      return;
+    }
+
     const success = this.sessionManager.updateSessionConfig(sessionId, config);
     
     if (success) {
@@ -805,485 +992,2039 @@ export class MessageRouter {
     console.log(`Listed ${sessionsList.length} sessions for admin ${adminIdentity.cognitoUsername} (filter: ${filter})`);
   }
 
+  // ============================================================================
+  // Terminology / Glossary Handlers (admin only)
+  // ============================================================================
+
   /**
-   * Handle client joining session
+   * Handle adding glossary entries for a source language
    */
-  private handleJoinSession(socket: Socket, data: any): void {
-    console.log('DEBUG: handleJoinSession called with data:', JSON.stringify(data, null, 2));
-    
-    const validation = MessageValidator.validateJoinSession(data);
-    console.log('DEBUG: validation result:', validation);
-    
-    if (!validation.valid || !validation.message) {
-      console.log('DEBUG: Validation failed, sending error');
-      this.sendError(socket, 400, validation.error || 'Invalid join session message');
+  private handleAddTerminology(socket: Socket, data: any): void {
+    const requestId = this.getRequestId(data);
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND, undefined, requestId);
       return;
     }
 
-    const { sessionId, preferredLanguage, audioCapabilities } = validation.message;
+    if (!this.terminologyManager) {
+      this.sendAdminError(socket, AdminErrorCode.SYSTEM_INTERNAL_ERROR, { operation: 'add-terminology' }, requestId);
+      return;
+    }
 
-    const success = this.sessionManager.addClient(
-      sessionId,
-      socket.id,
-      socket.id,
-      preferredLanguage,
-      audioCapabilities
+    const { sourceLanguage, entries } = data || {};
+
+    if (!sourceLanguage || !Array.isArray(entries) || entries.length === 0) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_MISSING_REQUIRED_FIELD, {
+        operation: 'add-terminology',
+        validationErrors: ['sourceLanguage and a non-empty entries array are required']
+      }, requestId);
+      return;
+    }
+
+    if (!TerminologyManager.isValidSourceLanguage(sourceLanguage)) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_LANGUAGE, {
+        operation: 'add-terminology',
+        validationErrors: [`Unsupported source language: ${sourceLanguage}`]
+      }, requestId);
+      return;
+    }
+
+    const { added, rejected } = this.terminologyManager.addEntries(
+      sourceLanguage,
+      entries,
+      adminIdentity.cognitoUsername
     );
-    
-    if (success) {
-      const session = this.sessionManager.getSession(sessionId);
-      if (session) {
-        socket.join(sessionId);
-        
-        const metadata: SessionMetadataMessage = {
-          type: 'session-metadata',
-          config: session.config,
-          availableLanguages: session.config.enabledLanguages,
-          ttsAvailable: session.config.ttsMode !== 'disabled',
-          audioQuality: session.config.audioQuality
-        };
-        
-        socket.emit('session-joined', metadata);
-        console.log(`Client ${socket.id} joined session: ${sessionId}`);
-      }
-    } else {
-      this.sendError(socket, 404, 'Session not found or join failed', { sessionId });
+
+    // Nothing was accepted - report every rejection reason as a validation error
+    if (added.length === 0) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'add-terminology',
+        validationErrors: rejected.map(r => `${r.sourceText || '(empty)'}: ${r.reason}`)
+      }, requestId);
+      return;
     }
+
+    const response: AddTerminologyResult = {
+      type: 'terminology',
+      requestId,
+      status: rejected.length > 0 ? 'partial' : 'added',
+      sourceLanguage,
+      entriesAdded: added.length,
+      entriesRejected: rejected.length,
+      rejectedEntries: rejected,
+      entries: added,
+      timestamp: new Date().toISOString()
+    };
+
+    socket.emit('add-terminology-response', response);
+    this.broadcastTerminologyUpdate(sourceLanguage, 'added', added, adminIdentity.cognitoUsername);
   }
 
   /**
-   * Handle client leaving session
+   * Handle editing a glossary entry
    */
-  private handleLeaveSession(socket: Socket, data: any): void {
-    const validation = MessageValidator.validateLeaveSession(data);
-    if (!validation.valid || !validation.message) {
-      this.sendError(socket, 400, validation.error || 'Invalid leave session message');
+  private handleUpdateTerminology(socket: Socket, data: any): void {
+    const requestId = this.getRequestId(data);
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND, undefined, requestId);
       return;
     }
 
-    const { sessionId } = validation.message;
-    const success = this.sessionManager.removeClient(sessionId, socket.id);
-    
-    if (success) {
-      socket.leave(sessionId);
-      socket.emit('session-left', {
-        type: 'session-left',
-        sessionId,
-        timestamp: new Date().toISOString()
-      });
-      console.log(`Client ${socket.id} left session: ${sessionId}`);
+    if (!this.terminologyManager) {
+      this.sendAdminError(socket, AdminErrorCode.SYSTEM_INTERNAL_ERROR, { operation: 'update-terminology' }, requestId);
+      return;
     }
-  }
 
-  /**
-   * Handle language change
-   */
-  private handleLanguageChange(socket: Socket, data: any): void {
-    const validation = MessageValidator.validateLanguageChange(data);
-    if (!validation.valid || !validation.message) {
-      this.sendError(socket, 400, validation.error || 'Invalid language change message');
+    const { entryId, translations, category, priority, context } = data || {};
+
+    if (!entryId) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_MISSING_REQUIRED_FIELD, {
+        operation: 'update-terminology',
+        validationErrors: ['entryId is required']
+      }, requestId);
       return;
     }
 
-    const { sessionId, newLanguage } = validation.message;
-    const success = this.sessionManager.updateClientLanguage(sessionId, socket.id, newLanguage);
-    
-    if (success) {
-      socket.emit('language-changed', {
-        type: 'language-changed',
-        sessionId,
-        language: newLanguage,
-        timestamp: new Date().toISOString()
-      });
-      console.log(`Client ${socket.id} changed language to ${newLanguage} in session: ${sessionId}`);
-    } else {
-      this.sendError(socket, 404, 'Session not found or language change failed', { sessionId });
+    const result = this.terminologyManager.updateEntry(entryId, { translations, category, priority, context });
+    if (!result.entry) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'update-terminology',
+        validationErrors: [result.error || 'Invalid terminology update']
+      }, requestId);
+      return;
     }
+
+    socket.emit('update-terminology-response', {
+      type: 'update-terminology-response',
+      requestId,
+      success: true,
+      entry: result.entry,
+      timestamp: new Date().toISOString()
+    });
+
+    this.broadcastTerminologyUpdate(result.entry.sourceLanguage, 'updated', [result.entry], adminIdentity.cognitoUsername);
   }
 
   /**
-   * Handle configuration updates (admin only)
+   * Handle deleting a glossary entry or a single source→target pair
    */
-  private handleConfigUpdate(socket: Socket, data: any): void {
-    // Get admin identity
+  private handleDeleteTerminology(socket: Socket, data: any): void {
+    const requestId = this.getRequestId(data);
     const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
     if (!adminIdentity) {
-      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND);
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND, undefined, requestId);
       return;
     }
 
-    const validation = MessageValidator.validateConfigUpdate(data);
-    if (!validation.valid || !validation.message) {
-      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
-        operation: 'update-session-config',
-        validationErrors: [validation.error || 'Invalid config update message']
-      });
+    if (!this.terminologyManager) {
+      this.sendAdminError(socket, AdminErrorCode.SYSTEM_INTERNAL_ERROR, { operation: 'delete-terminology' }, requestId);
       return;
     }
 
-    const { sessionId, config } = validation.message;
-    
-    // Verify admin ownership
-    if (!this.sessionManager.verifyAdminAccess(sessionId, adminIdentity.adminId, 'write')) {
-      this.sendAdminError(socket, AdminErrorCode.AUTHZ_SESSION_NOT_OWNED, {
-        sessionId,
-        adminId: adminIdentity.adminId
-      });
+    const { entryId, targetLanguage } = data || {};
+
+    if (!entryId) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_MISSING_REQUIRED_FIELD, {
+        operation: 'delete-terminology',
+        validationErrors: ['entryId is required']
+      }, requestId);
       return;
     }
-    
-    const success = this.sessionManager.updateSessionConfig(sessionId, config);
-    
-    if (success) {
-      // Get updated session metadata
-      const metadata = this.sessionManager.getSessionMetadata(sessionId);
-      
-      if (metadata) {
-        // Broadcast session metadata update to all clients
-        this.io.to(sessionId).emit('session-metadata-update', {
-          type: 'session-metadata-update',
-          sessionId,
-          metadata,
-          timestamp: new Date().toISOString()
-        });
-      }
-      
-      // Broadcast config update to all clients in the session
-      this.io.to(sessionId).emit('config-updated', {
-        type: 'config-updated',
-        sessionId,
-        config,
-        timestamp: new Date().toISOString()
-      });
-      
-      // Send success response to admin
-      socket.emit('update-session-config-response', {
-        type: 'update-session-config-response',
-        success: true,
-        sessionId,
-        config,
-        timestamp: new Date().toISOString()
-      });
-      
-      console.log(`Config updated for session: ${sessionId} by admin ${adminIdentity.cognitoUsername}`);
-    } else {
-      this.sendAdminError(socket, AdminErrorCode.SESSION_UPDATE_FAILED, { sessionId });
+
+    if (targetLanguage !== undefined && !TerminologyManager.isValidTargetLanguage(targetLanguage)) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_LANGUAGE, {
+        operation: 'delete-terminology',
+        validationErrors: [`Unsupported target language: ${targetLanguage}`]
+      }, requestId);
+      return;
+    }
+
+    const result = this.terminologyManager.deleteEntry(entryId, targetLanguage);
+    if (!result) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'delete-terminology',
+        validationErrors: [`Terminology entry not found: ${entryId}`]
+      }, requestId);
+      return;
     }
+
+    socket.emit('delete-terminology-response', {
+      type: 'delete-terminology-response',
+      requestId,
+      success: true,
+      entryId,
+      targetLanguage,
+      entryDeleted: result.entryDeleted,
+      timestamp: new Date().toISOString()
+    });
+
+    this.broadcastTerminologyUpdate(
+      result.entry.sourceLanguage,
+      result.entryDeleted ? 'deleted' : 'updated',
+      [result.entry],
+      adminIdentity.cognitoUsername
+    );
   }
 
   /**
-   * Handle TTS configuration updates (admin only)
+   * Handle listing glossary entries
    */
-  private handleTTSConfigUpdate(socket: Socket, data: any): void {
-    const { sessionId, ttsMode, audioQuality } = data;
-    
-    if (!sessionId || !ttsMode) {
-      this.sendError(socket, 400, 'Missing required fields: sessionId, ttsMode');
+  private handleListTerminology(socket: Socket, data?: any): void {
+    const requestId = this.getRequestId(data);
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND, undefined, requestId);
       return;
     }
 
-    const success = this.sessionManager.updateTTSMode(sessionId, ttsMode);
-    
-    if (success && audioQuality) {
-      this.sessionManager.updateAudioQuality(sessionId, audioQuality);
+    if (!this.terminologyManager) {
+      this.sendAdminError(socket, AdminErrorCode.SYSTEM_INTERNAL_ERROR, { operation: 'list-terminology' }, requestId);
+      return;
     }
-    
-    if (success) {
-      // Broadcast TTS config update to all clients
-      this.broadcastTTSConfigUpdate(sessionId, ttsMode);
-      
-      // Get updated session metadata
+
+    const sourceLanguage = data?.sourceLanguage;
+    const targetLanguage = data?.targetLanguage;
+
+    if ((sourceLanguage && !TerminologyManager.isValidSourceLanguage(sourceLanguage)) ||
+        (targetLanguage && !TerminologyManager.isValidTargetLanguage(targetLanguage))) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_LANGUAGE, {
+        operation: 'list-terminology',
+        validationErrors: ['Unsupported sourceLanguage or targetLanguage filter']
+      }, requestId);
+      return;
+    }
+
+    const entries = this.terminologyManager.getEntries(sourceLanguage, targetLanguage);
+
+    socket.emit('list-terminology-response', {
+      type: 'list-terminology-response',
+      requestId,
+      entries,
+      timestamp: new Date().toISOString()
+    });
+
+    console.log(`Listed ${entries.length} terminology entries for admin ${adminIdentity.cognitoUsername}`);
+  }
+
+  /**
+   * Notify every connected admin that the shared glossary changed
+   */
+  private broadcastTerminologyUpdate(
+    sourceLanguage: StoredTerminologyEntry['sourceLanguage'],
+    action: TerminologyUpdatedNotification['action'],
+    entries: StoredTerminologyEntry[],
+    updatedBy: string
+  ): void {
+    const notification: TerminologyUpdatedNotification = {
+      type: 'terminology-updated',
+      sourceLanguage,
+      action,
+      entryIds: entries.map(entry => entry.entryId),
+      updatedBy,
+      timestamp: new Date().toISOString()
+    };
+
+    let socketCount = 0;
+    this.adminIdentityManager.getAllAdminIdentities().forEach(admin => {
+      admin.activeSockets.forEach(socketId => {
+        this.io.to(socketId).emit('terminology-updated', notification);
+        socketCount++;
+      });
+    });
+
+    console.log(`Broadcasted terminology update (${action}, ${entries.length} entries) to ${socketCount} admin connections`);
+  }
+
+  // ============================================================================
+  // Pronunciation Lexicon Handlers (admin only)
+  // ============================================================================
+
+  /**
+   * Handle adding pronunciation entries
+   */
+  private handleAddPronunciations(socket: Socket, data: any): void {
+    const requestId = this.getRequestId(data);
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND, undefined, requestId);
+      return;
+    }
+
+    const entries = data?.entries;
+    if (!Array.isArray(entries) || entries.length === 0) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_MISSING_REQUIRED_FIELD, {
+        operation: 'add-pronunciations',
+        validationErrors: ['A non-empty entries array is required']
+      }, requestId);
+      return;
+    }
+
+    const { added, rejected } = this.pronunciationLexicon.addEntries(entries, adminIdentity.cognitoUsername);
+
+    // Nothing was accepted - report every rejection reason as a validation error
+    if (added.length === 0) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'add-pronunciations',
+        validationErrors: rejected.map(r => `${r.term || '(empty)'}: ${r.reason}`)
+      }, requestId);
+      return;
+    }
+
+    const response: AddPronunciationsResponse = {
+      type: 'add-pronunciations-response',
+      requestId,
+      status: rejected.length > 0 ? 'partial' : 'added',
+      entries: added,
+      rejectedEntries: rejected,
+      timestamp: new Date().toISOString()
+    };
+
+    socket.emit('add-pronunciations-response', response);
+
+    const languages = [...new Set(added.map(entry => entry.language))];
+    languages.forEach(language => {
+      this.broadcastPronunciationsUpdate(
+        language,
+        'added',
+        added.filter(entry => entry.language === language),
+        adminIdentity.cognitoUsername
+      );
+    });
+  }
+
+  /**
+   * Handle changing how an entry is pronounced
+   */
+  private handleUpdatePronunciation(socket: Socket, data: any): void {
+    const requestId = this.getRequestId(data);
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND, undefined, requestId);
+      return;
+    }
+
+    const { entryId, alias, phoneme } = data || {};
+
+    if (!entryId) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_MISSING_REQUIRED_FIELD, {
+        operation: 'update-pronunciation',
+        validationErrors: ['entryId is required']
+      }, requestId);
+      return;
+    }
+
+    const result = this.pronunciationLexicon.updateEntry(entryId, { alias, phoneme });
+    if (!result.entry) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'update-pronunciation',
+        validationErrors: [result.error || 'Invalid pronunciation update']
+      }, requestId);
+      return;
+    }
+
+    socket.emit('update-pronunciation-response', {
+      type: 'update-pronunciation-response',
+      requestId,
+      success: true,
+      entry: result.entry,
+      timestamp: new Date().toISOString()
+    });
+
+    this.broadcastPronunciationsUpdate(result.entry.language, 'updated', [result.entry], adminIdentity.cognitoUsername);
+  }
+
+  /**
+   * Handle deleting a pronunciation entry
+   */
+  private handleDeletePronunciation(socket: Socket, data: any): void {
+    const requestId = this.getRequestId(data);
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND, undefined, requestId);
+      return;
+    }
+
+    const entryId = data?.entryId;
+
+    if (!entryId) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_MISSING_REQUIRED_FIELD, {
+        operation: 'delete-pronunciation',
+        validationErrors: ['entryId is required']
+      }, requestId);
+      return;
+    }
+
+    const entry = this.pronunciationLexicon.deleteEntry(entryId);
+    if (!entry) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'delete-pronunciation',
+        validationErrors: [`Pronunciation entry not found: ${entryId}`]
+      }, requestId);
+      return;
+    }
+
+    socket.emit('delete-pronunciation-response', {
+      type: 'delete-pronunciation-response',
+      requestId,
+      success: true,
+      entryId,
+      timestamp: new Date().toISOString()
+    });
+
+    this.broadcastPronunciationsUpdate(entry.language, 'deleted', [entry], adminIdentity.cognitoUsername);
+  }
+
+  /**
+   * Handle listing pronunciation entries
+   */
+  private handleListPronunciations(socket: Socket, data?: any): void {
+    const requestId = this.getRequestId(data);
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND, undefined, requestId);
+      return;
+    }
+
+    const language = data?.language;
+
+    if (language && !MessageValidator.isValidTargetLanguage(language)) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_LANGUAGE, {
+        operation: 'list-pronunciations',
+        validationErrors: [`Unsupported language: ${language}`]
+      }, requestId);
+      return;
+    }
+
+    const entries = this.pronunciationLexicon.getEntries(language);
+
+    socket.emit('list-pronunciations-response', {
+      type: 'list-pronunciations-response',
+      requestId,
+      entries,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Notify every connected admin that the pronunciation lexicon changed
+   */
+  private broadcastPronunciationsUpdate(
+    language: SharedTargetLanguage,
+    action: PronunciationsUpdatedNotification['action'],
+    entries: StoredPronunciationEntry[],
+    updatedBy: string
+  ): void {
+    const notification: PronunciationsUpdatedNotification = {
+      type: 'pronunciations-updated',
+      language,
+      action,
+      entryIds: entries.map(entry => entry.entryId),
+      updatedBy,
+      timestamp: new Date().toISOString()
+    };
+
+    this.adminIdentityManager.getAllAdminIdentities().forEach(admin => {
+      admin.activeSockets.forEach(socketId => {
+        this.io.to(socketId).emit('pronunciations-updated', notification);
+      });
+    });
+  }
+
+  /**
+   * Rate, pitch and pronunciations for speech in one language of a session
+   */
+  private getSpeechOptions(sessionId: string | undefined, language: string): SpeechOptions {
+    const session = sessionId ? this.sessionManager.getSession(sessionId) : undefined;
+    return {
+      ...resolveSpeechStyle(session?.config.speech, language),
+      lexicon: this.pronunciationLexicon.getEntries(language),
+      voiceId: session?.config.voices?.[language]
+    };
+  }
+
+  // ============================================================================
+  // Voice Selection Handlers (admin only)
+  // ============================================================================
+
+  /**
+   * Handle listing the voices admins can choose per language
+   */
+  private handleListVoices(socket: Socket, data: any): void {
+    const requestId = this.getRequestId(data);
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND, undefined, requestId);
+      return;
+    }
+
+    const language = data?.language;
+    if (language !== undefined && !MessageValidator.isValidTargetLanguage(language)) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_LANGUAGE, {
+        operation: 'list-voices',
+        validationErrors: [`Unsupported language: ${language}`]
+      }, requestId);
+      return;
+    }
+
+    const response: ListVoicesResponse = {
+      type: 'list-voices-response',
+      requestId,
+      voices: this.ttsService.listVoices(language),
+      timestamp: new Date().toISOString()
+    };
+
+    socket.emit('list-voices-response', response);
+  }
+
+  /**
+   * Handle a voice preview: speak a sample phrase with the voice and return the audio inline
+   */
+  private async handlePreviewVoice(socket: Socket, data: any): Promise<void> {
+    const requestId = this.getRequestId(data);
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND, undefined, requestId);
+      return;
+    }
+
+    const { language, voiceId, sessionId } = data || {};
+    const validationError = !MessageValidator.isValidTargetLanguage(language)
+      ? `Unsupported language: ${language}`
+      : MessageValidator.validateVoiceSelection({ [language]: voiceId });
+    if (validationError) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'preview-voice',
+        validationErrors: [validationError]
+      }, requestId);
+      return;
+    }
+
+    const text = data.text === undefined ? getLanguage(language)?.voicePreview : data.text;
+    if (typeof text !== 'string' || !text.trim() || text.length > MAX_VOICE_PREVIEW_LENGTH) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'preview-voice',
+        validationErrors: [`text must be 1-${MAX_VOICE_PREVIEW_LENGTH} characters`]
+      }, requestId);
+      return;
+    }
+
+    const session = sessionId ? this.sessionManager.getSession(sessionId) : undefined;
+    const voiceType = data.voiceType === 'neural' || data.voiceType === 'standard'
+      ? data.voiceType
+      : session?.config.ttsMode === 'standard' ? 'standard' : 'neural';
+
+    try {
+      const result = await this.ttsService.synthesizeSpeech(text, language, voiceType, false, {
+        ...this.getSpeechOptions(session?.sessionId, language),
+        voiceId
+      });
+
+      const response: PreviewVoiceResponse = {
+        type: 'preview-voice-response',
+        requestId,
+        language,
+        voiceId: result.voiceId,
+        voiceType: result.voiceType === 'standard' ? 'standard' : 'neural',
+        text,
+        audioData: result.audioBuffer.toString('base64'),
+        format: result.format,
+        timestamp: new Date().toISOString()
+      };
+
+      socket.emit('preview-voice-response', response);
+    } catch (error) {
+      console.error(`Voice preview failed for ${voiceId} (${language}):`, error);
+      this.sendAdminError(socket, AdminErrorCode.SYSTEM_INTERNAL_ERROR, {
+        operation: 'preview-voice'
+      }, requestId);
+    }
+  }
+
+  /**
+   * What clients are told about a session when they join or its configuration changes,
+   * including the voice each language is spoken with
+   */
+  private buildSessionMetadata(config: SessionConfig): SessionMetadataMessage {
+    const voices: Partial<Record<string, string>> = {};
+    if (config.ttsMode === 'neural' || config.ttsMode === 'standard') {
+      config.enabledLanguages.forEach(language => {
+        const voice = this.ttsService.getVoiceName(language, config.ttsMode as 'neural' | 'standard', config.voices?.[language]);
+        if (voice) {
+          voices[language] = voice;
+        }
+      });
+    }
+
+    return {
+      type: 'session-metadata',
+      config,
+      availableLanguages: config.enabledLanguages,
+      ttsAvailable: config.ttsMode !== 'disabled',
+      audioQuality: config.audioQuality,
+      voices
+    };
+  }
+
+  // ============================================================================
+  // Session Schedule Handlers (admin only)
+  // ============================================================================
+
+  /**
+   * Handle creating a recurring or one-off session schedule
+   */
+  private handleCreateSchedule(socket: Socket, data: any): void {
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND);
+      return;
+    }
+
+    if (!data?.schedule || typeof data.schedule !== 'object') {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_MISSING_REQUIRED_FIELD, {
+        operation: 'create-schedule',
+        validationErrors: ['schedule is required']
+      });
+      return;
+    }
+
+    if (!this.verifyScheduleSessionId(socket, data.schedule.sessionId, adminIdentity.adminId, 'create-schedule')) {
+      return;
+    }
+
+    const result = this.sessionScheduler.createSchedule(data.schedule, adminIdentity.adminId, adminIdentity.cognitoUsername);
+    if (!result.schedule) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'create-schedule',
+        validationErrors: [result.error || 'Invalid schedule']
+      });
+      return;
+    }
+
+    const response: ScheduleResponse = {
+      type: 'create-schedule-response',
+      success: true,
+      schedule: this.toScheduleSummary(result.schedule, adminIdentity.adminId),
+      timestamp: new Date().toISOString()
+    };
+    socket.emit('create-schedule-response', response);
+  }
+
+  /**
+   * Handle changing a schedule (owner only)
+   */
+  private handleUpdateSchedule(socket: Socket, data: any): void {
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND);
+      return;
+    }
+
+    const { scheduleId, changes } = data || {};
+    if (!scheduleId || !changes) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_MISSING_REQUIRED_FIELD, {
+        operation: 'update-schedule',
+        validationErrors: ['scheduleId and changes are required']
+      });
+      return;
+    }
+
+    if (!this.verifyScheduleOwner(socket, scheduleId, adminIdentity.adminId, 'update-schedule')) {
+      return;
+    }
+    if (typeof changes === 'object' && 'sessionId' in changes &&
+        !this.verifyScheduleSessionId(socket, changes.sessionId, adminIdentity.adminId, 'update-schedule')) {
+      return;
+    }
+
+    const result = this.sessionScheduler.updateSchedule(scheduleId, changes);
+    if (!result.schedule) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'update-schedule',
+        validationErrors: [result.error || 'Invalid schedule update']
+      });
+      return;
+    }
+
+    const response: ScheduleResponse = {
+      type: 'update-schedule-response',
+      success: true,
+      schedule: this.toScheduleSummary(result.schedule, adminIdentity.adminId),
+      timestamp: new Date().toISOString()
+    };
+    socket.emit('update-schedule-response', response);
+  }
+
+  /**
+   * Handle deleting a schedule (owner only). A session it started keeps running.
+   */
+  private handleDeleteSchedule(socket: Socket, data: any): void {
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND);
+      return;
+    }
+
+    const { scheduleId } = data || {};
+    if (!scheduleId) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_MISSING_REQUIRED_FIELD, {
+        operation: 'delete-schedule',
+        validationErrors: ['scheduleId is required']
+      });
+      return;
+    }
+
+    if (!this.verifyScheduleOwner(socket, scheduleId, adminIdentity.adminId, 'delete-schedule')) {
+      return;
+    }
+
+    this.sessionScheduler.deleteSchedule(scheduleId);
+    socket.emit('delete-schedule-response', {
+      type: 'delete-schedule-response',
+      success: true,
+      scheduleId,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Handle listing every schedule with its next occurrence
+   */
+  private handleListSchedules(socket: Socket, data?: any): void {
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND);
+      return;
+    }
+
+    const schedules = this.sessionScheduler.getSchedules()
+      .map(schedule => this.toScheduleSummary(schedule, adminIdentity.adminId));
+
+    socket.emit('list-schedules-response', {
+      type: 'list-schedules-response',
+      schedules,
+      timestamp: new Date().toISOString()
+    });
+
+    console.log(`Listed ${schedules.length} schedules for admin ${adminIdentity.cognitoUsername}`);
+  }
+
+  private verifyScheduleOwner(socket: Socket, scheduleId: string, adminId: string, operation: string): boolean {
+    const schedule = this.sessionScheduler.getSchedule(scheduleId);
+    if (!schedule) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation,
+        validationErrors: [`Schedule not found: ${scheduleId}`]
+      });
+      return false;
+    }
+
+    if (schedule.adminId !== adminId) {
+      this.sendAdminError(socket, AdminErrorCode.AUTHZ_ACCESS_DENIED, { operation });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * A schedule may not use the session ID of a session owned by another admin;
+   * the scheduler would otherwise take over and end that session.
+   */
+  private verifyScheduleSessionId(socket: Socket, sessionId: any, adminId: string, operation: string): boolean {
+    const ownership = typeof sessionId === 'string' ? this.sessionManager.getSessionOwnership(sessionId) : null;
+    if (ownership && ownership.adminId !== adminId) {
+      this.sendAdminError(socket, AdminErrorCode.AUTHZ_SESSION_NOT_OWNED, {
+        operation,
+        sessionId,
+        validationErrors: [`Session ID ${sessionId} is used by a session owned by another admin`]
+      });
+      return false;
+    }
+    return true;
+  }
+
+  private toScheduleSummary(schedule: SessionSchedule, adminId: string): ScheduleSummary {
+    return {
+      ...schedule,
+      isOwner: schedule.adminId === adminId,
+      nextOccurrence: this.sessionScheduler.getNextOccurrence(schedule)
+    };
+  }
+
+  /**
+   * Create the session of a schedule whose time has come, owned by the schedule's admin.
+   * A session the admin already started by hand under that ID is kept as it is; a session
+   * owned by another admin is left alone and the occurrence does not start.
+   */
+  private startScheduledSession(schedule: SessionSchedule, occurrence: ScheduledOccurrence): void {
+    try {
+      const ownership = this.sessionManager.getSessionOwnership(schedule.sessionId);
+      if (ownership && ownership.adminId !== schedule.adminId) {
+        console.warn(`Scheduled session ${schedule.sessionId} (${schedule.name}) not started: the session is owned by another admin`);
+        return;
+      }
+
+      if (ownership) {
+        console.log(`Scheduled session ${schedule.sessionId} is already running; it will end at ${occurrence.endsAt}`);
+      } else {
+        const adminSockets = this.adminIdentityManager.getAdminSockets(schedule.adminId);
+        const sessionData = this.sessionManager.createSession(
+          schedule.sessionId,
+          schedule.config,
+          schedule.adminId,
+          adminSockets[0] || null,
+          schedule.createdBy
+        );
+        this.adminIdentityManager.addOwnedSession(schedule.adminId, schedule.sessionId);
+        this.transcriptArchive.startSession(schedule.sessionId, sessionData.createdAt, sessionData.adminId);
+        console.log(`Started scheduled session ${schedule.sessionId} (${schedule.name})`);
+      }
+
+      this.notifyScheduleOwner(schedule, occurrence, 'started');
+    } catch (error) {
+      console.error(`Failed to start scheduled session ${schedule.sessionId}:`, error);
+    }
+  }
+
+  /**
+   * End the session of an occurrence that is over. Only a session owned by the schedule's
+   * admin is ended, so one started under the same ID by another admin keeps running.
+   */
+  private endScheduledSession(schedule: SessionSchedule, occurrence: ScheduledOccurrence): void {
+    const ownership = this.sessionManager.getSessionOwnership(schedule.sessionId);
+    if (!ownership) {
+      return;
+    }
+    if (ownership.adminId !== schedule.adminId) {
+      console.warn(`Scheduled session ${schedule.sessionId} (${schedule.name}) not ended: the session is owned by another admin`);
+      return;
+    }
+
+    if (this.terminateSession(schedule.sessionId, 'schedule-ended')) {
+      console.log(`Ended scheduled session ${schedule.sessionId} (${schedule.name})`);
+      this.notifyScheduleOwner(schedule, occurrence, 'ended');
+    }
+  }
+
+  private notifyScheduleOwner(
+    schedule: SessionSchedule,
+    occurrence: ScheduledOccurrence,
+    event: ScheduledSessionNotification['event']
+  ): void {
+    const notification: ScheduledSessionNotification = {
+      type: 'scheduled-session',
+      event,
+      scheduleId: schedule.scheduleId,
+      sessionId: schedule.sessionId,
+      name: schedule.name,
+      startsAt: occurrence.startsAt,
+      endsAt: occurrence.endsAt,
+      timestamp: new Date().toISOString()
+    };
+    this.adminIdentityManager.getAdminSockets(schedule.adminId).forEach(socketId => {
+      this.io.to(socketId).emit('scheduled-session', notification);
+    });
+  }
+
+  /**
+   * Handle client joining session
+   */
+  private handleJoinSession(socket: Socket, data: any): void {
+    console.log('DEBUG: handleJoinSession called with data:', JSON.stringify(data, null, 2));
+    
+    const validation = MessageValidator.validateJoinSession(data);
+    console.log('DEBUG: validation result:', validation);
+    
+    if (!validation.valid || !validation.message) {
+      console.log('DEBUG: Validation failed, sending error');
+      this.sendError(socket, 400, validation.error || 'Invalid join session message');
+      return;
+    }
+
+    const { sessionId, preferredLanguage, audioCapabilities, displayClient, lastSequence, epoch } = validation.message;
+
+    const success = this.sessionManager.addClient(
+      sessionId,
+      socket.id,
+      socket.id,
+      preferredLanguage,
+      audioCapabilities,
+      displayClient === true
+    );
+    
+    if (success) {
+      const session = this.sessionManager.getSession(sessionId);
+      if (session) {
+        socket.join(sessionId);
+        
+        socket.emit('session-joined', this.buildSessionMetadata(session.config));
+        console.log(`Client ${socket.id} joined session: ${sessionId}`);
+
+        // Catch up congregants who join or reconnect mid-service; overlays only show new lines
+        if (displayClient) {
+          // Nothing to catch up
+        } else if (lastSequence !== undefined && epoch === this.translationHistory.getEpoch(sessionId) &&
+                   lastSequence <= this.translationHistory.getCurrentSequence(sessionId)) {
+          this.sendTranslationReplay(socket, sessionId, preferredLanguage, lastSequence);
+        } else {
+          // First join, or numbering began again (server restart, reused session ID)
+          this.sendTranslationHistory(socket, sessionId, preferredLanguage, 'join');
+        }
+      }
+    } else {
+      this.sendError(socket, 404, 'Session not found or join failed', { sessionId });
+    }
+  }
+
+  /**
+   * Handle client leaving session
+   */
+  private handleLeaveSession(socket: Socket, data: any): void {
+    const validation = MessageValidator.validateLeaveSession(data);
+    if (!validation.valid || !validation.message) {
+      this.sendError(socket, 400, validation.error || 'Invalid leave session message');
+      return;
+    }
+
+    const { sessionId } = validation.message;
+    const success = this.sessionManager.removeClient(sessionId, socket.id);
+    
+    if (success) {
+      socket.leave(sessionId);
+      socket.emit('session-left', {
+        type: 'session-left',
+        sessionId,
+        timestamp: new Date().toISOString()
+      });
+      console.log(`Client ${socket.id} left session: ${sessionId}`);
+    }
+  }
+
+  /**
+   * Handle language change
+   */
+  private handleLanguageChange(socket: Socket, data: any): void {
+    const validation = MessageValidator.validateLanguageChange(data);
+    if (!validation.valid || !validation.message) {
+      this.sendError(socket, 400, validation.error || 'Invalid language change message');
+      return;
+    }
+
+    const { sessionId, newLanguage } = validation.message;
+    const success = this.sessionManager.updateClientLanguage(sessionId, socket.id, newLanguage);
+    
+    if (success) {
+      socket.emit('language-changed', {
+        type: 'language-changed',
+        sessionId,
+        language: newLanguage,
+        timestamp: new Date().toISOString()
+      });
+      console.log(`Client ${socket.id} changed language to ${newLanguage} in session: ${sessionId}`);
+      this.sendTranslationHistory(socket, sessionId, newLanguage, 'language-change');
+    } else {
+      this.sendError(socket, 404, 'Session not found or language change failed', { sessionId });
+    }
+  }
+
+  /**
+   * Handle a client confirming the translations it has shown
+   */
+  private handleTranslationAck(socket: Socket, data: any): void {
+    const { sessionId, sequence } = data || {};
+    if (typeof sessionId !== 'string' || !Number.isInteger(sequence) || sequence < 0) {
+      this.sendError(socket, 400, 'Invalid translation ack message');
+      return;
+    }
+
+    if (this.sessionManager.updateClientAck(sessionId, socket.id, sequence)) {
+      this.scheduleLagReport(sessionId);
+    }
+  }
+
+  /**
+   * Handle configuration updates (admin only)
+   */
+  private handleConfigUpdate(socket: Socket, data: any): void {
+    // Get admin identity
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND);
+      return;
+    }
+
+    const validation = MessageValidator.validateConfigUpdate(data);
+    if (!validation.valid || !validation.message) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'update-session-config',
+        validationErrors: [validation.error || 'Invalid config update message']
+      });
+      return;
+    }
+
+    const { sessionId, config } = validation.message;
+    
+    // Verify admin ownership
+    if (!this.sessionManager.verifyAdminAccess(sessionId, adminIdentity.adminId, 'write')) {
+      this.sendAdminError(socket, AdminErrorCode.AUTHZ_SESSION_NOT_OWNED, {
+        sessionId,
+        adminId: adminIdentity.adminId
+      });
+      return;
+    }
+    
+    const success = this.sessionManager.updateSessionConfig(sessionId, config);
+    
+    if (success) {
+      // Get updated session metadata
+      const metadata = this.sessionManager.getSessionMetadata(sessionId);
+      
+      if (metadata) {
+        // Broadcast session metadata update to all clients
+        this.io.to(sessionId).emit('session-metadata-update', {
+          type: 'session-metadata-update',
+          sessionId,
+          metadata,
+          timestamp: new Date().toISOString()
+        });
+      }
+      
+      // Broadcast config update to all clients in the session
+      this.io.to(sessionId).emit('config-updated', {
+        type: 'config-updated',
+        sessionId,
+        config,
+        timestamp: new Date().toISOString()
+      });
+
+      // Listeners' apps show the voice for their language from the session metadata
+      const session = this.sessionManager.getSession(sessionId);
+      if (session) {
+        this.io.to(sessionId).emit('session-metadata', this.buildSessionMetadata(session.config));
+      }
+      
+      // Send success response to admin
+      socket.emit('update-session-config-response', {
+        type: 'update-session-config-response',
+        success: true,
+        sessionId,
+        config,
+        timestamp: new Date().toISOString()
+      });
+      
+      console.log(`Config updated for session: ${sessionId} by admin ${adminIdentity.cognitoUsername}`);
+    } else {
+      this.sendAdminError(socket, AdminErrorCode.SESSION_UPDATE_FAILED, { sessionId });
+    }
+  }
+
+  /**
+   * Handle TTS configuration updates (admin only)
+   */
+  private handleTTSConfigUpdate(socket: Socket, data: any): void {
+    const { sessionId, ttsMode, audioQuality } = data;
+    
+    if (!sessionId || !ttsMode) {
+      this.sendError(socket, 400, 'Missing required fields: sessionId, ttsMode');
+      return;
+    }
+
+    const success = this.sessionManager.updateTTSMode(sessionId, ttsMode);
+    
+    if (success && audioQuality) {
+      this.sessionManager.updateAudioQuality(sessionId, audioQuality);
+    }
+    
+    if (success) {
+      // Broadcast TTS config update to all clients
+      this.broadcastTTSConfigUpdate(sessionId, ttsMode);
+      
+      // Get updated session metadata
+      const metadata = this.sessionManager.getSessionMetadata(sessionId);
+      if (metadata) {
+        this.io.to(sessionId).emit('session-metadata-update', {
+          type: 'session-metadata-update',
+          sessionId,
+          metadata,
+          timestamp: new Date().toISOString()
+        });
+      }
+      
+      console.log(`TTS config updated for session: ${sessionId}, mode: ${ttsMode}`);
+    } else {
+      this.sendError(socket, 404, 'Session not found or TTS config update failed', { sessionId });
+    }
+  }
+
+  /**
+   * Handle language updates (admin only)
+   */
+  private handleLanguageUpdate(socket: Socket, data: any): void {
+    const { sessionId, enabledLanguages } = data;
+    
+    if (!sessionId || !enabledLanguages || !Array.isArray(enabledLanguages)) {
+      this.sendError(socket, 400, 'Missing required fields: sessionId, enabledLanguages');
+      return;
+    }
+
+    // Get current languages to determine which were removed
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) {
+      this.sendError(socket, 404, 'Session not found', { sessionId });
+      return;
+    }
+
+    const currentLanguages = session.config.enabledLanguages;
+    const removedLanguages = currentLanguages.filter(lang => !enabledLanguages.includes(lang));
+    
+    const success = this.sessionManager.updateEnabledLanguages(sessionId, enabledLanguages);
+    
+    if (success) {
+      // Notify clients affected by language removal
+      if (removedLanguages.length > 0) {
+        const affectedClients = this.sessionManager.getClientsAffectedByLanguageChange(sessionId, removedLanguages);
+        
+        affectedClients.forEach(client => {
+          this.io.to(client.socketId).emit('language-removed', {
+            type: 'language-removed',
+            sessionId,
+            removedLanguage: client.preferredLanguage,
+            availableLanguages: enabledLanguages,
+            timestamp: new Date().toISOString()
+          });
+        });
+      }
+      
+      // Broadcast language update to all clients
+      this.io.to(sessionId).emit('language-update', {
+        type: 'language-update',
+        sessionId,
+        enabledLanguages,
+        removedLanguages,
+        timestamp: new Date().toISOString()
+      });
+      
+      // Get updated session metadata
       const metadata = this.sessionManager.getSessionMetadata(sessionId);
       if (metadata) {
         this.io.to(sessionId).emit('session-metadata-update', {
           type: 'session-metadata-update',
           sessionId,
-          metadata,
-          timestamp: new Date().toISOString()
+          metadata,
+          timestamp: new Date().toISOString()
+        });
+      }
+      
+      console.log(`Languages updated for session: ${sessionId}, enabled: [${enabledLanguages.join(', ')}], removed: [${removedLanguages.join(', ')}]`);
+    } else {
+      this.sendError(socket, 404, 'Session not found or language update failed', { sessionId });
+    }
+  }
+
+  /**
+   * Handle direct TTS generation requests (admin only)
+   */
+  private async handleGenerateTTS(socket: Socket, data: any): Promise<void> {
+    const { sessionId, text, language, voiceType } = data;
+    
+    if (!sessionId || !text || !language) {
+      this.sendError(socket, 400, 'Missing required fields: sessionId, text, language');
+      return;
+    }
+
+    // Get session to check TTS configuration
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) {
+      this.sendError(socket, 404, 'Session not found', { sessionId });
+      return;
+    }
+
+    if (session.config.ttsMode === 'disabled') {
+      this.sendError(socket, 400, 'TTS is disabled for this session', { sessionId });
+      return;
+    }
+
+    try {
+      const effectiveVoiceType = voiceType || session.config.ttsMode;
+      const speech = this.getSpeechOptions(sessionId, language);
+      const variant = speechVariant(text, speech);
+      
+      // Check for cached audio first
+      let audioInfo = null;
+      if (this.audioManager) {
+        audioInfo = this.audioManager.getAudioInfo(text, language, effectiveVoiceType, variant);
+      }
+
+      if (!audioInfo) {
+        // Generate new TTS audio
+        console.log(`Generating TTS for direct request: ${text.substring(0, 50)}... (${language}, ${effectiveVoiceType})`);
+        
+        const ttsResult = await this.ttsFallbackManager.generateAudioWithFallback(
+          text,
+          language,
+          effectiveVoiceType,
+          sessionId,
+          speech
+        );
+        if (!ttsResult.audioBuffer) {
+          throw new Error(ttsResult.error || 'No server TTS engine could produce audio');
+        }
+
+        // Store audio if audio manager is available
+        if (this.audioManager) {
+          audioInfo = await this.audioManager.storeAudioFile(
+            ttsResult.audioBuffer,
+            text,
+            language,
+            ttsResult.voiceType || effectiveVoiceType,
+            ttsResult.format,
+            ttsResult.duration,
+            variant
+          );
+        }
+      }
+
+      // Send TTS result back to admin
+      socket.emit('tts-generated', {
+        type: 'tts-generated',
+        sessionId,
+        text,
+        language,
+        audioUrl: audioInfo?.url,
+        audioMetadata: audioInfo ? {
+          audioId: audioInfo.id,
+          url: audioInfo.url,
+          duration: audioInfo.duration,
+          format: audioInfo.format,
+          voiceType: audioInfo.voiceType,
+          size: audioInfo.size
+        } : undefined,
+        timestamp: new Date().toISOString()
+      });
+
+      console.log(`TTS generation completed for direct request: ${language}`);
+    } catch (error) {
+      console.error('Direct TTS generation failed:', error);
+      this.sendError(socket, 500, 'TTS generation failed', { 
+        sessionId, 
+        language, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+    }
+  }
+
+  /**
+   * Handle translation broadcasting (admin only)
+   */
+  private async handleTranslationBroadcast(socket: Socket, data: any): Promise<void> {
+    const { sessionId, translations, audioResults, original, generateTTS, voiceType, sourceLanguage, requestId } = data;
+    const speaker = this.sanitizeSpeaker(data.speaker);
+    const scripture = this.sanitizeScripture(data.scripture);
+    
+    if (!sessionId) {
+      this.sendError(socket, 400, 'Missing sessionId');
+      return;
+    }
+
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) {
+      this.sendError(socket, 404, 'Session not found', { sessionId });
+      return;
+    }
+
+    // While the operator is stepping through prepared content, live speech is not broadcast
+    if (session.mode === 'scripted') {
+      console.log(`Dropping live broadcast for session ${sessionId} (scripted mode)`);
+      return;
+    }
+
+    if (sourceLanguage && TerminologyManager.isValidSourceLanguage(sourceLanguage)) {
+      this.notifySourceLanguageChange(sessionId, sourceLanguage);
+    }
+
+    // Assign the stable segment ID before anything is sent so corrections can reference it
+    const segment = this.segmentStore.addSegment(
+      sessionId,
+      original,
+      translations || {},
+      session.detectedSourceLanguage || session.config.sourceLanguage,
+      speaker
+    );
+    this.transcriptArchive.addSegment(segment, session.createdAt, session.adminId);
+    const response: BroadcastTranslationResponse = {
+      type: 'broadcast-translation-response',
+      sessionId,
+      segmentId: segment.segmentId,
+      requestId,
+      timestamp: segment.timestamp
+    };
+    socket.emit('broadcast-translation-response', response);
+
+    await this.deliverSegment(sessionId, segment.segmentId, original, translations, {
+      generateTTS: generateTTS !== false,
+      voiceType,
+      audioResults,
+      speaker,
+      scripture
+    });
+  }
+
+  /**
+   * Send a stored segment to every client in its listener's language over the 'translation' event.
+   * The text goes out right away; TTS audio follows as 'translation-audio' parts, see deliverSegmentAudio.
+   * Shared by live broadcasts and scripted content.
+   */
+  private async deliverSegment(
+    sessionId: string,
+    segmentId: string,
+    original: string,
+    translations: Partial<Record<string, string>> | undefined,
+    options: {
+      generateTTS: boolean;
+      voiceType?: any;
+      audioResults?: any[];
+      speaker?: SpeakerLabel;
+      scripture?: Record<string, ScripturePassage[]>;
+      sourceLanguage?: string;
+    }
+  ): Promise<void> {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) {
+      return;
+    }
+
+    // Get all clients in session. With nobody listening the lines are still kept for late joiners.
+    const clients = this.sessionManager.getSessionClients(sessionId);
+
+    // Determine if we should generate TTS
+    const shouldGenerateTTS = options.generateTTS && session.config.ttsMode !== 'disabled';
+    const effectiveVoiceType = options.voiceType || session.config.ttsMode;
+
+    console.log(`Broadcasting translations to ${clients.length} clients (TTS: ${shouldGenerateTTS}, mode: ${effectiveVoiceType})`);
+
+    // Caption overlays never play audio, so languages only they follow get no TTS
+    const audioLanguages = new Set(shouldGenerateTTS
+      ? clients.filter(c => !c.isDisplay).map(c => c.preferredLanguage)
+      : []);
+
+    // One line per translated language, kept in the history even when nobody follows that language yet
+    const sequence = this.translationHistory.nextSequence(sessionId);
+    const epoch = this.translationHistory.getEpoch(sessionId);
+    const lines = new Map<string, TranslationHistoryEntry>();
+    const pendingAudio = new Map<string, string>();
+    Object.entries(translations || {}).forEach(([lang, translatedText]) => {
+      if (!translatedText) return;
+
+      // Audio the admin app already generated is sent with the text
+      const audioData = options.audioResults?.find((a: any) => a.language === lang);
+      const audioPending = !audioData?.audioUrl && audioLanguages.has(lang);
+      const line: TranslationHistoryEntry = {
+        sequence,
+        segmentId,
+        original,
+        text: translatedText,
+        language: lang as SharedTargetLanguage,
+        sourceLanguage: (options.sourceLanguage || session.detectedSourceLanguage || session.config.sourceLanguage) as SourceLanguage,
+        speaker: options.speaker,
+        scripture: options.scripture?.[lang],
+        timestamp: Date.now(),
+        audioUrl: audioData?.audioUrl || null,
+        audioMetadata: audioData?.audioMetadata || null,
+        ttsAvailable: !!audioData?.audioUrl,
+        ...(audioPending ? { audioPending: true } : {})
+      };
+      lines.set(lang, line);
+      this.translationHistory.record(sessionId, line);
+      if (audioPending) {
+        pendingAudio.set(lang, translatedText);
+      }
+    });
+
+    // Send to each client based on their language preference
+    clients.forEach(client => {
+      const line = lines.get(client.preferredLanguage);
+      if (line) {
+        this.io.to(client.socketId).emit('translation', { type: 'translation', sessionId, epoch, ...line });
+      }
+    });
+    this.scheduleLagReport(sessionId);
+    
+    console.log(`Broadcasted translations to ${clients.length} clients in session ${sessionId}`);
+
+    if (pendingAudio.size > 0) {
+      await this.deliverSegmentAudio(sessionId, segmentId, sequence, pendingAudio, effectiveVoiceType);
+    }
+  }
+
+  /**
+   * Synthesize the audio of a delivered segment and send it as 'translation-audio' parts.
+   * Long texts are split into sentence chunks. Chunks of all languages run in parallel through
+   * the TTS scheduler, first chunks first, and each part is sent as soon as it and the parts
+   * before it are ready. A language's parts wait for the previous line's, so clients can play
+   * parts in arrival order.
+   */
+  private async deliverSegmentAudio(
+    sessionId: string,
+    segmentId: string,
+    sequence: number,
+    texts: Map<string, string>,
+    voiceType: any
+  ): Promise<void> {
+    const chunksByLanguage = new Map<string, string[]>();
+    texts.forEach((text, lang) => chunksByLanguage.set(lang, this.ttsScheduler.splitIntoChunks(text)));
+
+    // Queue chunk 0 of every language, then chunk 1, and so on
+    const jobs = new Map<string, Promise<TranslationAudioPart>[]>();
+    const longest = Math.max(...Array.from(chunksByLanguage.values()).map(chunks => chunks.length));
+    for (let index = 0; index < longest; index++) {
+      chunksByLanguage.forEach((chunks, lang) => {
+        if (index >= chunks.length) return;
+        const text = chunks[index];
+        const job = this.ttsScheduler.run(async (): Promise<TranslationAudioPart> => {
+          const audio = await this.generateTranslationAudio(text, lang, voiceType, sessionId);
+          return { text, audioUrl: audio?.audioUrl || null, audioMetadata: audio?.audioMetadata || null };
+        });
+        jobs.set(lang, [...(jobs.get(lang) || []), job]);
+      });
+    }
+
+    const deliveries = Array.from(jobs.entries()).map(([lang, parts]) => {
+      const chainKey = `${sessionId}:${lang}`;
+      const previous = this.audioDeliveryChains.get(chainKey) || Promise.resolve();
+      const delivery = previous.then(async () => {
+        const sent: TranslationAudioPart[] = [];
+        for (let partIndex = 0; partIndex < parts.length; partIndex++) {
+          const part = await parts[partIndex];
+          sent.push(part);
+
+          const message: TranslationAudioMessage = {
+            type: 'translation-audio',
+            sessionId,
+            sequence,
+            segmentId,
+            language: lang as SharedTargetLanguage,
+            partIndex,
+            partCount: parts.length,
+            ...part,
+            timestamp: new Date().toISOString()
+          };
+          // Listeners who switched to this language after the text went out ignore parts of lines they never got
+          this.sessionManager.getSessionClients(sessionId)
+            .filter(client => client.preferredLanguage === lang && !client.isDisplay)
+            .forEach(client => this.io.to(client.socketId).emit('translation-audio', message));
+        }
+
+        const firstAudio = sent.find(part => part.audioUrl);
+        this.translationHistory.applyAudio(sessionId, lang as SharedTargetLanguage, segmentId, {
+          audioUrl: firstAudio?.audioUrl || null,
+          audioMetadata: firstAudio?.audioMetadata || null,
+          ttsAvailable: !!firstAudio,
+          audioPending: false,
+          audioParts: sent
+        });
+      });
+
+      this.audioDeliveryChains.set(chainKey, delivery);
+      return delivery.finally(() => {
+        if (this.audioDeliveryChains.get(chainKey) === delivery) {
+          this.audioDeliveryChains.delete(chainKey);
+        }
+      });
+    });
+
+    await Promise.all(deliveries);
+  }
+
+  /**
+   * Generate (or reuse cached) TTS audio for one language of a segment.
+   * Returns null when no audio could be produced; the text is still delivered.
+   */
+  private async generateTranslationAudio(
+    translatedText: string,
+    lang: string,
+    voiceType: any,
+    sessionId?: string
+  ): Promise<{ audioUrl?: string; audioMetadata?: any } | null> {
+    try {
+      const speech = this.getSpeechOptions(sessionId, lang);
+      const variant = speechVariant(translatedText, speech);
+
+      // Check for cached audio first
+      let audioInfo = null;
+      if (this.audioManager) {
+        audioInfo = this.audioManager.getAudioInfo(translatedText, lang as TargetLanguage, voiceType, variant);
+      }
+
+      if (!audioInfo) {
+        // Generate new TTS audio
+        console.log(`Generating TTS for ${lang}: ${translatedText.substring(0, 50)}...`);
+        
+        const ttsResult = await this.ttsFallbackManager.generateAudioWithFallback(
+          translatedText,
+          lang as TargetLanguage,
+          voiceType,
+          sessionId,
+          speech
+        );
+        if (!ttsResult.audioBuffer) {
+          // Clients speak the text with their own TTS, or show it only
+          console.log(`No server audio for ${lang} (${ttsResult.fallbackUsed})`);
+          return null;
+        }
+
+        // Track cost if pollyService is available
+        if (this.pollyService && ttsResult.fallbackUsed === 'polly') {
+          // Use private method to track cost - calculate characters and voice type
+          const charCount = translatedText.length;
+          const usedVoiceType = ttsResult.voiceType || voiceType;
+          // Call cost tracking directly via the service's internal method
+          // Since we can't access private methods, we'll need to generate through pollyService instead
+          // For now, just log that we should track this
+          console.log(`TTS generated: ${charCount} chars, ${usedVoiceType} voice (cost tracking needed)`);
+        }
+
+        // Store audio if audio manager is available
+        if (this.audioManager) {
+          audioInfo = await this.audioManager.storeAudioFile(
+            ttsResult.audioBuffer,
+            translatedText,
+            lang as TargetLanguage,
+            ttsResult.voiceType || voiceType,
+            ttsResult.format,
+            ttsResult.duration,
+            variant
+          );
+        }
+      } else {
+        console.log(`Using cached audio for ${lang}`);
+      }
+
+      if (!audioInfo) {
+        return null;
+      }
+
+      return {
+        audioUrl: audioInfo.url,
+        audioMetadata: {
+          audioId: audioInfo.id,
+          url: audioInfo.url,
+          duration: audioInfo.duration,
+          format: audioInfo.format,
+          voiceType: audioInfo.voiceType,
+          size: audioInfo.size
+        }
+      };
+    } catch (error) {
+      console.error(`Failed to generate TTS for ${lang}:`, error);
+      // Continue without audio for this language
+      return null;
+    }
+  }
+
+  /**
+   * Handle a correction to a segment that was already broadcast (admin only).
+   * Clients replace the line in place; audio is regenerated or marked stale.
+   */
+  private async handleCorrectTranslation(socket: Socket, data: any): Promise<void> {
+    const requestId = this.getRequestId(data);
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND, undefined, requestId);
+      return;
+    }
+
+    const { sessionId, segmentId, corrections, original } = data || {};
+
+    if (!sessionId || !segmentId || !corrections || typeof corrections !== 'object' || Object.keys(corrections).length === 0) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_MISSING_REQUIRED_FIELD, {
+        operation: 'correct-translation',
+        validationErrors: ['sessionId, segmentId and at least one corrected language are required']
+      }, requestId);
+      return;
+    }
+
+    if (!this.sessionManager.verifyAdminAccess(sessionId, adminIdentity.adminId, 'write')) {
+      this.sendAdminError(socket, AdminErrorCode.AUTHZ_SESSION_NOT_OWNED, { sessionId, operation: 'correct-translation' }, requestId);
+      return;
+    }
+
+    const validationErrors: string[] = [];
+    const cleaned: Partial<Record<SharedTargetLanguage, string>> = {};
+    for (const [language, text] of Object.entries(corrections)) {
+      if (!TerminologyManager.isValidTargetLanguage(language)) {
+        validationErrors.push(`Unsupported language: ${language}`);
+      } else if (typeof text !== 'string' || !text.trim()) {
+        validationErrors.push(`${language}: corrected text is required`);
+      } else if (text.length > MAX_CORRECTION_LENGTH) {
+        validationErrors.push(`${language}: corrected text exceeds ${MAX_CORRECTION_LENGTH} characters`);
+      } else {
+        cleaned[language] = text.trim();
+      }
+    }
+    if (original !== undefined && (typeof original !== 'string' || original.length > MAX_CORRECTION_LENGTH)) {
+      validationErrors.push('original must be a string of at most 5000 characters');
+    }
+    if (validationErrors.length > 0) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'correct-translation',
+        validationErrors
+      }, requestId);
+      return;
+    }
+
+    const outcome = this.segmentStore.applyCorrection(
+      sessionId,
+      segmentId,
+      cleaned,
+      adminIdentity.cognitoUsername,
+      original?.trim() || undefined
+    );
+    if (!outcome) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'correct-translation',
+        validationErrors: [`Segment ${segmentId} is not known for session ${sessionId}`]
+      }, requestId);
+      return;
+    }
+    this.transcriptArchive.recordCorrection(outcome.segment);
+
+    const session = this.sessionManager.getSession(sessionId);
+    const clients = this.sessionManager.getSessionClients(sessionId);
+    const shouldGenerateTTS = !!session && session.config.ttsMode !== 'disabled';
+    const correctedLanguages = Object.keys(cleaned) as SharedTargetLanguage[];
+    const ttsRegenerated: SharedTargetLanguage[] = [];
+
+    for (const language of correctedLanguages) {
+      const text = cleaned[language]!;
+      const listeners = clients.filter(client => client.preferredLanguage === language);
+      if (listeners.length === 0) {
+        this.translationHistory.applyCorrection(sessionId, language, segmentId, {
+          text,
+          audioUrl: null,
+          audioMetadata: null,
+          ttsAvailable: false
         });
+        continue;
       }
-      
-      console.log(`TTS config updated for session: ${sessionId}, mode: ${ttsMode}`);
-    } else {
-      this.sendError(socket, 404, 'Session not found or TTS config update failed', { sessionId });
+
+      const needsAudio = shouldGenerateTTS && listeners.some(client => !client.isDisplay);
+      const audio = needsAudio ? await this.generateTranslationAudio(text, language, session!.config.ttsMode, sessionId) : null;
+      if (audio) {
+        ttsRegenerated.push(language);
+      }
+      this.translationHistory.applyCorrection(sessionId, language, segmentId, {
+        text,
+        audioUrl: audio?.audioUrl || null,
+        audioMetadata: audio?.audioMetadata || null,
+        ttsAvailable: !!audio?.audioUrl
+      });
+
+      const correction: TranslationCorrectionMessage = {
+        type: 'translation-correction',
+        sessionId,
+        segmentId,
+        language,
+        text,
+        previousText: outcome.previous[language],
+        audioUrl: audio?.audioUrl || null,
+        audioMetadata: audio?.audioMetadata || null,
+        ttsAvailable: !!audio?.audioUrl,
+        audioStale: needsAudio && !audio,
+        timestamp: new Date().toISOString()
+      };
+      listeners.forEach(client => this.io.to(client.socketId).emit('translation-correction', correction));
+    }
+
+    const response: CorrectTranslationResponse = {
+      type: 'correct-translation-response',
+      requestId,
+      success: true,
+      sessionId,
+      segmentId,
+      correctedLanguages,
+      ttsRegenerated,
+      timestamp: new Date().toISOString()
+    };
+    socket.emit('correct-translation-response', response);
+
+    console.log(`Segment ${segmentId} corrected by ${adminIdentity.cognitoUsername} (${correctedLanguages.join(', ')})`);
+  }
+
+  // ============================================================================
+  // Scripted Content Handlers
+  // ============================================================================
+
+  /**
+   * Handle a script upload (admin only). The response is sent straight away;
+   * translation and TTS pre-generation continue in the background with script-progress updates.
+   */
+  private handleUploadScript(socket: Socket, data: any): void {
+    const requestId = this.getRequestId(data);
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND, undefined, requestId);
+      return;
+    }
+
+    const { sessionId, title, sourceLanguage, document, segments } = data || {};
+
+    if (!sessionId || !title || !sourceLanguage || (document === undefined && segments === undefined)) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_MISSING_REQUIRED_FIELD, {
+        operation: 'upload-script',
+        validationErrors: ['sessionId, title, sourceLanguage and a document or segments are required']
+      }, requestId);
+      return;
+    }
+
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) {
+      this.sendAdminError(socket, AdminErrorCode.SESSION_NOT_FOUND, { sessionId }, requestId);
+      return;
+    }
+
+    if (!this.sessionManager.verifyAdminAccess(sessionId, adminIdentity.adminId, 'write')) {
+      this.sendAdminError(socket, AdminErrorCode.AUTHZ_SESSION_NOT_OWNED, { sessionId, operation: 'upload-script' }, requestId);
+      return;
+    }
+
+    const validationErrors: string[] = [];
+    if (typeof title !== 'string' || !title.trim() || title.length > MAX_SCRIPT_TITLE_LENGTH) {
+      validationErrors.push(`title must be 1-${MAX_SCRIPT_TITLE_LENGTH} characters`);
+    }
+    if (!TerminologyManager.isValidSourceLanguage(sourceLanguage)) {
+      validationErrors.push(`Unsupported source language: ${sourceLanguage}`);
+    }
+    if (document !== undefined && typeof document !== 'string') {
+      validationErrors.push('document must be a string');
+    }
+    if (segments !== undefined && !Array.isArray(segments)) {
+      validationErrors.push('segments must be an array');
+    }
+    if (validationErrors.length > 0) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'upload-script',
+        validationErrors
+      }, requestId);
+      return;
+    }
+
+    const inputs: ScriptSegmentInput[] = typeof document === 'string'
+      ? ScriptedContentManager.parseDocument(document)
+      : segments;
+    const segmentErrors = ScriptedContentManager.validateUpload(document, inputs);
+    if (segmentErrors.length > 0) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'upload-script',
+        validationErrors: segmentErrors
+      }, requestId);
+      return;
+    }
+
+    const script = this.scriptedContent.createScript(
+      sessionId,
+      title.trim(),
+      sourceLanguage,
+      inputs,
+      session.config.enabledLanguages,
+      adminIdentity.cognitoUsername
+    );
+
+    const response: UploadScriptResponse = {
+      type: 'upload-script-response',
+      requestId,
+      success: true,
+      script: script.summary,
+      segments: script.segments,
+      timestamp: new Date().toISOString()
+    };
+    socket.emit('upload-script-response', response);
+
+    // Audio lands in the AudioManager cache, where the broadcast path finds it later
+    const ttsMode = session.config.ttsMode;
+    const generateAudio = ttsMode === 'neural' || ttsMode === 'standard'
+      ? async (text: string, language: SharedTargetLanguage) => !!(await this.generateTranslationAudio(text, language, ttsMode, sessionId))
+      : undefined;
+
+    this.scriptedContent.prepare(sessionId, generateAudio).catch(error => {
+      console.error(`Failed to prepare script for session ${sessionId}:`, error);
+    });
+  }
+
+  /**
+   * Handle get script request (admin only)
+   */
+  private handleGetScript(socket: Socket, data: any): void {
+    const requestId = this.getRequestId(data);
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND, undefined, requestId);
+      return;
+    }
+
+    const { sessionId } = data || {};
+    if (!sessionId) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_MISSING_REQUIRED_FIELD, {
+        operation: 'get-script',
+        validationErrors: ['sessionId is required']
+      }, requestId);
+      return;
+    }
+
+    if (!this.sessionManager.verifyAdminAccess(sessionId, adminIdentity.adminId, 'read')) {
+      this.sendAdminError(socket, AdminErrorCode.AUTHZ_ACCESS_DENIED, { sessionId, operation: 'get-script' }, requestId);
+      return;
     }
+
+    const script = this.scriptedContent.getScript(sessionId);
+    const response: GetScriptResponse = {
+      type: 'get-script-response',
+      requestId,
+      sessionId,
+      script: script ? script.summary : null,
+      segments: script ? script.segments : [],
+      timestamp: new Date().toISOString()
+    };
+    socket.emit('get-script-response', response);
   }
 
   /**
-   * Handle language updates (admin only)
+   * Handle the operator stepping through a script (admin only). The chosen segment goes
+   * out over the same 'translation' event as live speech, with a new segment ID.
    */
-  private handleLanguageUpdate(socket: Socket, data: any): void {
-    const { sessionId, enabledLanguages } = data;
-    
-    if (!sessionId || !enabledLanguages || !Array.isArray(enabledLanguages)) {
-      this.sendError(socket, 400, 'Missing required fields: sessionId, enabledLanguages');
+  private async handleScriptControl(socket: Socket, data: any): Promise<void> {
+    const requestId = this.getRequestId(data);
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND, undefined, requestId);
       return;
     }
 
-    // Get current languages to determine which were removed
-    const session = this.sessionManager.getSession(sessionId);
-    if (!session) {
-      this.sendError(socket, 404, 'Session not found', { sessionId });
+    const { sessionId, action, index } = data || {};
+
+    if (!sessionId || !action) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_MISSING_REQUIRED_FIELD, {
+        operation: 'script-control',
+        validationErrors: ['sessionId and action are required']
+      }, requestId);
       return;
     }
 
-    const currentLanguages = session.config.enabledLanguages;
-    const removedLanguages = currentLanguages.filter(lang => !enabledLanguages.includes(lang));
-    
-    const success = this.sessionManager.updateEnabledLanguages(sessionId, enabledLanguages);
-    
-    if (success) {
-      // Notify clients affected by language removal
-      if (removedLanguages.length > 0) {
-        const affectedClients = this.sessionManager.getClientsAffectedByLanguageChange(sessionId, removedLanguages);
-        
-        affectedClients.forEach(client => {
-          this.io.to(client.socketId).emit('language-removed', {
-            type: 'language-removed',
-            sessionId,
-            removedLanguage: client.preferredLanguage,
-            availableLanguages: enabledLanguages,
-            timestamp: new Date().toISOString()
-          });
-        });
-      }
-      
-      // Broadcast language update to all clients
-      this.io.to(sessionId).emit('language-update', {
-        type: 'language-update',
+    if (!SCRIPT_ACTIONS.includes(action)) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'script-control',
+        validationErrors: [`action must be one of: ${SCRIPT_ACTIONS.join(', ')}`]
+      }, requestId);
+      return;
+    }
+
+    if (!this.sessionManager.verifyAdminAccess(sessionId, adminIdentity.adminId, 'write')) {
+      this.sendAdminError(socket, AdminErrorCode.AUTHZ_SESSION_NOT_OWNED, { sessionId, operation: 'script-control' }, requestId);
+      return;
+    }
+
+    if (action === 'clear') {
+      this.scriptedContent.clearScript(sessionId);
+      const response: ScriptControlResponse = {
+        type: 'script-control-response',
+        requestId,
+        success: true,
         sessionId,
-        enabledLanguages,
-        removedLanguages,
+        position: -1,
         timestamp: new Date().toISOString()
-      });
-      
-      // Get updated session metadata
-      const metadata = this.sessionManager.getSessionMetadata(sessionId);
-      if (metadata) {
-        this.io.to(sessionId).emit('session-metadata-update', {
-          type: 'session-metadata-update',
-          sessionId,
-          metadata,
-          timestamp: new Date().toISOString()
-        });
-      }
-      
-      console.log(`Languages updated for session: ${sessionId}, enabled: [${enabledLanguages.join(', ')}], removed: [${removedLanguages.join(', ')}]`);
-    } else {
-      this.sendError(socket, 404, 'Session not found or language update failed', { sessionId });
+      };
+      socket.emit('script-control-response', response);
+      return;
+    }
+
+    const script = this.scriptedContent.getScript(sessionId);
+    const segment = this.scriptedContent.resolveMove(sessionId, action as ScriptMoveAction, index);
+    if (!script || !segment) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'script-control',
+        validationErrors: [script ? 'No segment at that position' : `No script uploaded for session ${sessionId}`]
+      }, requestId);
+      return;
+    }
+
+    if (Object.keys(segment.translations).length === 0) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'script-control',
+        validationErrors: [`Segment ${segment.index + 1} has not been translated yet`]
+      }, requestId);
+      return;
+    }
+
+    this.scriptedContent.setPosition(sessionId, segment.index);
+
+    const stored = this.segmentStore.addSegment(
+      sessionId,
+      segment.original,
+      segment.translations,
+      script.summary.sourceLanguage
+    );
+    const session = this.sessionManager.getSession(sessionId);
+    if (session) {
+      this.transcriptArchive.addSegment(stored, session.createdAt, session.adminId);
     }
+    const response: ScriptControlResponse = {
+      type: 'script-control-response',
+      requestId,
+      success: true,
+      sessionId,
+      position: segment.index,
+      segmentId: stored.segmentId,
+      timestamp: stored.timestamp
+    };
+    socket.emit('script-control-response', response);
+
+    await this.deliverSegment(sessionId, stored.segmentId, segment.original, segment.translations, {
+      generateTTS: true,
+      sourceLanguage: script.summary.sourceLanguage
+    });
   }
 
   /**
-   * Handle direct TTS generation requests (admin only)
+   * Handle switching a session between live speech and scripted content (admin only)
    */
-  private async handleGenerateTTS(socket: Socket, data: any): Promise<void> {
-    const { sessionId, text, language, voiceType } = data;
-    
-    if (!sessionId || !text || !language) {
-      this.sendError(socket, 400, 'Missing required fields: sessionId, text, language');
+  private handleSetSessionMode(socket: Socket, data: any): void {
+    const requestId = this.getRequestId(data);
+    const adminIdentity = this.adminIdentityManager.getAdminBySocketId(socket.id);
+    if (!adminIdentity) {
+      this.sendAdminError(socket, AdminErrorCode.AUTH_SESSION_NOT_FOUND, undefined, requestId);
       return;
     }
 
-    // Get session to check TTS configuration
-    const session = this.sessionManager.getSession(sessionId);
-    if (!session) {
-      this.sendError(socket, 404, 'Session not found', { sessionId });
+    const { sessionId, mode } = data || {};
+
+    if (!sessionId || !mode) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_MISSING_REQUIRED_FIELD, {
+        operation: 'set-session-mode',
+        validationErrors: ['sessionId and mode are required']
+      }, requestId);
       return;
     }
 
-    if (session.config.ttsMode === 'disabled') {
-      this.sendError(socket, 400, 'TTS is disabled for this session', { sessionId });
+    if (!SESSION_MODES.includes(mode)) {
+      this.sendAdminError(socket, AdminErrorCode.VALIDATION_INVALID_INPUT, {
+        operation: 'set-session-mode',
+        validationErrors: [`mode must be one of: ${SESSION_MODES.join(', ')}`]
+      }, requestId);
       return;
     }
 
-    try {
-      const effectiveVoiceType = voiceType || session.config.ttsMode;
-      
-      // Check for cached audio first
-      let audioInfo = null;
-      if (this.audioManager) {
-        audioInfo = this.audioManager.getAudioInfo(text, language, effectiveVoiceType);
-      }
+    if (!this.sessionManager.getSession(sessionId)) {
+      this.sendAdminError(socket, AdminErrorCode.SESSION_NOT_FOUND, { sessionId }, requestId);
+      return;
+    }
 
-      if (!audioInfo) {
-        // Generate new TTS audio
-        console.log(`Generating TTS for direct request: ${text.substring(0, 50)}... (${language}, ${effectiveVoiceType})`);
-        
-        const ttsResult = await this.ttsService.synthesizeSpeech(
-          text,
-          language,
-          effectiveVoiceType
-        );
+    if (!this.sessionManager.verifyAdminAccess(sessionId, adminIdentity.adminId, 'write')) {
+      this.sendAdminError(socket, AdminErrorCode.AUTHZ_SESSION_NOT_OWNED, { sessionId, operation: 'set-session-mode' }, requestId);
+      return;
+    }
 
-        // Store audio if audio manager is available
-        if (this.audioManager) {
-          audioInfo = await this.audioManager.storeAudioFile(
-            ttsResult.audioBuffer,
-            text,
-            language,
-            ttsResult.voiceType,
-            ttsResult.format,
-            ttsResult.duration
-          );
-        }
-      }
+    const changed = this.sessionManager.setSessionMode(sessionId, mode);
 
-      // Send TTS result back to admin
-      socket.emit('tts-generated', {
-        type: 'tts-generated',
-        sessionId,
-        text,
-        language,
-        audioUrl: audioInfo?.url,
-        audioMetadata: audioInfo ? {
-          audioId: audioInfo.id,
-          url: audioInfo.url,
-          duration: audioInfo.duration,
-          format: audioInfo.format,
-          voiceType: audioInfo.voiceType,
-          size: audioInfo.size
-        } : undefined,
-        timestamp: new Date().toISOString()
-      });
+    const response: SetSessionModeResponse = {
+      type: 'set-session-mode-response',
+      requestId,
+      success: true,
+      sessionId,
+      mode,
+      timestamp: new Date().toISOString()
+    };
+    socket.emit('set-session-mode-response', response);
 
-      console.log(`TTS generation completed for direct request: ${language}`);
-    } catch (error) {
-      console.error('Direct TTS generation failed:', error);
-      this.sendError(socket, 500, 'TTS generation failed', { 
-        sessionId, 
-        language, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
-      });
+    if (changed) {
+      const notification: SessionModeChangedNotification = {
+        type: 'session-mode-changed',
+        sessionId,
+        mode,
+        timestamp: response.timestamp
+      };
+      this.io.to([sessionId, ...this.getSessionAdminSockets(sessionId)]).emit('session-mode-changed', notification);
     }
   }
 
   /**
-   * Handle translation broadcasting (admin only)
+   * Accept a speaker label only in the expected shape; anything else is dropped
    */
-  private async handleTranslationBroadcast(socket: Socket, data: any): Promise<void> {
-    const { sessionId, translations, audioResults, original, generateTTS, voiceType } = data;
-    
-    if (!sessionId) {
-      this.sendError(socket, 400, 'Missing sessionId');
-      return;
+  private sanitizeSpeaker(speaker: any): SpeakerLabel | undefined {
+    if (!speaker || typeof speaker.id !== 'string' || typeof speaker.name !== 'string') {
+      return undefined;
     }
+    const name = speaker.name.trim().substring(0, 40);
+    return name ? { id: speaker.id.substring(0, 20), name } : undefined;
+  }
 
-    const session = this.sessionManager.getSession(sessionId);
-    if (!session) {
-      this.sendError(socket, 404, 'Session not found', { sessionId });
-      return;
+  /**
+   * Keep only well-formed scripture passages (per language) within sensible size limits
+   */
+  private sanitizeScripture(scripture: any): Record<string, ScripturePassage[]> {
+    const sanitized: Record<string, ScripturePassage[]> = {};
+    if (!scripture || typeof scripture !== 'object') {
+      return sanitized;
     }
 
-    // Get all clients in session
-    const clients = this.sessionManager.getSessionClients(sessionId);
-    
-    if (clients.length === 0) {
-      console.log(`No clients in session ${sessionId}`);
-      return;
-    }
+    for (const [language, passages] of Object.entries(scripture)) {
+      if (!TerminologyManager.isValidSourceLanguage(language) || !Array.isArray(passages)) continue;
+
+      const valid = passages.slice(0, 5).filter((passage: any) =>
+        passage &&
+        typeof passage.reference === 'string' && passage.reference.length <= 100 &&
+        typeof passage.book === 'string' && typeof passage.chapter === 'number' &&
+        typeof passage.translation === 'string' && passage.translation.length <= 40 &&
+        Array.isArray(passage.verses) && passage.verses.length > 0 && passage.verses.length <= 30 &&
+        passage.verses.every((verse: any) => typeof verse?.number === 'number' && typeof verse.text === 'string' && verse.text.length <= 2000)
+      ).map((passage: any): ScripturePassage => ({
+        reference: passage.reference,
+        book: passage.book.substring(0, 3),
+        chapter: passage.chapter,
+        verseStart: typeof passage.verseStart === 'number' ? passage.verseStart : undefined,
+        verseEnd: typeof passage.verseEnd === 'number' ? passage.verseEnd : undefined,
+        translation: passage.translation,
+        verses: passage.verses.map((verse: any) => ({ number: verse.number, text: verse.text })),
+        truncated: passage.truncated === true || undefined
+      }));
 
-    // Determine if we should generate TTS
-    const shouldGenerateTTS = generateTTS !== false && session.config.ttsMode !== 'disabled';
-    const effectiveVoiceType = voiceType || session.config.ttsMode;
+      if (valid.length > 0) {
+        sanitized[language] = valid;
+      }
+    }
 
-    console.log(`Broadcasting translations to ${clients.length} clients (TTS: ${shouldGenerateTTS}, mode: ${effectiveVoiceType})`);
+    return sanitized;
+  }
 
-    // Generate TTS for each unique language if needed
-    const audioMap = new Map<string, { audioUrl?: string; audioMetadata?: any }>();
-    
-    if (shouldGenerateTTS && translations) {
-      const uniqueLanguages = [...new Set(clients.map(c => c.preferredLanguage))];
-      
-      for (const lang of uniqueLanguages) {
-        const translatedText = translations[lang];
-        if (!translatedText) continue;
+  /**
+   * Tell the session's clients and admin when the detected spoken language switches
+   */
+  private notifySourceLanguageChange(sessionId: string, sourceLanguage: SourceLanguageChangedNotification['sourceLanguage']): void {
+    const previousSourceLanguage = this.sessionManager.updateDetectedSourceLanguage(sessionId, sourceLanguage);
+    if (!previousSourceLanguage) {
+      return;
+    }
 
-        try {
-          // Check for cached audio first
-          let audioInfo = null;
-          if (this.audioManager) {
-            audioInfo = this.audioManager.getAudioInfo(translatedText, lang, effectiveVoiceType);
-          }
+    const notification: SourceLanguageChangedNotification = {
+      type: 'source-language-changed',
+      sessionId,
+      sourceLanguage,
+      previousSourceLanguage,
+      timestamp: new Date().toISOString()
+    };
 
-          if (!audioInfo) {
-            // Generate new TTS audio
-            console.log(`Generating TTS for ${lang}: ${translatedText.substring(0, 50)}...`);
-            
-            const ttsResult = await this.ttsService.synthesizeSpeech(
-              translatedText,
-              lang,
-              effectiveVoiceType
-            );
-
-            // Track cost if pollyService is available
-            if (this.pollyService && ttsResult.audioBuffer) {
-              // Use private method to track cost - calculate characters and voice type
-              const charCount = translatedText.length;
-              const usedVoiceType = ttsResult.voiceType || effectiveVoiceType;
-              // Call cost tracking directly via the service's internal method
-              // Since we can't access private methods, we'll need to generate through pollyService instead
-              // For now, just log that we should track this
-              console.log(`TTS generated: ${charCount} chars, ${usedVoiceType} voice (cost tracking needed)`);
-            }
-
-            // Store audio if audio manager is available
-            if (this.audioManager) {
-              audioInfo = await this.audioManager.storeAudioFile(
-                ttsResult.audioBuffer,
-                translatedText,
-                lang,
-                ttsResult.voiceType,
-                ttsResult.format,
-                ttsResult.duration
-              );
-            }
-          } else {
-            console.log(`Using cached audio for ${lang}`);
-          }
+    // The admin may not have joined the session room; socket.io de-duplicates the union
+    this.io.to([sessionId, ...this.getSessionAdminSockets(sessionId)]).emit('source-language-changed', notification);
 
-          if (audioInfo) {
-            audioMap.set(lang, {
-              audioUrl: audioInfo.url,
-              audioMetadata: {
-                audioId: audioInfo.id,
-                url: audioInfo.url,
-                duration: audioInfo.duration,
-                format: audioInfo.format,
-                voiceType: audioInfo.voiceType,
-                size: audioInfo.size
-              }
-            });
-          }
-        } catch (error) {
-          console.error(`Failed to generate TTS for ${lang}:`, error);
-          // Continue without audio for this language
-        }
-      }
-    }
+    console.log(`Source language for session ${sessionId} changed from ${previousSourceLanguage} to ${sourceLanguage}`);
+  }
 
-    // Send to each client based on their language preference
-    clients.forEach(client => {
-      const lang = client.preferredLanguage;
-      const translatedText = translations?.[lang];
-      const audioData = audioMap.get(lang) || (audioResults?.find((a: any) => a.language === lang));
-      
-      if (translatedText) {
-        this.io.to(client.socketId).emit('translation', {
-          type: 'translation',
-          sessionId,
-          original,
-          text: translatedText,
-          language: lang,
-          timestamp: Date.now(),
-          audioUrl: audioData?.audioUrl || null,
-          audioMetadata: audioData?.audioMetadata || null,
-          ttsAvailable: !!audioData?.audioUrl
-        });
-      }
-    });
-    
-    console.log(`Broadcasted translations to ${clients.length} clients in session ${sessionId}`);
+  /**
+   * Sockets of the admin that owns a session (empty when the session or admin is gone)
+   */
+  private getSessionAdminSockets(sessionId: string): string[] {
+    const session = this.sessionManager.getSession(sessionId);
+    const adminIdentity = session ? this.adminIdentityManager.getAdminIdentity(session.adminId) : null;
+    return adminIdentity ? Array.from(adminIdentity.activeSockets) : [];
   }
 
   /**
@@ -1323,7 +3064,7 @@ export class MessageRouter {
             message.text,
             message.language,
             result.voiceType || voiceType,
-            'mp3',
+            result.format,
             result.duration
           );
           
@@ -1439,6 +3180,103 @@ export class MessageRouter {
     console.error(`Error sent to ${socket.id}: ${code} - ${message}`, details);
   }
 
+  /**
+   * Send the recent lines of one language to a single client
+   */
+  private sendTranslationHistory(
+    socket: Socket,
+    sessionId: string,
+    language: SharedTargetLanguage,
+    reason: TranslationHistoryMessage['reason']
+  ): void {
+    if (!this.translationHistory.isEnabled()) return;
+
+    const message: TranslationHistoryMessage = {
+      type: 'translation-history',
+      sessionId,
+      language,
+      reason,
+      entries: this.translationHistory.getHistory(sessionId, language),
+      currentSequence: this.translationHistory.getCurrentSequence(sessionId),
+      epoch: this.translationHistory.getEpoch(sessionId),
+      timestamp: new Date().toISOString()
+    };
+    socket.emit('translation-history', message);
+  }
+
+  /**
+   * Send a reconnecting client the lines of its language it missed after lastSequence
+   */
+  private sendTranslationReplay(
+    socket: Socket,
+    sessionId: string,
+    language: SharedTargetLanguage,
+    lastSequence: number
+  ): void {
+    const replay = this.translationHistory.getSince(sessionId, language, lastSequence);
+    const message: TranslationHistoryMessage = {
+      type: 'translation-history',
+      sessionId,
+      language,
+      reason: 'replay',
+      entries: replay.entries,
+      currentSequence: this.translationHistory.getCurrentSequence(sessionId),
+      epoch: this.translationHistory.getEpoch(sessionId),
+      complete: replay.complete,
+      timestamp: new Date().toISOString()
+    };
+    socket.emit('translation-history', message);
+
+    if (replay.entries.length > 0) {
+      console.log(`Replayed ${replay.entries.length} missed translations to ${socket.id} (after #${lastSequence}${replay.complete ? '' : ', incomplete'})`);
+    }
+  }
+
+  /**
+   * Report per-listener lag to the session admin, at most once per interval
+   */
+  private scheduleLagReport(sessionId: string): void {
+    if (this.lagReportTimers.has(sessionId)) return;
+
+    this.lagReportTimers.set(sessionId, setTimeout(() => {
+      this.lagReportTimers.delete(sessionId);
+      this.sendLagReport(sessionId);
+    }, LAG_REPORT_INTERVAL_MS));
+  }
+
+  private cancelLagReport(sessionId: string): void {
+    const timer = this.lagReportTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.lagReportTimers.delete(sessionId);
+    }
+  }
+
+  private sendLagReport(sessionId: string): void {
+    const adminSockets = this.getSessionAdminSockets(sessionId);
+    if (adminSockets.length === 0) return;
+
+    const update: ClientLagUpdate = {
+      type: 'client-lag-update',
+      sessionId,
+      currentSequence: this.translationHistory.getCurrentSequence(sessionId),
+      // Overlays never acknowledge, so they are not listed
+      clients: this.sessionManager.getSessionClients(sessionId)
+        .filter(client => !client.isDisplay)
+        .map(client => ({
+          socketId: client.socketId,
+          language: client.preferredLanguage,
+          lastAckSequence: client.lastAckSequence ?? null,
+          behind: client.lastAckSequence !== undefined
+            ? this.translationHistory.countSince(sessionId, client.preferredLanguage, client.lastAckSequence)
+            : null,
+          lastAckAt: client.lastAckAt ? client.lastAckAt.toISOString() : null
+        })),
+      timestamp: new Date().toISOString()
+    };
+    this.io.to(adminSockets).emit('client-lag-update', update);
+  }
+
   /**
    * Broadcast to language-specific client groups
    */
@@ -1557,7 +3395,7 @@ export class MessageRouter {
     };
 
     // Initialize language counts
-    const languages: TargetLanguage[] = ['en', 'es', 'fr', 'de', 'it'];
+    const languages: TargetLanguage[] = getTargetLanguages().map(language => language.code);
     languages.forEach(lang => {
       stats.clientsByLanguage[lang] = 0;
     });
@@ -1588,6 +3426,8 @@ export class MessageRouter {
    */
   async testTTSCapabilities(language: TargetLanguage = 'en'): Promise<{
     polly: boolean;
+    localEngine: boolean;
+    localEngineName?: string;
     local: boolean;
     textOnly: boolean;
     supportedLanguages: TargetLanguage[];
@@ -1598,6 +3438,7 @@ export class MessageRouter {
     
     return {
       ...capabilities,
+      localEngineName: this.ttsService.getLocalEngineName(),
       supportedLanguages: this.ttsService.getSupportedLanguages(),
       performanceMetrics: metrics
     };
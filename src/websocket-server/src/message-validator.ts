@@ -7,6 +7,8 @@ import {
   TranslationBroadcast,
   TargetLanguage
 } from './types';
+import { isTargetLanguage } from '../../shared/languages';
+import { SPEECH_RATE_MIN, SPEECH_RATE_MAX, SPEECH_PITCH_MIN, SPEECH_PITCH_MAX } from './speech-markup';
 
 export class MessageValidator {
   
@@ -14,8 +16,7 @@ export class MessageValidator {
    * Validate target language
    */
   static isValidTargetLanguage(language: any): language is TargetLanguage {
-    return typeof language === 'string' && 
-           ['en', 'fr', 'es', 'de', 'it'].includes(language);
+    return isTargetLanguage(language);
   }
 
   /**
@@ -34,6 +35,72 @@ export class MessageValidator {
            ['high', 'medium', 'low'].includes(quality);
   }
 
+  /**
+   * Validate session speech settings, returning the problem if invalid
+   */
+  static validateSpeechSettings(speech: any): string | null {
+    if (!speech || typeof speech !== 'object' || Array.isArray(speech)) {
+      return 'speech must be an object';
+    }
+
+    const styleError = (style: any, label: string): string | null => {
+      if (!style || typeof style !== 'object') {
+        return `${label} must be an object`;
+      }
+      if (style.rate !== undefined &&
+          (typeof style.rate !== 'number' || style.rate < SPEECH_RATE_MIN || style.rate > SPEECH_RATE_MAX)) {
+        return `${label} rate must be a number between ${SPEECH_RATE_MIN} and ${SPEECH_RATE_MAX}`;
+      }
+      if (style.pitch !== undefined &&
+          (typeof style.pitch !== 'number' || style.pitch < SPEECH_PITCH_MIN || style.pitch > SPEECH_PITCH_MAX)) {
+        return `${label} pitch must be a number between ${SPEECH_PITCH_MIN} and ${SPEECH_PITCH_MAX}`;
+      }
+      return null;
+    };
+
+    const sessionError = styleError(speech, 'speech');
+    if (sessionError) {
+      return sessionError;
+    }
+
+    if (speech.languages !== undefined) {
+      if (!speech.languages || typeof speech.languages !== 'object') {
+        return 'speech languages must be an object';
+      }
+      for (const [language, style] of Object.entries(speech.languages)) {
+        if (!this.isValidTargetLanguage(language)) {
+          return `Unsupported speech language: ${language}`;
+        }
+        const languageError = styleError(style, `speech ${language}`);
+        if (languageError) {
+          return languageError;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate a session's per-language voice choices, returning the first problem found
+   */
+  static validateVoiceSelection(voices: any): string | null {
+    if (!voices || typeof voices !== 'object' || Array.isArray(voices)) {
+      return 'voices must be an object';
+    }
+
+    for (const [language, voiceId] of Object.entries(voices)) {
+      if (!this.isValidTargetLanguage(language)) {
+        return `Unsupported voice language: ${language}`;
+      }
+      if (typeof voiceId !== 'string' || !/^[A-Za-z-]{1,40}$/.test(voiceId)) {
+        return `Invalid voice for ${language}`;
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Validate session ID format (CHURCH-YYYY-NNN)
    */
@@ -78,6 +145,20 @@ export class MessageValidator {
       return { valid: false, error: 'Invalid audio quality' };
     }
 
+    if (config.speech !== undefined) {
+      const speechError = this.validateSpeechSettings(config.speech);
+      if (speechError) {
+        return { valid: false, error: speechError };
+      }
+    }
+
+    if (config.voices !== undefined) {
+      const voicesError = this.validateVoiceSelection(config.voices);
+      if (voicesError) {
+        return { valid: false, error: voicesError };
+      }
+    }
+
     return { 
       valid: true, 
       message: data as StartSessionMessage 
@@ -114,6 +195,18 @@ export class MessageValidator {
       }
     }
 
+    if (data.displayClient !== undefined && typeof data.displayClient !== 'boolean') {
+      return { valid: false, error: 'Invalid display client flag' };
+    }
+
+    if (data.lastSequence !== undefined && (!Number.isInteger(data.lastSequence) || data.lastSequence < 0)) {
+      return { valid: false, error: 'Invalid last sequence' };
+    }
+
+    if (data.epoch !== undefined && (typeof data.epoch !== 'string' || data.epoch.length > 100)) {
+      return { valid: false, error: 'Invalid epoch' };
+    }
+
     return { 
       valid: true, 
       message: data as JoinSessionMessage 
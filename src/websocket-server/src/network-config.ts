@@ -0,0 +1,33 @@
+import { networkInterfaces } from 'os';
+
+// Private IPv4 ranges, the addresses congregants' phones can reach on the church network
+const PRIVATE_IPV4_PATTERNS = [
+  /^192\.168\.\d{1,3}\.\d{1,3}$/,
+  /^10\.\d{1,3}\.\d{1,3}\.\d{1,3}$/,
+  /^172\.(1[6-9]|2[0-9]|3[0-1])\.\d{1,3}\.\d{1,3}$/
+];
+
+/**
+ * Network details of the machine running the server, for links shown to congregants
+ */
+export class NetworkConfig {
+  /**
+   * LAN IPv4 address of this machine, preferring private ranges over other
+   * external addresses. Falls back to 127.0.0.1 when the machine is offline.
+   */
+  static getLocalIpAddress(): string {
+    const addresses: string[] = [];
+
+    for (const entries of Object.values(networkInterfaces())) {
+      for (const entry of entries || []) {
+        if (entry.family === 'IPv4' && !entry.internal) {
+          addresses.push(entry.address);
+        }
+      }
+    }
+
+    return addresses.find(address => PRIVATE_IPV4_PATTERNS.some(pattern => pattern.test(address)))
+      || addresses[0]
+      || '127.0.0.1';
+  }
+}
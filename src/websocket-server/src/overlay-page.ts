@@ -0,0 +1,215 @@
+import { TargetLanguage } from './types';
+import { getLanguage } from '../../shared/languages';
+
+/**
+ * Subtitle overlay page for OBS/vMix browser sources, served at /overlay/:sessionId/:language.
+ * The page joins the session as a display client (read-only, not counted as a congregant)
+ * and shows the most recent translated lines. Styling comes from the query string:
+ *
+ *   font        CSS font family            (default: Arial, sans-serif)
+ *   size        font size in px, 12-200    (default: 48)
+ *   color       text color, hex or name    (default: white)
+ *   background  line background            (default: transparent)
+ *   outline     text outline color         (default: black)
+ *   lines       lines on screen, 1-10      (default: 2)
+ *   fade        seconds a line stays, 0 keeps it until pushed out (default: 8)
+ *   position    top | middle | bottom      (default: bottom)
+ *   align       left | center | right      (default: center)
+ *   speaker     1 to prefix speaker names  (default: off)
+ *
+ * Example: /overlay/CHURCH-2025-001/es?size=56&lines=3&background=000000aa&position=top
+ */
+export function renderOverlayPage(sessionId: string, language: TargetLanguage): string {
+  // Both values are validated by the route; JSON-encoding keeps them inert inside the script
+  const settings = JSON.stringify({ sessionId, language }).replace(/</g, '\\u003c');
+  const direction = getLanguage(language)?.direction || 'ltr';
+
+  return `<!DOCTYPE html>
+<html lang="${language}" dir="${direction}">
+<head>
+  <meta charset="UTF-8">
+  <title>Service Translate Overlay - ${sessionId} (${language})</title>
+  <style>
+    :root {
+      --font: Arial, sans-serif;
+      --size: 48px;
+      --color: white;
+      --background: transparent;
+      --outline: black;
+      --align: center;
+      --justify: flex-end;
+    }
+    html, body {
+      margin: 0;
+      height: 100%;
+      background: transparent;
+      overflow: hidden;
+    }
+    #captions {
+      box-sizing: border-box;
+      display: flex;
+      flex-direction: column;
+      justify-content: var(--justify);
+      align-items: stretch;
+      height: 100%;
+      padding: 3vh 4vw;
+      gap: 0.2em;
+      font-family: var(--font);
+      font-size: var(--size);
+      line-height: 1.25;
+      text-align: var(--align);
+    }
+    .line {
+      color: var(--color);
+      text-shadow: -2px -2px 0 var(--outline), 2px -2px 0 var(--outline), -2px 2px 0 var(--outline), 2px 2px 0 var(--outline);
+      transition: opacity 0.5s ease;
+    }
+    .line span {
+      background: var(--background);
+      padding: 0 0.25em;
+      box-decoration-break: clone;
+      -webkit-box-decoration-break: clone;
+    }
+    .line.faded {
+      opacity: 0;
+    }
+  </style>
+</head>
+<body>
+  <div id="captions"></div>
+  <script src="/socket.io/socket.io.js"></script>
+  <script>
+    (function () {
+      var settings = ${settings};
+      var params = new URLSearchParams(window.location.search);
+      var root = document.documentElement.style;
+      var captions = document.getElementById('captions');
+      var REJOIN_DELAY_MS = 10000;
+
+      function number(name, fallback, min, max) {
+        var value = parseFloat(params.get(name));
+        return isNaN(value) ? fallback : Math.min(max, Math.max(min, value));
+      }
+
+      function color(name) {
+        var value = (params.get(name) || '').trim();
+        if (/^#?([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)) {
+          return value.charAt(0) === '#' ? value : '#' + value;
+        }
+        return /^[a-z]+$/i.test(value) ? value : null;
+      }
+
+      function choice(name, options, fallback) {
+        var value = params.get(name);
+        return options.indexOf(value) >= 0 ? value : fallback;
+      }
+
+      var font = (params.get('font') || '').trim();
+      if (/^[\\w\\s,'"-]+$/.test(font)) root.setProperty('--font', font);
+      root.setProperty('--size', number('size', 48, 12, 200) + 'px');
+      ['color', 'background', 'outline'].forEach(function (name) {
+        var value = color(name);
+        if (value) root.setProperty('--' + name, value);
+      });
+      root.setProperty('--align', choice('align', ['left', 'center', 'right'], 'center'));
+      root.setProperty('--justify', {
+        top: 'flex-start',
+        middle: 'center',
+        bottom: 'flex-end'
+      }[choice('position', ['top', 'middle', 'bottom'], 'bottom')]);
+
+      var maxLines = Math.round(number('lines', 2, 1, 10));
+      var holdMs = number('fade', 8, 0, 600) * 1000;
+      var showSpeaker = params.get('speaker') === '1';
+
+      function lineText(text, speaker) {
+        return showSpeaker && speaker && speaker.name ? speaker.name + ': ' + text : text;
+      }
+
+      function removeLine(line) {
+        clearTimeout(line.fadeTimer);
+        line.classList.add('faded');
+        setTimeout(function () {
+          if (line.parentNode) line.parentNode.removeChild(line);
+        }, 500);
+      }
+
+      function scheduleFade(line) {
+        clearTimeout(line.fadeTimer);
+        if (holdMs > 0) {
+          line.fadeTimer = setTimeout(function () { removeLine(line); }, holdMs);
+        }
+      }
+
+      function addLine(segmentId, text, speaker) {
+        var line = document.createElement('div');
+        line.className = 'line';
+        line.setAttribute('data-segment-id', segmentId || '');
+        line.speaker = speaker;
+        var span = document.createElement('span');
+        span.textContent = lineText(text, speaker);
+        line.appendChild(span);
+        captions.appendChild(line);
+        scheduleFade(line);
+
+        var visible = captions.querySelectorAll('.line:not(.faded)');
+        for (var i = 0; i < visible.length - maxLines; i++) {
+          removeLine(visible[i]);
+        }
+      }
+
+      function clearLines() {
+        Array.prototype.forEach.call(captions.querySelectorAll('.line'), removeLine);
+      }
+
+      var socket = io({ reconnection: true, reconnectionDelayMax: REJOIN_DELAY_MS });
+      var rejoinTimer = null;
+
+      function join() {
+        clearTimeout(rejoinTimer);
+        socket.emit('join-session', {
+          type: 'join-session',
+          sessionId: settings.sessionId,
+          preferredLanguage: settings.language,
+          displayClient: true
+        });
+      }
+
+      // The browser source is often loaded before the service starts; keep trying until it does
+      function rejoinLater() {
+        clearTimeout(rejoinTimer);
+        rejoinTimer = setTimeout(function () {
+          if (socket.connected) join();
+        }, REJOIN_DELAY_MS);
+      }
+
+      socket.on('connect', join);
+      socket.on('session-join-failed', rejoinLater);
+      socket.on('error', function (error) {
+        if (error && error.code === 404) rejoinLater();
+      });
+
+      socket.on('session-ended', function () {
+        clearLines();
+        rejoinLater();
+      });
+
+      socket.on('translation', function (data) {
+        if (data.language !== settings.language || !data.text) return;
+        addLine(data.segmentId, data.text, data.speaker);
+      });
+
+      socket.on('translation-correction', function (data) {
+        if (data.language !== settings.language) return;
+        Array.prototype.forEach.call(captions.querySelectorAll('.line:not(.faded)'), function (line) {
+          if (line.getAttribute('data-segment-id') === data.segmentId) {
+            line.firstChild.textContent = lineText(data.text, line.speaker);
+          }
+        });
+      });
+    })();
+  </script>
+</body>
+</html>
+`;
+}
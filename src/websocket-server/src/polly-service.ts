@@ -1,5 +1,6 @@
 import { PollyClient, SynthesizeSpeechCommand, VoiceId, Engine, OutputFormat } from '@aws-sdk/client-polly';
 import { fromCognitoIdentityPool } from '@aws-sdk/credential-providers';
+import { getLanguage } from '../../shared/languages';
 
 export interface PollyConfig {
   region: string;
@@ -9,11 +10,6 @@ export interface PollyConfig {
   enabled: boolean;
 }
 
-interface VoiceMapping {
-  standard: VoiceId;
-  neural: VoiceId;
-}
-
 export interface PollyCostStats {
   characters: number;
   standardCharacters: number;
@@ -47,14 +43,6 @@ export class PollyService {
     lastUpdated: new Date()
   };
   
-  private readonly voiceMappings: Record<string, VoiceMapping> = {
-    'en': { standard: VoiceId.Joanna, neural: VoiceId.Joanna },
-    'es': { standard: VoiceId.Conchita, neural: VoiceId.Lucia },
-    'fr': { standard: VoiceId.Celine, neural: VoiceId.Lea },
-    'de': { standard: VoiceId.Marlene, neural: VoiceId.Vicki },
-    'it': { standard: VoiceId.Carla, neural: VoiceId.Bianca }
-  };
-
   constructor(config: PollyConfig) {
     this.config = config;
     this.resetCostStats();
@@ -110,13 +98,17 @@ export class PollyService {
     }
 
     try {
-      const voiceMapping = this.voiceMappings[language];
-      if (!voiceMapping) {
+      const voices = getLanguage(language)?.polly;
+      if (!voices) {
         console.warn(`No voice mapping for language: ${language}`);
         return null;
       }
 
-      const voiceId = voiceType === 'neural' ? voiceMapping.neural : voiceMapping.standard;
+      // Some languages only have a voice for one engine
+      if (!voices[voiceType]) {
+        voiceType = voiceType === 'neural' ? 'standard' : 'neural';
+      }
+      const voiceId = voices[voiceType] as VoiceId;
       const engine = voiceType === 'neural' ? Engine.NEURAL : Engine.STANDARD;
 
       const command = new SynthesizeSpeechCommand({
@@ -0,0 +1,275 @@
+import { PollyClient, SynthesizeSpeechCommand, Voice, DescribeVoicesCommand, VoiceId } from '@aws-sdk/client-polly';
+import { TargetLanguage } from './types';
+import { VoiceOption } from '../../shared/types';
+import { TTSEngine, EngineAudio } from './tts-engine';
+import { SpeechOptions, buildSsml, needsSsml } from './speech-markup';
+import { LANGUAGES, getLanguage } from '../../shared/languages';
+
+export interface PollyEngineConfig {
+  region: string;
+  outputFormat: 'mp3' | 'ogg_vorbis' | 'pcm';
+  sampleRate: string;
+}
+
+export interface VoiceMapping {
+  language: TargetLanguage;
+  neural?: string;    // Absent when Polly has no neural voice for the language
+  standard?: string;
+}
+
+/**
+ * AWS Polly engine, with default voices from the language registry adjusted to what the region offers
+ */
+export class PollyTTSEngine implements TTSEngine {
+  readonly name = 'polly';
+
+  private pollyClient: PollyClient;
+  private config: PollyEngineConfig;
+  private voiceMappings: VoiceMapping[];
+  private availableVoices: Voice[] = [];
+
+  constructor(config: PollyEngineConfig) {
+    this.config = config;
+    this.pollyClient = new PollyClient({ region: config.region });
+
+    // Default voices from the language registry; languages without Polly voices are left out
+    this.voiceMappings = LANGUAGES
+      .filter(language => language.polly)
+      .map(language => ({
+        language: language.code,
+        neural: language.polly!.neural,
+        standard: language.polly!.standard
+      }));
+
+    this.loadAvailableVoices();
+  }
+
+  /**
+   * Load available voices from AWS Polly
+   */
+  private async loadAvailableVoices(): Promise<void> {
+    try {
+      const command = new DescribeVoicesCommand({});
+      const response = await this.pollyClient.send(command);
+
+      if (response.Voices) {
+        this.availableVoices = response.Voices;
+        console.log(`Loaded ${this.availableVoices.length} available Polly voices`);
+
+        // Update voice mappings based on available voices
+        this.updateVoiceMappings();
+      }
+    } catch (error) {
+      console.error('Failed to load available Polly voices:', error);
+    }
+  }
+
+  /**
+   * Update voice mappings based on available voices
+   */
+  private updateVoiceMappings(): void {
+    for (const mapping of this.voiceMappings) {
+      const languageCode = this.getPollyLanguageCode(mapping.language);
+      const languageVoices = this.availableVoices.filter(voice =>
+        voice.LanguageCode?.startsWith(languageCode)
+      );
+
+      // Keep the registry's voice when this region offers it, otherwise take the first available
+      const neuralVoices = languageVoices.filter(voice =>
+        voice.SupportedEngines?.includes('neural')
+      );
+      if (neuralVoices.length > 0 && !neuralVoices.some(voice => voice.Id === mapping.neural)) {
+        mapping.neural = neuralVoices[0].Id || mapping.neural;
+      }
+
+      const standardVoices = languageVoices.filter(voice =>
+        voice.SupportedEngines?.includes('standard')
+      );
+      if (standardVoices.length > 0 && !standardVoices.some(voice => voice.Id === mapping.standard)) {
+        mapping.standard = standardVoices[0].Id || mapping.standard;
+      }
+    }
+
+    console.log('Updated voice mappings:', this.voiceMappings);
+  }
+
+  /**
+   * Convert target language to Polly language code
+   */
+  private getPollyLanguageCode(language: TargetLanguage): string {
+    const definition = getLanguage(language);
+    return definition?.polly?.languageCode || definition?.locale || language;
+  }
+
+  /**
+   * Get voice ID for language and voice type
+   */
+  private getVoiceId(language: TargetLanguage, voiceType: 'neural' | 'standard'): string {
+    const mapping = this.voiceMappings.find(m => m.language === language);
+    const voiceId = mapping && (voiceType === 'neural' ? mapping.neural : mapping.standard);
+    if (!voiceId) {
+      throw new Error(`No ${voiceType} voice mapping found for language: ${language}`);
+    }
+    return voiceId;
+  }
+
+  /**
+   * Use the other engine when the language has no voice for the requested one
+   */
+  resolveVoiceType(language: TargetLanguage, voiceType: 'neural' | 'standard'): 'neural' | 'standard' {
+    const mapping = this.voiceMappings.find(m => m.language === language);
+    if (mapping && !mapping[voiceType]) {
+      return voiceType === 'neural' ? 'standard' : 'neural';
+    }
+    return voiceType;
+  }
+
+  /**
+   * The voice to speak with: the chosen one when this region offers it for the language,
+   * on the requested engine if it supports it, otherwise the language's default voice
+   */
+  selectVoice(
+    language: TargetLanguage,
+    voiceType: 'neural' | 'standard',
+    preferredVoiceId?: string
+  ): { voiceId: string; voiceType: 'neural' | 'standard' } {
+    const preferred = preferredVoiceId
+      ? this.getLanguageVoices(language).find(voice => voice.Id === preferredVoiceId)
+      : undefined;
+
+    if (preferred) {
+      const engines = this.getVoiceEngines(preferred);
+      if (engines.length > 0) {
+        return { voiceId: preferred.Id!, voiceType: engines.includes(voiceType) ? voiceType : engines[0] };
+      }
+    } else if (preferredVoiceId) {
+      console.warn(`Voice ${preferredVoiceId} is not available for ${language}; using the default voice`);
+    }
+
+    const actualVoiceType = this.resolveVoiceType(language, voiceType);
+    return { voiceId: this.getVoiceId(language, actualVoiceType), voiceType: actualVoiceType };
+  }
+
+  /**
+   * Voices this region offers for a language, with the default marked
+   */
+  listVoices(language: TargetLanguage): VoiceOption[] {
+    const mapping = this.voiceMappings.find(m => m.language === language);
+    if (!mapping) {
+      return [];
+    }
+
+    return this.getLanguageVoices(language)
+      .filter(voice => voice.Id && this.getVoiceEngines(voice).length > 0)
+      .map(voice => ({
+        voiceId: voice.Id!,
+        language,
+        languageCode: voice.LanguageCode || this.getPollyLanguageCode(language),
+        gender: voice.Gender === 'Male' ? 'Male' as const : 'Female' as const,
+        engines: this.getVoiceEngines(voice),
+        isDefault: voice.Id === mapping.neural || voice.Id === mapping.standard
+      }))
+      .sort((a, b) => a.voiceId.localeCompare(b.voiceId));
+  }
+
+  private getLanguageVoices(language: TargetLanguage): Voice[] {
+    const languageCode = this.getPollyLanguageCode(language);
+    return this.availableVoices.filter(voice => voice.LanguageCode?.startsWith(languageCode));
+  }
+
+  private getVoiceEngines(voice: Voice): Array<'neural' | 'standard'> {
+    return (['neural', 'standard'] as const).filter(engine => voice.SupportedEngines?.includes(engine));
+  }
+
+  async isAvailable(): Promise<boolean> {
+    // Credentials and reachability only show on a real request, which the fallback chain handles
+    return true;
+  }
+
+  supportsLanguage(language: TargetLanguage): boolean {
+    return this.voiceMappings.some(m => m.language === language);
+  }
+
+  async synthesize(
+    text: string,
+    language: TargetLanguage,
+    voiceType: 'neural' | 'standard',
+    speech?: SpeechOptions
+  ): Promise<EngineAudio> {
+    const { voiceId, voiceType: actualVoiceType } = this.selectVoice(language, voiceType, speech?.voiceId);
+
+    // Plain text unless a rate, pitch or pronunciation applies; neural voices have no pitch control
+    const ssml = speech && needsSsml(text, speech)
+      ? buildSsml(text, speech, actualVoiceType === 'standard')
+      : undefined;
+
+    const command = new SynthesizeSpeechCommand({
+      Text: ssml || text,
+      VoiceId: voiceId as VoiceId,
+      OutputFormat: this.config.outputFormat,
+      SampleRate: this.config.sampleRate,
+      Engine: actualVoiceType,
+      TextType: ssml ? 'ssml' : 'text'
+    });
+
+    console.log(`Synthesizing speech: ${text.substring(0, 50)}... (${language}, ${actualVoiceType}, ${voiceId})`);
+
+    const response = await this.pollyClient.send(command);
+
+    if (!response.AudioStream) {
+      throw new Error('No audio stream received from Polly');
+    }
+
+    return {
+      audioBuffer: Buffer.from(await response.AudioStream.transformToByteArray()),
+      format: this.config.outputFormat,
+      voiceId,
+      voiceType: actualVoiceType
+    };
+  }
+
+  /**
+   * Update engine configuration, reconnecting when the region changes
+   */
+  updateConfig(newConfig: Partial<PollyEngineConfig>): void {
+    const regionChanged = !!newConfig.region && newConfig.region !== this.config.region;
+    this.config = { ...this.config, ...newConfig };
+
+    if (regionChanged) {
+      this.pollyClient = new PollyClient({ region: newConfig.region });
+      this.loadAvailableVoices();
+    }
+  }
+
+  /**
+   * Get supported languages
+   */
+  getSupportedLanguages(): TargetLanguage[] {
+    return this.voiceMappings.map(m => m.language);
+  }
+
+  /**
+   * Get voice information for a language
+   */
+  getVoiceInfo(language: TargetLanguage): {
+    neural?: string;
+    standard?: string;
+    available: boolean;
+  } | null {
+    const mapping = this.voiceMappings.find(m => m.language === language);
+    if (!mapping) {
+      return null;
+    }
+
+    const languageCode = this.getPollyLanguageCode(language);
+    const available = this.availableVoices.some(voice =>
+      voice.LanguageCode?.startsWith(languageCode)
+    );
+
+    return {
+      neural: mapping.neural,
+      standard: mapping.standard,
+      available
+    };
+  }
+}
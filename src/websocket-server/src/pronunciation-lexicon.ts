@@ -0,0 +1,236 @@
+import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { TargetLanguage, PronunciationEntry, StoredPronunciationEntry } from '../../shared/types';
+import { isTargetLanguage } from '../../shared/languages';
+
+const MAX_TERM_LENGTH = 100;
+const MAX_PRONUNCIATION_LENGTH = 200;
+const MAX_ENTRIES_PER_LANGUAGE = 500;
+
+export interface PronunciationRejection {
+  term: string;
+  reason: string;
+}
+
+export interface AddPronunciationsOutcome {
+  added: StoredPronunciationEntry[];
+  rejected: PronunciationRejection[];
+}
+
+/**
+ * PronunciationLexicon keeps the admin-managed list of words the server's TTS
+ * says wrongly, per target language. Each entry gives either an alias to speak
+ * instead of the term or an IPA phoneme string.
+ */
+export class PronunciationLexicon {
+  private entries: Map<string, StoredPronunciationEntry> = new Map();
+  private persistenceDir: string;
+  private lexiconFile: string;
+
+  constructor(persistenceDir: string = './lexicons') {
+    this.persistenceDir = persistenceDir;
+    this.lexiconFile = join(persistenceDir, 'pronunciations.json');
+    this.ensurePersistenceDir();
+    this.loadPersistedEntries();
+  }
+
+  /**
+   * Add entries. Invalid or duplicate entries are rejected individually so the rest of the batch is kept.
+   */
+  addEntries(entries: PronunciationEntry[], createdBy: string): AddPronunciationsOutcome {
+    const added: StoredPronunciationEntry[] = [];
+    const rejected: PronunciationRejection[] = [];
+
+    for (const entry of entries) {
+      const term = typeof entry?.term === 'string' ? entry.term.trim() : '';
+      const error = this.validateEntry(entry);
+
+      if (error) {
+        rejected.push({ term, reason: error });
+        continue;
+      }
+
+      if (this.findEntry(entry.language, term)) {
+        rejected.push({ term, reason: 'Entry already exists for this term' });
+        continue;
+      }
+
+      if (this.getEntries(entry.language).length >= MAX_ENTRIES_PER_LANGUAGE) {
+        rejected.push({ term, reason: `Lexicon limit of ${MAX_ENTRIES_PER_LANGUAGE} entries reached` });
+        continue;
+      }
+
+      const now = new Date().toISOString();
+      const stored: StoredPronunciationEntry = {
+        entryId: uuidv4(),
+        language: entry.language,
+        term,
+        ...this.normalizePronunciation(entry),
+        createdBy,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      this.entries.set(stored.entryId, stored);
+      added.push(stored);
+    }
+
+    if (added.length > 0) {
+      this.persistEntries();
+      console.log(`Added ${added.length} pronunciation entries by ${createdBy} (${rejected.length} rejected)`);
+    }
+
+    return { added, rejected };
+  }
+
+  /**
+   * Replace an entry's pronunciation; the alias or phoneme given replaces whichever was set
+   */
+  updateEntry(entryId: string, update: { alias?: string; phoneme?: string }): { entry?: StoredPronunciationEntry; error?: string } {
+    const existing = this.entries.get(entryId);
+    if (!existing) {
+      return { error: `Pronunciation entry not found: ${entryId}` };
+    }
+
+    const error = this.validatePronunciation(update);
+    if (error) {
+      return { error };
+    }
+
+    const updated: StoredPronunciationEntry = {
+      entryId: existing.entryId,
+      language: existing.language,
+      term: existing.term,
+      ...this.normalizePronunciation(update),
+      createdBy: existing.createdBy,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString()
+    };
+
+    this.entries.set(entryId, updated);
+    this.persistEntries();
+
+    console.log(`Updated pronunciation entry ${entryId} (${updated.term})`);
+    return { entry: updated };
+  }
+
+  /**
+   * Delete an entry. Returns null if it does not exist.
+   */
+  deleteEntry(entryId: string): StoredPronunciationEntry | null {
+    const existing = this.entries.get(entryId);
+    if (!existing) {
+      return null;
+    }
+
+    this.entries.delete(entryId);
+    this.persistEntries();
+    console.log(`Deleted pronunciation entry ${entryId} (${existing.term})`);
+    return existing;
+  }
+
+  /**
+   * List entries, optionally for one language
+   */
+  getEntries(language?: TargetLanguage): StoredPronunciationEntry[] {
+    return Array.from(this.entries.values())
+      .filter(entry => !language || entry.language === language)
+      .sort((a, b) => a.term.localeCompare(b.term));
+  }
+
+  /**
+   * Validate a single entry, returning the rejection reason if invalid
+   */
+  private validateEntry(entry: PronunciationEntry): string | null {
+    if (!entry || typeof entry !== 'object') {
+      return 'Entry must be an object';
+    }
+
+    if (!isTargetLanguage(entry.language)) {
+      return `Unsupported language: ${entry.language}`;
+    }
+
+    if (typeof entry.term !== 'string' || entry.term.trim().length === 0) {
+      return 'term is required';
+    }
+
+    if (entry.term.trim().length > MAX_TERM_LENGTH) {
+      return `term exceeds ${MAX_TERM_LENGTH} characters`;
+    }
+
+    return this.validatePronunciation(entry);
+  }
+
+  private validatePronunciation(entry: { alias?: string; phoneme?: string }): string | null {
+    const alias = typeof entry.alias === 'string' ? entry.alias.trim() : '';
+    const phoneme = typeof entry.phoneme === 'string' ? entry.phoneme.trim() : '';
+
+    if ((entry.alias !== undefined && typeof entry.alias !== 'string') ||
+        (entry.phoneme !== undefined && typeof entry.phoneme !== 'string')) {
+      return 'alias and phoneme must be strings';
+    }
+
+    if (!alias && !phoneme) {
+      return 'An alias or a phoneme is required';
+    }
+
+    if (alias && phoneme) {
+      return 'Give either an alias or a phoneme, not both';
+    }
+
+    if ((alias || phoneme).length > MAX_PRONUNCIATION_LENGTH) {
+      return `Pronunciation exceeds ${MAX_PRONUNCIATION_LENGTH} characters`;
+    }
+
+    return null;
+  }
+
+  private normalizePronunciation(entry: { alias?: string; phoneme?: string }): { alias?: string; phoneme?: string } {
+    return entry.alias?.trim() ? { alias: entry.alias.trim() } : { phoneme: entry.phoneme!.trim() };
+  }
+
+  private findEntry(language: TargetLanguage, term: string): StoredPronunciationEntry | undefined {
+    const key = term.toLocaleLowerCase();
+    return Array.from(this.entries.values()).find(entry =>
+      entry.language === language && entry.term.toLocaleLowerCase() === key
+    );
+  }
+
+  private ensurePersistenceDir(): void {
+    if (!existsSync(this.persistenceDir)) {
+      mkdirSync(this.persistenceDir, { recursive: true });
+    }
+  }
+
+  private persistEntries(): void {
+    try {
+      const serializable = {
+        version: 1,
+        lastUpdated: new Date().toISOString(),
+        entries: Array.from(this.entries.values())
+      };
+      writeFileSync(this.lexiconFile, JSON.stringify(serializable, null, 2));
+    } catch (error) {
+      console.error('Failed to persist pronunciation lexicon:', error);
+    }
+  }
+
+  private loadPersistedEntries(): void {
+    if (!existsSync(this.lexiconFile)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.lexiconFile, 'utf8'));
+      for (const entry of data.entries || []) {
+        if (entry.entryId && entry.language && entry.term && (entry.alias || entry.phoneme)) {
+          this.entries.set(entry.entryId, entry);
+        }
+      }
+      console.log(`Loaded ${this.entries.size} pronunciation entries`);
+    } catch (error) {
+      console.error('Failed to load pronunciation lexicon:', error);
+    }
+  }
+}
@@ -7,6 +7,7 @@ export interface RateLimitConfig {
   websocketRateLimit: number; // requests per second
   pollyRateLimit: number; // requests per minute
   maxClientsPerSession: number;
+  maxDisplaysPerSession: number; // caption overlays, counted apart from congregants
   windowSizeMs: number; // time window for rate limiting
 }
 
@@ -21,6 +22,7 @@ export class RateLimiter {
   private websocketLimits: Map<string, RateLimitEntry> = new Map();
   private pollyLimits: Map<string, RateLimitEntry> = new Map();
   private sessionClientCounts: Map<string, number> = new Map();
+  private sessionDisplayCounts: Map<string, number> = new Map();
   private cleanupInterval: NodeJS.Timeout;
 
   constructor(config: RateLimitConfig) {
@@ -87,6 +89,29 @@ export class RateLimiter {
     }
   }
 
+  /**
+   * Add a caption overlay to a session, within its own limit
+   */
+  public addDisplayToSession(sessionId: string): boolean {
+    const currentCount = this.sessionDisplayCounts.get(sessionId) || 0;
+    if (currentCount >= this.config.maxDisplaysPerSession) {
+      return false;
+    }
+
+    this.sessionDisplayCounts.set(sessionId, currentCount + 1);
+    return true;
+  }
+
+  /**
+   * Remove caption overlay from session
+   */
+  public removeDisplayFromSession(sessionId: string): void {
+    const currentCount = this.sessionDisplayCounts.get(sessionId) || 0;
+    if (currentCount > 0) {
+      this.sessionDisplayCounts.set(sessionId, currentCount - 1);
+    }
+  }
+
   /**
    * Get current client count for session
    */
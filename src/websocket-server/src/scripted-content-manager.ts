@@ -0,0 +1,267 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ScriptSegment,
+  ScriptSegmentKind,
+  ScriptSummary,
+  SourceLanguage,
+  TargetLanguage
+} from '../../shared/types';
+import { ContentTranslator } from './content-translator';
+import { TerminologyManager } from './terminology-manager';
+
+const MAX_DOCUMENT_LENGTH = 200000;
+const MAX_SEGMENTS = 500;
+const MAX_SEGMENT_LENGTH = 2000;
+const MAX_REPORTED_ERRORS = 20;
+const SEGMENT_KINDS: ScriptSegmentKind[] = ['announcement', 'reading', 'lyrics', 'sermon', 'other'];
+
+export interface ScriptSegmentInput {
+  text: string;
+  kind?: ScriptSegmentKind;
+}
+
+/**
+ * Produces TTS for a prepared translation; resolves true once the clip is in the audio cache
+ */
+export type ScriptAudioGenerator = (text: string, language: TargetLanguage) => Promise<boolean>;
+
+export type ScriptMoveAction = 'next' | 'previous' | 'goto' | 'repeat';
+
+interface ScriptState {
+  summary: ScriptSummary;
+  segments: ScriptSegment[];
+  cancelled: boolean;
+}
+
+/**
+ * ScriptedContentManager holds the content prepared for a session (announcements,
+ * responsive readings, lyrics). Segments are translated into every enabled language
+ * and their audio pre-generated before the service; the operator then steps through
+ * them. One script per session; uploading a new one replaces it. Translations use the
+ * shared glossary, as live speech does.
+ *
+ * Events:
+ * - 'progress' (ScriptSummary) while preparing and when preparation finishes
+ */
+export class ScriptedContentManager extends EventEmitter {
+  private scripts: Map<string, ScriptState> = new Map();
+
+  constructor(private translator: ContentTranslator, private terminology?: TerminologyManager) {
+    super();
+  }
+
+  /**
+   * Split a plain-text document into segments. Segments are separated by blank lines;
+   * a line such as "[lyrics]" sets the kind of the segments that follow it.
+   */
+  static parseDocument(document: string): ScriptSegmentInput[] {
+    const segments: ScriptSegmentInput[] = [];
+    let kind: ScriptSegmentKind = 'other';
+
+    for (const block of document.replace(/\r\n?/g, '\n').split(/\n\s*\n/)) {
+      const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+      const marker = lines[0]?.match(/^\[(\w+)\]$/);
+      if (marker && SEGMENT_KINDS.includes(marker[1].toLowerCase() as ScriptSegmentKind)) {
+        kind = marker[1].toLowerCase() as ScriptSegmentKind;
+        lines.shift();
+      }
+      if (lines.length > 0) {
+        segments.push({ text: lines.join('\n'), kind });
+      }
+    }
+
+    return segments;
+  }
+
+  /**
+   * Validate an upload before anything is translated
+   */
+  static validateUpload(document: string | undefined, segments: ScriptSegmentInput[]): string[] {
+    const errors: string[] = [];
+
+    if (document !== undefined && document.length > MAX_DOCUMENT_LENGTH) {
+      errors.push(`Document exceeds ${MAX_DOCUMENT_LENGTH} characters`);
+    }
+    if (segments.length === 0) {
+      errors.push('The document has no segments');
+    }
+    if (segments.length > MAX_SEGMENTS) {
+      errors.push(`A script may have at most ${MAX_SEGMENTS} segments`);
+    }
+    segments.forEach((segment, index) => {
+      if (typeof segment?.text !== 'string' || !segment.text.trim()) {
+        errors.push(`Segment ${index + 1}: text is required`);
+      } else if (segment.text.length > MAX_SEGMENT_LENGTH) {
+        errors.push(`Segment ${index + 1}: exceeds ${MAX_SEGMENT_LENGTH} characters`);
+      }
+      if (segment?.kind !== undefined && !SEGMENT_KINDS.includes(segment.kind)) {
+        errors.push(`Segment ${index + 1}: unknown kind ${segment.kind}`);
+      }
+    });
+
+    return errors.slice(0, MAX_REPORTED_ERRORS);
+  }
+
+  /**
+   * Store a new script for a session, replacing (and cancelling) any previous one
+   */
+  createScript(
+    sessionId: string,
+    title: string,
+    sourceLanguage: SourceLanguage,
+    inputs: ScriptSegmentInput[],
+    languages: TargetLanguage[],
+    createdBy: string
+  ): { summary: ScriptSummary; segments: ScriptSegment[] } {
+    this.clearScript(sessionId);
+
+    const segments: ScriptSegment[] = inputs.map((input, index) => ({
+      index,
+      kind: input.kind || 'other',
+      original: input.text.trim(),
+      translations: {},
+      audioReady: []
+    }));
+
+    const state: ScriptState = {
+      summary: {
+        scriptId: uuidv4(),
+        sessionId,
+        title,
+        sourceLanguage,
+        languages: [...languages],
+        status: 'preparing',
+        position: -1,
+        segmentCount: segments.length,
+        translatedCount: 0,
+        audioCount: 0,
+        errors: [],
+        createdBy,
+        createdAt: new Date().toISOString()
+      },
+      segments,
+      cancelled: false
+    };
+    this.scripts.set(sessionId, state);
+
+    console.log(`Script "${title}" uploaded for session ${sessionId}: ${segments.length} segments`);
+    return { summary: { ...state.summary }, segments };
+  }
+
+  /**
+   * Translate every segment into the script's languages and, when a generator is given,
+   * pre-generate the audio. Segments are prepared in order so the first ones are usable early.
+   */
+  async prepare(sessionId: string, generateAudio?: ScriptAudioGenerator): Promise<void> {
+    const state = this.scripts.get(sessionId);
+    if (!state) return;
+
+    const { summary } = state;
+
+    for (const segment of state.segments) {
+      if (state.cancelled) return;
+
+      await Promise.all(summary.languages.map(async language => {
+        try {
+          const glossary = this.terminology?.getEntries(summary.sourceLanguage, language) || [];
+          segment.translations[language] = await this.translator.translate(
+            segment.original,
+            summary.sourceLanguage,
+            language,
+            glossary
+          );
+        } catch (error) {
+          this.recordError(state, `Segment ${segment.index + 1} (${language}): ${(error as Error).message}`);
+        }
+      }));
+      if (summary.languages.every(language => segment.translations[language])) {
+        summary.translatedCount++;
+      }
+
+      if (generateAudio) {
+        for (const language of summary.languages) {
+          const text = segment.translations[language];
+          if (!text || state.cancelled) continue;
+          try {
+            if (await generateAudio(text, language)) {
+              segment.audioReady.push(language);
+            }
+          } catch (error) {
+            this.recordError(state, `Segment ${segment.index + 1} audio (${language}): ${(error as Error).message}`);
+          }
+        }
+        if (summary.languages.every(language => segment.audioReady.includes(language))) {
+          summary.audioCount++;
+        }
+      }
+
+      this.emit('progress', { ...summary });
+    }
+
+    if (state.cancelled) return;
+
+    summary.status = summary.translatedCount === summary.segmentCount ? 'ready' : 'failed';
+    console.log(`Script "${summary.title}" for session ${sessionId} ${summary.status}: ${summary.translatedCount}/${summary.segmentCount} translated, ${summary.audioCount} with audio`);
+    this.emit('progress', { ...summary });
+  }
+
+  getScript(sessionId: string): { summary: ScriptSummary; segments: ScriptSegment[] } | null {
+    const state = this.scripts.get(sessionId);
+    return state ? { summary: { ...state.summary }, segments: state.segments } : null;
+  }
+
+  /**
+   * Segment a move would land on, without moving. Null at either end of the script or for a bad index.
+   */
+  resolveMove(sessionId: string, action: ScriptMoveAction, index?: number): ScriptSegment | null {
+    const state = this.scripts.get(sessionId);
+    if (!state) return null;
+
+    const { position } = state.summary;
+    let target: number;
+    switch (action) {
+      case 'next':
+        target = position + 1;
+        break;
+      case 'previous':
+        target = position - 1;
+        break;
+      case 'repeat':
+        target = position;
+        break;
+      case 'goto':
+        target = typeof index === 'number' && Number.isInteger(index) ? index : -1;
+        break;
+      default:
+        return null;
+    }
+
+    return state.segments[target] || null;
+  }
+
+  /**
+   * Record the segment that was just broadcast
+   */
+  setPosition(sessionId: string, index: number): void {
+    const state = this.scripts.get(sessionId);
+    if (state && state.segments[index]) {
+      state.summary.position = index;
+    }
+  }
+
+  clearScript(sessionId: string): void {
+    const state = this.scripts.get(sessionId);
+    if (state) {
+      state.cancelled = true;
+      this.scripts.delete(sessionId);
+    }
+  }
+
+  private recordError(state: ScriptState, message: string): void {
+    console.error(`Script preparation error: ${message}`);
+    if (state.summary.errors.length < MAX_REPORTED_ERRORS) {
+      state.summary.errors.push(message);
+    }
+  }
+}
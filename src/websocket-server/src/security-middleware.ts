@@ -19,6 +19,7 @@ export interface SecurityConfig {
 export interface SecurityContext {
   clientId: string;
   sessionId?: string;
+  displaySessionId?: string;  // Session a caption overlay holds a display slot in
   authSession?: string;
   ipAddress: string;
   userAgent?: string;
@@ -114,6 +115,34 @@ export class SecurityMiddleware {
     return true;
   }
 
+  /**
+   * Validate a caption overlay joining a session. Overlays are read-only displays,
+   * so they are not counted against the session's congregant limit. Any client can
+   * claim to be a display, so displays have a (small) limit of their own.
+   */
+  public validateDisplayJoin(context: SecurityContext, sessionId: string): boolean {
+    if (!this.sessionSecurity.validateSessionId(sessionId)) {
+      this.logSecurityEvent('SESSION_INVALID', context.clientId, context.ipAddress, `Invalid session ID: ${sessionId}`);
+      return false;
+    }
+
+    // A rejoin (e.g. an overlay retrying) gives up the slot it held
+    if (context.displaySessionId) {
+      this.rateLimiter.removeDisplayFromSession(context.displaySessionId);
+      context.displaySessionId = undefined;
+    }
+
+    if (!this.rateLimiter.addDisplayToSession(sessionId)) {
+      this.logSecurityEvent('SESSION_FULL', context.clientId, context.ipAddress, `Display limit reached: ${sessionId}`);
+      return false;
+    }
+
+    // context.sessionId stays unset so disconnecting does not release a congregant slot
+    context.displaySessionId = sessionId;
+    this.logSecurityEvent('DISPLAY_JOIN', context.clientId, context.ipAddress, `Display joined session: ${sessionId}`);
+    return true;
+  }
+
   /**
    * Check WebSocket message rate limit
    */
@@ -169,6 +198,9 @@ export class SecurityMiddleware {
     if (context.sessionId) {
       this.rateLimiter.removeClientFromSession(context.sessionId);
     }
+    if (context.displaySessionId) {
+      this.rateLimiter.removeDisplayFromSession(context.displaySessionId);
+    }
 
     // Logout if authenticated
     if (context.authSession) {
@@ -0,0 +1,106 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BroadcastSegment,
+  SourceLanguage,
+  SpeakerLabel,
+  TargetLanguage
+} from '../../shared/types';
+
+const MAX_SEGMENTS_PER_SESSION = 500;
+
+export interface SegmentCorrectionOutcome {
+  segment: BroadcastSegment;
+  previous: Partial<Record<TargetLanguage, string>>;
+}
+
+/**
+ * SegmentStore gives every broadcast translation a stable ID and keeps the
+ * most recent segments of each session so they can be corrected afterwards.
+ */
+export class SegmentStore {
+  private sessions: Map<string, Map<string, BroadcastSegment>> = new Map();
+
+  /**
+   * Record a broadcast and assign its segment ID
+   */
+  addSegment(
+    sessionId: string,
+    original: string,
+    translations: Partial<Record<TargetLanguage, string>>,
+    sourceLanguage?: SourceLanguage,
+    speaker?: SpeakerLabel
+  ): BroadcastSegment {
+    const segment: BroadcastSegment = {
+      segmentId: uuidv4(),
+      sessionId,
+      original: original || '',
+      sourceLanguage,
+      translations: { ...translations },
+      speaker,
+      timestamp: new Date().toISOString()
+    };
+
+    let segments = this.sessions.get(sessionId);
+    if (!segments) {
+      segments = new Map();
+      this.sessions.set(sessionId, segments);
+    }
+    segments.set(segment.segmentId, segment);
+
+    // Maps keep insertion order, so the first key is the oldest segment
+    while (segments.size > MAX_SEGMENTS_PER_SESSION) {
+      const oldest = segments.keys().next().value as string;
+      segments.delete(oldest);
+    }
+
+    return segment;
+  }
+
+  getSegment(sessionId: string, segmentId: string): BroadcastSegment | undefined {
+    return this.sessions.get(sessionId)?.get(segmentId);
+  }
+
+  /**
+   * Most recent segments of a session, oldest first
+   */
+  getRecentSegments(sessionId: string, limit: number = 50): BroadcastSegment[] {
+    const segments = Array.from(this.sessions.get(sessionId)?.values() || []);
+    return segments.slice(-limit);
+  }
+
+  /**
+   * Replace the text of one or more languages. Returns null when the segment is unknown.
+   */
+  applyCorrection(
+    sessionId: string,
+    segmentId: string,
+    corrections: Partial<Record<TargetLanguage, string>>,
+    correctedBy: string,
+    original?: string
+  ): SegmentCorrectionOutcome | null {
+    const segment = this.getSegment(sessionId, segmentId);
+    if (!segment) {
+      return null;
+    }
+
+    const previous: Partial<Record<TargetLanguage, string>> = {};
+    for (const [language, text] of Object.entries(corrections) as [TargetLanguage, string][]) {
+      previous[language] = segment.translations[language];
+      segment.translations[language] = text;
+    }
+    if (original !== undefined) {
+      segment.original = original;
+    }
+    segment.correctedAt = new Date().toISOString();
+    segment.correctedBy = correctedBy;
+
+    return { segment, previous };
+  }
+
+  /**
+   * Forget a session's segments once it has ended
+   */
+  clearSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+}
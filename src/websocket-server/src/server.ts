@@ -9,11 +9,28 @@ import { AudioManager } from './audio-manager';
 import { ServerErrorLogger } from './error-logger';
 import { SecurityMiddleware, SecurityConfig } from './security-middleware';
 import { PollyService } from './polly-service';
+import { LocalTTSEngine, LocalEngineKind, LOCAL_ENGINE_KINDS } from './local-tts-engine';
+import { TTSScheduler } from './tts-scheduler';
 import { AdminIdentityStore } from './admin-identity-store';
 import { AdminIdentityManager } from './admin-identity-manager';
 import { AuthManager, AuthConfig } from './auth-manager';
 import { CognitoAuthService } from './cognito-auth';
 import { TokenStore } from './token-store';
+import { TerminologyManager } from './terminology-manager';
+import { PronunciationLexicon } from './pronunciation-lexicon';
+import { SegmentStore } from './segment-store';
+import { ScriptedContentManager } from './scripted-content-manager';
+import { ContentTranslator } from './content-translator';
+import { MessageValidator } from './message-validator';
+import { renderOverlayPage } from './overlay-page';
+import { TranscriptArchive } from './transcript-archive';
+import { TranslationHistory } from './translation-history';
+import { SessionScheduler } from './session-scheduler';
+import { JoinLinks } from './join-links';
+import { renderJoinCardPage } from './join-card-page';
+import { TargetLanguage } from './types';
+import { LANGUAGES } from '../../shared/languages';
+import { formatTranscript, isTranscriptFormat, TranscriptLanguage, TRANSCRIPT_CONTENT_TYPES } from './transcript-formatter';
 import * as path from 'path';
 
 // Load environment variables
@@ -124,6 +141,24 @@ const errorLogger = new ServerErrorLogger();
 const sessionManager = new SessionManager();
 const audioManager = new AudioManager();
 
+// Initialize shared terminology glossary
+const terminologyManager = new TerminologyManager();
+const pronunciationLexicon = new PronunciationLexicon();
+const segmentStore = new SegmentStore();
+const scriptedContentManager = new ScriptedContentManager(new ContentTranslator(), terminologyManager);
+const transcriptArchive = new TranscriptArchive();
+const translationHistory = new TranslationHistory({
+  maxEntries: parseInt(process.env.TRANSLATION_HISTORY_COUNT || '10'),
+  maxAgeMs: parseInt(process.env.TRANSLATION_HISTORY_MINUTES || '10') * 60 * 1000,
+  retainEntries: parseInt(process.env.TRANSLATION_REPLAY_BUFFER || '100')
+});
+const sessionScheduler = new SessionScheduler();
+const joinLinks = new JoinLinks({
+  host: process.env.PUBLIC_HOST,
+  serverPort: parseInt(process.env.PORT || '3001', 10),
+  clientUrl: process.env.CLIENT_PWA_URL
+});
+
 // Initialize Auth Manager
 const authConfig: AuthConfig = {
   enabled: process.env.ENABLE_AUTH === 'true',
@@ -161,6 +196,26 @@ const pollyService = new PollyService({
   enabled: process.env.ENABLE_TTS === 'true'
 });
 
+// Local TTS engine (optional): server-side audio when Polly cannot be reached
+const localTTSEngineKind = process.env.LOCAL_TTS_ENGINE as LocalEngineKind | undefined;
+if (localTTSEngineKind && !LOCAL_ENGINE_KINDS.includes(localTTSEngineKind)) {
+  console.warn(`Unknown LOCAL_TTS_ENGINE "${localTTSEngineKind}", expected one of: ${LOCAL_ENGINE_KINDS.join(', ')}`);
+}
+const localTTSEngine = localTTSEngineKind && LOCAL_ENGINE_KINDS.includes(localTTSEngineKind)
+  ? new LocalTTSEngine({
+      engine: localTTSEngineKind,
+      command: process.env.LOCAL_TTS_COMMAND || undefined,
+      models: LocalTTSEngine.parseModels(process.env.LOCAL_TTS_PIPER_MODELS),
+      timeoutMs: parseInt(process.env.LOCAL_TTS_TIMEOUT_MS || '10000', 10)
+    })
+  : undefined;
+
+// TTS pipelining: languages are synthesized in parallel, long texts in sentence chunks
+const ttsScheduler = new TTSScheduler({
+  maxConcurrent: parseInt(process.env.TTS_CONCURRENCY || '3', 10),
+  maxChunkLength: parseInt(process.env.TTS_CHUNK_CHARS || '200', 10)
+});
+
 // Initialize security middleware
 const securityConfig: SecurityConfig = {
   auth: {
@@ -173,6 +228,7 @@ const securityConfig: SecurityConfig = {
     websocketRateLimit: parseInt(process.env.WEBSOCKET_RATE_LIMIT_PER_SECOND || '10'),
     pollyRateLimit: parseInt(process.env.POLLY_RATE_LIMIT_PER_MINUTE || '60'),
     maxClientsPerSession: parseInt(process.env.MAX_CLIENTS_PER_SESSION || '50'),
+    maxDisplaysPerSession: parseInt(process.env.MAX_DISPLAYS_PER_SESSION || '5'),
     windowSizeMs: 60 * 1000, // 1 minute
   },
   sessionSecurity: {
@@ -267,7 +323,17 @@ const messageRouter = new MessageRouter(
   cognitoAuth,
   audioManager,
   errorLogger,
-  pollyService
+  pollyService,
+  terminologyManager,
+  segmentStore,
+  scriptedContentManager,
+  transcriptArchive,
+  translationHistory,
+  sessionScheduler,
+  joinLinks,
+  pronunciationLexicon,
+  ttsScheduler,
+  localTTSEngine
 );
 
 const PORT = parseInt(process.env.PORT || '3001', 10);
@@ -310,6 +376,148 @@ app.get('/tts/capabilities', async (req, res) => {
   }
 });
 
+// Subtitle overlay page for OBS/vMix browser sources (styled through query parameters)
+app.get('/overlay/:sessionId/:language', (req, res) => {
+  const { sessionId, language } = req.params;
+
+  if (!MessageValidator.isValidSessionId(sessionId)) {
+    return res.status(400).json({ error: 'Invalid session ID format. Expected: CHURCH-YYYY-NNN' });
+  }
+  if (!MessageValidator.isValidTargetLanguage(language)) {
+    return res.status(400).json({ error: `Unsupported language: ${language}` });
+  }
+
+  res.setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.send(renderOverlayPage(sessionId, language));
+});
+
+// Language registry, so the PWA names and lays out languages the same way the server validates them
+app.get('/languages', (req, res) => {
+  res.setHeader('Cache-Control', 'public, max-age=3600');
+  res.json({ languages: LANGUAGES });
+});
+
+// Running and upcoming scheduled sessions, for congregants choosing what to join
+app.get('/sessions/upcoming', (req, res) => {
+  const days = Math.min(31, Math.max(1, parseInt((req.query.days as string) || '7') || 7));
+  const sessions = sessionScheduler.getUpcomingSessions(days * 24 * 60 * 60 * 1000);
+  res.json({
+    timestamp: new Date().toISOString(),
+    days,
+    sessions
+  });
+});
+
+// Short join link printed on cards and encoded in QR codes; opens the PWA with the session filled in
+app.get('/j/:sessionId/:language?', (req, res) => {
+  const { sessionId, language } = req.params;
+
+  if (!MessageValidator.isValidSessionId(sessionId)) {
+    return res.status(400).json({ error: 'Invalid session ID format. Expected: CHURCH-YYYY-NNN' });
+  }
+  if (language !== undefined && !MessageValidator.isValidTargetLanguage(language)) {
+    return res.status(400).json({ error: `Unsupported language: ${language}` });
+  }
+
+  res.redirect(302, joinLinks.getClientJoinUrl(sessionId, language as TargetLanguage | undefined));
+});
+
+// Printable join card with a QR code per language; also works for a scheduled session before it starts
+app.get('/sessions/:sessionId/join-card', async (req, res) => {
+  const { sessionId } = req.params;
+
+  if (!MessageValidator.isValidSessionId(sessionId)) {
+    return res.status(400).json({ error: 'Invalid session ID format. Expected: CHURCH-YYYY-NNN' });
+  }
+
+  const session = sessionManager.getSession(sessionId);
+  const schedule = sessionScheduler.getScheduleBySessionId(sessionId);
+  const config = session?.config || schedule?.config;
+  if (!config) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+
+  try {
+    const shortUrl = joinLinks.getShortUrl(sessionId);
+    const languages = await Promise.all(config.enabledLanguages.map(async language => {
+      const languageUrl = joinLinks.getShortUrl(sessionId, language);
+      return { language, shortUrl: languageUrl, qrCodeSvg: await joinLinks.renderQrSvg(languageUrl) };
+    }));
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.send(renderJoinCardPage({
+      sessionId,
+      title: config.sessionName || schedule?.name || 'Live Translation',
+      clientUrl: joinLinks.getClientUrl(),
+      shortUrl,
+      qrCodeSvg: await joinLinks.renderQrSvg(shortUrl),
+      languages
+    }));
+  } catch (error) {
+    console.error(`Failed to render join card for ${sessionId}:`, error);
+    res.status(500).json({ error: 'Failed to generate join card' });
+  }
+});
+
+// Admin-only HTTP endpoints take the access token of a connected admin as a Bearer token
+const requireAdmin: express.RequestHandler = (req, res, next) => {
+  const authorization = req.headers.authorization || '';
+  const accessToken = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+
+  if (!accessToken) {
+    res.status(401).json({ error: 'Missing Bearer token' });
+    return;
+  }
+  const adminId = tokenStore.getAdminIdByToken(accessToken);
+  if (!adminId) {
+    res.status(403).json({ error: 'Token is not held by a connected admin, or has expired' });
+    return;
+  }
+  res.locals.adminId = adminId;
+  next();
+};
+
+// Session transcript archive
+app.get('/transcripts', requireAdmin, (req, res) => {
+  const transcripts = transcriptArchive.listTranscripts(res.locals.adminId);
+  res.json({
+    timestamp: new Date().toISOString(),
+    count: transcripts.length,
+    transcripts
+  });
+});
+
+app.get('/transcripts/:archiveId', requireAdmin, (req, res) => {
+  const { archiveId } = req.params;
+  const format = (req.query.format as string) || 'json';
+  const language = req.query.language as string | undefined;
+
+  if (!isTranscriptFormat(format)) {
+    return res.status(400).json({ error: `Unsupported format: ${format}. Expected srt, vtt, txt or json` });
+  }
+  if (language !== undefined && language !== 'original' && !TerminologyManager.isValidTargetLanguage(language)) {
+    return res.status(400).json({ error: `Unsupported language: ${language}` });
+  }
+  if (!language && format !== 'json') {
+    return res.status(400).json({ error: 'language is required for srt, vtt and txt exports' });
+  }
+
+  const transcript = transcriptArchive.getTranscript(archiveId);
+  if (!transcript) {
+    return res.status(404).json({ error: 'Transcript not found' });
+  }
+  // Archives without a recorded owner are never served
+  if (transcript.adminId !== res.locals.adminId) {
+    return res.status(403).json({ error: 'Transcript belongs to a session owned by another admin' });
+  }
+
+  const fileName = language ? `${archiveId}.${language}.${format}` : `${archiveId}.${format}`;
+  res.setHeader('Content-Type', TRANSCRIPT_CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(formatTranscript(transcript, format, language as TranscriptLanguage | undefined));
+});
+
 // Health check endpoint with comprehensive monitoring
 app.get('/health', (req, res) => {
   const sessions = sessionManager.getAllSessions();
@@ -521,7 +729,10 @@ io.on('connection', async (socket) => {
     console.log(`[${socket.id}] ← join-session:`, JSON.stringify(data, null, 2));
     // Validate session join
     if (data && data.sessionId) {
-      if (!securityMiddleware.validateSessionJoin(securityContext, data.sessionId)) {
+      const allowed = data.displayClient === true
+        ? securityMiddleware.validateDisplayJoin(securityContext, data.sessionId)
+        : securityMiddleware.validateSessionJoin(securityContext, data.sessionId);
+      if (!allowed) {
         socket.emit('session-join-failed', {
           error: 'Session join validation failed',
           sessionId: data.sessionId,
@@ -541,6 +752,10 @@ io.on('connection', async (socket) => {
     console.log(`[${socket.id}] ← change-language:`, JSON.stringify(data, null, 2));
     messageRouter.routeMessage(socket, 'change-language', data);
   }));
+  // Acks arrive every few seconds from every listener, so they are not logged
+  socket.on('translation-ack', secureMessageHandler('translation-ack', (data) => {
+    messageRouter.routeMessage(socket, 'translation-ack', data);
+  }));
   socket.on('config-update', secureMessageHandler('config-update', (data) => {
     console.log(`[${socket.id}] ← config-update:`, JSON.stringify(data, null, 2));
     messageRouter.routeMessage(socket, 'config-update', data);
@@ -567,6 +782,103 @@ io.on('connection', async (socket) => {
     messageRouter.routeMessage(socket, 'generate-tts', data);
   }));
   
+  // Terminology / glossary management (admin operations)
+  socket.on('add-terminology', secureMessageHandler('add-terminology', (data) => {
+    console.log(`[${socket.id}] ← add-terminology:`, JSON.stringify(data, null, 2));
+    messageRouter.routeMessage(socket, 'add-terminology', data);
+  }));
+
+  socket.on('update-terminology', secureMessageHandler('update-terminology', (data) => {
+    console.log(`[${socket.id}] ← update-terminology:`, JSON.stringify(data, null, 2));
+    messageRouter.routeMessage(socket, 'update-terminology', data);
+  }));
+
+  socket.on('delete-terminology', secureMessageHandler('delete-terminology', (data) => {
+    console.log(`[${socket.id}] ← delete-terminology:`, JSON.stringify(data, null, 2));
+    messageRouter.routeMessage(socket, 'delete-terminology', data);
+  }));
+
+  socket.on('list-terminology', secureMessageHandler('list-terminology', (data) => {
+    console.log(`[${socket.id}] ← list-terminology`);
+    messageRouter.routeMessage(socket, 'list-terminology', data || {});
+  }));
+
+  // Pronunciation lexicon management (admin operations)
+  socket.on('add-pronunciations', secureMessageHandler('add-pronunciations', (data) => {
+    console.log(`[${socket.id}] ← add-pronunciations:`, JSON.stringify(data, null, 2));
+    messageRouter.routeMessage(socket, 'add-pronunciations', data);
+  }));
+
+  socket.on('update-pronunciation', secureMessageHandler('update-pronunciation', (data) => {
+    console.log(`[${socket.id}] ← update-pronunciation:`, JSON.stringify(data, null, 2));
+    messageRouter.routeMessage(socket, 'update-pronunciation', data);
+  }));
+
+  socket.on('delete-pronunciation', secureMessageHandler('delete-pronunciation', (data) => {
+    console.log(`[${socket.id}] ← delete-pronunciation:`, JSON.stringify(data, null, 2));
+    messageRouter.routeMessage(socket, 'delete-pronunciation', data);
+  }));
+
+  socket.on('list-pronunciations', secureMessageHandler('list-pronunciations', (data) => {
+    console.log(`[${socket.id}] ← list-pronunciations`);
+    messageRouter.routeMessage(socket, 'list-pronunciations', data || {});
+  }));
+
+  // Voice listing and previews (admin operations)
+  socket.on('list-voices', secureMessageHandler('list-voices', (data) => {
+    console.log(`[${socket.id}] ← list-voices`);
+    messageRouter.routeMessage(socket, 'list-voices', data || {});
+  }));
+
+  socket.on('preview-voice', secureMessageHandler('preview-voice', (data) => {
+    console.log(`[${socket.id}] ← preview-voice:`, JSON.stringify(data));
+    messageRouter.routeMessage(socket, 'preview-voice', data || {});
+  }));
+
+  socket.on('correct-translation', secureMessageHandler('correct-translation', (data) => {
+    console.log(`[${socket.id}] ← correct-translation`);
+    messageRouter.routeMessage(socket, 'correct-translation', data || {});
+  }));
+
+  // Scripted content handlers (admin operations)
+  socket.on('upload-script', secureMessageHandler('upload-script', (data) => {
+    console.log(`[${socket.id}] ← upload-script`);
+    messageRouter.routeMessage(socket, 'upload-script', data || {});
+  }));
+
+  socket.on('get-script', secureMessageHandler('get-script', (data) => {
+    console.log(`[${socket.id}] ← get-script`);
+    messageRouter.routeMessage(socket, 'get-script', data || {});
+  }));
+
+  socket.on('script-control', secureMessageHandler('script-control', (data) => {
+    console.log(`[${socket.id}] ← script-control:`, JSON.stringify(data));
+    messageRouter.routeMessage(socket, 'script-control', data || {});
+  }));
+
+  socket.on('set-session-mode', secureMessageHandler('set-session-mode', (data) => {
+    console.log(`[${socket.id}] ← set-session-mode:`, JSON.stringify(data));
+    messageRouter.routeMessage(socket, 'set-session-mode', data || {});
+  }));
+
+  // Session schedules
+  socket.on('create-schedule', secureMessageHandler('create-schedule', (data) => {
+    console.log(`[${socket.id}] ← create-schedule:`, JSON.stringify(data, null, 2));
+    messageRouter.routeMessage(socket, 'create-schedule', data);
+  }));
+  socket.on('update-schedule', secureMessageHandler('update-schedule', (data) => {
+    console.log(`[${socket.id}] ← update-schedule:`, JSON.stringify(data, null, 2));
+    messageRouter.routeMessage(socket, 'update-schedule', data);
+  }));
+  socket.on('delete-schedule', secureMessageHandler('delete-schedule', (data) => {
+    console.log(`[${socket.id}] ← delete-schedule:`, JSON.stringify(data));
+    messageRouter.routeMessage(socket, 'delete-schedule', data);
+  }));
+  socket.on('list-schedules', secureMessageHandler('list-schedules', (data) => {
+    console.log(`[${socket.id}] ← list-schedules`);
+    messageRouter.routeMessage(socket, 'list-schedules', data || {});
+  }));
+  
   socket.on('broadcast-translation', secureMessageHandler('broadcast-translation', (data) => {
     console.log(`[${socket.id}] ← broadcast-translation:`, JSON.stringify(data, null, 2));
     // TTS generation is now handled in message-router.ts
@@ -620,6 +932,9 @@ server.listen(PORT, '0.0.0.0', () => {
   console.log(`Service Translate WebSocket Server running on port ${PORT}`);
   console.log(`Health check available at http://localhost:${PORT}/health`);
   console.log(`Network access available at http://0.0.0.0:${PORT}/health`);
+
+  // Start and end scheduled sessions (including any that came due while the server was down)
+  sessionScheduler.start();
   
   // Broadcast server restart notification to all connected clients
   // This forces clients to re-authenticate since all tokens were cleared on restart
@@ -651,6 +966,7 @@ app.get('/security', (req, res) => {
         websocket: securityConfig.rateLimit.websocketRateLimit,
         polly: securityConfig.rateLimit.pollyRateLimit,
         maxClients: securityConfig.rateLimit.maxClientsPerSession,
+        maxDisplays: securityConfig.rateLimit.maxDisplaysPerSession,
       },
     },
   });
@@ -668,6 +984,7 @@ const gracefulShutdown = () => {
   
   // Cleanup other services
   audioManager.shutdown();
+  sessionScheduler.stop();
   
   server.close(() => {
     console.log('Server closed');
@@ -1,6 +1,7 @@
 import { writeFileSync, readFileSync, existsSync, mkdirSync, readdirSync, unlinkSync } from 'fs';
 import { join } from 'path';
-import { SessionData, SessionConfig, ClientData, AudioCapabilities, TargetLanguage } from '../../shared/types';
+import { SessionData, SessionConfig, ClientData, AudioCapabilities, TargetLanguage, SourceLanguage, SessionMode } from '../../shared/types';
+import { getLanguage } from '../../shared/languages';
 
 export class SessionManager {
   private sessions: Map<string, SessionData> = new Map();
@@ -31,7 +32,7 @@ export class SessionManager {
   /**
    * Create a new session with admin identity
    */
-  createSession(sessionId: string, config: SessionConfig, adminId: string, adminSocketId: string, createdBy: string): SessionData {
+  createSession(sessionId: string, config: SessionConfig, adminId: string, adminSocketId: string | null, createdBy: string): SessionData {
     if (this.sessions.has(sessionId)) {
       throw new Error(`Session ${sessionId} already exists`);
     }
@@ -79,7 +80,12 @@ export class SessionManager {
     }
 
     const oldConfig = { ...session.config };
-    session.config = config;
+    // Admin apps that do not manage speech settings or voices leave them as they were
+    session.config = {
+      ...config,
+      speech: config.speech ?? oldConfig.speech,
+      voices: config.voices ?? oldConfig.voices
+    };
     session.lastActivity = new Date();
     this.persistSession(session);
     
@@ -151,10 +157,53 @@ export class SessionManager {
     return true;
   }
 
+  /**
+   * Record the language currently being spoken in a session.
+   * Returns the previous language when it changed, or null when unchanged.
+   */
+  updateDetectedSourceLanguage(sessionId: string, sourceLanguage: SourceLanguage): SourceLanguage | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    // Capture apps may store a regional code ('pt-BR') in the config
+    const previous = session.detectedSourceLanguage
+      || getLanguage(session.config.sourceLanguage)?.code
+      || session.config.sourceLanguage.split('-')[0];
+    if (previous === sourceLanguage) {
+      return null;
+    }
+
+    session.detectedSourceLanguage = sourceLanguage;
+    session.lastActivity = new Date();
+    this.persistSession(session);
+
+    console.log(`Detected source language changed from ${previous} to ${sourceLanguage} for session: ${sessionId}`);
+    return previous;
+  }
+
+  /**
+   * Switch between live transcription and scripted content. Returns false if unchanged.
+   */
+  setSessionMode(sessionId: string, mode: SessionMode): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session || (session.mode || 'live') === mode) {
+      return false;
+    }
+
+    session.mode = mode;
+    session.lastActivity = new Date();
+    this.persistSession(session);
+
+    console.log(`Session ${sessionId} switched to ${mode} mode`);
+    return true;
+  }
+
   /**
    * Add client to session
    */
-  addClient(sessionId: string, clientId: string, socketId: string, preferredLanguage: TargetLanguage, audioCapabilities?: AudioCapabilities): boolean {
+  addClient(sessionId: string, clientId: string, socketId: string, preferredLanguage: TargetLanguage, audioCapabilities?: AudioCapabilities, isDisplay: boolean = false): boolean {
     const session = this.sessions.get(sessionId);
     if (!session) {
       return false;
@@ -172,14 +221,15 @@ export class SessionManager {
         supportsPolly: false,
         localTTSLanguages: [],
         audioFormats: []
-      }
+      },
+      isDisplay
     };
 
     session.clients.set(socketId, clientData);
     session.lastActivity = new Date();
     this.persistSession(session);
     
-    console.log(`Client ${socketId} joined session: ${sessionId}`);
+    console.log(`${isDisplay ? 'Display' : 'Client'} ${socketId} joined session: ${sessionId}`);
     return true;
   }
 
@@ -225,6 +275,23 @@ export class SessionManager {
     return true;
   }
 
+  /**
+   * Record the last translation sequence a client confirmed.
+   * Acks arrive for every line, so they are kept in memory only.
+   */
+  updateClientAck(sessionId: string, socketId: string, sequence: number): boolean {
+    const client = this.sessions.get(sessionId)?.clients.get(socketId);
+    if (!client) {
+      return false;
+    }
+
+    // Acks can arrive out of order; never move backwards
+    client.lastAckSequence = Math.max(client.lastAckSequence || 0, sequence);
+    client.lastAckAt = new Date();
+    client.lastSeen = client.lastAckAt;
+    return true;
+  }
+
   /**
    * Get clients by language for targeted broadcasting
    */
@@ -531,6 +598,8 @@ export class SessionManager {
               createdAt: new Date(data.createdAt),
               lastActivity: new Date(data.lastActivity),
               status: data.status,
+              detectedSourceLanguage: data.detectedSourceLanguage,
+              mode: data.mode,
               clients: new Map(data.clients.map(([id, client]: [string, any]) => [
                 id,
                 {
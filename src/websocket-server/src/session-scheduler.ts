@@ -0,0 +1,424 @@
+import { EventEmitter } from 'events';
+import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ScheduledOccurrence,
+  SessionSchedule,
+  SessionScheduleInput,
+  UpcomingSession
+} from '../../shared/types';
+import { MessageValidator } from './message-validator';
+import { TerminologyManager } from './terminology-manager';
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+const MAX_NAME_LENGTH = 100;
+const MAX_DURATION_MINUTES = 24 * 60;
+const MAX_SCHEDULES = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * SessionScheduler keeps the recurring services (e.g. "Sundays 09:30–11:30, pt→en,es")
+ * and tells the router when one of them should start or end. Each schedule always
+ * uses the same session ID, so congregants can bookmark it.
+ *
+ * Times are wall-clock times in the server's local time zone. Schedules, and which
+ * occurrence is running, are persisted so a restart neither loses nor repeats them.
+ *
+ * Events:
+ * - 'session-start' (SessionSchedule, ScheduledOccurrence) when an occurrence begins
+ * - 'session-end' (SessionSchedule, ScheduledOccurrence) when a running occurrence is over
+ */
+export class SessionScheduler extends EventEmitter {
+  private schedules: Map<string, SessionSchedule> = new Map();
+  private persistenceDir: string;
+  private schedulesFile: string;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(persistenceDir: string = './schedules') {
+    super();
+    this.persistenceDir = persistenceDir;
+    this.schedulesFile = join(persistenceDir, 'schedules.json');
+    this.ensurePersistenceDir();
+    this.loadPersistedSchedules();
+  }
+
+  /**
+   * Check schedules now and then periodically
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.checkSchedules(), CHECK_INTERVAL_MS);
+    this.checkSchedules();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  createSchedule(input: SessionScheduleInput, adminId: string, createdBy: string): { schedule?: SessionSchedule; error?: string } {
+    if (this.schedules.size >= MAX_SCHEDULES) {
+      return { error: `Schedule limit of ${MAX_SCHEDULES} reached` };
+    }
+
+    const error = this.validateInput(input);
+    if (error) {
+      return { error };
+    }
+
+    const now = new Date().toISOString();
+    const schedule: SessionSchedule = {
+      ...this.normalizeInput(input),
+      scheduleId: uuidv4(),
+      enabled: input.enabled !== false,
+      adminId,
+      createdBy,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.schedules.set(schedule.scheduleId, schedule);
+    this.persistSchedules();
+    console.log(`Created schedule ${schedule.scheduleId} (${schedule.name}) for ${schedule.sessionId} by ${createdBy}`);
+
+    // A schedule created during its own time slot starts right away
+    this.checkSchedules();
+    return { schedule };
+  }
+
+  /**
+   * Change a schedule. Changing the duration of a running occurrence moves its end;
+   * disabling a schedule leaves a running session to the admin.
+   */
+  updateSchedule(scheduleId: string, changes: Partial<SessionScheduleInput>): { schedule?: SessionSchedule; error?: string } {
+    const existing = this.schedules.get(scheduleId);
+    if (!existing) {
+      return { error: `Schedule not found: ${scheduleId}` };
+    }
+    if (!changes || typeof changes !== 'object') {
+      return { error: 'changes must be an object' };
+    }
+
+    const merged: SessionScheduleInput = {
+      sessionId: existing.sessionId,
+      name: existing.name,
+      recurrence: existing.recurrence,
+      daysOfWeek: existing.daysOfWeek,
+      date: existing.date,
+      startTime: existing.startTime,
+      durationMinutes: existing.durationMinutes,
+      config: existing.config,
+      enabled: existing.enabled,
+      ...changes
+    };
+
+    const error = this.validateInput(merged, scheduleId);
+    if (error) {
+      return { error };
+    }
+
+    const updated: SessionSchedule = {
+      ...existing,
+      ...this.normalizeInput(merged),
+      enabled: merged.enabled !== false,
+      updatedAt: new Date().toISOString()
+    };
+
+    if (updated.activeOccurrence) {
+      if (!updated.enabled || updated.sessionId !== existing.sessionId) {
+        updated.activeOccurrence = undefined;
+      } else {
+        const startsAt = Date.parse(updated.activeOccurrence.startsAt);
+        updated.activeOccurrence = {
+          startsAt: updated.activeOccurrence.startsAt,
+          endsAt: new Date(startsAt + updated.durationMinutes * 60 * 1000).toISOString()
+        };
+      }
+    }
+
+    this.schedules.set(scheduleId, updated);
+    this.persistSchedules();
+    console.log(`Updated schedule ${scheduleId} (${updated.name})`);
+
+    this.checkSchedules();
+    return { schedule: updated };
+  }
+
+  /**
+   * Delete a schedule. A session it is running keeps going until the admin ends it.
+   */
+  deleteSchedule(scheduleId: string): SessionSchedule | null {
+    const existing = this.schedules.get(scheduleId);
+    if (!existing) {
+      return null;
+    }
+
+    this.schedules.delete(scheduleId);
+    this.persistSchedules();
+    console.log(`Deleted schedule ${scheduleId} (${existing.name})`);
+    return existing;
+  }
+
+  getSchedule(scheduleId: string): SessionSchedule | undefined {
+    return this.schedules.get(scheduleId);
+  }
+
+  getScheduleBySessionId(sessionId: string): SessionSchedule | undefined {
+    return Array.from(this.schedules.values()).find(schedule => schedule.sessionId === sessionId);
+  }
+
+  getSchedules(): SessionSchedule[] {
+    return Array.from(this.schedules.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Next occurrence that has not ended yet (the running one, if any)
+   */
+  getNextOccurrence(schedule: SessionSchedule, now: Date = new Date()): ScheduledOccurrence | null {
+    if (schedule.activeOccurrence) {
+      return schedule.activeOccurrence;
+    }
+    if (!schedule.enabled) {
+      return null;
+    }
+    return this.getOccurrences(schedule, now, new Date(now.getTime() + 8 * DAY_MS))
+      .find(occurrence => occurrence.startsAt !== schedule.lastOccurrenceStart) || null;
+  }
+
+  /**
+   * Running and upcoming sessions within a window, soonest first
+   */
+  getUpcomingSessions(withinMs: number, now: Date = new Date()): UpcomingSession[] {
+    const until = new Date(now.getTime() + withinMs);
+    const upcoming: UpcomingSession[] = [];
+
+    for (const schedule of this.schedules.values()) {
+      const occurrences = schedule.activeOccurrence ? [schedule.activeOccurrence] : [];
+      if (schedule.enabled) {
+        occurrences.push(...this.getOccurrences(schedule, now, until)
+          .filter(occurrence => occurrence.startsAt !== schedule.lastOccurrenceStart));
+      }
+
+      for (const occurrence of occurrences) {
+        upcoming.push({
+          scheduleId: schedule.scheduleId,
+          sessionId: schedule.sessionId,
+          name: schedule.name,
+          startsAt: occurrence.startsAt,
+          endsAt: occurrence.endsAt,
+          sourceLanguage: schedule.config.sourceLanguage,
+          languages: schedule.config.enabledLanguages,
+          live: occurrence === schedule.activeOccurrence
+        });
+      }
+    }
+
+    return upcoming.sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+  }
+
+  /**
+   * End running occurrences that are over, then start the ones whose time has come
+   */
+  private checkSchedules(now: Date = new Date()): void {
+    const ended: Array<[SessionSchedule, ScheduledOccurrence]> = [];
+    const started: Array<[SessionSchedule, ScheduledOccurrence]> = [];
+
+    for (const schedule of this.schedules.values()) {
+      if (schedule.activeOccurrence) {
+        if (now.getTime() >= Date.parse(schedule.activeOccurrence.endsAt)) {
+          ended.push([schedule, schedule.activeOccurrence]);
+          schedule.activeOccurrence = undefined;
+          if (schedule.recurrence === 'once') {
+            schedule.enabled = false;
+          }
+        }
+        continue;
+      }
+
+      if (!schedule.enabled) continue;
+
+      // An occurrence missed entirely while the server was down is skipped, not run late
+      const current = this.getOccurrences(schedule, now, new Date(now.getTime() + 1))[0];
+      if (current && current.startsAt !== schedule.lastOccurrenceStart) {
+        schedule.activeOccurrence = current;
+        schedule.lastOccurrenceStart = current.startsAt;
+        started.push([schedule, current]);
+      }
+    }
+
+    if (ended.length === 0 && started.length === 0) {
+      return;
+    }
+
+    this.persistSchedules();
+
+    for (const [schedule, occurrence] of ended) {
+      console.log(`Schedule ${schedule.name}: ending ${schedule.sessionId}`);
+      this.emit('session-end', schedule, occurrence);
+    }
+    for (const [schedule, occurrence] of started) {
+      console.log(`Schedule ${schedule.name}: starting ${schedule.sessionId} until ${occurrence.endsAt}`);
+      this.emit('session-start', schedule, occurrence);
+    }
+  }
+
+  /**
+   * Occurrences overlapping [from, to), in start order
+   */
+  private getOccurrences(schedule: SessionScheduleInput, from: Date, to: Date): ScheduledOccurrence[] {
+    const [hours, minutes] = schedule.startTime.split(':').map(Number);
+    const durationMs = schedule.durationMinutes * 60 * 1000;
+    const starts: Date[] = [];
+
+    if (schedule.recurrence === 'once') {
+      const [, year, month, day] = DATE_PATTERN.exec(schedule.date || '') || [];
+      if (year) {
+        starts.push(new Date(Number(year), Number(month) - 1, Number(day), hours, minutes));
+      }
+    } else {
+      // Start a day early for occurrences that began yesterday and run past midnight
+      const days = Math.ceil((to.getTime() - from.getTime()) / DAY_MS) + 1;
+      for (let offset = -1; offset <= days; offset++) {
+        // Built from calendar fields so daylight saving changes keep the wall-clock time
+        const start = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset, hours, minutes);
+        if (schedule.daysOfWeek?.includes(start.getDay())) {
+          starts.push(start);
+        }
+      }
+    }
+
+    return starts
+      .filter(start => start.getTime() < to.getTime() && start.getTime() + durationMs > from.getTime())
+      .map(start => ({
+        startsAt: start.toISOString(),
+        endsAt: new Date(start.getTime() + durationMs).toISOString()
+      }));
+  }
+
+  /**
+   * Validate a complete schedule, returning the rejection reason if invalid
+   */
+  private validateInput(input: SessionScheduleInput, scheduleId?: string): string | null {
+    if (!input || typeof input !== 'object') {
+      return 'schedule must be an object';
+    }
+
+    if (!MessageValidator.isValidSessionId(input.sessionId)) {
+      return 'Invalid session ID format. Expected: CHURCH-YYYY-NNN';
+    }
+
+    const clash = Array.from(this.schedules.values())
+      .find(schedule => schedule.sessionId === input.sessionId && schedule.scheduleId !== scheduleId);
+    if (clash) {
+      return `Session ID ${input.sessionId} is already used by schedule "${clash.name}"`;
+    }
+
+    if (typeof input.name !== 'string' || input.name.trim().length === 0) {
+      return 'name is required';
+    }
+    if (input.name.trim().length > MAX_NAME_LENGTH) {
+      return `name exceeds ${MAX_NAME_LENGTH} characters`;
+    }
+
+    if (input.recurrence === 'weekly') {
+      if (!Array.isArray(input.daysOfWeek) || input.daysOfWeek.length === 0 ||
+          !input.daysOfWeek.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+        return 'daysOfWeek must list at least one day (0 = Sunday … 6 = Saturday)';
+      }
+    } else if (input.recurrence === 'once') {
+      const match = typeof input.date === 'string' ? DATE_PATTERN.exec(input.date) : null;
+      const date = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+      if (!date || date.getMonth() !== Number(match![2]) - 1 || date.getDate() !== Number(match![3])) {
+        return 'date must be a valid YYYY-MM-DD date';
+      }
+    } else {
+      return 'recurrence must be "once" or "weekly"';
+    }
+
+    if (typeof input.startTime !== 'string' || !TIME_PATTERN.test(input.startTime)) {
+      return 'startTime must be HH:MM (24-hour)';
+    }
+
+    if (!Number.isInteger(input.durationMinutes) || input.durationMinutes < 1 || input.durationMinutes > MAX_DURATION_MINUTES) {
+      return `durationMinutes must be a whole number between 1 and ${MAX_DURATION_MINUTES}`;
+    }
+
+    const configValidation = MessageValidator.validateStartSession({
+      type: 'start-session',
+      sessionId: input.sessionId,
+      config: input.config
+    });
+    if (!configValidation.valid) {
+      return configValidation.error || 'Invalid config';
+    }
+    if (!TerminologyManager.isValidSourceLanguage(input.config.sourceLanguage)) {
+      return `Unsupported source language: ${input.config.sourceLanguage}`;
+    }
+
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+      return 'enabled must be a boolean';
+    }
+
+    return null;
+  }
+
+  private normalizeInput(input: SessionScheduleInput): SessionScheduleInput {
+    return {
+      sessionId: input.sessionId,
+      name: input.name.trim(),
+      recurrence: input.recurrence,
+      daysOfWeek: input.recurrence === 'weekly' ? [...new Set(input.daysOfWeek)].sort((a, b) => a - b) : undefined,
+      date: input.recurrence === 'once' ? input.date : undefined,
+      startTime: input.startTime,
+      durationMinutes: input.durationMinutes,
+      config: {
+        ...input.config,
+        targetLanguages: Array.isArray(input.config.targetLanguages) ? input.config.targetLanguages : input.config.enabledLanguages
+      }
+    };
+  }
+
+  private ensurePersistenceDir(): void {
+    if (!existsSync(this.persistenceDir)) {
+      mkdirSync(this.persistenceDir, { recursive: true });
+    }
+  }
+
+  private persistSchedules(): void {
+    try {
+      const serializable = {
+        version: 1,
+        lastUpdated: new Date().toISOString(),
+        schedules: Array.from(this.schedules.values())
+      };
+      writeFileSync(this.schedulesFile, JSON.stringify(serializable, null, 2));
+    } catch (error) {
+      console.error('Failed to persist session schedules:', error);
+    }
+  }
+
+  private loadPersistedSchedules(): void {
+    if (!existsSync(this.schedulesFile)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.schedulesFile, 'utf8'));
+      for (const schedule of data.schedules || []) {
+        if (schedule.scheduleId && schedule.sessionId && schedule.startTime && schedule.config) {
+          this.schedules.set(schedule.scheduleId, schedule);
+        }
+      }
+      console.log(`Loaded ${this.schedules.size} session schedules`);
+    } catch (error) {
+      console.error('Failed to load session schedules:', error);
+    }
+  }
+}
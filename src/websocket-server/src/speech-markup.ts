@@ -0,0 +1,150 @@
+import { createHash } from 'crypto';
+import { PronunciationEntry, SpeechSettings, SpeechStyle, TargetLanguage } from '../../shared/types';
+
+export const SPEECH_RATE_MIN = 50;
+export const SPEECH_RATE_MAX = 200;
+export const SPEECH_PITCH_MIN = -50;
+export const SPEECH_PITCH_MAX = 50;
+
+/**
+ * Everything that changes how one text is spoken, beyond the language and voice type
+ */
+export interface SpeechOptions {
+  rate: number;                   // Percent of normal speed
+  pitch: number;                  // Relative change in percent
+  lexicon: PronunciationEntry[];  // Entries for the language being spoken
+  voiceId?: string;               // Voice chosen for the language; the engine's default when absent
+}
+
+interface PronunciationMatch {
+  start: number;
+  end: number;
+  entry: PronunciationEntry;
+}
+
+/**
+ * Session style with the language's overrides applied, defaulting to normal delivery
+ */
+export function resolveSpeechStyle(settings: SpeechSettings | undefined, language: TargetLanguage): Required<SpeechStyle> {
+  const override = settings?.languages?.[language];
+  return {
+    rate: override?.rate ?? settings?.rate ?? 100,
+    pitch: override?.pitch ?? settings?.pitch ?? 0
+  };
+}
+
+/**
+ * Escape text for use in SSML content or attribute values. Characters XML does not
+ * allow at all are dropped, since Polly rejects the whole request otherwise.
+ */
+export function escapeSsml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Lexicon entries found in the text, as whole words, longest term first when they overlap
+ */
+function findPronunciations(text: string, lexicon: PronunciationEntry[]): PronunciationMatch[] {
+  const entries = lexicon
+    .filter(entry => entry.term && (entry.alias || entry.phoneme))
+    .sort((a, b) => b.term.length - a.term.length);
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const terms = entries.map(entry => entry.term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+
+  const matches: PronunciationMatch[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const found = match[0].toLocaleLowerCase();
+    const entry = entries.find(candidate => candidate.term.toLocaleLowerCase() === found);
+    if (entry) {
+      matches.push({ start: match.index!, end: match.index! + match[0].length, entry });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Identifies the speech settings that apply to this text, for cache keys. Empty when
+ * the text is spoken plainly, so clips cached before speech settings existed stay valid.
+ */
+export function speechVariant(text: string, options?: SpeechOptions): string {
+  if (!options || (!options.voiceId && !needsSsml(text, options))) {
+    return '';
+  }
+
+  const pronunciations = findPronunciations(text, options.lexicon)
+    .map(({ entry }) => [entry.term.toLocaleLowerCase(), entry.alias || '', entry.phoneme || '']);
+  const key = [options.rate, options.pitch, pronunciations];
+
+  return createHash('sha256')
+    .update(JSON.stringify(options.voiceId ? [...key, options.voiceId] : key))
+    .digest('hex')
+    .substring(0, 12);
+}
+
+/**
+ * Whether the text needs SSML: a rate, pitch or pronunciation applies to it
+ */
+export function needsSsml(text: string, options: SpeechOptions): boolean {
+  return options.rate !== 100 || options.pitch !== 0 || findPronunciations(text, options.lexicon).length > 0;
+}
+
+/**
+ * Build an SSML document for Polly: escaped text, lexicon terms as <sub> or <phoneme>,
+ * and a <prosody> wrapper for rate and pitch
+ */
+export function buildSsml(text: string, options: SpeechOptions, supportsPitch: boolean): string {
+  let body = '';
+  let position = 0;
+
+  for (const { start, end, entry } of findPronunciations(text, options.lexicon)) {
+    body += escapeSsml(text.slice(position, start));
+    const term = escapeSsml(text.slice(start, end));
+    body += entry.phoneme
+      ? `<phoneme alphabet="ipa" ph="${escapeSsml(entry.phoneme)}">${term}</phoneme>`
+      : `<sub alias="${escapeSsml(entry.alias!)}">${term}</sub>`;
+    position = end;
+  }
+  body += escapeSsml(text.slice(position));
+
+  const prosody: string[] = [];
+  if (options.rate !== 100) {
+    prosody.push(`rate="${options.rate}%"`);
+  }
+  if (supportsPitch && options.pitch !== 0) {
+    prosody.push(`pitch="${options.pitch > 0 ? '+' : ''}${options.pitch}%"`);
+  }
+  if (prosody.length > 0) {
+    body = `<prosody ${prosody.join(' ')}>${body}</prosody>`;
+  }
+
+  return `<speak>${body}</speak>`;
+}
+
+/**
+ * Replace lexicon terms by their aliases, for engines that read plain text only.
+ * Phoneme entries are left as written.
+ */
+export function applyAliases(text: string, lexicon: PronunciationEntry[]): string {
+  let result = '';
+  let position = 0;
+
+  for (const { start, end, entry } of findPronunciations(text, lexicon)) {
+    if (!entry.alias) {
+      continue;
+    }
+    result += text.slice(position, start) + entry.alias;
+    position = end;
+  }
+
+  return result + text.slice(position);
+}
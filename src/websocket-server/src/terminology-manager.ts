@@ -0,0 +1,321 @@
+import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  SourceLanguage,
+  TargetLanguage,
+  TerminologyEntry,
+  StoredTerminologyEntry
+} from '../../shared/types';
+import { isSourceLanguage, isTargetLanguage } from '../../shared/languages';
+
+const MAX_TERM_LENGTH = 200;
+const MAX_ENTRIES_PER_SOURCE_LANGUAGE = 1000;
+
+export interface TerminologyRejection {
+  sourceText: string;
+  reason: string;
+}
+
+export interface AddTerminologyOutcome {
+  added: StoredTerminologyEntry[];
+  rejected: TerminologyRejection[];
+}
+
+export interface TerminologyUpdate {
+  translations?: Partial<Record<TargetLanguage, string>>;
+  category?: string;
+  priority?: number;
+  context?: string;
+}
+
+/**
+ * TerminologyManager keeps the shared glossary used by every operator machine.
+ * Entries are keyed by source language and source term, each carrying the
+ * translations for one or more source→target pairs.
+ */
+export class TerminologyManager {
+  private entries: Map<string, StoredTerminologyEntry> = new Map();
+  private persistenceDir: string;
+  private glossaryFile: string;
+
+  constructor(persistenceDir: string = './terminology') {
+    this.persistenceDir = persistenceDir;
+    this.glossaryFile = join(persistenceDir, 'glossary.json');
+    this.ensurePersistenceDir();
+    this.loadPersistedEntries();
+  }
+
+  /**
+   * Check whether a language code is a supported glossary source language
+   */
+  static isValidSourceLanguage(language: any): language is SourceLanguage {
+    return isSourceLanguage(language);
+  }
+
+  /**
+   * Check whether a language code is a supported glossary target language
+   */
+  static isValidTargetLanguage(language: any): language is TargetLanguage {
+    return isTargetLanguage(language);
+  }
+
+  /**
+   * Add new entries for a source language.
+   * Invalid or duplicate entries are rejected individually so the rest of the batch is kept.
+   */
+  addEntries(sourceLanguage: SourceLanguage, entries: TerminologyEntry[], createdBy: string): AddTerminologyOutcome {
+    const added: StoredTerminologyEntry[] = [];
+    const rejected: TerminologyRejection[] = [];
+    let languageCount = this.getEntries(sourceLanguage).length;
+
+    for (const entry of entries) {
+      const sourceText = typeof entry?.sourceText === 'string' ? entry.sourceText.trim() : '';
+      const error = this.validateEntry(sourceLanguage, entry);
+
+      if (error) {
+        rejected.push({ sourceText, reason: error });
+        continue;
+      }
+
+      if (this.findEntry(sourceLanguage, sourceText)) {
+        rejected.push({ sourceText, reason: 'Entry already exists for this source term' });
+        continue;
+      }
+
+      if (languageCount >= MAX_ENTRIES_PER_SOURCE_LANGUAGE) {
+        rejected.push({ sourceText, reason: `Glossary limit of ${MAX_ENTRIES_PER_SOURCE_LANGUAGE} entries reached` });
+        continue;
+      }
+
+      const now = new Date().toISOString();
+      const stored: StoredTerminologyEntry = {
+        entryId: uuidv4(),
+        sourceLanguage,
+        sourceText,
+        translations: this.normalizeTranslations(entry.translations),
+        category: entry.category,
+        confidence: entry.confidence,
+        priority: entry.priority,
+        context: entry.context,
+        createdBy,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      this.entries.set(stored.entryId, stored);
+      added.push(stored);
+      languageCount++;
+    }
+
+    if (added.length > 0) {
+      this.persistEntries();
+      console.log(`Added ${added.length} terminology entries for ${sourceLanguage} by ${createdBy} (${rejected.length} rejected)`);
+    }
+
+    return { added, rejected };
+  }
+
+  /**
+   * Update an existing entry. Translations are merged per target language and
+   * an empty translation removes that source→target pair.
+   */
+  updateEntry(entryId: string, update: TerminologyUpdate): { entry?: StoredTerminologyEntry; error?: string } {
+    const existing = this.entries.get(entryId);
+    if (!existing) {
+      return { error: `Terminology entry not found: ${entryId}` };
+    }
+
+    const translations = { ...existing.translations };
+    if (update.translations !== undefined) {
+      if (typeof update.translations !== 'object' || update.translations === null) {
+        return { error: 'translations must be an object' };
+      }
+
+      for (const [language, text] of Object.entries(update.translations)) {
+        if (!TerminologyManager.isValidTargetLanguage(language) || language === existing.sourceLanguage) {
+          return { error: `Unsupported target language: ${language}` };
+        }
+        if (typeof text !== 'string') {
+          return { error: `Translation for ${language} must be a string` };
+        }
+        if (text.trim().length === 0) {
+          delete translations[language];
+        } else if (text.trim().length > MAX_TERM_LENGTH) {
+          return { error: `Translation for ${language} exceeds ${MAX_TERM_LENGTH} characters` };
+        } else {
+          translations[language] = text.trim();
+        }
+      }
+    }
+
+    if (Object.keys(translations).length === 0) {
+      return { error: 'An entry must keep at least one translation; delete it instead' };
+    }
+
+    if (update.priority !== undefined && typeof update.priority !== 'number') {
+      return { error: 'priority must be a number' };
+    }
+
+    const updated: StoredTerminologyEntry = {
+      ...existing,
+      translations,
+      category: update.category !== undefined ? update.category : existing.category,
+      priority: update.priority !== undefined ? update.priority : existing.priority,
+      context: update.context !== undefined ? update.context : existing.context,
+      updatedAt: new Date().toISOString()
+    };
+
+    this.entries.set(entryId, updated);
+    this.persistEntries();
+
+    console.log(`Updated terminology entry ${entryId} (${updated.sourceText})`);
+    return { entry: updated };
+  }
+
+  /**
+   * Delete an entry, or a single source→target pair when targetLanguage is given.
+   * Returns null if the entry does not exist.
+   */
+  deleteEntry(entryId: string, targetLanguage?: TargetLanguage): { entryDeleted: boolean; entry: StoredTerminologyEntry } | null {
+    const existing = this.entries.get(entryId);
+    if (!existing) {
+      return null;
+    }
+
+    if (targetLanguage) {
+      const translations = { ...existing.translations };
+      delete translations[targetLanguage];
+
+      if (Object.keys(translations).length > 0) {
+        const updated = { ...existing, translations, updatedAt: new Date().toISOString() };
+        this.entries.set(entryId, updated);
+        this.persistEntries();
+        console.log(`Removed ${existing.sourceLanguage}→${targetLanguage} pair from terminology entry ${entryId}`);
+        return { entryDeleted: false, entry: updated };
+      }
+    }
+
+    this.entries.delete(entryId);
+    this.persistEntries();
+    console.log(`Deleted terminology entry ${entryId} (${existing.sourceText})`);
+    return { entryDeleted: true, entry: existing };
+  }
+
+  /**
+   * Get a single entry by ID
+   */
+  getEntry(entryId: string): StoredTerminologyEntry | undefined {
+    return this.entries.get(entryId);
+  }
+
+  /**
+   * List entries, optionally filtered by source language and/or target language
+   */
+  getEntries(sourceLanguage?: SourceLanguage, targetLanguage?: TargetLanguage): StoredTerminologyEntry[] {
+    return Array.from(this.entries.values())
+      .filter(entry => !sourceLanguage || entry.sourceLanguage === sourceLanguage)
+      .filter(entry => !targetLanguage || !!entry.translations[targetLanguage])
+      .sort((a, b) => a.sourceText.localeCompare(b.sourceText));
+  }
+
+  /**
+   * Validate a single entry, returning the rejection reason if invalid
+   */
+  private validateEntry(sourceLanguage: SourceLanguage, entry: TerminologyEntry): string | null {
+    if (!entry || typeof entry !== 'object') {
+      return 'Entry must be an object';
+    }
+
+    if (typeof entry.sourceText !== 'string' || entry.sourceText.trim().length === 0) {
+      return 'sourceText is required';
+    }
+
+    if (entry.sourceText.trim().length > MAX_TERM_LENGTH) {
+      return `sourceText exceeds ${MAX_TERM_LENGTH} characters`;
+    }
+
+    if (!entry.translations || typeof entry.translations !== 'object') {
+      return 'translations are required';
+    }
+
+    const pairs = Object.entries(entry.translations);
+    if (pairs.length === 0) {
+      return 'At least one translation is required';
+    }
+
+    for (const [language, text] of pairs) {
+      if (!TerminologyManager.isValidTargetLanguage(language) || language === sourceLanguage) {
+        return `Unsupported target language: ${language}`;
+      }
+      if (typeof text !== 'string' || text.trim().length === 0) {
+        return `Translation for ${language} is empty`;
+      }
+      if (text.trim().length > MAX_TERM_LENGTH) {
+        return `Translation for ${language} exceeds ${MAX_TERM_LENGTH} characters`;
+      }
+    }
+
+    if (entry.priority !== undefined && typeof entry.priority !== 'number') {
+      return 'priority must be a number';
+    }
+
+    if (entry.confidence !== undefined && (typeof entry.confidence !== 'number' || entry.confidence < 0 || entry.confidence > 1)) {
+      return 'confidence must be a number between 0 and 1';
+    }
+
+    return null;
+  }
+
+  private normalizeTranslations(translations: Partial<Record<TargetLanguage, string>>): Partial<Record<TargetLanguage, string>> {
+    const normalized: Partial<Record<TargetLanguage, string>> = {};
+    for (const [language, text] of Object.entries(translations)) {
+      normalized[language as TargetLanguage] = (text as string).trim();
+    }
+    return normalized;
+  }
+
+  private findEntry(sourceLanguage: SourceLanguage, sourceText: string): StoredTerminologyEntry | undefined {
+    const key = sourceText.toLocaleLowerCase();
+    return Array.from(this.entries.values()).find(entry =>
+      entry.sourceLanguage === sourceLanguage && entry.sourceText.toLocaleLowerCase() === key
+    );
+  }
+
+  private ensurePersistenceDir(): void {
+    if (!existsSync(this.persistenceDir)) {
+      mkdirSync(this.persistenceDir, { recursive: true });
+    }
+  }
+
+  private persistEntries(): void {
+    try {
+      const serializable = {
+        version: 1,
+        lastUpdated: new Date().toISOString(),
+        entries: Array.from(this.entries.values())
+      };
+      writeFileSync(this.glossaryFile, JSON.stringify(serializable, null, 2));
+    } catch (error) {
+      console.error('Failed to persist terminology glossary:', error);
+    }
+  }
+
+  private loadPersistedEntries(): void {
+    if (!existsSync(this.glossaryFile)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.glossaryFile, 'utf8'));
+      for (const entry of data.entries || []) {
+        if (entry.entryId && entry.sourceLanguage && entry.sourceText && entry.translations) {
+          this.entries.set(entry.entryId, entry);
+        }
+      }
+      console.log(`Loaded ${this.entries.size} terminology entries`);
+    } catch (error) {
+      console.error('Failed to load terminology glossary:', error);
+    }
+  }
+}
@@ -77,6 +77,24 @@ export class TokenStore {
     return token.adminId;
   }
 
+  /**
+   * Find the admin holding an access token on a connected socket
+   * Used by admin-only HTTP endpoints, which are called with the same token
+   * @param accessToken - Cognito access token
+   * @returns Admin ID if the token is held by a connection and not expired, null otherwise
+   */
+  getAdminIdByToken(accessToken: string): string | null {
+    const now = new Date();
+
+    for (const token of this.activeTokens.values()) {
+      if (token.accessToken === accessToken && token.expiresAt >= now) {
+        return token.adminId;
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Remove a token for a socket connection
    * Called on disconnect or logout
@@ -0,0 +1,343 @@
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  fstatSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  readSync,
+  renameSync
+} from 'fs';
+import { join } from 'path';
+import {
+  BroadcastSegment,
+  SessionTranscript,
+  TargetLanguage,
+  TranscriptSegment,
+  TranscriptSummary
+} from '../../shared/types';
+
+type TranscriptRecord =
+  | { type: 'start'; sessionId: string; startedAt: string; adminId?: string }
+  | { type: 'segment'; segment: TranscriptSegment }
+  | {
+      type: 'correction';
+      segmentId: string;
+      original: string;
+      translations: Partial<Record<TargetLanguage, string>>;
+      correctedAt: string;
+    }
+  | { type: 'end'; endedAt: string; segmentCount?: number; languages?: TargetLanguage[] };
+
+const ARCHIVE_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+const BOUNDARY_READ_BYTES = 4096;
+
+/**
+ * TranscriptArchive keeps every broadcast segment of a session on disk so it can be
+ * exported after the service (SRT/WebVTT subtitles, plain text, JSON).
+ *
+ * Each archive is an append-only JSON Lines file named after the session ID, so a
+ * segment costs one small write. When a session ID is started again, the previous
+ * archive is renamed with its start time and stays available. The owning admin is
+ * recorded in the start record so exports can be limited to that admin, and the end
+ * record carries the summary so listing does not read every segment.
+ */
+export class TranscriptArchive {
+  private startTimes: Map<string, number> = new Map();  // sessionId → start time of its open archive
+  private persistenceDir: string;
+
+  constructor(persistenceDir: string = './transcripts') {
+    this.persistenceDir = persistenceDir;
+    this.ensurePersistenceDir();
+  }
+
+  /**
+   * Check that an archive ID is safe to use as a file name
+   */
+  static isValidArchiveId(archiveId: any): archiveId is string {
+    return typeof archiveId === 'string' && ARCHIVE_ID_PATTERN.test(archiveId);
+  }
+
+  /**
+   * Open a fresh archive for a newly created session
+   */
+  startSession(sessionId: string, startedAt: Date, adminId: string): void {
+    if (existsSync(this.getArchivePath(sessionId))) {
+      this.rotateArchive(sessionId);
+    }
+
+    this.append(sessionId, { type: 'start', sessionId, startedAt: startedAt.toISOString(), adminId });
+    this.startTimes.set(sessionId, startedAt.getTime());
+  }
+
+  /**
+   * Archive a broadcast segment. Sessions created before archiving existed start their archive here.
+   */
+  addSegment(segment: BroadcastSegment, sessionStartedAt: Date, adminId: string): void {
+    const startedAt = this.getStartTime(segment.sessionId, sessionStartedAt, adminId);
+
+    this.append(segment.sessionId, {
+      type: 'segment',
+      segment: {
+        segmentId: segment.segmentId,
+        offsetMs: Math.max(0, Date.parse(segment.timestamp) - startedAt),
+        original: segment.original,
+        sourceLanguage: segment.sourceLanguage,
+        translations: { ...segment.translations },
+        speaker: segment.speaker
+      }
+    });
+  }
+
+  /**
+   * Record the corrected text of a segment; exports use the latest text
+   */
+  recordCorrection(segment: BroadcastSegment): void {
+    if (!existsSync(this.getArchivePath(segment.sessionId))) {
+      return;
+    }
+
+    this.append(segment.sessionId, {
+      type: 'correction',
+      segmentId: segment.segmentId,
+      original: segment.original,
+      translations: { ...segment.translations },
+      correctedAt: segment.correctedAt || new Date().toISOString()
+    });
+  }
+
+  endSession(sessionId: string): void {
+    const transcript = this.loadArchive(sessionId);
+    if (transcript) {
+      this.append(sessionId, {
+        type: 'end',
+        endedAt: new Date().toISOString(),
+        segmentCount: transcript.segmentCount,
+        languages: transcript.languages
+      });
+    }
+    this.startTimes.delete(sessionId);
+  }
+
+  /**
+   * Archives owned by an admin, most recent first
+   */
+  listTranscripts(adminId: string): TranscriptSummary[] {
+    try {
+      return readdirSync(this.persistenceDir)
+        .filter(file => file.endsWith('.jsonl'))
+        .map(file => this.loadSummary(file.slice(0, -'.jsonl'.length), adminId))
+        .filter((summary): summary is TranscriptSummary => summary !== null)
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    } catch (error) {
+      console.error('Failed to list transcripts:', error);
+      return [];
+    }
+  }
+
+  getTranscript(archiveId: string): SessionTranscript | null {
+    if (!TranscriptArchive.isValidArchiveId(archiveId)) {
+      return null;
+    }
+    return this.loadArchive(archiveId);
+  }
+
+  // Private methods for persistence
+
+  private getStartTime(sessionId: string, fallback: Date, adminId: string): number {
+    let startedAt = this.startTimes.get(sessionId);
+    if (startedAt !== undefined) {
+      return startedAt;
+    }
+
+    // After a server restart the session's archive is already on disk
+    const existing = this.loadArchive(sessionId);
+    if (existing && existing.startedAt && !existing.endedAt) {
+      startedAt = Date.parse(existing.startedAt);
+    } else {
+      if (existing) {
+        this.rotateArchive(sessionId);
+      }
+      startedAt = fallback.getTime();
+      this.append(sessionId, { type: 'start', sessionId, startedAt: fallback.toISOString(), adminId });
+    }
+
+    this.startTimes.set(sessionId, startedAt);
+    return startedAt;
+  }
+
+  /**
+   * Move an earlier archive of a reused session ID aside, e.g. CHURCH-2025-001_20250105-093000
+   */
+  private rotateArchive(sessionId: string): void {
+    const previous = this.loadArchive(sessionId);
+    const stamp = (previous?.startedAt || new Date().toISOString())
+      .replace(/[-:]/g, '')
+      .replace('T', '-')
+      .slice(0, 15);
+
+    let archiveId = `${sessionId}_${stamp}`;
+    for (let suffix = 2; existsSync(this.getArchivePath(archiveId)); suffix++) {
+      archiveId = `${sessionId}_${stamp}-${suffix}`;
+    }
+
+    try {
+      renameSync(this.getArchivePath(sessionId), this.getArchivePath(archiveId));
+      console.log(`Archived previous transcript of ${sessionId} as ${archiveId}`);
+    } catch (error) {
+      console.error(`Failed to rotate transcript of ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Summary of an archive owned by the admin, from its start and end records. Archives
+   * still open (or closed before the end record carried a summary) are read in full.
+   */
+  private loadSummary(archiveId: string, adminId: string): TranscriptSummary | null {
+    const [first, last] = this.readBoundaryLines(this.getArchivePath(archiveId));
+    const header = this.parseRecord(first);
+    if (header?.type !== 'start' || header.adminId !== adminId) {
+      return null;
+    }
+
+    const end = this.parseRecord(last);
+    if (end?.type === 'end' && end.segmentCount !== undefined && end.languages) {
+      return {
+        archiveId,
+        sessionId: header.sessionId,
+        adminId: header.adminId,
+        startedAt: header.startedAt,
+        endedAt: end.endedAt,
+        segmentCount: end.segmentCount,
+        languages: end.languages
+      };
+    }
+
+    const transcript = this.loadArchive(archiveId);
+    if (!transcript) {
+      return null;
+    }
+    const { segments, ...summary } = transcript;
+    return summary;
+  }
+
+  /**
+   * First and last line of a file, reading only its ends
+   */
+  private readBoundaryLines(filePath: string): [string, string] {
+    let fd: number | null = null;
+    try {
+      fd = openSync(filePath, 'r');
+      const size = fstatSync(fd).size;
+      const length = Math.min(size, BOUNDARY_READ_BYTES);
+
+      const head = Buffer.alloc(length);
+      readSync(fd, head, 0, length, 0);
+      const tail = Buffer.alloc(length);
+      readSync(fd, tail, 0, length, size - length);
+
+      // A line cut off by the read fails to parse, and the caller falls back to a full read
+      const first = head.toString('utf8').split('\n')[0];
+      const lines = tail.toString('utf8').trimEnd().split('\n');
+      return [first, lines[lines.length - 1]];
+    } catch (error) {
+      console.error(`Failed to read transcript ${filePath}:`, error);
+      return ['', ''];
+    } finally {
+      if (fd !== null) {
+        closeSync(fd);
+      }
+    }
+  }
+
+  private parseRecord(line: string): TranscriptRecord | null {
+    try {
+      return line.trim() ? JSON.parse(line) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private loadArchive(archiveId: string): SessionTranscript | null {
+    const filePath = this.getArchivePath(archiveId);
+    if (!existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      const transcript: SessionTranscript = {
+        archiveId,
+        sessionId: archiveId,
+        startedAt: '',
+        segmentCount: 0,
+        languages: [],
+        segments: []
+      };
+      const segments = new Map<string, TranscriptSegment>();
+
+      for (const line of readFileSync(filePath, 'utf8').split('\n')) {
+        if (!line.trim()) continue;
+
+        let record: TranscriptRecord;
+        try {
+          record = JSON.parse(line);
+        } catch {
+          // A crash can leave the last line half-written; the rest of the archive is still valid
+          continue;
+        }
+
+        switch (record.type) {
+          case 'start':
+            transcript.sessionId = record.sessionId;
+            transcript.startedAt = record.startedAt;
+            transcript.adminId = record.adminId;
+            break;
+          case 'segment':
+            segments.set(record.segment.segmentId, record.segment);
+            break;
+          case 'correction': {
+            const segment = segments.get(record.segmentId);
+            if (segment) {
+              segment.original = record.original;
+              segment.translations = record.translations;
+              segment.correctedAt = record.correctedAt;
+            }
+            break;
+          }
+          case 'end':
+            transcript.endedAt = record.endedAt;
+            break;
+        }
+      }
+
+      transcript.segments = Array.from(segments.values());
+      transcript.segmentCount = transcript.segments.length;
+      transcript.languages = [...new Set(transcript.segments.flatMap(segment =>
+        Object.keys(segment.translations) as TargetLanguage[]))];
+      return transcript;
+    } catch (error) {
+      console.error(`Failed to load transcript ${archiveId}:`, error);
+      return null;
+    }
+  }
+
+  private append(archiveId: string, record: TranscriptRecord): void {
+    try {
+      appendFileSync(this.getArchivePath(archiveId), JSON.stringify(record) + '\n');
+    } catch (error) {
+      console.error(`Failed to archive transcript record for ${archiveId}:`, error);
+    }
+  }
+
+  private ensurePersistenceDir(): void {
+    if (!existsSync(this.persistenceDir)) {
+      mkdirSync(this.persistenceDir, { recursive: true });
+    }
+  }
+
+  private getArchivePath(archiveId: string): string {
+    return join(this.persistenceDir, `${archiveId}.jsonl`);
+  }
+}
@@ -0,0 +1,132 @@
+import { SessionTranscript, TargetLanguage, TranscriptFormat } from '../../shared/types';
+
+export type TranscriptLanguage = TargetLanguage | 'original';
+
+interface TranscriptCue {
+  segmentId: string;
+  start: number;  // ms since session start
+  end: number;
+  text: string;
+  speaker?: string;
+  corrected: boolean;
+}
+
+const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['srt', 'vtt', 'txt', 'json'];
+
+// Segments are broadcast when a sentence is finished, so a cue has no natural end:
+// it stays until the next one, for at most a reading-speed estimate of its length
+const MS_PER_CHARACTER = 60;
+const MIN_CUE_MS = 1500;
+const MAX_CUE_MS = 7000;
+
+export const TRANSCRIPT_CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+};
+
+export function isTranscriptFormat(format: any): format is TranscriptFormat {
+  return typeof format === 'string' && TRANSCRIPT_FORMATS.includes(format as TranscriptFormat);
+}
+
+/**
+ * Render one language of a transcript. JSON without a language returns the whole archive.
+ */
+export function formatTranscript(
+  transcript: SessionTranscript,
+  format: TranscriptFormat,
+  language?: TranscriptLanguage
+): string {
+  if (!language) {
+    return JSON.stringify(transcript, null, 2);
+  }
+
+  const cues = buildCues(transcript, language);
+
+  switch (format) {
+    case 'srt':
+      return cues.map((cue, index) => [
+        String(index + 1),
+        `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+        cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text
+      ].join('\n')).join('\n\n') + '\n';
+
+    case 'vtt':
+      return 'WEBVTT\n\n' + cues.map(cue => [
+        cue.segmentId,
+        `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+        cue.speaker ? `<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}` : escapeVtt(cue.text)
+      ].join('\n')).join('\n\n') + '\n';
+
+    case 'txt': {
+      // One line per segment, with a paragraph break and a label whenever the speaker changes
+      const lines: string[] = [];
+      let currentSpeaker: string | undefined;
+      for (const cue of cues) {
+        if (cue.speaker !== currentSpeaker) {
+          if (lines.length > 0) lines.push('');
+          if (cue.speaker) lines.push(`${cue.speaker}:`);
+          currentSpeaker = cue.speaker;
+        }
+        lines.push(cue.text);
+      }
+      return lines.join('\n') + '\n';
+    }
+
+    case 'json':
+      return JSON.stringify({
+        archiveId: transcript.archiveId,
+        sessionId: transcript.sessionId,
+        language,
+        startedAt: transcript.startedAt,
+        endedAt: transcript.endedAt,
+        segments: cues
+      }, null, 2);
+  }
+}
+
+function buildCues(transcript: SessionTranscript, language: TranscriptLanguage): TranscriptCue[] {
+  const lines = transcript.segments
+    .map(segment => ({
+      segment,
+      text: (language === 'original' ? segment.original : segment.translations[language] || '').trim()
+    }))
+    .filter(line => line.text.length > 0);
+
+  return lines.map(({ segment, text }, index) => {
+    const start = segment.offsetMs;
+    const readingTime = Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, text.length * MS_PER_CHARACTER));
+    const next = lines[index + 1]?.segment.offsetMs;
+    const end = next !== undefined && next > start ? Math.min(next, start + readingTime) : start + readingTime;
+
+    return {
+      segmentId: segment.segmentId,
+      start,
+      end,
+      text,
+      speaker: segment.speaker?.name || undefined,
+      corrected: !!segment.correctedAt
+    };
+  });
+}
+
+/**
+ * HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+ */
+function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const millis = Math.floor(ms % 1000);
+  const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+function escapeVtt(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/-->/g, '--&gt;');
+}
@@ -0,0 +1,167 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TargetLanguage, TranslationHistoryEntry } from '../../shared/types';
+
+// Hard cap per language regardless of configuration, so a long service cannot grow memory unbounded
+const MAX_RETAINED_ENTRIES = 500;
+
+export interface TranslationHistoryConfig {
+  maxEntries: number;     // Lines sent to a joining client; 0 disables history
+  maxAgeMs: number;       // Older lines are not sent; 0 means no time limit
+  retainEntries: number;  // Lines kept per language for replaying what a reconnecting client missed
+}
+
+export interface TranslationReplay {
+  entries: TranslationHistoryEntry[];
+  complete: boolean;  // false when lines after the requested sequence were already dropped
+}
+
+/**
+ * TranslationHistory keeps the most recent lines of each session per language,
+ * exactly as they were delivered, so clients that join mid-service (or reconnect,
+ * or switch language) can catch up instead of starting from an empty screen.
+ *
+ * It also numbers deliveries: every segment gets the next per-session sequence,
+ * which clients echo back on reconnect to get the lines they missed. Numbering starts
+ * again after a server restart or when a session ID is reused, so each numbering has
+ * its own epoch and a sequence is only meaningful together with it.
+ */
+export class TranslationHistory {
+  private sessions: Map<string, Map<TargetLanguage, TranslationHistoryEntry[]>> = new Map();
+  private sequences: Map<string, number> = new Map();
+  private epochs: Map<string, string> = new Map();
+  private config: TranslationHistoryConfig;
+
+  constructor(config: Partial<TranslationHistoryConfig> = {}) {
+    const maxEntries = Math.min(MAX_RETAINED_ENTRIES, Math.max(0, config.maxEntries ?? 10));
+    this.config = {
+      maxEntries,
+      maxAgeMs: Math.max(0, config.maxAgeMs ?? 10 * 60 * 1000),
+      retainEntries: Math.min(MAX_RETAINED_ENTRIES, Math.max(maxEntries, config.retainEntries ?? 100))
+    };
+  }
+
+  isEnabled(): boolean {
+    return this.config.maxEntries > 0;
+  }
+
+  /**
+   * Reserve the sequence number of the next delivered segment
+   */
+  nextSequence(sessionId: string): number {
+    const sequence = (this.sequences.get(sessionId) || 0) + 1;
+    this.sequences.set(sessionId, sequence);
+    return sequence;
+  }
+
+  getCurrentSequence(sessionId: string): number {
+    return this.sequences.get(sessionId) || 0;
+  }
+
+  /**
+   * Identifies the session's current numbering; a new one begins with each server process
+   */
+  getEpoch(sessionId: string): string {
+    let epoch = this.epochs.get(sessionId);
+    if (!epoch) {
+      epoch = uuidv4();
+      this.epochs.set(sessionId, epoch);
+    }
+    return epoch;
+  }
+
+  /**
+   * Remember a delivered line
+   */
+  record(sessionId: string, entry: TranslationHistoryEntry): void {
+    if (this.config.retainEntries === 0) return;
+
+    let languages = this.sessions.get(sessionId);
+    if (!languages) {
+      languages = new Map();
+      this.sessions.set(sessionId, languages);
+    }
+
+    const entries = languages.get(entry.language) || [];
+    entries.push(entry);
+    if (entries.length > this.config.retainEntries) {
+      entries.splice(0, entries.length - this.config.retainEntries);
+    }
+    languages.set(entry.language, entries);
+  }
+
+  /**
+   * Replace the text (and audio) of a line that was corrected after delivery
+   */
+  applyCorrection(
+    sessionId: string,
+    language: TargetLanguage,
+    segmentId: string,
+    update: Pick<TranslationHistoryEntry, 'text' | 'audioUrl' | 'audioMetadata' | 'ttsAvailable'>
+  ): void {
+    const entry = this.getEntries(sessionId, language).find(item => item.segmentId === segmentId);
+    if (entry) {
+      Object.assign(entry, update);
+    }
+  }
+
+  /**
+   * Attach the server audio of a line once all of its parts are done
+   */
+  applyAudio(
+    sessionId: string,
+    language: TargetLanguage,
+    segmentId: string,
+    update: Pick<TranslationHistoryEntry, 'audioUrl' | 'audioMetadata' | 'ttsAvailable' | 'audioPending' | 'audioParts'>
+  ): void {
+    const entry = this.getEntries(sessionId, language).find(item => item.segmentId === segmentId);
+    if (entry) {
+      Object.assign(entry, update);
+    }
+  }
+
+  /**
+   * Recent lines of one language within the configured count and time window, oldest first
+   */
+  getHistory(sessionId: string, language: TargetLanguage): TranslationHistoryEntry[] {
+    if (!this.isEnabled()) return [];
+
+    const cutoff = this.config.maxAgeMs > 0 ? Date.now() - this.config.maxAgeMs : 0;
+    return this.getEntries(sessionId, language)
+      .slice(-this.config.maxEntries)
+      .filter(entry => entry.timestamp >= cutoff);
+  }
+
+  /**
+   * Lines of one language delivered after a sequence, for a client that reconnected
+   */
+  getSince(sessionId: string, language: TargetLanguage, lastSequence: number): TranslationReplay {
+    const entries = this.getEntries(sessionId, language);
+    const missed = entries.filter(entry => entry.sequence > lastSequence);
+
+    // If the retained range starts after what the client saw, older lines in between may be gone
+    const dropped = missed.length > 0 && missed.length === entries.length &&
+      entries.length >= this.config.retainEntries && entries[0].sequence > lastSequence + 1;
+
+    return { entries: missed, complete: !dropped };
+  }
+
+  /**
+   * Number of retained lines of a language after a sequence (a listener's backlog)
+   */
+  countSince(sessionId: string, language: TargetLanguage, lastSequence: number): number {
+    return this.getEntries(sessionId, language).filter(entry => entry.sequence > lastSequence).length;
+  }
+
+  /**
+   * Forget a session's history once it has ended
+   */
+  clearSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+    this.sequences.delete(sessionId);
+    this.epochs.delete(sessionId);
+  }
+
+  private getEntries(sessionId: string, language: TargetLanguage): TranslationHistoryEntry[] {
+    return this.sessions.get(sessionId)?.get(language) || [];
+  }
+}
@@ -0,0 +1,37 @@
+import { TargetLanguage } from './types';
+import { SpeechOptions } from './speech-markup';
+
+/**
+ * Audio produced by a TTS engine
+ */
+export interface EngineAudio {
+  audioBuffer: Buffer;
+  format: string;     // File extension, also served as audio/<format>
+  voiceId: string;
+  voiceType: 'neural' | 'standard' | 'local';
+}
+
+/**
+ * A speech synthesizer TTSService can use. Polly is the primary engine; a local
+ * command-line engine can stand in for it when AWS is unreachable.
+ */
+export interface TTSEngine {
+  readonly name: string;
+
+  /**
+   * Whether the engine can be used at all (credentials, installed binary)
+   */
+  isAvailable(): Promise<boolean>;
+
+  supportsLanguage(language: TargetLanguage): boolean;
+
+  /**
+   * Speak the text, applying rate, pitch and pronunciations as far as the engine supports them
+   */
+  synthesize(
+    text: string,
+    language: TargetLanguage,
+    voiceType: 'neural' | 'standard',
+    speech?: SpeechOptions
+  ): Promise<EngineAudio>;
+}
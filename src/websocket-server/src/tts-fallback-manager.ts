@@ -1,12 +1,15 @@
 import { EventEmitter } from 'events';
 import { TTSService } from './tts-service';
 import { TargetLanguage } from './types';
+import { SpeechOptions } from './speech-markup';
 
 export interface TTSFallbackConfig {
   enablePolly: boolean;
-  enableLocalTTS: boolean;
+  enableLocalEngine: boolean;   // Command-line engine on this server (espeak-ng/Piper)
+  enableLocalTTS: boolean;      // Clients speak the text with their own TTS
   enableTextOnly: boolean;
   pollyTimeout: number;
+  localEngineTimeout: number;
   localTTSTimeout: number;
   maxRetries: number;
   retryDelay: number;
@@ -16,17 +19,21 @@ export interface TTSResult {
   success: boolean;
   audioBuffer?: Buffer;
   audioUrl?: string;
+  format?: string;
   duration?: number;
   voiceType?: 'neural' | 'standard' | 'local';
-  fallbackUsed: 'polly' | 'local' | 'text-only';
+  fallbackUsed: TTSMethod;
   error?: string;
   latency: number;
 }
 
+// 'local-engine' is audio from this server's own engine; 'local' tells clients to use their TTS
+export type TTSMethod = 'polly' | 'local-engine' | 'local' | 'text-only';
+
 export interface FallbackNotification {
   type: 'fallback-triggered' | 'fallback-recovered' | 'all-fallbacks-failed';
-  originalMethod: 'polly' | 'local';
-  fallbackMethod: 'local' | 'text-only' | 'none';
+  originalMethod: 'polly' | 'local-engine' | 'local';
+  fallbackMethod: 'local-engine' | 'local' | 'text-only' | 'none';
   error: string;
   timestamp: number;
   language: TargetLanguage;
@@ -36,6 +43,8 @@ export interface FallbackNotification {
 export interface PerformanceMetrics {
   pollySuccessRate: number;
   pollyAverageLatency: number;
+  localEngineSuccessRate: number;
+  localEngineAverageLatency: number;
   localTTSSuccessRate: number;
   localTTSAverageLatency: number;
   fallbackTriggerCount: number;
@@ -49,7 +58,7 @@ export class TTSFallbackManager extends EventEmitter {
   private performanceMetrics: PerformanceMetrics;
   private requestHistory: Array<{
     timestamp: number;
-    method: 'polly' | 'local' | 'text-only';
+    method: TTSMethod;
     success: boolean;
     latency: number;
     language: TargetLanguage;
@@ -58,9 +67,11 @@ export class TTSFallbackManager extends EventEmitter {
 
   constructor(ttsService: TTSService, config: TTSFallbackConfig = {
     enablePolly: true,
+    enableLocalEngine: true,
     enableLocalTTS: true,
     enableTextOnly: true,
     pollyTimeout: 5000,
+    localEngineTimeout: 15000,
     localTTSTimeout: 3000,
     maxRetries: 2,
     retryDelay: 1000
@@ -71,6 +82,8 @@ export class TTSFallbackManager extends EventEmitter {
     this.performanceMetrics = {
       pollySuccessRate: 100,
       pollyAverageLatency: 0,
+      localEngineSuccessRate: 100,
+      localEngineAverageLatency: 0,
       localTTSSuccessRate: 100,
       localTTSAverageLatency: 0,
       fallbackTriggerCount: 0,
@@ -80,13 +93,14 @@ export class TTSFallbackManager extends EventEmitter {
   }
 
   /**
-   * Generate audio with fallback chain: Polly → Local TTS → Text-only
+   * Generate audio with fallback chain: Polly → local server engine → client TTS → text-only
    */
   async generateAudioWithFallback(
     text: string, 
     language: TargetLanguage, 
     voiceType: 'neural' | 'standard' = 'neural',
-    sessionId?: string
+    sessionId?: string,
+    speech?: SpeechOptions
   ): Promise<TTSResult> {
     const startTime = Date.now();
     let lastError: string = '';
@@ -97,7 +111,7 @@ export class TTSFallbackManager extends EventEmitter {
       // Primary: AWS Polly (if enabled)
       if (this.config.enablePolly && this.shouldTryPolly()) {
         try {
-          const pollyResult = await this.tryPollyWithTimeout(text, language, voiceType);
+          const pollyResult = await this.tryPollyWithTimeout(text, language, voiceType, speech);
           if (pollyResult) {
             const latency = Date.now() - startTime;
             this.recordSuccess('polly', latency, language, sessionId);
@@ -105,6 +119,7 @@ export class TTSFallbackManager extends EventEmitter {
             return {
               success: true,
               audioBuffer: pollyResult.audioBuffer,
+              format: pollyResult.format,
               duration: pollyResult.duration,
               voiceType: pollyResult.voiceType,
               fallbackUsed: 'polly',
@@ -120,7 +135,41 @@ export class TTSFallbackManager extends EventEmitter {
           this.emitFallbackNotification({
             type: 'fallback-triggered',
             originalMethod: 'polly',
-            fallbackMethod: 'local',
+            fallbackMethod: this.getFallbackAfter('polly', language),
+            error: lastError,
+            timestamp: Date.now(),
+            language,
+            sessionId
+          });
+        }
+      }
+
+      // Secondary: local engine on this server, still real audio for every client
+      if (this.canUseLocalEngine(language)) {
+        const localStart = Date.now();
+        try {
+          const localResult = await this.tryLocalEngineWithTimeout(text, language, speech);
+          const latency = Date.now() - startTime;
+          this.recordSuccess('local-engine', Date.now() - localStart, language, sessionId);
+
+          return {
+            success: true,
+            audioBuffer: localResult.audioBuffer,
+            format: localResult.format,
+            duration: localResult.duration,
+            voiceType: 'local',
+            fallbackUsed: 'local-engine',
+            latency
+          };
+        } catch (error) {
+          lastError = error instanceof Error ? error.message : 'Local TTS engine failed';
+          this.recordFailure('local-engine', Date.now() - localStart, language, sessionId);
+          console.warn('Local TTS engine failed, attempting fallback:', lastError);
+
+          this.emitFallbackNotification({
+            type: 'fallback-triggered',
+            originalMethod: 'local-engine',
+            fallbackMethod: this.getFallbackAfter('local-engine', language),
             error: lastError,
             timestamp: Date.now(),
             language,
@@ -129,7 +178,7 @@ export class TTSFallbackManager extends EventEmitter {
         }
       }
 
-      // Secondary: Local TTS (notify clients to use local TTS)
+      // Tertiary: client TTS (notify clients to use their own TTS)
       if (this.config.enableLocalTTS) {
         const latency = Date.now() - startTime;
         this.recordSuccess('local', latency, language, sessionId);
@@ -143,7 +192,7 @@ export class TTSFallbackManager extends EventEmitter {
         };
       }
 
-      // Tertiary: Text-only
+      // Last resort: Text-only
       if (this.config.enableTextOnly) {
         const latency = Date.now() - startTime;
         this.recordSuccess('text-only', latency, language, sessionId);
@@ -185,7 +234,8 @@ export class TTSFallbackManager extends EventEmitter {
   private async tryPollyWithTimeout(
     text: string, 
     language: TargetLanguage, 
-    voiceType: 'neural' | 'standard'
+    voiceType: 'neural' | 'standard',
+    speech?: SpeechOptions
   ): Promise<any> {
     for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
       try {
@@ -193,7 +243,7 @@ export class TTSFallbackManager extends EventEmitter {
           setTimeout(() => reject(new Error('Polly timeout')), this.config.pollyTimeout);
         });
 
-        const pollyPromise = this.ttsService.synthesizeSpeech(text, language, voiceType);
+        const pollyPromise = this.ttsService.synthesizeSpeech(text, language, voiceType, true, speech);
         const result = await Promise.race([pollyPromise, timeoutPromise]);
         
         if (result) {
@@ -212,6 +262,39 @@ export class TTSFallbackManager extends EventEmitter {
     throw new Error('Polly TTS failed after all retries');
   }
 
+  /**
+   * Run the local engine with a timeout; subprocesses are slower to start than a Polly call
+   */
+  private async tryLocalEngineWithTimeout(text: string, language: TargetLanguage, speech?: SpeechOptions) {
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Local TTS engine timeout')), this.config.localEngineTimeout);
+    });
+
+    try {
+      return await Promise.race([this.ttsService.synthesizeLocally(text, language, speech), timeoutPromise]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private canUseLocalEngine(language: TargetLanguage): boolean {
+    return this.config.enableLocalEngine && this.ttsService.hasLocalEngine(language);
+  }
+
+  /**
+   * The method the chain moves on to when one fails, for notifications
+   */
+  private getFallbackAfter(method: 'polly' | 'local-engine', language: TargetLanguage): FallbackNotification['fallbackMethod'] {
+    if (method === 'polly' && this.canUseLocalEngine(language)) {
+      return 'local-engine';
+    }
+    if (this.config.enableLocalTTS) {
+      return 'local';
+    }
+    return this.config.enableTextOnly ? 'text-only' : 'none';
+  }
+
   /**
    * Check if Polly should be attempted based on recent performance
    */
@@ -232,7 +315,7 @@ export class TTSFallbackManager extends EventEmitter {
    * Record successful TTS operation
    */
   private recordSuccess(
-    method: 'polly' | 'local' | 'text-only', 
+    method: TTSMethod, 
     latency: number, 
     language: TargetLanguage,
     sessionId?: string
@@ -256,7 +339,7 @@ export class TTSFallbackManager extends EventEmitter {
    * Record failed TTS operation
    */
   private recordFailure(
-    method: 'polly' | 'local' | 'text-only', 
+    method: TTSMethod, 
     latency: number, 
     language: TargetLanguage,
     sessionId?: string
@@ -294,7 +377,16 @@ export class TTSFallbackManager extends EventEmitter {
         pollyRequests.reduce((sum, r) => sum + r.latency, 0) / pollyRequests.length;
     }
 
-    // Calculate Local TTS metrics
+    // Calculate local engine metrics
+    const localEngineRequests = recentRequests.filter(r => r.method === 'local-engine');
+    if (localEngineRequests.length > 0) {
+      this.performanceMetrics.localEngineSuccessRate = 
+        (localEngineRequests.filter(r => r.success).length / localEngineRequests.length) * 100;
+      this.performanceMetrics.localEngineAverageLatency = 
+        localEngineRequests.reduce((sum, r) => sum + r.latency, 0) / localEngineRequests.length;
+    }
+
+    // Calculate client TTS metrics
     const localRequests = recentRequests.filter(r => r.method === 'local');
     if (localRequests.length > 0) {
       this.performanceMetrics.localTTSSuccessRate = 
@@ -347,6 +439,8 @@ export class TTSFallbackManager extends EventEmitter {
     this.performanceMetrics = {
       pollySuccessRate: 100,
       pollyAverageLatency: 0,
+      localEngineSuccessRate: 100,
+      localEngineAverageLatency: 0,
       localTTSSuccessRate: 100,
       localTTSAverageLatency: 0,
       fallbackTriggerCount: 0,
@@ -360,6 +454,7 @@ export class TTSFallbackManager extends EventEmitter {
    */
   async testTTSCapabilities(language: TargetLanguage = 'en'): Promise<{
     polly: boolean;
+    localEngine: boolean;
     local: boolean;
     textOnly: boolean;
   }> {
@@ -367,6 +462,7 @@ export class TTSFallbackManager extends EventEmitter {
     
     const results = {
       polly: false,
+      localEngine: false,
       local: false,
       textOnly: true // Always available
     };
@@ -381,7 +477,17 @@ export class TTSFallbackManager extends EventEmitter {
       }
     }
 
-    // Local TTS is handled by clients, so we assume it's available if enabled
+    // Test the local engine
+    if (this.canUseLocalEngine(language)) {
+      try {
+        const localResult = await this.tryLocalEngineWithTimeout(testText, language);
+        results.localEngine = localResult.audioBuffer.length > 0;
+      } catch (error) {
+        console.log('Local TTS engine test failed:', error);
+      }
+    }
+
+    // Client TTS is handled by clients, so we assume it's available if enabled
     results.local = this.config.enableLocalTTS;
 
     return results;
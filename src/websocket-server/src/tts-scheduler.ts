@@ -0,0 +1,79 @@
+export interface TTSSchedulerConfig {
+  maxConcurrent: number;   // Synthesis requests running at once, across all sessions and languages
+  maxChunkLength: number;  // Texts longer than this are spoken in sentence chunks of up to this length
+}
+
+interface QueuedTask {
+  run: () => Promise<void>;
+}
+
+// A sentence ends at . ! ? … followed by a space or the end, or at CJK/Arabic punctuation
+// (which needs no space); closing quotes and brackets stay with their sentence
+const SENTENCE_PATTERN = /.+?(?:[.!?…]+["'”’»)\]]*(?=\s|$)|[。！？؟]+["'”’»)\]]*|$)\s*/gsu;
+
+/**
+ * TTSScheduler limits how many TTS requests run at once, so translations for many
+ * languages are synthesized in parallel without flooding Polly or the local engine,
+ * and splits long texts into sentence chunks so the first audio is ready sooner.
+ * Tasks start in the order they were scheduled.
+ */
+export class TTSScheduler {
+  private config: TTSSchedulerConfig;
+  private queue: QueuedTask[] = [];
+  private running = 0;
+
+  constructor(config: Partial<TTSSchedulerConfig> = {}) {
+    this.config = {
+      maxConcurrent: Math.max(1, config.maxConcurrent || 3),
+      maxChunkLength: Math.max(50, config.maxChunkLength || 200)
+    };
+  }
+
+  /**
+   * Run a task once a slot is free
+   */
+  run<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        run: () => Promise.resolve().then(task).then(resolve, reject)
+      });
+      this.next();
+    });
+  }
+
+  /**
+   * Split a text into chunks of whole sentences. Sentences are joined while they fit
+   * in the chunk length; a single longer sentence becomes a chunk of its own.
+   */
+  splitIntoChunks(text: string): string[] {
+    const trimmed = text.trim();
+    if (trimmed.length <= this.config.maxChunkLength) {
+      return trimmed ? [trimmed] : [];
+    }
+
+    const chunks: string[] = [];
+    let current = '';
+    for (const [sentence] of trimmed.matchAll(SENTENCE_PATTERN)) {
+      if (current && (current + sentence).trim().length > this.config.maxChunkLength) {
+        chunks.push(current.trim());
+        current = '';
+      }
+      current += sentence;
+    }
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    return chunks;
+  }
+
+  private next(): void {
+    while (this.running < this.config.maxConcurrent && this.queue.length > 0) {
+      const task = this.queue.shift()!;
+      this.running++;
+      task.run().finally(() => {
+        this.running--;
+        this.next();
+      });
+    }
+  }
+}
@@ -1,7 +1,10 @@
-import { PollyClient, SynthesizeSpeechCommand, Voice, DescribeVoicesCommand, VoiceId } from '@aws-sdk/client-polly';
 import { TargetLanguage } from './types';
+import { VoiceOption } from '../../shared/types';
 import { AudioCacheManager, CacheEntry } from './audio-cache-manager';
 import { AudioOptimizer, OptimizedAudio, VoiceOptimizationProfile } from './audio-optimizer';
+import { TTSEngine } from './tts-engine';
+import { PollyTTSEngine } from './polly-tts-engine';
+import { SpeechOptions, speechVariant } from './speech-markup';
 
 export interface TTSConfig {
   region: string;
@@ -10,17 +13,11 @@ export interface TTSConfig {
   sampleRate: string;
 }
 
-export interface VoiceMapping {
-  language: TargetLanguage;
-  neural: string;
-  standard: string;
-}
-
 export interface TTSResult {
   audioBuffer: Buffer;
   format: string;
   voiceId: string;
-  voiceType: 'neural' | 'standard';
+  voiceType: 'neural' | 'standard' | 'local';
   duration?: number;
 }
 
@@ -37,10 +34,10 @@ export interface TTSCostStats {
 }
 
 export class TTSService {
-  private pollyClient: PollyClient;
+  private pollyEngine: PollyTTSEngine;
+  private localEngine?: TTSEngine;
+  private localEngineAvailable?: boolean;
   private config: TTSConfig;
-  private voiceMappings: VoiceMapping[];
-  private availableVoices: Voice[] = [];
   private cacheManager: AudioCacheManager;
   private audioOptimizer: AudioOptimizer;
   private costStats: TTSCostStats;
@@ -56,9 +53,13 @@ export class TTSService {
     voiceType: 'neural',
     outputFormat: 'mp3',
     sampleRate: '22050'
-  }) {
+  }, localEngine?: TTSEngine) {
     this.config = config;
-    this.pollyClient = new PollyClient({ region: config.region });
+    this.pollyEngine = new PollyTTSEngine({
+      region: config.region,
+      outputFormat: config.outputFormat,
+      sampleRate: config.sampleRate
+    });
     
     // Initialize cost tracking
     this.costStats = {
@@ -93,92 +94,17 @@ export class TTSService {
       preferredFormats: ['mp3', 'ogg', 'wav']
     });
     
-    // Default voice mappings for supported languages
-    this.voiceMappings = [
-      { language: 'en', neural: 'Joanna', standard: 'Joanna' },
-      { language: 'es', neural: 'Lupe', standard: 'Penelope' },
-      { language: 'fr', neural: 'Lea', standard: 'Celine' },
-      { language: 'de', neural: 'Vicki', standard: 'Marlene' },
-      { language: 'it', neural: 'Bianca', standard: 'Carla' }
-    ];
-
-    this.loadAvailableVoices();
-  }
-
-  /**
-   * Load available voices from AWS Polly
-   */
-  private async loadAvailableVoices(): Promise<void> {
-    try {
-      const command = new DescribeVoicesCommand({});
-      const response = await this.pollyClient.send(command);
-      
-      if (response.Voices) {
-        this.availableVoices = response.Voices;
-        console.log(`Loaded ${this.availableVoices.length} available Polly voices`);
-        
-        // Update voice mappings based on available voices
-        this.updateVoiceMappings();
-      }
-    } catch (error) {
-      console.error('Failed to load available Polly voices:', error);
-    }
-  }
-
-  /**
-   * Update voice mappings based on available voices
-   */
-  private updateVoiceMappings(): void {
-    for (const mapping of this.voiceMappings) {
-      const languageCode = this.getPollyLanguageCode(mapping.language);
-      const languageVoices = this.availableVoices.filter(voice => 
-        voice.LanguageCode?.startsWith(languageCode)
-      );
-
-      // Find best neural voice
-      const neuralVoices = languageVoices.filter(voice => 
-        voice.SupportedEngines?.includes('neural')
-      );
-      if (neuralVoices.length > 0) {
-        mapping.neural = neuralVoices[0].Id || mapping.neural;
-      }
-
-      // Find best standard voice
-      const standardVoices = languageVoices.filter(voice => 
-        voice.SupportedEngines?.includes('standard')
-      );
-      if (standardVoices.length > 0) {
-        mapping.standard = standardVoices[0].Id || mapping.standard;
-      }
-    }
-
-    console.log('Updated voice mappings:', this.voiceMappings);
-  }
-
-  /**
-   * Convert target language to Polly language code
-   */
-  private getPollyLanguageCode(language: TargetLanguage): string {
-    const languageMap: Record<TargetLanguage, string> = {
-      'en': 'en-US',
-      'es': 'es-ES',
-      'fr': 'fr-FR',
-      'de': 'de-DE',
-      'it': 'it-IT',
-      'pt': 'pt-BR'
-    };
-    return languageMap[language];
-  }
-
-  /**
-   * Get voice ID for language and voice type
-   */
-  private getVoiceId(language: TargetLanguage, voiceType: 'neural' | 'standard'): string {
-    const mapping = this.voiceMappings.find(m => m.language === language);
-    if (!mapping) {
-      throw new Error(`No voice mapping found for language: ${language}`);
+    if (localEngine) {
+      this.localEngine = localEngine;
+      localEngine.isAvailable().then(available => {
+        this.localEngineAvailable = available;
+        if (available) {
+          console.log(`Local TTS engine ready: ${localEngine.name}`);
+        } else {
+          console.warn(`Local TTS engine ${localEngine.name} could not be started; Polly failures will go to client TTS`);
+        }
+      });
     }
-    return voiceType === 'neural' ? mapping.neural : mapping.standard;
   }
 
   /**
@@ -188,7 +114,8 @@ export class TTSService {
     text: string,
     language: TargetLanguage,
     voiceType: 'neural' | 'standard' = this.config.voiceType,
-    optimizeForMobile: boolean = true
+    optimizeForMobile: boolean = true,
+    speech?: SpeechOptions
   ): Promise<TTSResult & { optimized?: OptimizedAudio }> {
     if (!text || text.trim().length === 0) {
       throw new Error('Text cannot be empty');
@@ -201,7 +128,8 @@ export class TTSService {
     const startTime = Date.now();
 
     // Check cache first
-    const cachedEntry = this.cacheManager.get(text, language, voiceType);
+    const variant = speechVariant(text, speech);
+    const cachedEntry = this.cacheManager.get(text, language, voiceType, variant);
     if (cachedEntry) {
       console.log(`Cache hit for ${language} TTS: ${text.substring(0, 50)}...`);
       
@@ -226,30 +154,13 @@ export class TTSService {
     try {
       // Get optimal voice based on current performance metrics
       const optimalVoice = this.audioOptimizer.getOptimalVoice(language, false, false);
-      const actualVoiceType = optimalVoice?.voiceType || voiceType;
-      
-      const voiceId = this.getVoiceId(language, actualVoiceType);
-      const engine = actualVoiceType === 'neural' ? 'neural' : 'standard';
-
-      const command = new SynthesizeSpeechCommand({
-        Text: text,
-        VoiceId: voiceId as VoiceId,
-        OutputFormat: this.config.outputFormat,
-        SampleRate: this.config.sampleRate,
-        Engine: engine,
-        TextType: 'text'
-      });
-
-      console.log(`Synthesizing speech: ${text.substring(0, 50)}... (${language}, ${actualVoiceType}, ${voiceId})`);
-      
-      const response = await this.pollyClient.send(command);
-      
-      if (!response.AudioStream) {
-        throw new Error('No audio stream received from Polly');
-      }
-
-      // Convert stream to buffer
-      const audioBuffer = Buffer.from(await response.AudioStream.transformToByteArray());
+      const { audioBuffer, voiceId, voiceType: engineVoiceType } = await this.pollyEngine.synthesize(
+        text,
+        language,
+        optimalVoice?.voiceType || voiceType,
+        speech
+      );
+      const actualVoiceType = engineVoiceType === 'neural' ? 'neural' : 'standard';
       
       // Estimate duration
       const duration = this.estimateAudioDuration(audioBuffer, this.config.outputFormat);
@@ -262,7 +173,8 @@ export class TTSService {
         audioBuffer,
         this.config.outputFormat,
         voiceId,
-        duration
+        duration,
+        variant
       );
 
       // Update voice performance metrics
@@ -317,6 +229,11 @@ export class TTSService {
       return Math.round((buffer.length / 2200) * 10) / 10;
     }
     
+    // WAV headers carry the byte rate (local engine output)
+    if (format === 'wav' && buffer.length > 44 && buffer.readUInt32LE(28) > 0) {
+      return Math.round(((buffer.length - 44) / buffer.readUInt32LE(28)) * 10) / 10;
+    }
+    
     // For other formats, use a basic estimation
     return Math.round((buffer.length / 4000) * 10) / 10;
   }
@@ -327,11 +244,12 @@ export class TTSService {
   updateConfig(newConfig: Partial<TTSConfig>): void {
     this.config = { ...this.config, ...newConfig };
     
-    // Recreate Polly client if region changed
-    if (newConfig.region) {
-      this.pollyClient = new PollyClient({ region: newConfig.region });
-      this.loadAvailableVoices();
-    }
+    // Polly reconnects if the region changed
+    this.pollyEngine.updateConfig({
+      region: this.config.region,
+      outputFormat: this.config.outputFormat,
+      sampleRate: this.config.sampleRate
+    });
     
     console.log('TTS config updated:', this.config);
   }
@@ -350,37 +268,73 @@ export class TTSService {
   }
 
   /**
-   * Get supported languages
+   * Whether the local engine is configured, started and has a voice for the language
    */
-  getSupportedLanguages(): TargetLanguage[] {
-    return this.voiceMappings.map(m => m.language);
+  hasLocalEngine(language: TargetLanguage): boolean {
+    return !!this.localEngine && this.localEngineAvailable !== false && this.localEngine.supportsLanguage(language);
+  }
+
+  getLocalEngineName(): string | undefined {
+    return this.localEngine?.name;
   }
 
   /**
-   * Get voice information for a language
+   * Synthesize speech with the local engine, for when Polly is unavailable. Local audio
+   * costs nothing and is not kept in the Polly cache; AudioManager stores it as 'local'.
    */
-  getVoiceInfo(language: TargetLanguage): {
-    neural: string;
-    standard: string;
-    available: boolean;
-  } | null {
-    const mapping = this.voiceMappings.find(m => m.language === language);
-    if (!mapping) {
-      return null;
+  async synthesizeLocally(text: string, language: TargetLanguage, speech?: SpeechOptions): Promise<TTSResult> {
+    if (!this.localEngine || !this.hasLocalEngine(language)) {
+      throw new Error(`No local TTS engine for language: ${language}`);
     }
 
-    const languageCode = this.getPollyLanguageCode(language);
-    const available = this.availableVoices.some(voice => 
-      voice.LanguageCode?.startsWith(languageCode)
-    );
+    if (!text || text.trim().length === 0) {
+      throw new Error('Text cannot be empty');
+    }
+
+    const startTime = Date.now();
+    const result = await this.localEngine.synthesize(text, language, this.config.voiceType, speech);
+    const duration = this.estimateAudioDuration(result.audioBuffer, result.format);
+
+    console.log(`Local TTS synthesis completed: ${result.audioBuffer.length} bytes, ~${duration}s, latency: ${Date.now() - startTime}ms`);
 
     return {
-      neural: mapping.neural,
-      standard: mapping.standard,
-      available
+      ...result,
+      duration
     };
   }
 
+  /**
+   * Get supported languages
+   */
+  getSupportedLanguages(): TargetLanguage[] {
+    return this.pollyEngine.getSupportedLanguages();
+  }
+
+  /**
+   * Get voice information for a language
+   */
+  getVoiceInfo(language: TargetLanguage) {
+    return this.pollyEngine.getVoiceInfo(language);
+  }
+
+  /**
+   * List the Polly voices admins can choose from, for one language or all supported ones
+   */
+  listVoices(language?: TargetLanguage): VoiceOption[] {
+    const languages = language ? [language] : this.getSupportedLanguages();
+    return languages.flatMap(code => this.pollyEngine.listVoices(code));
+  }
+
+  /**
+   * Name of the voice Polly speaks a language with, given the session's choice
+   */
+  getVoiceName(language: TargetLanguage, voiceType: 'neural' | 'standard', preferredVoiceId?: string): string | undefined {
+    if (!this.pollyEngine.supportsLanguage(language)) {
+      return undefined;
+    }
+    return this.pollyEngine.selectVoice(language, voiceType, preferredVoiceId).voiceId;
+  }
+
   /**
    * Track cost for a TTS request
    */
@@ -1,10 +1,10 @@
 // Local WebSocket Server Types
 // Extends shared types for local session management
 
-import { SessionConfig, TargetLanguage } from '../../shared/types';
+import { SessionConfig, TargetLanguage, SpeakerLabel, ScripturePassage } from '../../shared/types';
 
 // Re-export needed types from shared
-export { TargetLanguage };
+export { TargetLanguage, SpeakerLabel, ScripturePassage };
 export type SessionStatus = 'started' | 'active' | 'paused' | 'ending' | 'ended' | 'error';
 
 export interface SessionRuntimeConfig {
@@ -54,6 +54,9 @@ export interface JoinSessionMessage {
   sessionId: string;
   preferredLanguage: TargetLanguage;
   audioCapabilities?: AudioCapabilities;
+  displayClient?: boolean;  // Caption overlay; not counted against the congregant limit
+  lastSequence?: number;    // Last translation sequence seen before reconnecting; missed lines are replayed
+  epoch?: string;           // Epoch of lastSequence; lines are replayed only within the same numbering
 }
 
 export interface LeaveSessionMessage {
@@ -111,12 +114,15 @@ export interface AudioMetadata {
 export interface TranslationBroadcast {
   type: 'translation';
   sessionId: string;
+  segmentId?: string;  // Stable ID for later corrections
   text: string;
   language: TargetLanguage;
   timestamp: number;
   audioUrl?: string;
   audioMetadata?: AudioMetadata;
   useLocalTTS?: boolean;
+  speaker?: SpeakerLabel;
+  scripture?: ScripturePassage[];
 }
 
 export interface GenerateTTSMessage {
@@ -133,6 +139,7 @@ export interface SessionMetadataMessage {
   availableLanguages: TargetLanguage[];
   ttsAvailable: boolean;
   audioQuality: string;
+  voices?: Partial<Record<TargetLanguage, string>>;  // Polly voice each enabled language is spoken with
 }
 
 export interface ErrorMessage {
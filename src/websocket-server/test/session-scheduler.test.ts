@@ -0,0 +1,189 @@
+// Occurrences are wall-clock times in the server's time zone; pin one with daylight saving
+process.env.TZ = 'America/New_York';
+
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SessionSchedule, SessionScheduleInput } from '../../shared/types';
+import { SessionScheduler } from '../src/session-scheduler';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const dirs: string[] = [];
+
+after(() => {
+  dirs.forEach(dir => rmSync(dir, { recursive: true, force: true }));
+});
+
+function scheduleInput(overrides: Partial<SessionScheduleInput> = {}): SessionScheduleInput {
+  return {
+    sessionId: 'CHURCH-2030-001',
+    name: 'Sunday Service',
+    recurrence: 'weekly',
+    daysOfWeek: [0],
+    startTime: '09:30',
+    durationMinutes: 120,
+    config: {
+      sourceLanguage: 'pt',
+      targetLanguages: ['en', 'es'],
+      enabledLanguages: ['en', 'es'],
+      ttsMode: 'disabled',
+      audioQuality: 'medium',
+      audioConfig: { sampleRate: 16000, encoding: 'pcm', channels: 1 }
+    },
+    ...overrides
+  } as SessionScheduleInput;
+}
+
+/**
+ * A scheduler loaded from disk, as after a restart. Loading does not check schedules,
+ * so nothing is started relative to the real clock.
+ */
+function loadScheduler(...schedules: Partial<SessionSchedule>[]): SessionScheduler {
+  const dir = mkdtempSync(join(tmpdir(), 'schedules-'));
+  dirs.push(dir);
+  writeFileSync(join(dir, 'schedules.json'), JSON.stringify({
+    version: 1,
+    schedules: schedules.map((schedule, index) => ({
+      ...scheduleInput(),
+      scheduleId: `schedule-${index + 1}`,
+      enabled: true,
+      adminId: 'admin-1',
+      createdBy: 'pastor',
+      createdAt: '2030-01-01T00:00:00.000Z',
+      updatedAt: '2030-01-01T00:00:00.000Z',
+      ...schedule
+    }))
+  }));
+  return new SessionScheduler(dir);
+}
+
+describe('SessionScheduler occurrences', () => {
+  it('finds the next weekly occurrence', () => {
+    const scheduler = loadScheduler({});
+    const schedule = scheduler.getSchedule('schedule-1')!;
+
+    // Wednesday noon → the following Sunday
+    const next = scheduler.getNextOccurrence(schedule, new Date(2030, 0, 2, 12, 0));
+
+    assert.deepEqual(next, {
+      startsAt: new Date(2030, 0, 6, 9, 30).toISOString(),
+      endsAt: new Date(2030, 0, 6, 11, 30).toISOString()
+    });
+  });
+
+  it('returns the occurrence that is in progress', () => {
+    const scheduler = loadScheduler({});
+    const schedule = scheduler.getSchedule('schedule-1')!;
+
+    const next = scheduler.getNextOccurrence(schedule, new Date(2030, 0, 6, 10, 0));
+
+    assert.equal(next?.startsAt, new Date(2030, 0, 6, 9, 30).toISOString());
+  });
+
+  it('skips the occurrence that was already started', () => {
+    const scheduler = loadScheduler({ lastOccurrenceStart: new Date(2030, 0, 6, 9, 30).toISOString() });
+    const schedule = scheduler.getSchedule('schedule-1')!;
+
+    const next = scheduler.getNextOccurrence(schedule, new Date(2030, 0, 6, 10, 0));
+
+    assert.equal(next?.startsAt, new Date(2030, 0, 13, 9, 30).toISOString());
+  });
+
+  it('includes an occurrence that began the day before and runs past midnight', () => {
+    const scheduler = loadScheduler({ daysOfWeek: [6], startTime: '23:00', durationMinutes: 120 });
+
+    // Sunday 00:30, during Saturday night's occurrence
+    const upcoming = scheduler.getUpcomingSessions(HOUR_MS, new Date(2030, 0, 6, 0, 30));
+
+    assert.equal(upcoming.length, 1);
+    assert.equal(upcoming[0].startsAt, new Date(2030, 0, 5, 23, 0).toISOString());
+    assert.equal(upcoming[0].endsAt, new Date(2030, 0, 6, 1, 0).toISOString());
+    assert.equal(upcoming[0].live, false);
+  });
+
+  it('keeps the wall-clock start time across a daylight saving change', () => {
+    const scheduler = loadScheduler({});
+    const schedule = scheduler.getSchedule('schedule-1')!;
+
+    // Clocks go forward on Sunday 10 March 2030
+    const before = scheduler.getNextOccurrence(schedule, new Date(2030, 2, 2, 12, 0));
+    const afterChange = scheduler.getNextOccurrence(schedule, new Date(2030, 2, 9, 12, 0));
+
+    assert.equal(before?.startsAt, '2030-03-03T14:30:00.000Z');
+    assert.equal(afterChange?.startsAt, '2030-03-10T13:30:00.000Z');
+  });
+
+  it('lists a one-off schedule only on its date', () => {
+    const scheduler = loadScheduler({ recurrence: 'once', daysOfWeek: undefined, date: '2030-12-24', startTime: '18:00' });
+    const schedule = scheduler.getSchedule('schedule-1')!;
+
+    assert.equal(scheduler.getNextOccurrence(schedule, new Date(2030, 11, 20))?.startsAt,
+      new Date(2030, 11, 24, 18, 0).toISOString());
+    assert.equal(scheduler.getNextOccurrence(schedule, new Date(2030, 11, 25)), null);
+  });
+
+  it('lists running and upcoming sessions soonest first', () => {
+    const scheduler = loadScheduler(
+      { sessionId: 'CHURCH-2030-002', name: 'Wednesday Prayer', daysOfWeek: [3], startTime: '19:00', durationMinutes: 60 },
+      {
+        activeOccurrence: {
+          startsAt: new Date(2030, 0, 6, 9, 30).toISOString(),
+          endsAt: new Date(2030, 0, 6, 11, 30).toISOString()
+        },
+        lastOccurrenceStart: new Date(2030, 0, 6, 9, 30).toISOString()
+      }
+    );
+
+    const upcoming = scheduler.getUpcomingSessions(7 * 24 * HOUR_MS, new Date(2030, 0, 6, 10, 0));
+
+    assert.deepEqual(upcoming.map(session => [session.name, session.live]), [
+      ['Sunday Service', true],
+      ['Wednesday Prayer', false],
+      ['Sunday Service', false]
+    ]);
+  });
+
+  it('ignores disabled schedules', () => {
+    const scheduler = loadScheduler({ enabled: false });
+    const schedule = scheduler.getSchedule('schedule-1')!;
+
+    assert.equal(scheduler.getNextOccurrence(schedule, new Date(2030, 0, 2)), null);
+    assert.deepEqual(scheduler.getUpcomingSessions(7 * 24 * HOUR_MS, new Date(2030, 0, 2)), []);
+  });
+});
+
+describe('SessionScheduler validation', () => {
+  let scheduler: SessionScheduler;
+
+  beforeEach(() => {
+    scheduler = loadScheduler();
+  });
+
+  // One-off dates in the past, so creating a schedule never starts a session
+  const pastOnce = { recurrence: 'once' as const, daysOfWeek: undefined, date: '2020-01-05' };
+
+  it('accepts a valid schedule', () => {
+    const result = scheduler.createSchedule(scheduleInput(pastOnce), 'admin-1', 'pastor');
+
+    assert.equal(result.error, undefined);
+    assert.equal(result.schedule?.name, 'Sunday Service');
+  });
+
+  it('rejects impossible dates and times', () => {
+    assert.match(scheduler.createSchedule(scheduleInput({ ...pastOnce, date: '2030-02-30' }), 'admin-1', 'pastor').error!, /date/);
+    assert.match(scheduler.createSchedule(scheduleInput({ ...pastOnce, startTime: '24:00' }), 'admin-1', 'pastor').error!, /startTime/);
+    assert.match(scheduler.createSchedule(scheduleInput({ daysOfWeek: [7] }), 'admin-1', 'pastor').error!, /daysOfWeek/);
+    assert.match(scheduler.createSchedule(scheduleInput({ ...pastOnce, durationMinutes: 0 }), 'admin-1', 'pastor').error!, /durationMinutes/);
+  });
+
+  it('rejects a session ID already used by another schedule', () => {
+    scheduler.createSchedule(scheduleInput(pastOnce), 'admin-1', 'pastor');
+
+    const result = scheduler.createSchedule(scheduleInput({ ...pastOnce, name: 'Evening' }), 'admin-2', 'elder');
+
+    assert.match(result.error!, /already used by schedule "Sunday Service"/);
+  });
+});
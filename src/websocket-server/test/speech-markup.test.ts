@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PronunciationEntry } from '../../shared/types';
+import { applyAliases, buildSsml, escapeSsml, needsSsml, speechVariant, SpeechOptions } from '../src/speech-markup';
+
+const lexicon: PronunciationEntry[] = [
+  { language: 'en', term: 'Yahweh', phoneme: 'ˈjɑːweɪ' },
+  { language: 'en', term: 'St.', alias: 'Saint' },
+  { language: 'en', term: 'St. Paul', alias: 'Saint Paul' },
+  { language: 'en', term: 'AT&T', alias: 'A T and T' }
+];
+
+function options(overrides: Partial<SpeechOptions> = {}): SpeechOptions {
+  return { rate: 100, pitch: 0, lexicon: [], ...overrides };
+}
+
+describe('escapeSsml', () => {
+  it('escapes XML markup characters', () => {
+    assert.equal(escapeSsml(`Tom & Jerry <said> "hi" it's`), 'Tom &amp; Jerry &lt;said&gt; &quot;hi&quot; it&apos;s');
+  });
+
+  it('drops characters XML does not allow', () => {
+    assert.equal(escapeSsml('a\u0000b\u0007c\u001Fd\uFFFE'), 'abcd');
+  });
+
+  it('keeps tabs, line breaks and non-Latin text', () => {
+    assert.equal(escapeSsml('a\tb\nc\r한국어'), 'a\tb\nc\r한국어');
+  });
+});
+
+describe('buildSsml', () => {
+  it('wraps plain text in <speak> and escapes it', () => {
+    assert.equal(buildSsml('Faith & hope <love>', options(), true), '<speak>Faith &amp; hope &lt;love&gt;</speak>');
+  });
+
+  it('adds rate and pitch as prosody', () => {
+    assert.equal(buildSsml('Amen', options({ rate: 90, pitch: -10 }), true),
+      '<speak><prosody rate="90%" pitch="-10%">Amen</prosody></speak>');
+    assert.equal(buildSsml('Amen', options({ pitch: 5 }), true),
+      '<speak><prosody pitch="+5%">Amen</prosody></speak>');
+  });
+
+  it('leaves pitch out for voices that do not support it', () => {
+    assert.equal(buildSsml('Amen', options({ pitch: 5 }), false), '<speak>Amen</speak>');
+    assert.equal(buildSsml('Amen', options({ rate: 120, pitch: 5 }), false),
+      '<speak><prosody rate="120%">Amen</prosody></speak>');
+  });
+
+  it('marks lexicon terms as phonemes and aliases, longest term first', () => {
+    assert.equal(buildSsml('Praise Yahweh, said St. Paul.', options({ lexicon }), true),
+      '<speak>Praise <phoneme alphabet="ipa" ph="ˈjɑːweɪ">Yahweh</phoneme>, said ' +
+      '<sub alias="Saint Paul">St. Paul</sub>.</speak>');
+  });
+
+  it('escapes lexicon terms and aliases', () => {
+    assert.equal(buildSsml('Call AT&T now', options({ lexicon }), true),
+      '<speak>Call <sub alias="A T and T">AT&amp;T</sub> now</speak>');
+    assert.equal(buildSsml('x', options({ lexicon: [{ language: 'en', term: 'x', alias: '"><break/>' }] }), true),
+      '<speak><sub alias="&quot;&gt;&lt;break/&gt;">x</sub></speak>');
+  });
+
+  it('matches lexicon terms as whole words, ignoring case', () => {
+    assert.equal(buildSsml('yahweh Yahwehs', options({ lexicon }), true),
+      '<speak><phoneme alphabet="ipa" ph="ˈjɑːweɪ">yahweh</phoneme> Yahwehs</speak>');
+  });
+});
+
+describe('needsSsml', () => {
+  it('is false for plain delivery without lexicon terms', () => {
+    assert.equal(needsSsml('Good morning', options({ lexicon })), false);
+  });
+
+  it('is true when rate, pitch or a lexicon term applies', () => {
+    assert.equal(needsSsml('Good morning', options({ rate: 90 })), true);
+    assert.equal(needsSsml('Good morning', options({ pitch: 10 })), true);
+    assert.equal(needsSsml('Praise Yahweh', options({ lexicon })), true);
+  });
+});
+
+describe('speechVariant', () => {
+  it('is empty for plainly spoken text, so older cached clips stay valid', () => {
+    assert.equal(speechVariant('Good morning'), '');
+    assert.equal(speechVariant('Good morning', options({ lexicon })), '');
+  });
+
+  it('differs by rate, voice and the pronunciations that apply', () => {
+    const variants = [
+      speechVariant('Praise Yahweh', options({ rate: 90 })),
+      speechVariant('Praise Yahweh', options({ rate: 110 })),
+      speechVariant('Praise Yahweh', options({ voiceId: 'Lupe' })),
+      speechVariant('Praise Yahweh', options({ lexicon }))
+    ];
+    assert.equal(new Set(variants).size, variants.length);
+  });
+});
+
+describe('applyAliases', () => {
+  it('replaces aliased terms and leaves phoneme entries as written', () => {
+    assert.equal(applyAliases('Yahweh spoke to St. Paul and St. Peter', lexicon),
+      'Yahweh spoke to Saint Paul and Saint Peter');
+  });
+
+  it('returns text without lexicon terms unchanged', () => {
+    assert.equal(applyAliases('Good morning', lexicon), 'Good morning');
+  });
+});
@@ -0,0 +1,87 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BroadcastSegment } from '../../shared/types';
+import { TranscriptArchive } from '../src/transcript-archive';
+
+const dirs: string[] = [];
+
+after(() => {
+  dirs.forEach(dir => rmSync(dir, { recursive: true, force: true }));
+});
+
+function createArchive(): { archive: TranscriptArchive; dir: string } {
+  const dir = mkdtempSync(join(tmpdir(), 'transcripts-'));
+  dirs.push(dir);
+  return { archive: new TranscriptArchive(dir), dir };
+}
+
+function segment(sessionId: string, segmentId: string, overrides: Partial<BroadcastSegment> = {}): BroadcastSegment {
+  return {
+    segmentId,
+    sessionId,
+    original: 'Bom dia a todos.',
+    sourceLanguage: 'pt',
+    translations: { en: 'Good morning, everyone.', es: 'Buenos días a todos.' },
+    timestamp: '2030-01-06T14:30:05.000Z',
+    ...overrides
+  };
+}
+
+describe('TranscriptArchive', () => {
+  const startedAt = new Date('2030-01-06T14:30:00.000Z');
+
+  it('records the owning admin and lists only that admin\'s archives', () => {
+    const { archive } = createArchive();
+    archive.startSession('CHURCH-2030-001', startedAt, 'admin-1');
+    archive.addSegment(segment('CHURCH-2030-001', 'a'), startedAt, 'admin-1');
+    archive.startSession('CHURCH-2030-002', startedAt, 'admin-2');
+
+    assert.deepEqual(archive.listTranscripts('admin-1').map(summary => summary.archiveId), ['CHURCH-2030-001']);
+    assert.deepEqual(archive.listTranscripts('admin-2').map(summary => summary.archiveId), ['CHURCH-2030-002']);
+    assert.equal(archive.getTranscript('CHURCH-2030-001')?.adminId, 'admin-1');
+  });
+
+  it('summarizes open and ended archives alike', () => {
+    const { archive } = createArchive();
+    archive.startSession('CHURCH-2030-001', startedAt, 'admin-1');
+    archive.addSegment(segment('CHURCH-2030-001', 'a'), startedAt, 'admin-1');
+    archive.addSegment(segment('CHURCH-2030-001', 'b', { translations: { fr: 'Amen.' } }), startedAt, 'admin-1');
+
+    const open = archive.listTranscripts('admin-1')[0];
+    archive.endSession('CHURCH-2030-001');
+    const ended = archive.listTranscripts('admin-1')[0];
+
+    const { endedAt, ...summary } = ended;
+    assert.equal(open.endedAt, undefined);
+    assert.ok(endedAt);
+    assert.deepEqual(summary, open);
+    assert.equal(ended.segmentCount, 2);
+    assert.deepEqual(ended.languages, ['en', 'es', 'fr']);
+  });
+
+  it('does not list archives without a recorded owner', () => {
+    const { archive, dir } = createArchive();
+    appendFileSync(join(dir, 'CHURCH-2030-009.jsonl'),
+      JSON.stringify({ type: 'start', sessionId: 'CHURCH-2030-009', startedAt: startedAt.toISOString() }) + '\n');
+
+    assert.deepEqual(archive.listTranscripts('admin-1'), []);
+    assert.equal(archive.getTranscript('CHURCH-2030-009')?.adminId, undefined);
+  });
+
+  it('keeps the earlier archive of a reused session ID under its start time', () => {
+    const { archive } = createArchive();
+    archive.startSession('CHURCH-2030-001', startedAt, 'admin-1');
+    archive.endSession('CHURCH-2030-001');
+    archive.startSession('CHURCH-2030-001', new Date('2030-01-13T14:30:00.000Z'), 'admin-2');
+
+    const archiveIds = [...archive.listTranscripts('admin-1'), ...archive.listTranscripts('admin-2')]
+      .map(summary => summary.archiveId);
+    assert.equal(archiveIds.length, 2);
+    assert.ok(archiveIds.includes('CHURCH-2030-001'));
+    assert.ok(archiveIds.some(archiveId => /^CHURCH-2030-001_\d{8}-\d{6}$/.test(archiveId)));
+    assert.equal(archive.listTranscripts('admin-2')[0].archiveId, 'CHURCH-2030-001');
+  });
+});
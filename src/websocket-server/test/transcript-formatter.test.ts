@@ -0,0 +1,131 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SessionTranscript, TranscriptSegment } from '../../shared/types';
+import { TranscriptArchive } from '../src/transcript-archive';
+import { formatTranscript, isTranscriptFormat } from '../src/transcript-formatter';
+
+const dirs: string[] = [];
+
+after(() => {
+  dirs.forEach(dir => rmSync(dir, { recursive: true, force: true }));
+});
+
+function transcript(segments: TranscriptSegment[]): SessionTranscript {
+  return {
+    archiveId: 'CHURCH-2030-001',
+    sessionId: 'CHURCH-2030-001',
+    startedAt: '2030-01-06T14:30:00.000Z',
+    segmentCount: segments.length,
+    languages: ['en', 'es'],
+    segments
+  };
+}
+
+const SERVICE = transcript([
+  { segmentId: 'a', offsetMs: 5000, original: 'Bom dia a todos.', translations: { en: 'Good morning, everyone.' } },
+  { segmentId: 'b', offsetMs: 6000, original: 'Amém.', translations: { es: 'Amén.' } },
+  {
+    segmentId: 'c',
+    offsetMs: 3723004,
+    original: 'Vamos orar.',
+    translations: { en: 'Let us pray.', es: 'Oremos.' },
+    speaker: { id: '0', name: 'Pastor' }
+  }
+]);
+
+describe('formatTranscript', () => {
+  it('renders SRT cues numbered in order, skipping segments without the language', () => {
+    assert.equal(formatTranscript(SERVICE, 'srt', 'en'), [
+      '1',
+      '00:00:05,000 --> 00:00:06,500',
+      'Good morning, everyone.',
+      '',
+      '2',
+      '01:02:03,004 --> 01:02:04,504',
+      'Pastor: Let us pray.',
+      ''
+    ].join('\n'));
+  });
+
+  it('renders WebVTT cues identified by segment, with voice tags for speakers', () => {
+    assert.equal(formatTranscript(SERVICE, 'vtt', 'en'), [
+      'WEBVTT',
+      '',
+      'a',
+      '00:00:05.000 --> 00:00:06.500',
+      'Good morning, everyone.',
+      '',
+      'c',
+      '01:02:03.004 --> 01:02:04.504',
+      '<v Pastor>Let us pray.',
+      ''
+    ].join('\n'));
+  });
+
+  it('ends a cue when the next one starts, within the reading-time limits', () => {
+    const srt = formatTranscript(transcript([
+      { segmentId: 'a', offsetMs: 0, original: 'x'.repeat(200), translations: {} },
+      { segmentId: 'b', offsetMs: 60000, original: 'Amém.', translations: {} },
+      { segmentId: 'c', offsetMs: 61000, original: 'Aleluia.', translations: {} }
+    ]), 'srt', 'original');
+
+    assert.match(srt, /00:00:00,000 --> 00:00:07,000/);
+    assert.match(srt, /00:01:00,000 --> 00:01:01,000/);
+    assert.match(srt, /00:01:01,000 --> 00:01:02,500/);
+  });
+
+  it('escapes cue text for WebVTT', () => {
+    const vtt = formatTranscript(transcript([
+      { segmentId: 'a', offsetMs: 0, original: 'Salmo 23 --> <b>Senhor</b> & pastor', translations: {} }
+    ]), 'vtt', 'original');
+
+    assert.match(vtt, /Salmo 23 --&gt; &lt;b&gt;Senhor&lt;\/b&gt; &amp; pastor/);
+  });
+
+  it('starts a paragraph with a label whenever the speaker changes in plain text', () => {
+    assert.equal(formatTranscript(SERVICE, 'txt', 'original'), [
+      'Bom dia a todos.',
+      'Amém.',
+      '',
+      'Pastor:',
+      'Vamos orar.',
+      ''
+    ].join('\n'));
+  });
+
+  it('returns the whole archive as JSON when no language is given', () => {
+    assert.deepEqual(JSON.parse(formatTranscript(SERVICE, 'json')), SERVICE);
+    assert.equal(isTranscriptFormat('vtt'), true);
+    assert.equal(isTranscriptFormat('docx'), false);
+  });
+
+  it('uses the corrected text of an archived segment in place of the original cue', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'transcripts-'));
+    dirs.push(dir);
+    const archive = new TranscriptArchive(dir);
+    const startedAt = new Date('2030-01-06T14:30:00.000Z');
+    const broadcast = (segmentId: string, seconds: number, en: string) => ({
+      segmentId,
+      sessionId: 'CHURCH-2030-001',
+      original: 'Texto',
+      sourceLanguage: 'pt' as const,
+      translations: { en },
+      timestamp: new Date(startedAt.getTime() + seconds * 1000).toISOString()
+    });
+
+    archive.startSession('CHURCH-2030-001', startedAt, 'admin-1');
+    archive.addSegment(broadcast('a', 5, 'Good morning, every one.'), startedAt, 'admin-1');
+    archive.addSegment(broadcast('b', 10, 'Let us pray.'), startedAt, 'admin-1');
+    archive.recordCorrection({ ...broadcast('a', 5, 'Good morning, everyone.'), correctedAt: '2030-01-06T14:31:00.000Z' });
+
+    const json = JSON.parse(formatTranscript(archive.getTranscript('CHURCH-2030-001')!, 'json', 'en'));
+
+    assert.deepEqual(json.segments.map((cue: any) => [cue.segmentId, cue.text, cue.corrected]), [
+      ['a', 'Good morning, everyone.', true],
+      ['b', 'Let us pray.', false]
+    ]);
+  });
+});
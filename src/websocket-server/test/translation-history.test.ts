@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TranslationHistory } from '../src/translation-history';
+import { TargetLanguage, TranslationHistoryEntry } from '../../shared/types';
+
+const SESSION = 'CHURCH-2025-001';
+
+function entry(sequence: number, language: TargetLanguage = 'es'): TranslationHistoryEntry {
+  return {
+    sequence,
+    segmentId: `segment-${sequence}`,
+    original: `Line ${sequence}`,
+    text: `Línea ${sequence}`,
+    language,
+    timestamp: Date.now(),
+    audioUrl: null,
+    audioMetadata: null,
+    ttsAvailable: false
+  };
+}
+
+/**
+ * Deliver lines the way the router does: reserve a sequence, then record it
+ */
+function deliver(history: TranslationHistory, count: number, language: TargetLanguage = 'es'): void {
+  for (let i = 0; i < count; i++) {
+    history.record(SESSION, entry(history.nextSequence(SESSION), language));
+  }
+}
+
+describe('TranslationHistory sequences', () => {
+  it('numbers deliveries per session starting at 1', () => {
+    const history = new TranslationHistory();
+
+    assert.equal(history.getCurrentSequence(SESSION), 0);
+    assert.equal(history.nextSequence(SESSION), 1);
+    assert.equal(history.nextSequence(SESSION), 2);
+    assert.equal(history.nextSequence('CHURCH-2025-002'), 1);
+    assert.equal(history.getCurrentSequence(SESSION), 2);
+  });
+
+  it('keeps one epoch per numbering and starts a new one when the session is cleared', () => {
+    const history = new TranslationHistory();
+    const epoch = history.getEpoch(SESSION);
+
+    assert.equal(history.getEpoch(SESSION), epoch);
+    assert.notEqual(history.getEpoch('CHURCH-2025-002'), epoch);
+
+    deliver(history, 3);
+    history.clearSession(SESSION);
+
+    assert.notEqual(history.getEpoch(SESSION), epoch);
+    assert.equal(history.nextSequence(SESSION), 1);
+    assert.deepEqual(history.getSince(SESSION, 'es', 0).entries, []);
+  });
+});
+
+describe('TranslationHistory retention', () => {
+  it('retains at most 500 lines per language whatever the configuration', () => {
+    const history = new TranslationHistory({ maxEntries: 1000, retainEntries: 1000 });
+    deliver(history, 520);
+
+    const retained = history.getSince(SESSION, 'es', 0).entries;
+    assert.equal(retained.length, 500);
+    assert.equal(retained[0].sequence, 21);
+    assert.equal(history.getHistory(SESSION, 'es').length, 500);
+  });
+
+  it('keeps languages apart', () => {
+    const history = new TranslationHistory();
+    for (let i = 0; i < 3; i++) {
+      const sequence = history.nextSequence(SESSION);
+      history.record(SESSION, entry(sequence, 'es'));
+      history.record(SESSION, entry(sequence, 'fr'));
+    }
+    history.record(SESSION, entry(history.nextSequence(SESSION), 'fr'));
+
+    assert.equal(history.getSince(SESSION, 'es', 0).entries.length, 3);
+    assert.equal(history.getSince(SESSION, 'fr', 0).entries.length, 4);
+  });
+});
+
+describe('TranslationHistory.getSince', () => {
+  it('returns the lines after a sequence, oldest first', () => {
+    const history = new TranslationHistory();
+    deliver(history, 5);
+
+    const replay = history.getSince(SESSION, 'es', 3);
+
+    assert.deepEqual(replay.entries.map(item => item.sequence), [4, 5]);
+    assert.equal(replay.complete, true);
+  });
+
+  it('returns nothing for a client that is up to date', () => {
+    const history = new TranslationHistory();
+    deliver(history, 5);
+
+    assert.deepEqual(history.getSince(SESSION, 'es', 5), { entries: [], complete: true });
+  });
+
+  it('reports an incomplete replay when missed lines were already dropped', () => {
+    const history = new TranslationHistory({ maxEntries: 2, retainEntries: 3 });
+    deliver(history, 6);
+
+    const replay = history.getSince(SESSION, 'es', 1);
+
+    assert.deepEqual(replay.entries.map(item => item.sequence), [4, 5, 6]);
+    assert.equal(replay.complete, false);
+  });
+
+  it('treats a replay as complete when the first missed line is still retained', () => {
+    const history = new TranslationHistory({ maxEntries: 2, retainEntries: 3 });
+    deliver(history, 6);
+
+    assert.equal(history.getSince(SESSION, 'es', 3).complete, true);
+  });
+});
+
+describe('TranslationHistory.countSince', () => {
+  it('counts the retained lines of a language after a sequence', () => {
+    const history = new TranslationHistory();
+    deliver(history, 4, 'es');
+    deliver(history, 2, 'fr');
+
+    assert.equal(history.countSince(SESSION, 'es', 2), 2);
+    assert.equal(history.countSince(SESSION, 'fr', 2), 2);
+    assert.equal(history.countSince(SESSION, 'fr', 6), 0);
+    assert.equal(history.countSince(SESSION, 'de', 0), 0);
+  });
+});
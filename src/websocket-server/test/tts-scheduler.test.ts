@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TTSScheduler } from '../src/tts-scheduler';
+
+/**
+ * A promise with its resolve and reject functions, to finish tasks from the test
+ */
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('TTSScheduler.splitIntoChunks', () => {
+  const scheduler = new TTSScheduler({ maxChunkLength: 60 });
+
+  it('keeps a short text as one chunk', () => {
+    assert.deepEqual(scheduler.splitIntoChunks('  Welcome to our service.  '), ['Welcome to our service.']);
+  });
+
+  it('returns no chunks for empty text', () => {
+    assert.deepEqual(scheduler.splitIntoChunks('   '), []);
+  });
+
+  it('joins whole sentences while they fit', () => {
+    const text = 'Welcome, everyone. Please stand. Let us pray together! Who is ready? We begin now.';
+
+    assert.deepEqual(scheduler.splitIntoChunks(text), [
+      'Welcome, everyone. Please stand. Let us pray together!',
+      'Who is ready? We begin now.'
+    ]);
+  });
+
+  it('gives a sentence longer than the limit a chunk of its own', () => {
+    const long = 'This single sentence goes on and on well past the chunk length that was configured.';
+    const chunks = scheduler.splitIntoChunks(`Amen. ${long} Amen.`);
+
+    assert.deepEqual(chunks, ['Amen.', long, 'Amen.']);
+  });
+
+  it('keeps closing quotes with their sentence', () => {
+    const text = 'He said, "Follow me." They left their nets at once. And they followed him that same day.';
+
+    assert.deepEqual(scheduler.splitIntoChunks(text), [
+      'He said, "Follow me." They left their nets at once.',
+      'And they followed him that same day.'
+    ]);
+  });
+
+  it('splits at CJK sentence ends without spaces', () => {
+    const sentence = '欢迎大家来到今天的礼拜，我们一起敬拜赞美主，感谢主的恩典与慈爱。';
+    const chunks = scheduler.splitIntoChunks(sentence.repeat(3));
+
+    assert.deepEqual(chunks, [sentence, sentence, sentence]);
+  });
+
+  it('never loses text', () => {
+    const text = 'One. Two! Three? Four… Five. '.repeat(10).trim();
+    const chunks = scheduler.splitIntoChunks(text);
+
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every(chunk => chunk.length <= 60));
+    assert.equal(chunks.join(' '), text);
+  });
+});
+
+describe('TTSScheduler.run', () => {
+  it('runs at most maxConcurrent tasks at once', async () => {
+    const scheduler = new TTSScheduler({ maxConcurrent: 2 });
+    const gates = [deferred(), deferred(), deferred(), deferred()];
+    let running = 0;
+    let peak = 0;
+
+    const results = gates.map((gate, index) => scheduler.run(async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await gate.promise;
+      running--;
+      return index;
+    }));
+
+    await tick();
+    assert.equal(running, 2);
+
+    gates.forEach(gate => gate.resolve());
+    assert.deepEqual(await Promise.all(results), [0, 1, 2, 3]);
+    assert.equal(peak, 2);
+  });
+
+  it('starts tasks in the order they were scheduled', async () => {
+    const scheduler = new TTSScheduler({ maxConcurrent: 1 });
+    const started: number[] = [];
+
+    await Promise.all([0, 1, 2, 3].map(index => scheduler.run(async () => {
+      started.push(index);
+      await tick();
+    })));
+
+    assert.deepEqual(started, [0, 1, 2, 3]);
+  });
+
+  it('passes a failure to its caller and frees the slot', async () => {
+    const scheduler = new TTSScheduler({ maxConcurrent: 1 });
+
+    const failing = scheduler.run(async () => {
+      throw new Error('Polly throttled');
+    });
+    const throwing = scheduler.run(() => {
+      throw new Error('Engine missing');
+    });
+    const next = scheduler.run(async () => 'spoken');
+
+    await assert.rejects(failing, /Polly throttled/);
+    await assert.rejects(throwing, /Engine missing/);
+    assert.equal(await next, 'spoken');
+  });
+});